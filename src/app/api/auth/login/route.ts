@@ -60,6 +60,7 @@ export async function POST(request: NextRequest) {
         id: user.id,
         email: user.email,
         name: user.name,
+        timezone: user.timezone,
         created_at: user.created_at
       }
     } as AuthResponse);
@@ -3,6 +3,7 @@ import { getDatabase } from '@/lib/db';
 import { AUTH_COOKIE_MAX_AGE, AUTH_COOKIE_NAME, AUTH_COOKIE_SAME_SITE, AUTH_COOKIE_SECURE, generateToken } from '@/lib/auth';
 import { RegisterRequest, AuthResponse } from '@/lib/types';
 import { consumeRateLimit, getClientIp } from '@/lib/rate-limit';
+import { DEFAULT_TIME_ZONE, isValidTimeZone } from '@/lib/dates';
 
 export async function POST(request: NextRequest) {
   try {
@@ -16,7 +17,7 @@ export async function POST(request: NextRequest) {
     }
 
     const body: RegisterRequest = await request.json();
-    const { email, password, name } = body;
+    const { email, password, name, timezone } = body;
 
     // Validation
     if (!email || !password || !name) {
@@ -48,7 +49,8 @@ export async function POST(request: NextRequest) {
     // Hash password and create user
     const { hashPassword } = await import('@/lib/auth');
     const passwordHash = await hashPassword(password);
-    const userId = await db.createUser(email, passwordHash, name);
+    const userTimeZone = isValidTimeZone(timezone) ? timezone : DEFAULT_TIME_ZONE;
+    const userId = await db.createUser(email, passwordHash, name, userTimeZone);
 
     // Create default company
     await db.createCompany('Mi empresa', 50.0, userId);
@@ -65,7 +67,8 @@ export async function POST(request: NextRequest) {
       user: {
         id: userId,
         email: email,
-        name: name
+        name: name,
+        timezone: userTimeZone
       }
     } as AuthResponse);
 
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getDatabase, initializeDatabase } from '@/lib/db';
 import { getUserIdFromRequest } from '@/lib/auth';
 import { ApiResponse, UpdateUserBillingInfoRequest } from '@/lib/types';
+import { validateTaxRate } from '@/lib/invoice-taxes';
 
 // GET - Obtener datos de facturación del usuario
 export async function GET(request: NextRequest) {
@@ -54,6 +55,20 @@ export async function POST(request: NextRequest) {
       } as ApiResponse, { status: 400 });
     }
 
+    // IVA y retención en la fuente en %, ReteICA en por mil
+    if (!validateTaxRate(body.iva_rate, 100) || !validateTaxRate(body.retefuente_rate, 100)) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'Las tarifas de IVA y retención en la fuente deben estar entre 0 y 100%'
+      } as ApiResponse, { status: 400 });
+    }
+    if (!validateTaxRate(body.reteica_rate, 1000)) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'La tarifa de ReteICA debe estar entre 0 y 1000 por mil'
+      } as ApiResponse, { status: 400 });
+    }
+
     await initializeDatabase();
     const db = getDatabase();
 
@@ -68,7 +83,12 @@ export async function POST(request: NextRequest) {
       account_type: body.account_type,
       account_number: body.account_number,
       signature_image: body.signature_image,
-      declaration: body.declaration
+      declaration: body.declaration,
+      iva_responsible: body.iva_responsible,
+      iva_rate: body.iva_rate,
+      retefuente_rate: body.retefuente_rate,
+      reteica_rate: body.reteica_rate,
+      social_security_note: body.social_security_note
     });
 
     const updated = await db.getUserBillingInfo(userId);
@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDatabase, initializeDatabase } from '@/lib/db';
+import { getUserIdFromRequest } from '@/lib/auth';
+import { ApiResponse } from '@/lib/types';
+import {
+  calculateBillingCycleStats,
+  getBillingCyclesInRange,
+  groupBillingCyclesByMonth,
+  normalizeBillingCycleDay
+} from '@/lib/billing-cycles';
+import { createRateResolver } from '@/lib/rates';
+import { addMonths, isDateString, startOfMonth, todayInTimeZone } from '@/lib/dates';
+
+const DEFAULT_RANGE_MONTHS = 12;
+const MAX_BILLING_CYCLES = 60;
+
+// GET - Obtener estadísticas por ciclo de facturación de la empresa
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ companyId: string }> }
+) {
+  try {
+    const userId = getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'No autorizado'
+      } as ApiResponse, { status: 401 });
+    }
+
+    const { companyId } = await params;
+    const companyIdNum = parseInt(companyId);
+
+    if (isNaN(companyIdNum)) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'ID de empresa inválido'
+      } as ApiResponse, { status: 400 });
+    }
+
+    await initializeDatabase();
+    const db = getDatabase();
+
+    // Por defecto: los últimos DEFAULT_RANGE_MONTHS meses hasta hoy, en la zona horaria del usuario
+    const { searchParams } = new URL(request.url);
+    const today = todayInTimeZone(await db.getUserTimeZone(userId));
+    const startDate = searchParams.get('startDate') ?? addMonths(startOfMonth(today), -(DEFAULT_RANGE_MONTHS - 1));
+    const endDate = searchParams.get('endDate') ?? today;
+
+    if (!isDateString(startDate) || !isDateString(endDate)) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'Formato de fecha inválido, usa YYYY-MM-DD'
+      } as ApiResponse, { status: 400 });
+    }
+
+    if (startDate > endDate) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'La fecha inicial debe ser menor o igual que la final'
+      } as ApiResponse, { status: 400 });
+    }
+
+    // Verificar que la empresa pertenece al usuario
+    const company = await db.getCompanyById(companyIdNum);
+    if (!company || company.user_id !== userId) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'Empresa no encontrada'
+      } as ApiResponse, { status: 404 });
+    }
+
+    const billingCycleDay = normalizeBillingCycleDay(company.billing_cycle_day);
+    const cycles = getBillingCyclesInRange(startDate, endDate, billingCycleDay);
+
+    if (cycles.length > MAX_BILLING_CYCLES) {
+      return NextResponse.json({
+        status: 'error',
+        message: `El rango no puede cubrir más de ${MAX_BILLING_CYCLES} ciclos de facturación`
+      } as ApiResponse, { status: 400 });
+    }
+
+    // Los ciclos se devuelven completos aunque el rango pedido los corte
+    const entries = await db.getEntriesByDateRange(companyIdNum, cycles[0].start, cycles[cycles.length - 1].end);
+    const resolveRate = createRateResolver(await db.getCompanyRates(companyIdNum), company.hourly_rate || 0);
+    const billingCycles = calculateBillingCycleStats(entries, cycles, resolveRate);
+    const monthlyEarnings = groupBillingCyclesByMonth(billingCycles);
+
+    return NextResponse.json({
+      status: 'ok',
+      message: 'Ciclos de facturación obtenidos',
+      data: {
+        company: {
+          id: company.id,
+          name: company.name,
+          billing_cycle_day: billingCycleDay,
+          hourly_rate: company.hourly_rate
+        },
+        billing_cycles: billingCycles,
+        monthly_earnings: monthlyEarnings
+      }
+    } as ApiResponse);
+  } catch (error) {
+    console.error('Error fetching billing cycles:', error);
+    return NextResponse.json({
+      status: 'error',
+      message: 'Error interno del servidor'
+    } as ApiResponse, { status: 500 });
+  }
+}
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getDatabase, initializeDatabase } from '@/lib/db';
 import { getUserIdFromRequest } from '@/lib/auth';
 import { ApiResponse, UpdateCompanyBillingInfoRequest } from '@/lib/types';
+import { validateTaxRate } from '@/lib/invoice-taxes';
 
 // GET - Obtener datos de facturación de la empresa
 export async function GET(
@@ -84,6 +85,19 @@ export async function POST(
 
     const body: Omit<UpdateCompanyBillingInfoRequest, 'company_id'> = await request.json();
 
+    if (!validateTaxRate(body.retefuente_rate, 100)) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'La tarifa de retención en la fuente debe estar entre 0 y 100%'
+      } as ApiResponse, { status: 400 });
+    }
+    if (!validateTaxRate(body.reteica_rate, 1000)) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'La tarifa de ReteICA debe estar entre 0 y 1000 por mil'
+      } as ApiResponse, { status: 400 });
+    }
+
     await initializeDatabase();
     const db = getDatabase();
 
@@ -103,7 +117,11 @@ export async function POST(
       city: body.city,
       contact_name: body.contact_name,
       contact_phone: body.contact_phone,
-      contact_email: body.contact_email
+      contact_email: body.contact_email,
+      applies_retefuente: body.applies_retefuente,
+      retefuente_rate: body.retefuente_rate,
+      applies_reteica: body.applies_reteica,
+      reteica_rate: body.reteica_rate
     });
 
     const updated = await db.getCompanyBillingInfo(companyIdNum);
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDatabase, initializeDatabase } from '@/lib/db';
+import { getUserIdFromRequest } from '@/lib/auth';
+import { ApiResponse } from '@/lib/types';
+import { todayInTimeZone } from '@/lib/dates';
+
+// DELETE - Eliminar una tarifa del historial. La tarifa base de la empresa no se puede eliminar.
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ companyId: string; rateId: string }> }
+) {
+  try {
+    const userId = getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'No autorizado'
+      } as ApiResponse, { status: 401 });
+    }
+
+    const { companyId, rateId } = await params;
+    const companyIdNum = parseInt(companyId);
+    const rateIdNum = parseInt(rateId);
+
+    if (isNaN(companyIdNum) || isNaN(rateIdNum)) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'ID inválido'
+      } as ApiResponse, { status: 400 });
+    }
+
+    await initializeDatabase();
+    const db = getDatabase();
+
+    const company = await db.getCompanyById(companyIdNum);
+    const rate = await db.getCompanyRateById(rateIdNum);
+    if (!company || company.user_id !== userId || !rate || rate.company_id !== companyIdNum) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'Tarifa no encontrada'
+      } as ApiResponse, { status: 404 });
+    }
+
+    if (rate.project_id === null) {
+      const companyRates = (await db.getCompanyRates(companyIdNum)).filter(r => r.project_id === null);
+      if (companyRates.length <= 1) {
+        return NextResponse.json({
+          status: 'error',
+          message: 'La empresa debe conservar al menos una tarifa general'
+        } as ApiResponse, { status: 400 });
+      }
+    }
+
+    await db.deleteCompanyRate(rateIdNum);
+    if (rate.project_id === null) {
+      await db.syncCompanyCurrentRate(companyIdNum, todayInTimeZone(await db.getUserTimeZone(userId)));
+    }
+
+    return NextResponse.json({
+      status: 'ok',
+      message: 'Tarifa eliminada'
+    } as ApiResponse);
+  } catch (error) {
+    console.error('Error deleting company rate:', error);
+    return NextResponse.json({
+      status: 'error',
+      message: 'Error interno del servidor'
+    } as ApiResponse, { status: 500 });
+  }
+}
@@ -0,0 +1,141 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDatabase, initializeDatabase } from '@/lib/db';
+import { getUserIdFromRequest } from '@/lib/auth';
+import { ApiResponse, CreateCompanyRateRequest } from '@/lib/types';
+import { isDateString, todayInTimeZone } from '@/lib/dates';
+
+// GET - Historial de tarifas de la empresa (generales y por proyecto)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ companyId: string }> }
+) {
+  try {
+    const userId = getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'No autorizado'
+      } as ApiResponse, { status: 401 });
+    }
+
+    const { companyId } = await params;
+    const companyIdNum = parseInt(companyId);
+
+    if (isNaN(companyIdNum)) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'ID de empresa inválido'
+      } as ApiResponse, { status: 400 });
+    }
+
+    await initializeDatabase();
+    const db = getDatabase();
+
+    const company = await db.getCompanyById(companyIdNum);
+    if (!company || company.user_id !== userId) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'Empresa no encontrada'
+      } as ApiResponse, { status: 404 });
+    }
+
+    const rates = await db.getCompanyRates(companyIdNum);
+
+    return NextResponse.json({
+      status: 'ok',
+      message: 'Historial de tarifas obtenido',
+      data: rates
+    } as ApiResponse);
+  } catch (error) {
+    console.error('Error fetching company rates:', error);
+    return NextResponse.json({
+      status: 'error',
+      message: 'Error interno del servidor'
+    } as ApiResponse, { status: 500 });
+  }
+}
+
+// POST - Registrar una tarifa desde una fecha (general o para un proyecto)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ companyId: string }> }
+) {
+  try {
+    const userId = getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'No autorizado'
+      } as ApiResponse, { status: 401 });
+    }
+
+    const { companyId } = await params;
+    const companyIdNum = parseInt(companyId);
+
+    if (isNaN(companyIdNum)) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'ID de empresa inválido'
+      } as ApiResponse, { status: 400 });
+    }
+
+    const body: CreateCompanyRateRequest = await request.json();
+
+    if (typeof body.hourly_rate !== 'number' || !Number.isFinite(body.hourly_rate) || body.hourly_rate < 0) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'La tarifa debe ser positiva'
+      } as ApiResponse, { status: 400 });
+    }
+
+    await initializeDatabase();
+    const db = getDatabase();
+
+    const today = todayInTimeZone(await db.getUserTimeZone(userId));
+    const effectiveFrom = body.effective_from || today;
+    if (!isDateString(effectiveFrom)) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'Formato de fecha inválido, usa YYYY-MM-DD'
+      } as ApiResponse, { status: 400 });
+    }
+
+    const company = await db.getCompanyById(companyIdNum);
+    if (!company || company.user_id !== userId) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'Empresa no encontrada'
+      } as ApiResponse, { status: 404 });
+    }
+
+    const projectId = body.project_id ?? null;
+    if (projectId !== null) {
+      const project = await db.getProjectById(projectId);
+      if (!project || project.company_id !== companyIdNum) {
+        return NextResponse.json({
+          status: 'error',
+          message: 'El proyecto no pertenece a la empresa'
+        } as ApiResponse, { status: 400 });
+      }
+    }
+
+    const rateId = await db.setCompanyRate(companyIdNum, projectId, body.hourly_rate, effectiveFrom);
+    if (projectId === null) {
+      await db.syncCompanyCurrentRate(companyIdNum, today);
+    }
+
+    const rate = await db.getCompanyRateById(rateId);
+
+    return NextResponse.json({
+      status: 'ok',
+      message: 'Tarifa registrada',
+      data: rate
+    } as ApiResponse, { status: 201 });
+  } catch (error) {
+    console.error('Error saving company rate:', error);
+    return NextResponse.json({
+      status: 'error',
+      message: 'Error interno del servidor'
+    } as ApiResponse, { status: 500 });
+  }
+}
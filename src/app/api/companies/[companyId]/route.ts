@@ -0,0 +1,174 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDatabase, initializeDatabase } from '@/lib/db';
+import { getUserIdFromRequest } from '@/lib/auth';
+import { ApiResponse, UpdateCompanyRequest } from '@/lib/types';
+import { isSupportedCurrency, SUPPORTED_CURRENCIES } from '@/lib/currency';
+import { isDateString, todayInTimeZone } from '@/lib/dates';
+
+// PUT - Actualizar nombre, tarifa, día de corte o moneda de la empresa
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ companyId: string }> }
+) {
+  try {
+    const userId = getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'No autorizado'
+      } as ApiResponse, { status: 401 });
+    }
+
+    const { companyId } = await params;
+    const companyIdNum = parseInt(companyId);
+
+    if (isNaN(companyIdNum)) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'ID de empresa inválido'
+      } as ApiResponse, { status: 400 });
+    }
+
+    const body: UpdateCompanyRequest = await request.json();
+
+    if (body.name !== undefined && (typeof body.name !== 'string' || !body.name.trim())) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'El nombre de la empresa es requerido'
+      } as ApiResponse, { status: 400 });
+    }
+
+    if (body.hourly_rate !== undefined && (typeof body.hourly_rate !== 'number' || body.hourly_rate < 0)) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'La tarifa debe ser positiva'
+      } as ApiResponse, { status: 400 });
+    }
+
+    if (
+      body.billing_cycle_day !== undefined &&
+      (!Number.isInteger(body.billing_cycle_day) || body.billing_cycle_day < 1 || body.billing_cycle_day > 31)
+    ) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'El día de corte debe ser un número entre 1 y 31'
+      } as ApiResponse, { status: 400 });
+    }
+
+    if (body.rate_effective_from !== undefined && !isDateString(body.rate_effective_from)) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'Formato de fecha inválido, usa YYYY-MM-DD'
+      } as ApiResponse, { status: 400 });
+    }
+
+    if (body.currency !== undefined && !isSupportedCurrency(body.currency)) {
+      return NextResponse.json({
+        status: 'error',
+        message: `Moneda inválida. Valores permitidos: ${SUPPORTED_CURRENCIES.join(', ')}`
+      } as ApiResponse, { status: 400 });
+    }
+
+    await initializeDatabase();
+    const db = getDatabase();
+
+    // Verificar que la empresa pertenece al usuario
+    const company = await db.getCompanyById(companyIdNum);
+    if (!company || company.user_id !== userId) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'Empresa no encontrada'
+      } as ApiResponse, { status: 404 });
+    }
+
+    await db.updateCompany(
+      companyIdNum,
+      body.name?.trim() ?? company.name,
+      company.hourly_rate,
+      body.billing_cycle_day ?? company.billing_cycle_day,
+      body.currency ?? company.currency
+    );
+
+    // Un cambio de tarifa se registra en el historial; las horas anteriores conservan su tarifa
+    if (body.hourly_rate !== undefined && (body.hourly_rate !== company.hourly_rate || body.rate_effective_from)) {
+      await db.updateCompanyRate(companyIdNum, body.hourly_rate, body.rate_effective_from, todayInTimeZone(await db.getUserTimeZone(userId)));
+    }
+
+    const updated = await db.getCompanyById(companyIdNum);
+
+    return NextResponse.json({
+      status: 'ok',
+      message: 'Empresa actualizada',
+      data: updated
+    } as ApiResponse);
+  } catch (error) {
+    console.error('Error updating company:', error);
+    return NextResponse.json({
+      status: 'error',
+      message: 'Error interno del servidor'
+    } as ApiResponse, { status: 500 });
+  }
+}
+
+// DELETE - Enviar la empresa y todo lo asociado a la papelera (?preview=true solo devuelve el impacto)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ companyId: string }> }
+) {
+  try {
+    const userId = getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'No autorizado'
+      } as ApiResponse, { status: 401 });
+    }
+
+    const { companyId } = await params;
+    const companyIdNum = parseInt(companyId);
+
+    if (isNaN(companyIdNum)) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'ID de empresa inválido'
+      } as ApiResponse, { status: 400 });
+    }
+
+    await initializeDatabase();
+    const db = getDatabase();
+
+    // Verificar que la empresa pertenece al usuario
+    const company = await db.getCompanyById(companyIdNum);
+    if (!company || company.user_id !== userId) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'Empresa no encontrada'
+      } as ApiResponse, { status: 404 });
+    }
+
+    const impact = await db.getCompanyDeletionImpact(companyIdNum);
+
+    const { searchParams } = new URL(request.url);
+    if (searchParams.get('preview') === 'true') {
+      return NextResponse.json({
+        status: 'ok',
+        message: 'Vista previa de eliminación',
+        data: { company, impact }
+      } as ApiResponse);
+    }
+
+    await db.deleteCompany(companyIdNum);
+
+    return NextResponse.json({
+      status: 'ok',
+      message: `Empresa ${company.name} enviada a la papelera`,
+      data: { company, impact }
+    } as ApiResponse);
+  } catch (error) {
+    console.error('Error deleting company:', error);
+    return NextResponse.json({
+      status: 'error',
+      message: 'Error interno del servidor'
+    } as ApiResponse, { status: 500 });
+  }
+}
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getDatabase } from '@/lib/db';
 import { getUserIdFromRequest } from '@/lib/auth';
 import { CreateCompanyRequest, ApiResponse } from '@/lib/types';
+import { isSupportedCurrency, SUPPORTED_CURRENCIES } from '@/lib/currency';
 
 export async function GET(request: NextRequest) {
   try {
@@ -44,7 +45,7 @@ export async function POST(request: NextRequest) {
     }
 
     const body: CreateCompanyRequest = await request.json();
-    const { name, hourly_rate } = body;
+    const { name, hourly_rate, billing_cycle_day = 1, currency = 'COP' } = body;
 
     if (!name) {
       return NextResponse.json({
@@ -53,15 +54,29 @@ export async function POST(request: NextRequest) {
       } as ApiResponse, { status: 400 });
     }
 
+    if (!Number.isInteger(billing_cycle_day) || billing_cycle_day < 1 || billing_cycle_day > 31) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'El día de corte debe ser un número entre 1 y 31'
+      } as ApiResponse, { status: 400 });
+    }
+
+    if (!isSupportedCurrency(currency)) {
+      return NextResponse.json({
+        status: 'error',
+        message: `Moneda inválida. Valores permitidos: ${SUPPORTED_CURRENCIES.join(', ')}`
+      } as ApiResponse, { status: 400 });
+    }
+
     const db = getDatabase();
     await db.init();
 
-    const companyId = await db.createCompany(name, hourly_rate || 0, userId);
+    const companyId = await db.createCompany(name, hourly_rate || 0, userId, billing_cycle_day, currency);
 
     return NextResponse.json({
       status: 'ok',
       message: 'Empresa creada exitosamente',
-      data: { id: companyId, name, hourly_rate: hourly_rate || 0, user_id: userId }
+      data: { id: companyId, name, hourly_rate: hourly_rate || 0, billing_cycle_day, currency, user_id: userId }
     } as ApiResponse);
 
   } catch (error) {
@@ -1,46 +1,21 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getDatabase } from '@/lib/db';
 import { getUserIdFromRequest } from '@/lib/auth';
-import { ApiResponse, BulkAddRequest, WEEKDAY_ALIASES } from '@/lib/types';
+import { ApiResponse, BulkAddRequest } from '@/lib/types';
+import { dayWriteChange, DayWrite, groupEntriesByDate, mergeEntryDescriptions, parseWeekdays, planDayWrite } from '@/lib/entry-days';
+import { getHolidaysInRange } from '@/lib/holidays';
+import { daysBetween, isDateString, isoWeekday, listDates } from '@/lib/dates';
 
-const MAX_BULK_RANGE_DAYS = 31;
-
-function parseWeekdays(weekdayStrings: string[]): number[] {
-  const weekdays: number[] = [];
-  
-  for (const weekdayStr of weekdayStrings) {
-    const normalized = weekdayStr.toLowerCase().trim();
-    const weekday = WEEKDAY_ALIASES[normalized];
-    
-    if (weekday !== undefined) {
-      weekdays.push(weekday);
-    } else {
-      throw new Error(`Día de la semana inválido: ${weekdayStr}`);
-    }
-  }
-  
-  return [...new Set(weekdays)]; // Remove duplicates
-}
+// Un año completo (bisiesto incluido) en una sola petición; todas las escrituras van en una transacción
+const MAX_BULK_RANGE_DAYS = 366;
 
+// Días del rango, opcionalmente solo los días de la semana indicados (ISO: 0 = lunes)
 function buildDateRange(
   startDate: string,
   endDate: string,
   weekdays?: number[],
 ) {
-  const entries: string[] = [];
-  const start = new Date(startDate + 'T00:00:00');
-  const end = new Date(endDate + 'T00:00:00');
-  
-  for (let current = new Date(start); current <= end; current.setDate(current.getDate() + 1)) {
-    const weekday = current.getDay() === 0 ? 6 : current.getDay() - 1; // Convert to ISO weekday
-    
-    if (!weekdays || weekdays.includes(weekday)) {
-      const dateStr = current.toISOString().split('T')[0];
-      entries.push(dateStr);
-    }
-  }
-  
-  return entries;
+  return listDates(startDate, endDate).filter(date => !weekdays || weekdays.includes(isoWeekday(date)));
 }
 
 export async function POST(request: NextRequest) {
@@ -64,6 +39,8 @@ export async function POST(request: NextRequest) {
       weekdays: weekdayStrings,
       mode = 'set',
       skip_existing = false,
+      include_holidays = false,
+      dry_run = false,
       company_id,
       project_id = null,
     } = body;
@@ -83,7 +60,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Validate date formats
-    if (!/^\d{4}-\d{2}-\d{2}$/.test(start_date) || !/^\d{4}-\d{2}-\d{2}$/.test(end_date)) {
+    if (!isDateString(start_date) || !isDateString(end_date)) {
       return NextResponse.json({
         status: 'error',
         message: 'Formato de fecha inválido, usa YYYY-MM-DD'
@@ -97,17 +74,7 @@ export async function POST(request: NextRequest) {
       } as ApiResponse, { status: 400 });
     }
 
-    const start = new Date(start_date + 'T00:00:00Z');
-    const end = new Date(end_date + 'T00:00:00Z');
-    const rangeDays = Math.floor((end.getTime() - start.getTime()) / 86_400_000) + 1;
-    if (!Number.isFinite(rangeDays) || rangeDays <= 0) {
-      return NextResponse.json({
-        status: 'error',
-        message: 'Rango de fechas inválido'
-      } as ApiResponse, { status: 400 });
-    }
-
-    if (rangeDays > MAX_BULK_RANGE_DAYS) {
+    if (daysBetween(start_date, end_date) + 1 > MAX_BULK_RANGE_DAYS) {
       return NextResponse.json({
         status: 'error',
         message: `El rango de fechas no puede exceder ${MAX_BULK_RANGE_DAYS} días`
@@ -158,8 +125,14 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    // Generate entries for the date range
-    const dates = buildDateRange(start_date, end_date, weekdays);
+    // Generate entries for the date range (sin festivos ni días libres, salvo include_holidays)
+    const holidays = include_holidays
+      ? []
+      : getHolidaysInRange(start_date, end_date, await db.getUserDaysOff(userId, start_date, end_date));
+    const holidayDates = new Set(holidays.map(holiday => holiday.date));
+    const candidateDates = buildDateRange(start_date, end_date, weekdays);
+    const dates = candidateDates.filter(date => !holidayDates.has(date));
+    const skippedHolidays = candidateDates.length - dates.length;
     
     if (dates.length === 0) {
       return NextResponse.json({
@@ -169,63 +142,61 @@ export async function POST(request: NextRequest) {
       } as ApiResponse);
     }
 
-    // Process each entry
-  const changes: NonNullable<ApiResponse['changes']> = [];
-  const errors: string[] = [];
+    // Cada día se planifica igual con o sin dry_run; los que crean, sobrescriben o acumulan se escriben
+    // juntos en una transacción: si uno falla no queda ninguno
+    const changes: NonNullable<ApiResponse['changes']> = [];
+    const errors: string[] = [];
+    const writes: DayWrite[] = [];
+    const rangeEntries = await db.getEntriesByDateRange(company_id, start_date, end_date);
+    const entriesByDate = groupEntriesByDate(rangeEntries, projectIdToUse ?? null);
+    // Sin project_id, un día con horas solo en otros proyectos ya está trabajado: set lo omite, error lo
+    // rechaza y solo accumulate le agrega una entrada sin proyecto
+    const occupiedByDate = hasProjectId ? entriesByDate : groupEntriesByDate(rangeEntries);
 
     for (const date of dates) {
-      try {
-        const existingEntry = await db.getEntryByDate(company_id, date, projectIdToUse ?? null);
-
-        if (existingEntry) {
-          if (skip_existing) {
-            continue;
-          }
-
-          if (mode === 'error') {
-            errors.push(`${date}: Ya existe una entrada`);
-            continue;
-          }
-
-          const newHours = mode === 'accumulate' ? existingEntry.hours + hours : hours;
-          if (newHours < 0 || newHours > 24) {
-            errors.push(`${date}: Las horas resultantes deben estar entre 0 y 24`);
-            continue;
-          }
-
-          const nextDescription = existingEntry.description || 'Carga masiva';
-          await db.updateEntry(existingEntry.id!, date, newHours, nextDescription, projectIdToUse ?? existingEntry.project_id ?? null);
-          changes.push({
-            date,
-            old_value: existingEntry.hours,
-            new_value: newHours,
-          });
-          continue;
-        }
-
-        await db.addEntry(date, hours, 'Carga masiva', company_id, projectIdToUse ?? null);
-        changes.push({
-          date,
-          old_value: 0,
-          new_value: hours,
-        });
-      } catch (error) {
-        console.error(`Error processing bulk entry for ${date}:`, error);
-        errors.push(`${date}: Error interno del servidor`);
+      const dayEntries = entriesByDate.get(date) ?? [];
+      const occupiedEntries = occupiedByDate.get(date) ?? [];
+      const plan = dayEntries.length === 0 && occupiedEntries.length > 0 && mode !== 'accumulate'
+        ? planDayWrite(occupiedEntries, hours, mode, skip_existing || mode === 'set')
+        : planDayWrite(dayEntries, hours, mode, skip_existing);
+      changes.push(dayWriteChange(date, plan));
+
+      if (plan.action === 'error') {
+        errors.push(`${date}: ${plan.message}`);
+      } else if (plan.action === 'replace') {
+        writes.push({ date, company_id, project_id: projectIdToUse ?? null, action: 'replace', hours: plan.new_total, description: mergeEntryDescriptions(dayEntries) || 'Carga masiva', day_entries: dayEntries });
+      } else if (plan.action === 'append') {
+        writes.push({ date, company_id, project_id: projectIdToUse ?? null, action: 'append', hours, description: 'Carga masiva', day_entries: [] });
       }
     }
 
-    if (errors.length > 0 && changes.length === 0) {
+    const changeBatchId = dry_run || writes.length === 0
+      ? null
+      : await db.createChangeBatch(userId, 'bulk', `Carga masiva del ${start_date} al ${end_date}`);
+    if (!dry_run) {
+      await db.applyDayWrites(writes, changeBatchId);
+    }
+
+    const written = writes.length;
+    const skipped = changes.filter(change => change.kind === 'skip').length;
+
+    if (!dry_run && errors.length > 0 && written === 0) {
       return NextResponse.json({
         status: 'error',
-        message: `Errores en todas las entradas: ${errors.join(', ')}`
+        message: `Errores en todas las entradas: ${errors.slice(0, 10).join(', ')}`,
+        changes
       } as ApiResponse, { status: 400 });
     }
 
+    const details = [
+      errors.length > 0 ? `${errors.length} errores` : '',
+      skipped > 0 ? `${skipped} omitidos` : ''
+    ].filter(Boolean).join(', ');
     const response: ApiResponse = {
       status: 'ok',
-      message: `Se procesaron ${changes.length} días${errors.length > 0 ? ` (${errors.length} errores)` : ''}`,
-      changes
+      message: `${dry_run ? `Vista previa: ${written} días a registrar` : `Se procesaron ${written} días`}${details ? ` (${details})` : ''}${skippedHolidays > 0 ? `; se omitieron ${skippedHolidays} festivos o días libres` : ''}`,
+      changes,
+      change_batch_id: changeBatchId
     };
 
     return NextResponse.json(response);
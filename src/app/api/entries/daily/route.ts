@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDatabase, initializeDatabase } from '@/lib/db';
+import { getUserIdFromRequest } from '@/lib/auth';
+import { ApiResponse, DailyEntrySummary } from '@/lib/types';
+import { aggregateEntriesByDay } from '@/lib/entry-days';
+import { isDateString } from '@/lib/dates';
+
+// GET - Totales por día de una empresa (?company_id&start_date&end_date&by_project=false para sumar todos los proyectos)
+export async function GET(request: NextRequest) {
+  try {
+    const userId = getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'No autorizado'
+      } as ApiResponse, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const companyId = parseInt(searchParams.get('company_id') ?? '');
+    const startDate = searchParams.get('start_date');
+    const endDate = searchParams.get('end_date');
+    const byProject = searchParams.get('by_project') !== 'false';
+
+    if (isNaN(companyId)) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'Falta parámetro requerido: company_id'
+      } as ApiResponse, { status: 400 });
+    }
+
+    if ((startDate && !isDateString(startDate)) || (endDate && !isDateString(endDate))) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'Formato de fecha inválido, usa YYYY-MM-DD'
+      } as ApiResponse, { status: 400 });
+    }
+
+    await initializeDatabase();
+    const db = getDatabase();
+
+    const company = await db.getCompanyById(companyId);
+    if (!company || company.user_id !== userId) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'Empresa no encontrada o sin permisos'
+      } as ApiResponse, { status: 404 });
+    }
+
+    const entries = startDate || endDate
+      ? await db.getEntriesByDateRange(companyId, startDate ?? '0000-01-01', endDate ?? '9999-12-31')
+      : await db.getEntries(companyId);
+
+    return NextResponse.json({
+      status: 'ok',
+      message: 'Totales por día obtenidos',
+      data: aggregateEntriesByDay(entries, byProject)
+    } as ApiResponse<DailyEntrySummary[]>);
+  } catch (error) {
+    console.error('Error fetching daily totals:', error);
+    return NextResponse.json({
+      status: 'error',
+      message: 'Error interno del servidor'
+    } as ApiResponse, { status: 500 });
+  }
+}
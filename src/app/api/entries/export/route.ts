@@ -0,0 +1,135 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDatabase, initializeDatabase } from '@/lib/db';
+import { getUserIdFromRequest } from '@/lib/auth';
+import { ApiResponse, EntryExportFormat, EntryExportLocale, HourEntry } from '@/lib/types';
+import {
+  buildEntryExportRows,
+  ENTRY_EXPORT_CONTENT_TYPES,
+  ENTRY_EXPORT_FORMATS,
+  ENTRY_EXPORT_LOCALES,
+  entriesToCsv,
+  entriesToXlsx,
+  getEntryExportFileName
+} from '@/lib/entry-export';
+import { createRateResolver, RateResolver } from '@/lib/rates';
+import { isDateString } from '@/lib/dates';
+
+// GET - Exportar horas en CSV, XLSX o JSON (?format=csv|xlsx|json&start_date&end_date&company_id&project_id&locale)
+export async function GET(request: NextRequest) {
+  try {
+    const userId = getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'No autorizado'
+      } as ApiResponse, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const format = (searchParams.get('format') ?? 'csv') as EntryExportFormat;
+    const locale = (searchParams.get('locale') ?? 'es-CO') as EntryExportLocale;
+    const startDate = searchParams.get('start_date') ?? undefined;
+    const endDate = searchParams.get('end_date') ?? undefined;
+    const companyIdParam = searchParams.get('company_id');
+    const projectIdParam = searchParams.get('project_id');
+
+    if (!ENTRY_EXPORT_FORMATS.includes(format)) {
+      return NextResponse.json({
+        status: 'error',
+        message: `Formato inválido. Valores permitidos: ${ENTRY_EXPORT_FORMATS.join(', ')}`
+      } as ApiResponse, { status: 400 });
+    }
+
+    if (!ENTRY_EXPORT_LOCALES.includes(locale)) {
+      return NextResponse.json({
+        status: 'error',
+        message: `Configuración regional inválida. Valores permitidos: ${ENTRY_EXPORT_LOCALES.join(', ')}`
+      } as ApiResponse, { status: 400 });
+    }
+
+    if ((startDate && !isDateString(startDate)) || (endDate && !isDateString(endDate))) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'Formato de fecha inválido, usa YYYY-MM-DD'
+      } as ApiResponse, { status: 400 });
+    }
+
+    if (startDate && endDate && startDate > endDate) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'La fecha inicial debe ser menor o igual que la final'
+      } as ApiResponse, { status: 400 });
+    }
+
+    const companyId = companyIdParam ? parseInt(companyIdParam) : undefined;
+    // project_id=none exporta solo las horas sin proyecto
+    const projectId = projectIdParam === 'none' ? null : projectIdParam ? parseInt(projectIdParam) : undefined;
+    if ((companyId !== undefined && isNaN(companyId)) || (typeof projectId === 'number' && isNaN(projectId))) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'ID de empresa o proyecto inválido'
+      } as ApiResponse, { status: 400 });
+    }
+
+    await initializeDatabase();
+    const db = getDatabase();
+
+    const companies = await db.getUserCompanies(userId);
+    const selectedCompanies = companyId === undefined
+      ? companies
+      : companies.filter(company => company.id === companyId);
+
+    if (selectedCompanies.length === 0 && companyId !== undefined) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'Empresa no encontrada o sin permisos'
+      } as ApiResponse, { status: 404 });
+    }
+
+    const projects = await db.getUserProjects(userId);
+    if (typeof projectId === 'number' && !projects.some(project => project.id === projectId)) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'Proyecto no encontrado o sin permisos'
+      } as ApiResponse, { status: 404 });
+    }
+
+    const entries: HourEntry[] = [];
+    const resolvers = new Map<number, RateResolver>();
+    for (const company of selectedCompanies) {
+      const companyEntries = startDate || endDate
+        ? await db.getEntriesByDateRange(company.id!, startDate ?? '0000-01-01', endDate ?? '9999-12-31')
+        : await db.getEntries(company.id!);
+      entries.push(...companyEntries.filter(entry => projectId === undefined || (entry.project_id ?? null) === projectId));
+      resolvers.set(company.id!, createRateResolver(await db.getCompanyRates(company.id!), company.hourly_rate));
+    }
+
+    entries.sort((a, b) => a.date.localeCompare(b.date) || (a.id ?? 0) - (b.id ?? 0));
+    const rows = buildEntryExportRows(entries, companies, projects, resolvers);
+
+    let body: string | Uint8Array;
+    if (format === 'json') {
+      body = JSON.stringify(rows, null, 2);
+    } else if (format === 'xlsx') {
+      body = entriesToXlsx(rows);
+    } else {
+      body = entriesToCsv(rows, locale);
+    }
+
+    const fileName = getEntryExportFileName(format, startDate, endDate);
+    return new NextResponse(body as BodyInit, {
+      status: 200,
+      headers: {
+        'Content-Type': ENTRY_EXPORT_CONTENT_TYPES[format],
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+        'Cache-Control': 'no-store'
+      }
+    });
+  } catch (error) {
+    console.error('Error exporting entries:', error);
+    return NextResponse.json({
+      status: 'error',
+      message: 'Error interno del servidor'
+    } as ApiResponse, { status: 500 });
+  }
+}
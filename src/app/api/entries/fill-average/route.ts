@@ -2,8 +2,11 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getDatabase } from '@/lib/db';
 import { getUserIdFromRequest } from '@/lib/auth';
 import { ApiResponse, FillAverageRequest } from '@/lib/types';
+import { createHolidayChecker } from '@/lib/holidays';
+import { daysBetween, isDateString } from '@/lib/dates';
 
-const MAX_FILL_RANGE_DAYS = 31;
+// Un año completo en una sola petición; las escrituras van en una transacción
+const MAX_FILL_RANGE_DAYS = 366;
 
 export async function POST(request: NextRequest) {
   try {
@@ -19,7 +22,7 @@ export async function POST(request: NextRequest) {
     await db.init();
 
     const body: FillAverageRequest & { company_id?: number } = await request.json();
-    const { start_date, end_date, overwrite = false, company_id } = body;
+    const { start_date, end_date, overwrite = false, company_id, project_id, include_holidays = false, dry_run = false } = body;
 
     if (!start_date || !end_date || !company_id) {
       return NextResponse.json({
@@ -29,7 +32,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Validate date formats
-    if (!/^\d{4}-\d{2}-\d{2}$/.test(start_date) || !/^\d{4}-\d{2}-\d{2}$/.test(end_date)) {
+    if (!isDateString(start_date) || !isDateString(end_date)) {
       return NextResponse.json({
         status: 'error',
         message: 'Formato de fecha inválido, usa YYYY-MM-DD'
@@ -43,17 +46,7 @@ export async function POST(request: NextRequest) {
       } as ApiResponse, { status: 400 });
     }
 
-    const start = new Date(start_date + 'T00:00:00Z');
-    const end = new Date(end_date + 'T00:00:00Z');
-    const rangeDays = Math.floor((end.getTime() - start.getTime()) / 86_400_000) + 1;
-    if (!Number.isFinite(rangeDays) || rangeDays <= 0) {
-      return NextResponse.json({
-        status: 'error',
-        message: 'Rango de fechas inválido'
-      } as ApiResponse, { status: 400 });
-    }
-
-    if (rangeDays > MAX_FILL_RANGE_DAYS) {
+    if (daysBetween(start_date, end_date) + 1 > MAX_FILL_RANGE_DAYS) {
       return NextResponse.json({
         status: 'error',
         message: `El rango de fechas no puede exceder ${MAX_FILL_RANGE_DAYS} días`
@@ -68,12 +61,37 @@ export async function POST(request: NextRequest) {
       } as ApiResponse, { status: 404 });
     }
 
-    const changes = await db.fillWithAverages(start_date, end_date, company_id, overwrite);
+    if (project_id != null) {
+      const project = await db.getProjectById(project_id);
+      if (!project || project.user_id !== userId || project.company_id !== company_id) {
+        return NextResponse.json({
+          status: 'error',
+          message: 'Proyecto no encontrado o sin permisos'
+        } as ApiResponse, { status: 404 });
+      }
+    }
+
+    // Festivos y días libres del usuario no se llenan salvo que se pida
+    const isHoliday = include_holidays
+      ? () => false
+      : createHolidayChecker(await db.getUserDaysOff(userId, start_date, end_date));
+
+    const changeBatchId = dry_run ? null : await db.createChangeBatch(userId, 'fill_average', `Promedios del ${start_date} al ${end_date}`);
+    const changes = await db.fillWithAverages(start_date, end_date, company_id, overwrite, project_id, isHoliday, dry_run, changeBatchId);
+
+    const written = changes.filter(change => change.kind === 'create' || change.kind === 'overwrite').length;
+    const skipped = changes.filter(change => change.kind === 'skip').length;
+    const conflicts = changes.filter(change => change.kind === 'conflict').length;
+    const details = [
+      skipped > 0 ? `${skipped} con horas omitidos` : '',
+      conflicts > 0 ? `${conflicts} facturados sin cambios` : ''
+    ].filter(Boolean).join(', ');
 
     const response: ApiResponse = {
       status: 'ok',
-      message: `Se completaron ${changes.length} días con promedios`,
-      changes
+      message: `${dry_run ? `Vista previa: ${written} días a llenar con promedios` : `Se completaron ${written} días con promedios`}${details ? ` (${details})` : ''}`,
+      changes,
+      change_batch_id: changeBatchId
     };
 
     return NextResponse.json(response);
@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDatabase, initializeDatabase } from '@/lib/db';
+import { getUserIdFromRequest } from '@/lib/auth';
+import { ApiResponse, EntryChange } from '@/lib/types';
+import { planBatchUndo } from '@/lib/entry-history';
+
+// POST - Deshacer una operación completa: todas sus entradas vuelven al estado previo o ninguna cambia
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ batchId: string }> }
+) {
+  try {
+    const userId = getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'No autorizado'
+      } as ApiResponse, { status: 401 });
+    }
+
+    const { batchId } = await params;
+    const batchIdNum = parseInt(batchId);
+    if (isNaN(batchIdNum)) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'ID de operación inválido'
+      } as ApiResponse, { status: 400 });
+    }
+
+    await initializeDatabase();
+    const db = getDatabase();
+
+    const batch = await db.getChangeBatchById(batchIdNum);
+    if (!batch || batch.user_id !== userId) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'Operación no encontrada o sin permisos'
+      } as ApiResponse, { status: 404 });
+    }
+
+    if (batch.undone_at) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'La operación ya se deshizo'
+      } as ApiResponse, { status: 409 });
+    }
+
+    const records = await db.getChangeBatchRecords(batchIdNum);
+    if (records.length === 0) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'La operación no tiene cambios para deshacer'
+      } as ApiResponse, { status: 400 });
+    }
+
+    const currentEntries = await db.getEntriesByIds([...new Set(records.map(record => record.entry_id))]);
+    const plan = planBatchUndo(records, currentEntries);
+    if (!plan.ok) {
+      return NextResponse.json({
+        status: 'error',
+        message: `No se puede deshacer "${batch.summary}": ${plan.message}`
+      } as ApiResponse, { status: 409 });
+    }
+
+    await db.undoChangeBatch(batch, plan.restores);
+
+    const currentById = new Map(currentEntries.map(entry => [entry.id!, entry]));
+    const changes: EntryChange[] = plan.restores.map(({ entry_id: entryId, target }) => {
+      const current = currentById.get(entryId);
+      return {
+        date: target?.date ?? current?.date ?? '',
+        old_value: current?.hours ?? 0,
+        new_value: target?.hours ?? 0,
+        project_id: target?.project_id ?? current?.project_id ?? null
+      };
+    });
+
+    return NextResponse.json({
+      status: 'ok',
+      message: `Se deshizo "${batch.summary}" (${changes.length} entradas)`,
+      changes
+    } as ApiResponse);
+  } catch (error) {
+    console.error('Error undoing entry change batch:', error);
+    return NextResponse.json({
+      status: 'error',
+      message: 'Error interno del servidor'
+    } as ApiResponse, { status: 500 });
+  }
+}
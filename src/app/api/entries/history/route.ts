@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDatabase, initializeDatabase } from '@/lib/db';
+import { getUserIdFromRequest } from '@/lib/auth';
+import { ApiResponse, EntryChangeBatch } from '@/lib/types';
+
+const MAX_HISTORY_LIMIT = 100;
+
+// GET - Operaciones recientes sobre entradas (lotes del historial), de la más nueva a la más antigua
+export async function GET(request: NextRequest) {
+  try {
+    const userId = getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'No autorizado'
+      } as ApiResponse, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const limitParam = searchParams.get('limit');
+    const limit = limitParam ? parseInt(limitParam) : 20;
+    if (isNaN(limit) || limit < 1 || limit > MAX_HISTORY_LIMIT) {
+      return NextResponse.json({
+        status: 'error',
+        message: `El límite debe estar entre 1 y ${MAX_HISTORY_LIMIT}`
+      } as ApiResponse, { status: 400 });
+    }
+
+    await initializeDatabase();
+    const db = getDatabase();
+
+    return NextResponse.json({
+      status: 'ok',
+      message: 'Historial obtenido correctamente',
+      data: await db.getUserChangeBatches(userId, limit)
+    } as ApiResponse<EntryChangeBatch[]>);
+  } catch (error) {
+    console.error('Error getting entry history:', error);
+    return NextResponse.json({
+      status: 'error',
+      message: 'Error interno del servidor'
+    } as ApiResponse, { status: 500 });
+  }
+}
@@ -0,0 +1,199 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDatabase, initializeDatabase } from '@/lib/db';
+import { getUserIdFromRequest } from '@/lib/auth';
+import { ApiResponse, EntryImportRequest, EntryImportResult } from '@/lib/types';
+import { ENTRY_IMPORT_FORMATS, parseEntryImport } from '@/lib/entry-import';
+import { mergeEntryDescriptions, planDayWrite } from '@/lib/entry-days';
+
+const MAX_IMPORT_SIZE = 2 * 1024 * 1024; // 2 MB de texto CSV
+
+// POST - Importar horas desde un CSV (por defecto solo muestra la vista previa)
+export async function POST(request: NextRequest) {
+  try {
+    const userId = getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'No autorizado'
+      } as ApiResponse, { status: 401 });
+    }
+
+    const body: EntryImportRequest = await request.json();
+    const {
+      csv,
+      company_id,
+      format = 'auto',
+      columns,
+      date_order,
+      mode = 'set',
+      skip_existing = false,
+      project_id = null,
+      preview = true
+    } = body;
+
+    if (typeof csv !== 'string' || !csv.trim() || !company_id) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'Faltan campos requeridos: csv, company_id'
+      } as ApiResponse, { status: 400 });
+    }
+
+    if (csv.length > MAX_IMPORT_SIZE) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'El archivo es demasiado grande (máximo 2 MB)'
+      } as ApiResponse, { status: 400 });
+    }
+
+    if (format !== 'auto' && !ENTRY_IMPORT_FORMATS.includes(format)) {
+      return NextResponse.json({
+        status: 'error',
+        message: `Formato inválido. Valores permitidos: auto, ${ENTRY_IMPORT_FORMATS.join(', ')}`
+      } as ApiResponse, { status: 400 });
+    }
+
+    if (date_order !== undefined && !['dmy', 'mdy'].includes(date_order)) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'Orden de fecha inválido, usa: dmy, mdy'
+      } as ApiResponse, { status: 400 });
+    }
+
+    if (!['set', 'accumulate', 'error'].includes(mode)) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'Modo inválido, usa: set, accumulate, error'
+      } as ApiResponse, { status: 400 });
+    }
+
+    await initializeDatabase();
+    const db = getDatabase();
+
+    const company = await db.getCompanyById(company_id);
+    if (!company || company.user_id !== userId) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'Empresa no encontrada o sin permisos'
+      } as ApiResponse, { status: 404 });
+    }
+
+    if (project_id != null) {
+      const project = await db.getProjectById(project_id);
+      if (!project || project.user_id !== userId || project.company_id !== company_id) {
+        return NextResponse.json({
+          status: 'error',
+          message: 'Proyecto no encontrado o sin permisos'
+        } as ApiResponse, { status: 404 });
+      }
+    }
+
+    const parsed = parseEntryImport(csv, { format, columns, dateOrder: date_order });
+    if (parsed.days.length === 0) {
+      return NextResponse.json({
+        status: 'error',
+        message: parsed.errors.length > 0
+          ? `No se pudo importar: ${parsed.errors.slice(0, 5).join(', ')}`
+          : 'El archivo no tiene filas para importar'
+      } as ApiResponse, { status: 400 });
+    }
+
+    // Los proyectos se emparejan por nombre sin distinguir mayúsculas; los que faltan se crean al confirmar
+    const projectIdByName = new Map<string, number>();
+    for (const project of await db.getCompanyProjects(company_id)) {
+      if (project.id != null) projectIdByName.set(project.name.trim().toLowerCase(), project.id);
+    }
+
+    const missingProjects = new Map<string, string>();
+    for (const day of parsed.days) {
+      const key = day.project_name?.toLowerCase();
+      if (key && !projectIdByName.has(key) && !missingProjects.has(key)) {
+        missingProjects.set(key, day.project_name!);
+      }
+    }
+    const newProjects = [...missingProjects.values()];
+
+    if (!preview) {
+      for (const name of newProjects) {
+        const newProjectId = await db.createProject(name, company_id, userId);
+        projectIdByName.set(name.toLowerCase(), newProjectId);
+      }
+    }
+
+    const changes: NonNullable<ApiResponse['changes']> = [];
+    const errors = [...parsed.errors];
+    const changeBatchId = preview ? null : await db.createChangeBatch(userId, 'import', `Importación CSV (${parsed.days.length} días)`);
+
+    for (const day of parsed.days) {
+      const dayProjectId = day.project_name
+        ? projectIdByName.get(day.project_name.toLowerCase()) ?? null
+        : project_id;
+      const isNewProject = day.project_name !== null && dayProjectId === null;
+      const label = day.project_name ? `${day.date} (${day.project_name})` : day.date;
+
+      try {
+        const dayEntries = isNewProject ? [] : await db.getEntriesForDay(company_id, day.date, dayProjectId);
+        const plan = planDayWrite(dayEntries, day.hours, mode, skip_existing);
+
+        if (plan.action === 'skip') {
+          continue;
+        }
+
+        if (plan.action === 'error') {
+          errors.push(`${label}: ${plan.message}`);
+          continue;
+        }
+
+        if (!preview) {
+          if (plan.action === 'replace') {
+            const nextDescription = mergeEntryDescriptions(dayEntries) || day.description || 'Importación CSV';
+            await db.replaceDayEntries(dayEntries, plan.new_total, nextDescription, undefined, undefined, changeBatchId);
+          } else {
+            await db.addEntry(day.date, day.hours, day.description || 'Importación CSV', company_id, dayProjectId, undefined, undefined, changeBatchId);
+          }
+        }
+        changes.push({
+          date: day.date,
+          old_value: plan.old_total,
+          new_value: plan.new_total,
+          project_id: dayProjectId,
+          project_name: day.project_name
+        });
+      } catch (error) {
+        console.error(`Error importing entry for ${day.date}:`, error);
+        errors.push(`${label}: Error interno del servidor`);
+      }
+    }
+
+    if (errors.length > 0 && changes.length === 0) {
+      return NextResponse.json({
+        status: 'error',
+        message: `Errores en todas las entradas: ${errors.slice(0, 10).join(', ')}`
+      } as ApiResponse, { status: 400 });
+    }
+
+    const result: EntryImportResult = {
+      format: parsed.format,
+      preview,
+      rows_read: parsed.rows_read,
+      days: changes.length,
+      new_projects: newProjects,
+      errors
+    };
+
+    return NextResponse.json({
+      status: 'ok',
+      message: preview
+        ? `Vista previa: ${changes.length} días a importar${errors.length > 0 ? ` (${errors.length} errores)` : ''}`
+        : `Se importaron ${changes.length} días${errors.length > 0 ? ` (${errors.length} errores)` : ''}`,
+      data: result,
+      changes,
+      change_batch_id: changeBatchId
+    } as ApiResponse<EntryImportResult>);
+  } catch (error) {
+    console.error('Error importing entries:', error);
+    return NextResponse.json({
+      status: 'error',
+      message: 'Error interno del servidor'
+    } as ApiResponse, { status: 500 });
+  }
+}
@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDatabase, initializeDatabase } from '@/lib/db';
+import { getUserIdFromRequest } from '@/lib/auth';
+import { ApiResponse, MergeDayRequest } from '@/lib/types';
+import { isEntryLocked, lockedEntryMessage } from '@/lib/entry-days';
+import { isDateString } from '@/lib/dates';
+
+// POST - Unir en una sola entrada todas las entradas de un día y proyecto
+export async function POST(request: NextRequest) {
+  try {
+    const userId = getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'No autorizado'
+      } as ApiResponse, { status: 401 });
+    }
+
+    const body: MergeDayRequest = await request.json();
+    const { company_id, date, project_id = null } = body;
+
+    if (!company_id || !date) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'Faltan campos requeridos: company_id, date'
+      } as ApiResponse, { status: 400 });
+    }
+
+    if (!isDateString(date)) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'Formato de fecha inválido, usa YYYY-MM-DD'
+      } as ApiResponse, { status: 400 });
+    }
+
+    await initializeDatabase();
+    const db = getDatabase();
+
+    const company = await db.getCompanyById(company_id);
+    if (!company || company.user_id !== userId) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'Empresa no encontrada o sin permisos'
+      } as ApiResponse, { status: 404 });
+    }
+
+    const dayEntries = await db.getEntriesForDay(company_id, date, project_id);
+    if (dayEntries.length < 2) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'El día no tiene varias entradas para unir'
+      } as ApiResponse, { status: 400 });
+    }
+
+    // No se unen horas de cuentas emitidas, ni de líneas de cuenta distintas, ni facturadas con otras sin
+    // facturar: la entrada unida quedaría en la línea con horas que su total no incluye
+    const locked = dayEntries.find(isEntryLocked);
+    const invoiceItemIds = new Set(dayEntries.map(entry => entry.invoice_item_id ?? null));
+    if (locked || invoiceItemIds.size > 1) {
+      return NextResponse.json({
+        status: 'error',
+        message: locked
+          ? lockedEntryMessage(locked)
+          : invoiceItemIds.has(null)
+            ? 'Algunas entradas del día ya están en una cuenta de cobro y otras no'
+            : 'Las entradas del día están en líneas de cuenta distintas'
+      } as ApiResponse, { status: 409 });
+    }
+
+    const changeBatchId = await db.createChangeBatch(userId, 'merge', `Unir entradas del ${date}`);
+    const merged = await db.mergeDayEntries(company_id, date, project_id, changeBatchId);
+
+    return NextResponse.json({
+      status: 'ok',
+      message: `Se unieron ${dayEntries.length} entradas del ${date}`,
+      data: merged,
+      change_batch_id: changeBatchId
+    } as ApiResponse);
+  } catch (error) {
+    console.error('Error merging day entries:', error);
+    return NextResponse.json({
+      status: 'error',
+      message: 'Error interno del servidor'
+    } as ApiResponse, { status: 500 });
+  }
+}
@@ -2,6 +2,12 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getDatabase } from '@/lib/db';
 import { getUserIdFromRequest } from '@/lib/auth';
 import { ApiResponse } from '@/lib/types';
+import { EMPTY_ENTRY_TIMES, findOverlappingEntry, formatEntryTimeRange, hoursFromTimes, parseEntryTimes } from '@/lib/entry-times';
+import { isEntryLocked, lockedEntryMessage, mergeEntryDescriptions, planDayWrite } from '@/lib/entry-days';
+import { parseTagList } from '@/lib/entry-tags';
+import { isDateString } from '@/lib/dates';
+
+const TIME_FIELDS = ['start_time', 'end_time', 'break_minutes'];
 
 export async function POST(request: NextRequest) {
   try {
@@ -17,12 +23,39 @@ export async function POST(request: NextRequest) {
     await db.init();
 
     const body = await request.json();
-    const { date, hours, mode = 'set', company_id, project_id = null, description = '' } = body;
+    const { date, mode = 'accumulate', company_id, project_id = null, description = '' } = body;
+
+    // Con horario, las horas se calculan de la entrada, la salida y la pausa
+    const { times, error: timesError } = parseEntryTimes(body);
+    if (timesError) {
+      return NextResponse.json({
+        status: 'error',
+        message: timesError
+      } as ApiResponse, { status: 400 });
+    }
+    const hours = times ? hoursFromTimes(times.start_time!, times.end_time!, times.break_minutes) : body.hours;
+
+    const { tags, error: tagsError } = parseTagList(body.tags);
+    if (tagsError) {
+      return NextResponse.json({
+        status: 'error',
+        message: tagsError
+      } as ApiResponse, { status: 400 });
+    }
+
+    // Sin billable la entrada toma el valor por defecto del proyecto
+    const billable: boolean | undefined = body.billable ?? undefined;
+    if (billable !== undefined && typeof billable !== 'boolean') {
+      return NextResponse.json({
+        status: 'error',
+        message: 'billable debe ser true o false'
+      } as ApiResponse, { status: 400 });
+    }
 
     if (!date || typeof hours !== 'number' || !company_id) {
       return NextResponse.json({
         status: 'error',
-        message: 'Faltan campos requeridos: date, hours, company_id'
+        message: 'Faltan campos requeridos: date, hours (o start_time y end_time), company_id'
       } as ApiResponse, { status: 400 });
     }
 
@@ -34,7 +67,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Validate date format
-    if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    if (!isDateString(date)) {
       return NextResponse.json({
         status: 'error',
         message: 'Formato de fecha inválido, usa YYYY-MM-DD'
@@ -75,48 +108,65 @@ export async function POST(request: NextRequest) {
     }
 
     const normalizedDescription = description?.toString() ?? '';
-    const existingEntry = await db.getEntryByDate(company_id, date, projectIdToUse ?? null);
+    // Cada entrada es independiente: por defecto (accumulate) se agrega otra fila al día; set consolida
+    // el total del día del proyecto y error rechaza el día si ya tiene horas
+    const dayEntries = await db.getEntriesForDay(company_id, date, projectIdToUse ?? null);
+    const plan = planDayWrite(dayEntries, hours, mode);
+
+    if (plan.action === 'error' || plan.action === 'skip') {
+      const isConflict = plan.action === 'skip' || mode === 'error';
+      const isLocked = mode !== 'error' && dayEntries.some(isEntryLocked);
+      return NextResponse.json({
+        status: 'error',
+        message: plan.action === 'error' && !isConflict ? plan.message : 'Ya existe una entrada para ese día'
+      } as ApiResponse, { status: isConflict || isLocked ? 409 : 400 });
+    }
 
-    if (existingEntry) {
-      if (mode === 'error') {
+    if (times) {
+      // En modo set las entradas del día se reemplazan, así que no cuentan como cruce
+      const replacedIds = new Set(plan.action === 'replace' ? dayEntries.map(entry => entry.id) : []);
+      const sameDayEntries = (await db.getUserEntriesByDate(userId, date)).filter(entry => !replacedIds.has(entry.id));
+      const overlapping = findOverlappingEntry(sameDayEntries, times);
+      if (overlapping) {
         return NextResponse.json({
           status: 'error',
-          message: 'Ya existe una entrada para ese día'
+          message: `El horario ${formatEntryTimeRange(times)} se cruza con otra entrada del mismo día (${formatEntryTimeRange(overlapping)})`
         } as ApiResponse, { status: 409 });
       }
+    }
 
-      const newHours = mode === 'accumulate' ? existingEntry.hours + hours : hours;
-      if (newHours < 0 || newHours > 24) {
-        return NextResponse.json({
-          status: 'error',
-          message: 'Las horas resultantes deben estar entre 0 y 24'
-        } as ApiResponse, { status: 400 });
-      }
+    const changeBatchId = await db.createChangeBatch(userId, 'entry', `Entrada del ${date}`);
 
-      const nextDescription = normalizedDescription || existingEntry.description || '';
-      await db.updateEntry(existingEntry.id!, date, newHours, nextDescription, projectIdToUse ?? existingEntry.project_id ?? null);
+    if (plan.action === 'replace') {
+      const nextDescription = normalizedDescription || mergeEntryDescriptions(dayEntries);
+      const entryId = await db.replaceDayEntries(dayEntries, plan.new_total, nextDescription, times ?? undefined, billable, changeBatchId);
+      await db.addEntryTags([entryId], await db.ensureTags(userId, tags), changeBatchId);
 
       return NextResponse.json({
         status: 'ok',
         message: `Entrada actualizada para ${date}`,
         changes: [{
           date,
-          old_value: existingEntry.hours,
-          new_value: newHours
-        }]
+          old_value: plan.old_total,
+          new_value: plan.new_total
+        }],
+        change_batch_id: changeBatchId
       } as ApiResponse);
     }
 
-    await db.addEntry(date, hours, normalizedDescription, company_id, projectIdToUse ?? null);
+    const entryId = await db.addEntry(date, hours, normalizedDescription, company_id, projectIdToUse ?? null, times ?? undefined, billable, changeBatchId);
+    await db.addEntryTags([entryId], await db.ensureTags(userId, tags), changeBatchId);
 
     return NextResponse.json({
       status: 'ok',
       message: `Entrada creada para ${date}`,
+      data: { id: entryId },
       changes: [{
         date,
-        old_value: 0,
-        new_value: hours
-      }]
+        old_value: plan.old_total,
+        new_value: plan.new_total
+      }],
+      change_batch_id: changeBatchId
     } as ApiResponse);
   } catch (error) {
     console.error('Error creating entry:', error);
@@ -143,10 +193,39 @@ export async function PUT(request: NextRequest) {
   await db.init();
 
   const body = await request.json();
-  const { id, date, hours, description = '' } = body;
+  const { id, date, description = '' } = body;
   const hasProjectId = Object.prototype.hasOwnProperty.call(body, 'project_id');
   const projectId = hasProjectId ? body.project_id : undefined;
 
+    // Si se envía algún campo de horario se reemplaza el horario (vacío lo elimina)
+    const hasTimes = TIME_FIELDS.some(field => Object.prototype.hasOwnProperty.call(body, field));
+    const { times, error: timesError } = hasTimes ? parseEntryTimes(body) : { times: null, error: undefined };
+    if (timesError) {
+      return NextResponse.json({
+        status: 'error',
+        message: timesError
+      } as ApiResponse, { status: 400 });
+    }
+    const hours = times ? hoursFromTimes(times.start_time!, times.end_time!, times.break_minutes) : body.hours;
+
+    // Si se envía tags se reemplazan las etiquetas de la entrada (lista vacía las quita)
+    const hasTags = Object.prototype.hasOwnProperty.call(body, 'tags');
+    const { tags, error: tagsError } = parseTagList(hasTags ? body.tags : undefined);
+    if (tagsError) {
+      return NextResponse.json({
+        status: 'error',
+        message: tagsError
+      } as ApiResponse, { status: 400 });
+    }
+
+    const billable: boolean | undefined = body.billable ?? undefined;
+    if (billable !== undefined && typeof billable !== 'boolean') {
+      return NextResponse.json({
+        status: 'error',
+        message: 'billable debe ser true o false'
+      } as ApiResponse, { status: 400 });
+    }
+
     if (!id || !date || hours === undefined) {
       return NextResponse.json({
         status: 'error',
@@ -155,8 +234,7 @@ export async function PUT(request: NextRequest) {
     }
 
     // Validate date format
-    const dateRegex = /^\d{4}-\d{2}-\d{2}$/;
-    if (!dateRegex.test(date)) {
+    if (!isDateString(date)) {
       return NextResponse.json({
         status: 'error',
         message: 'Formato de fecha inválido, usa YYYY-MM-DD'
@@ -187,6 +265,14 @@ export async function PUT(request: NextRequest) {
       } as ApiResponse, { status: 404 });
     }
 
+    // Las entradas de cuentas ya emitidas solo se modifican desbloqueándolas explícitamente
+    if (isEntryLocked(targetEntry) && body.unlock !== true) {
+      return NextResponse.json({
+        status: 'error',
+        message: `${lockedEntryMessage(targetEntry)}; envía unlock: true para modificarla`
+      } as ApiResponse, { status: 409 });
+    }
+
     let projectIdToUse: number | null | undefined = undefined;
     if (hasProjectId) {
       if (projectId != null) {
@@ -203,8 +289,22 @@ export async function PUT(request: NextRequest) {
       }
     }
 
+    if (times) {
+      const overlapping = findOverlappingEntry(await db.getUserEntriesByDate(userId, date), times, targetEntry.id);
+      if (overlapping) {
+        return NextResponse.json({
+          status: 'error',
+          message: `El horario ${formatEntryTimeRange(times)} se cruza con otra entrada del mismo día (${formatEntryTimeRange(overlapping)})`
+        } as ApiResponse, { status: 409 });
+      }
+    }
+
     const nextDescription = description?.toString() ?? targetEntry.description ?? '';
-    await db.updateEntry(id, date, hours, nextDescription, projectIdToUse);
+    const changeBatchId = await db.createChangeBatch(userId, 'entry', `Edición de la entrada del ${targetEntry.date}`);
+    await db.updateEntry(id, date, hours, nextDescription, projectIdToUse, hasTimes ? times ?? EMPTY_ENTRY_TIMES : undefined, billable, changeBatchId);
+    if (hasTags) {
+      await db.setEntryTags(id, await db.ensureTags(userId, tags), changeBatchId);
+    }
 
     const response: ApiResponse = {
       status: 'ok',
@@ -213,7 +313,8 @@ export async function PUT(request: NextRequest) {
         date,
         old_value: targetEntry.hours,
         new_value: hours
-      }]
+      }],
+      change_batch_id: changeBatchId
     };
 
     return NextResponse.json(response);
@@ -267,16 +368,25 @@ export async function DELETE(request: NextRequest) {
       } as ApiResponse, { status: 404 });
     }
 
-    await db.deleteEntry(id);
+    if (isEntryLocked(targetEntry) && body.unlock !== true) {
+      return NextResponse.json({
+        status: 'error',
+        message: `${lockedEntryMessage(targetEntry)}; envía unlock: true para eliminarla`
+      } as ApiResponse, { status: 409 });
+    }
+
+    const changeBatchId = await db.createChangeBatch(userId, 'entry', `Eliminación de la entrada del ${targetEntry.date}`);
+    await db.deleteEntry(id, changeBatchId);
 
     const response: ApiResponse = {
       status: 'ok',
-      message: `Entrada eliminada para ${targetEntry.date}`,
+      message: `Entrada del ${targetEntry.date} enviada a la papelera`,
       changes: [{
         date: targetEntry.date,
         old_value: targetEntry.hours,
         new_value: 0
-      }]
+      }],
+      change_batch_id: changeBatchId
     };
 
     return NextResponse.json(response);
@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDatabase, initializeDatabase } from '@/lib/db';
+import { getUserIdFromRequest } from '@/lib/auth';
+import { ApiResponse, SplitEntryRequest } from '@/lib/types';
+import { isEntryLocked, lockedEntryMessage, validateSplitParts } from '@/lib/entry-days';
+import { formatEntryTimeRange } from '@/lib/entry-times';
+
+// POST - Dividir una entrada en varias del mismo día (las partes deben sumar sus horas)
+export async function POST(request: NextRequest) {
+  try {
+    const userId = getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'No autorizado'
+      } as ApiResponse, { status: 401 });
+    }
+
+    const body: SplitEntryRequest = await request.json();
+    const { id, parts } = body;
+
+    if (!id) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'Falta parámetro requerido: id'
+      } as ApiResponse, { status: 400 });
+    }
+
+    await initializeDatabase();
+    const db = getDatabase();
+
+    const entry = await db.getEntryById(id);
+    const company = entry ? await db.getCompanyById(entry.company_id) : null;
+    if (!entry || !company || company.user_id !== userId) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'Entrada no encontrada o sin permisos'
+      } as ApiResponse, { status: 404 });
+    }
+
+    if (isEntryLocked(entry)) {
+      return NextResponse.json({
+        status: 'error',
+        message: lockedEntryMessage(entry)
+      } as ApiResponse, { status: 409 });
+    }
+
+    // Con horario las horas salen de la entrada y la salida: dividirla dejaría partes sin horario coherente
+    const timeRange = formatEntryTimeRange(entry);
+    if (timeRange) {
+      return NextResponse.json({
+        status: 'error',
+        message: `La entrada tiene horario (${timeRange}); quítalo antes de dividirla`
+      } as ApiResponse, { status: 400 });
+    }
+
+    const validationError = validateSplitParts(entry.hours, parts);
+    if (validationError) {
+      return NextResponse.json({
+        status: 'error',
+        message: validationError
+      } as ApiResponse, { status: 400 });
+    }
+
+    // Cada parte puede ir a otro proyecto de la misma empresa
+    for (const part of parts) {
+      if (part.project_id != null) {
+        const project = await db.getProjectById(part.project_id);
+        if (!project || project.user_id !== userId || project.company_id !== entry.company_id) {
+          return NextResponse.json({
+            status: 'error',
+            message: 'Proyecto no encontrado o sin permisos'
+          } as ApiResponse, { status: 404 });
+        }
+      }
+    }
+
+    const changeBatchId = await db.createChangeBatch(userId, 'split', `Dividir entrada del ${entry.date}`);
+    const entryIds = await db.splitEntry(entry, parts.map(part => ({
+      hours: part.hours,
+      description: part.description ?? entry.description ?? '',
+      project_id: part.project_id === undefined ? entry.project_id ?? null : part.project_id
+    })), changeBatchId);
+
+    return NextResponse.json({
+      status: 'ok',
+      message: `Entrada del ${entry.date} dividida en ${parts.length} partes`,
+      data: { entry_ids: entryIds },
+      change_batch_id: changeBatchId
+    } as ApiResponse);
+  } catch (error) {
+    console.error('Error splitting entry:', error);
+    return NextResponse.json({
+      status: 'error',
+      message: 'Error interno del servidor'
+    } as ApiResponse, { status: 500 });
+  }
+}
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDatabase, initializeDatabase } from '@/lib/db';
+import { getUserIdFromRequest } from '@/lib/auth';
+import { ApiResponse, BulkEntryTagsRequest } from '@/lib/types';
+import { parseTagList } from '@/lib/entry-tags';
+
+const MAX_TAGGED_ENTRIES = 1000;
+
+// POST - Agregar y/o quitar etiquetas de varias entradas a la vez
+export async function POST(request: NextRequest) {
+  try {
+    const userId = getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'No autorizado'
+      } as ApiResponse, { status: 401 });
+    }
+
+    const body: BulkEntryTagsRequest = await request.json();
+    const entryIds = Array.isArray(body.entry_ids)
+      ? [...new Set(body.entry_ids.filter(id => Number.isInteger(id)))]
+      : [];
+
+    if (entryIds.length === 0 || entryIds.length > MAX_TAGGED_ENTRIES) {
+      return NextResponse.json({
+        status: 'error',
+        message: `Indica entre 1 y ${MAX_TAGGED_ENTRIES} entradas en entry_ids`
+      } as ApiResponse, { status: 400 });
+    }
+
+    const toAdd = parseTagList(body.add);
+    const toRemove = parseTagList(body.remove);
+    const tagsError = toAdd.error ?? toRemove.error;
+    if (tagsError) {
+      return NextResponse.json({
+        status: 'error',
+        message: tagsError
+      } as ApiResponse, { status: 400 });
+    }
+
+    if (toAdd.tags.length === 0 && toRemove.tags.length === 0) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'Indica etiquetas para agregar (add) o quitar (remove)'
+      } as ApiResponse, { status: 400 });
+    }
+
+    await initializeDatabase();
+    const db = getDatabase();
+
+    // Todas las entradas deben ser de empresas del usuario
+    const companyIds = new Set((await db.getUserCompanies(userId)).map(company => company.id));
+    for (const entryId of entryIds) {
+      const entry = await db.getEntryById(entryId);
+      if (!entry || !companyIds.has(entry.company_id)) {
+        return NextResponse.json({
+          status: 'error',
+          message: `Entrada ${entryId} no encontrada o sin permisos`
+        } as ApiResponse, { status: 404 });
+      }
+    }
+
+    const removeIds = (await db.getUserTags(userId))
+      .filter(tag => toRemove.tags.includes(tag.name))
+      .map(tag => tag.id!);
+    const changeBatchId = await db.createChangeBatch(userId, 'tags', `Etiquetas en ${entryIds.length} entradas`);
+    await db.removeEntryTags(entryIds, removeIds, changeBatchId);
+    await db.addEntryTags(entryIds, await db.ensureTags(userId, toAdd.tags), changeBatchId);
+
+    return NextResponse.json({
+      status: 'ok',
+      message: `Etiquetas actualizadas en ${entryIds.length} entradas`,
+      change_batch_id: changeBatchId
+    } as ApiResponse);
+  } catch (error) {
+    console.error('Error updating entry tags:', error);
+    return NextResponse.json({
+      status: 'error',
+      message: 'Error interno del servidor'
+    } as ApiResponse, { status: 500 });
+  }
+}
@@ -0,0 +1,136 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDatabase, initializeDatabase } from '@/lib/db';
+import { getUserIdFromRequest } from '@/lib/auth';
+import { ApiResponse, EntryTemplate, EntryTemplateRequest } from '@/lib/types';
+import { parseTemplateFields } from '@/lib/entry-templates';
+
+// PUT - Editar una plantilla (solo cambian los campos enviados; active: false la pausa)
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ templateId: string }> }
+) {
+  try {
+    const userId = getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'No autorizado'
+      } as ApiResponse, { status: 401 });
+    }
+
+    const { templateId } = await params;
+    const templateIdNum = parseInt(templateId);
+    if (isNaN(templateIdNum)) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'ID de plantilla inválido'
+      } as ApiResponse, { status: 400 });
+    }
+
+    await initializeDatabase();
+    const db = getDatabase();
+
+    const template = await db.getEntryTemplateById(templateIdNum);
+    if (!template || template.user_id !== userId) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'Plantilla no encontrada o sin permisos'
+      } as ApiResponse, { status: 404 });
+    }
+
+    const body: Partial<EntryTemplateRequest> = await request.json();
+    // Al cambiar de empresa el proyecto anterior ya no aplica
+    if (body.company_id !== undefined && body.company_id !== template.company_id && body.project_id === undefined) {
+      body.project_id = null;
+    }
+
+    const { fields, error } = parseTemplateFields(body, template);
+    if (!fields) {
+      return NextResponse.json({
+        status: 'error',
+        message: error
+      } as ApiResponse, { status: 400 });
+    }
+
+    const company = await db.getCompanyById(fields.company_id);
+    if (!company || company.user_id !== userId) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'Empresa no encontrada o sin permisos'
+      } as ApiResponse, { status: 404 });
+    }
+
+    if (fields.project_id != null) {
+      const project = await db.getProjectById(fields.project_id);
+      if (!project || project.user_id !== userId || project.company_id !== fields.company_id) {
+        return NextResponse.json({
+          status: 'error',
+          message: 'Proyecto no encontrado o sin permisos'
+        } as ApiResponse, { status: 404 });
+      }
+    }
+
+    await db.updateEntryTemplate(templateIdNum, fields);
+
+    return NextResponse.json({
+      status: 'ok',
+      message: 'Plantilla actualizada correctamente',
+      data: await db.getEntryTemplateById(templateIdNum)
+    } as ApiResponse<EntryTemplate>);
+  } catch (error) {
+    console.error('Error updating entry template:', error);
+    return NextResponse.json({
+      status: 'error',
+      message: 'Error interno del servidor'
+    } as ApiResponse, { status: 500 });
+  }
+}
+
+// DELETE - Eliminar una plantilla (las horas ya generadas se conservan)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ templateId: string }> }
+) {
+  try {
+    const userId = getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'No autorizado'
+      } as ApiResponse, { status: 401 });
+    }
+
+    const { templateId } = await params;
+    const templateIdNum = parseInt(templateId);
+    if (isNaN(templateIdNum)) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'ID de plantilla inválido'
+      } as ApiResponse, { status: 400 });
+    }
+
+    await initializeDatabase();
+    const db = getDatabase();
+
+    const template = await db.getEntryTemplateById(templateIdNum);
+    if (!template || template.user_id !== userId) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'Plantilla no encontrada o sin permisos'
+      } as ApiResponse, { status: 404 });
+    }
+
+    await db.deleteEntryTemplate(templateIdNum);
+
+    return NextResponse.json({
+      status: 'ok',
+      message: 'Plantilla eliminada'
+    } as ApiResponse);
+  } catch (error) {
+    console.error('Error deleting entry template:', error);
+    return NextResponse.json({
+      status: 'error',
+      message: 'Error interno del servidor'
+    } as ApiResponse, { status: 500 });
+  }
+}
@@ -0,0 +1,186 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDatabase, initializeDatabase } from '@/lib/db';
+import { getUserIdFromRequest } from '@/lib/auth';
+import { ApiResponse, HourEntry, MaterializeTemplatesRequest } from '@/lib/types';
+import { DayWrite, groupEntriesByDate, mergeEntryDescriptions, planDayWrite } from '@/lib/entry-days';
+import { buildTemplateOccurrences } from '@/lib/entry-templates';
+import { createHolidayChecker } from '@/lib/holidays';
+import { daysBetween, isDateString } from '@/lib/dates';
+
+const MAX_MATERIALIZE_RANGE_DAYS = 366;
+
+// POST - Generar las horas de las plantillas en un rango (por defecto solo muestra la vista previa)
+export async function POST(request: NextRequest) {
+  try {
+    const userId = getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'No autorizado'
+      } as ApiResponse, { status: 401 });
+    }
+
+    const body: MaterializeTemplatesRequest = await request.json();
+    const {
+      start_date,
+      end_date,
+      template_ids,
+      mode = 'set',
+      skip_existing = false,
+      include_holidays = false,
+      preview = true
+    } = body;
+
+    if (!start_date || !end_date) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'Faltan campos requeridos: start_date, end_date'
+      } as ApiResponse, { status: 400 });
+    }
+
+    if (!isDateString(start_date) || !isDateString(end_date)) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'Formato de fecha inválido, usa YYYY-MM-DD'
+      } as ApiResponse, { status: 400 });
+    }
+
+    if (start_date > end_date) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'La fecha inicial debe ser menor o igual que la final'
+      } as ApiResponse, { status: 400 });
+    }
+
+    if (daysBetween(start_date, end_date) + 1 > MAX_MATERIALIZE_RANGE_DAYS) {
+      return NextResponse.json({
+        status: 'error',
+        message: `El rango de fechas no puede exceder ${MAX_MATERIALIZE_RANGE_DAYS} días`
+      } as ApiResponse, { status: 400 });
+    }
+
+    if (!['set', 'accumulate', 'error'].includes(mode)) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'Modo inválido, usa: set, accumulate, error'
+      } as ApiResponse, { status: 400 });
+    }
+
+    if (template_ids !== undefined && (!Array.isArray(template_ids) || template_ids.some(id => !Number.isInteger(id)))) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'template_ids debe ser una lista de IDs'
+      } as ApiResponse, { status: 400 });
+    }
+
+    await initializeDatabase();
+    const db = getDatabase();
+
+    // Sin template_ids se usan las plantillas activas; las indicadas se generan aunque estén pausadas
+    const userTemplates = await db.getUserEntryTemplates(userId);
+    const templates = template_ids
+      ? userTemplates.filter(template => template_ids.includes(template.id!))
+      : userTemplates.filter(template => template.active);
+
+    if (template_ids && templates.length !== new Set(template_ids).size) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'Plantilla no encontrada o sin permisos'
+      } as ApiResponse, { status: 404 });
+    }
+
+    const isHoliday = include_holidays
+      ? () => false
+      : createHolidayChecker(await db.getUserDaysOff(userId, start_date, end_date));
+    const occurrences = buildTemplateOccurrences(templates, start_date, end_date)
+      .filter(occurrence => !isHoliday(occurrence.date));
+    if (occurrences.length === 0) {
+      return NextResponse.json({
+        status: 'ok',
+        message: 'Ninguna plantilla aplica en el rango indicado',
+        changes: []
+      } as ApiResponse);
+    }
+
+    const projects = new Map((await db.getUserProjects(userId)).map(project => [project.id!, project]));
+    const changes: NonNullable<ApiResponse['changes']> = [];
+    const errors: string[] = [];
+    const writes: DayWrite[] = [];
+
+    // Las entradas del rango se leen una vez por empresa y se agrupan por proyecto y fecha
+    const entriesByCompany = new Map<number, HourEntry[]>();
+    for (const companyId of new Set(occurrences.map(occurrence => occurrence.company_id))) {
+      entriesByCompany.set(companyId, await db.getEntriesByDateRange(companyId, start_date, end_date));
+    }
+    const entriesByProject = new Map<string, Map<string, HourEntry[]>>();
+
+    for (const occurrence of occurrences) {
+      const project = occurrence.project_id != null ? projects.get(occurrence.project_id) : null;
+      const label = project ? `${occurrence.date} (${project.name})` : occurrence.date;
+
+      if (occurrence.project_id != null && !project) {
+        errors.push(`${label}: El proyecto de la plantilla ya no existe`);
+        continue;
+      }
+
+      const key = `${occurrence.company_id}|${occurrence.project_id ?? ''}`;
+      if (!entriesByProject.has(key)) {
+        entriesByProject.set(key, groupEntriesByDate(entriesByCompany.get(occurrence.company_id) ?? [], occurrence.project_id));
+      }
+      const dayEntries = entriesByProject.get(key)!.get(occurrence.date) ?? [];
+      const plan = planDayWrite(dayEntries, occurrence.hours, mode, skip_existing);
+
+      if (plan.action === 'skip') {
+        continue;
+      }
+
+      if (plan.action === 'error') {
+        errors.push(`${label}: ${plan.message}`);
+        continue;
+      }
+
+      const description = occurrence.description || 'Plantilla recurrente';
+      writes.push(plan.action === 'replace'
+        ? { date: occurrence.date, company_id: occurrence.company_id, project_id: occurrence.project_id, action: 'replace', hours: plan.new_total, description: mergeEntryDescriptions(dayEntries) || description, day_entries: dayEntries }
+        : { date: occurrence.date, company_id: occurrence.company_id, project_id: occurrence.project_id, action: 'append', hours: occurrence.hours, description, day_entries: [] });
+      changes.push({
+        date: occurrence.date,
+        old_value: plan.old_total,
+        new_value: plan.new_total,
+        project_id: occurrence.project_id,
+        project_name: project?.name ?? null
+      });
+    }
+
+    // Todas las horas se registran en una transacción: si una falla no se guarda ninguna
+    const changeBatchId = preview || writes.length === 0
+      ? null
+      : await db.createChangeBatch(userId, 'template', `Plantillas recurrentes del ${start_date} al ${end_date}`);
+    if (!preview) {
+      await db.applyDayWrites(writes, changeBatchId);
+    }
+
+    if (errors.length > 0 && changes.length === 0) {
+      return NextResponse.json({
+        status: 'error',
+        message: `Errores en todas las entradas: ${errors.slice(0, 10).join(', ')}`
+      } as ApiResponse, { status: 400 });
+    }
+
+    const errorSuffix = errors.length > 0 ? ` (${errors.length} errores: ${errors.slice(0, 5).join(', ')})` : '';
+    return NextResponse.json({
+      status: 'ok',
+      message: preview
+        ? `Vista previa: ${changes.length} días a registrar${errorSuffix}`
+        : `Se registraron ${changes.length} días desde plantillas${errorSuffix}`,
+      changes,
+      change_batch_id: changeBatchId
+    } as ApiResponse);
+  } catch (error) {
+    console.error('Error materializing entry templates:', error);
+    return NextResponse.json({
+      status: 'error',
+      message: 'Error interno del servidor'
+    } as ApiResponse, { status: 500 });
+  }
+}
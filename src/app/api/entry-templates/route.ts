@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDatabase, initializeDatabase } from '@/lib/db';
+import { getUserIdFromRequest } from '@/lib/auth';
+import { ApiResponse, EntryTemplate, EntryTemplateRequest } from '@/lib/types';
+import { parseTemplateFields } from '@/lib/entry-templates';
+import { todayInTimeZone } from '@/lib/dates';
+
+// GET - Plantillas de horas recurrentes del usuario
+export async function GET(request: NextRequest) {
+  try {
+    const userId = getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'No autorizado'
+      } as ApiResponse, { status: 401 });
+    }
+
+    await initializeDatabase();
+    const db = getDatabase();
+
+    return NextResponse.json({
+      status: 'ok',
+      message: 'Plantillas obtenidas correctamente',
+      data: await db.getUserEntryTemplates(userId)
+    } as ApiResponse<EntryTemplate[]>);
+  } catch (error) {
+    console.error('Error getting entry templates:', error);
+    return NextResponse.json({
+      status: 'error',
+      message: 'Error interno del servidor'
+    } as ApiResponse, { status: 500 });
+  }
+}
+
+// POST - Crear una plantilla recurrente
+export async function POST(request: NextRequest) {
+  try {
+    const userId = getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'No autorizado'
+      } as ApiResponse, { status: 401 });
+    }
+
+    const body: EntryTemplateRequest = await request.json();
+
+    await initializeDatabase();
+    const db = getDatabase();
+
+    const { fields, error } = parseTemplateFields(body, undefined, todayInTimeZone(await db.getUserTimeZone(userId)));
+    if (!fields) {
+      return NextResponse.json({
+        status: 'error',
+        message: error
+      } as ApiResponse, { status: 400 });
+    }
+
+    const company = await db.getCompanyById(fields.company_id);
+    if (!company || company.user_id !== userId) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'Empresa no encontrada o sin permisos'
+      } as ApiResponse, { status: 404 });
+    }
+
+    if (fields.project_id != null) {
+      const project = await db.getProjectById(fields.project_id);
+      if (!project || project.user_id !== userId || project.company_id !== fields.company_id) {
+        return NextResponse.json({
+          status: 'error',
+          message: 'Proyecto no encontrado o sin permisos'
+        } as ApiResponse, { status: 404 });
+      }
+    }
+
+    const templateId = await db.createEntryTemplate(userId, fields);
+
+    return NextResponse.json({
+      status: 'ok',
+      message: 'Plantilla creada correctamente',
+      data: await db.getEntryTemplateById(templateId)
+    } as ApiResponse<EntryTemplate>);
+  } catch (error) {
+    console.error('Error creating entry template:', error);
+    return NextResponse.json({
+      status: 'error',
+      message: 'Error interno del servidor'
+    } as ApiResponse, { status: 500 });
+  }
+}
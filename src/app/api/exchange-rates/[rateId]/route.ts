@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDatabase, initializeDatabase } from '@/lib/db';
+import { getUserIdFromRequest } from '@/lib/auth';
+import { ApiResponse } from '@/lib/types';
+
+// DELETE - Eliminar una tasa de cambio. Las cuentas ya creadas conservan su tasa.
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ rateId: string }> }
+) {
+  try {
+    const userId = getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'No autorizado'
+      } as ApiResponse, { status: 401 });
+    }
+
+    const { rateId } = await params;
+    const rateIdNum = parseInt(rateId);
+
+    if (isNaN(rateIdNum)) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'ID de tasa inválido'
+      } as ApiResponse, { status: 400 });
+    }
+
+    await initializeDatabase();
+    const db = getDatabase();
+
+    const rate = await db.getExchangeRateById(rateIdNum);
+    if (!rate || rate.user_id !== userId) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'Tasa de cambio no encontrada'
+      } as ApiResponse, { status: 404 });
+    }
+
+    await db.deleteExchangeRate(rateIdNum);
+
+    return NextResponse.json({
+      status: 'ok',
+      message: 'Tasa de cambio eliminada'
+    } as ApiResponse);
+  } catch (error) {
+    console.error('Error deleting exchange rate:', error);
+    return NextResponse.json({
+      status: 'error',
+      message: 'Error interno del servidor'
+    } as ApiResponse, { status: 500 });
+  }
+}
@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDatabase, initializeDatabase } from '@/lib/db';
+import { getUserIdFromRequest } from '@/lib/auth';
+import { ApiResponse, CreateExchangeRateRequest } from '@/lib/types';
+import { BASE_CURRENCY, isSupportedCurrency, isValidExchangeRate, SUPPORTED_CURRENCIES } from '@/lib/currency';
+import { isDateString, todayInTimeZone } from '@/lib/dates';
+
+// GET - Listar las tasas de cambio registradas (opcional ?currency=USD)
+export async function GET(request: NextRequest) {
+  try {
+    const userId = getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'No autorizado'
+      } as ApiResponse, { status: 401 });
+    }
+
+    const currency = new URL(request.url).searchParams.get('currency');
+    if (currency !== null && !isSupportedCurrency(currency)) {
+      return NextResponse.json({
+        status: 'error',
+        message: `Moneda inválida. Valores permitidos: ${SUPPORTED_CURRENCIES.join(', ')}`
+      } as ApiResponse, { status: 400 });
+    }
+
+    await initializeDatabase();
+    const db = getDatabase();
+
+    const rates = await db.getUserExchangeRates(userId, currency ?? undefined);
+
+    return NextResponse.json({
+      status: 'ok',
+      message: 'Tasas de cambio obtenidas',
+      data: rates
+    } as ApiResponse);
+  } catch (error) {
+    console.error('Error fetching exchange rates:', error);
+    return NextResponse.json({
+      status: 'error',
+      message: 'Error interno del servidor'
+    } as ApiResponse, { status: 500 });
+  }
+}
+
+// POST - Registrar (o reemplazar) la tasa a COP de una moneda para una fecha
+export async function POST(request: NextRequest) {
+  try {
+    const userId = getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'No autorizado'
+      } as ApiResponse, { status: 401 });
+    }
+
+    const body: CreateExchangeRateRequest = await request.json();
+
+    if (!isSupportedCurrency(body.currency) || body.currency === BASE_CURRENCY) {
+      return NextResponse.json({
+        status: 'error',
+        message: `Moneda inválida. Valores permitidos: ${SUPPORTED_CURRENCIES.filter(c => c !== BASE_CURRENCY).join(', ')}`
+      } as ApiResponse, { status: 400 });
+    }
+
+    if (!isValidExchangeRate(body.rate)) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'La tasa de cambio debe ser un número mayor que 0'
+      } as ApiResponse, { status: 400 });
+    }
+
+    await initializeDatabase();
+    const db = getDatabase();
+
+    const effectiveDate = body.effective_date || todayInTimeZone(await db.getUserTimeZone(userId));
+    if (!isDateString(effectiveDate)) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'Formato de fecha inválido, usa YYYY-MM-DD'
+      } as ApiResponse, { status: 400 });
+    }
+
+    const rateId = await db.upsertExchangeRate(userId, body.currency, body.rate, effectiveDate);
+    const rate = await db.getExchangeRateById(rateId);
+
+    return NextResponse.json({
+      status: 'ok',
+      message: 'Tasa de cambio registrada',
+      data: rate
+    } as ApiResponse, { status: 201 });
+  } catch (error) {
+    console.error('Error saving exchange rate:', error);
+    return NextResponse.json({
+      status: 'error',
+      message: 'Error interno del servidor'
+    } as ApiResponse, { status: 500 });
+  }
+}
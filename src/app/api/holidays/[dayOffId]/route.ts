@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDatabase, initializeDatabase } from '@/lib/db';
+import { getUserIdFromRequest } from '@/lib/auth';
+import { ApiResponse } from '@/lib/types';
+
+// DELETE - Eliminar un día libre del usuario (los festivos nacionales no se pueden eliminar)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ dayOffId: string }> }
+) {
+  try {
+    const userId = getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'No autorizado'
+      } as ApiResponse, { status: 401 });
+    }
+
+    const { dayOffId } = await params;
+    const dayOffIdNum = parseInt(dayOffId);
+    if (isNaN(dayOffIdNum)) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'ID de día libre inválido'
+      } as ApiResponse, { status: 400 });
+    }
+
+    await initializeDatabase();
+    const db = getDatabase();
+
+    const dayOff = await db.getUserDayOffById(dayOffIdNum);
+    if (!dayOff || dayOff.user_id !== userId) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'Día libre no encontrado o sin permisos'
+      } as ApiResponse, { status: 404 });
+    }
+
+    await db.deleteUserDayOff(dayOffIdNum);
+
+    return NextResponse.json({
+      status: 'ok',
+      message: `Día libre del ${dayOff.date} eliminado`
+    } as ApiResponse);
+  } catch (error) {
+    console.error('Error deleting day off:', error);
+    return NextResponse.json({
+      status: 'error',
+      message: 'Error interno del servidor'
+    } as ApiResponse, { status: 500 });
+  }
+}
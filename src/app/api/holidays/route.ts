@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDatabase, initializeDatabase } from '@/lib/db';
+import { getUserIdFromRequest } from '@/lib/auth';
+import { ApiResponse, CreateDayOffRequest, Holiday, UserDayOff } from '@/lib/types';
+import { getHolidaysInRange } from '@/lib/holidays';
+import { currentYearInTimeZone, isDateString } from '@/lib/dates';
+
+// GET - Festivos de Colombia y días libres del usuario de un año (?year=, por defecto el actual)
+// o de un rango (?start_date=&end_date=)
+export async function GET(request: NextRequest) {
+  try {
+    const userId = getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'No autorizado'
+      } as ApiResponse, { status: 401 });
+    }
+
+    await initializeDatabase();
+    const db = getDatabase();
+
+    const { searchParams } = new URL(request.url);
+    const year = parseInt(searchParams.get('year') ?? String(currentYearInTimeZone(await db.getUserTimeZone(userId))));
+    const startDate = searchParams.get('start_date') ?? `${year}-01-01`;
+    const endDate = searchParams.get('end_date') ?? `${year}-12-31`;
+
+    if (!isDateString(startDate) || !isDateString(endDate) || startDate > endDate) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'Rango de fechas inválido, usa YYYY-MM-DD'
+      } as ApiResponse, { status: 400 });
+    }
+
+    if (parseInt(endDate.slice(0, 4)) - parseInt(startDate.slice(0, 4)) > 10) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'El rango no puede abarcar más de 10 años'
+      } as ApiResponse, { status: 400 });
+    }
+
+    const daysOff = await db.getUserDaysOff(userId, startDate, endDate);
+
+    return NextResponse.json({
+      status: 'ok',
+      message: 'Festivos obtenidos correctamente',
+      data: getHolidaysInRange(startDate, endDate, daysOff)
+    } as ApiResponse<Holiday[]>);
+  } catch (error) {
+    console.error('Error getting holidays:', error);
+    return NextResponse.json({
+      status: 'error',
+      message: 'Error interno del servidor'
+    } as ApiResponse, { status: 500 });
+  }
+}
+
+// POST - Registrar un día libre del usuario (si la fecha ya tiene uno se renombra)
+export async function POST(request: NextRequest) {
+  try {
+    const userId = getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'No autorizado'
+      } as ApiResponse, { status: 401 });
+    }
+
+    const body: CreateDayOffRequest = await request.json();
+    const name = typeof body.name === 'string' && body.name.trim() ? body.name.trim() : 'Día libre';
+
+    if (!isDateString(body.date)) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'Formato de fecha inválido, usa YYYY-MM-DD'
+      } as ApiResponse, { status: 400 });
+    }
+
+    await initializeDatabase();
+    const db = getDatabase();
+
+    const dayOffId = await db.setUserDayOff(userId, body.date, name);
+
+    return NextResponse.json({
+      status: 'ok',
+      message: `Día libre registrado para ${body.date}`,
+      data: await db.getUserDayOffById(dayOffId)
+    } as ApiResponse<UserDayOff>);
+  } catch (error) {
+    console.error('Error creating day off:', error);
+    return NextResponse.json({
+      status: 'error',
+      message: 'Error interno del servidor'
+    } as ApiResponse, { status: 500 });
+  }
+}
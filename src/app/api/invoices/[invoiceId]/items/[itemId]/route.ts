@@ -0,0 +1,162 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDatabase, initializeDatabase } from '@/lib/db';
+import { getUserIdFromRequest } from '@/lib/auth';
+import { ApiResponse, Invoice, InvoiceItem, InvoiceItemRequest } from '@/lib/types';
+import { parseInvoiceItemRequest } from '@/lib/invoice-items';
+
+type ItemContext =
+  | { invoice: Invoice; item: InvoiceItem; error?: undefined }
+  | { error: NextResponse; invoice?: undefined; item?: undefined };
+
+// Cargar la cuenta y la línea verificando propiedad y que la cuenta siga en borrador
+async function loadDraftItem(
+  userId: number,
+  params: Promise<{ invoiceId: string; itemId: string }>
+): Promise<ItemContext> {
+  const { invoiceId, itemId } = await params;
+  const invoiceIdNum = parseInt(invoiceId);
+  const itemIdNum = parseInt(itemId);
+
+  if (isNaN(invoiceIdNum) || isNaN(itemIdNum)) {
+    return {
+      error: NextResponse.json({
+        status: 'error',
+        message: 'ID de cuenta de cobro o de línea inválido'
+      } as ApiResponse, { status: 400 })
+    };
+  }
+
+  const db = getDatabase();
+
+  const invoice = await db.getInvoiceById(invoiceIdNum);
+  if (!invoice || invoice.user_id !== userId) {
+    return {
+      error: NextResponse.json({
+        status: 'error',
+        message: 'Cuenta de cobro no encontrada'
+      } as ApiResponse, { status: 404 })
+    };
+  }
+
+  const item = await db.getInvoiceItemById(itemIdNum);
+  if (!item || item.invoice_id !== invoiceIdNum) {
+    return {
+      error: NextResponse.json({
+        status: 'error',
+        message: 'Línea no encontrada'
+      } as ApiResponse, { status: 404 })
+    };
+  }
+
+  if (invoice.status !== 'draft') {
+    return {
+      error: NextResponse.json({
+        status: 'error',
+        message: 'Solo se pueden modificar cuentas en estado borrador'
+      } as ApiResponse, { status: 400 })
+    };
+  }
+
+  return { invoice, item };
+}
+
+// PUT - Editar una línea de una cuenta en borrador
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ invoiceId: string; itemId: string }> }
+) {
+  try {
+    const userId = getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'No autorizado'
+      } as ApiResponse, { status: 401 });
+    }
+
+    const body: InvoiceItemRequest = await request.json();
+
+    await initializeDatabase();
+    const db = getDatabase();
+
+    const context = await loadDraftItem(userId, params);
+    if (context.error) return context.error;
+    const { invoice, item } = context;
+
+    const company = await db.getCompanyById(invoice.company_id);
+    const parsed = parseInvoiceItemRequest(body ?? {}, company?.hourly_rate ?? 0, item);
+    if ('error' in parsed) {
+      return NextResponse.json({
+        status: 'error',
+        message: parsed.error
+      } as ApiResponse, { status: 400 });
+    }
+
+    if (parsed.item.project_id != null && parsed.item.project_id !== item.project_id) {
+      const project = await db.getProjectById(parsed.item.project_id);
+      if (!project || project.user_id !== userId || project.company_id !== invoice.company_id) {
+        return NextResponse.json({
+          status: 'error',
+          message: 'Proyecto no encontrado o sin permisos'
+        } as ApiResponse, { status: 404 });
+      }
+    }
+
+    await db.updateInvoiceItem(item.id!, parsed.item);
+    await db.recalculateInvoiceTotals(invoice.id!);
+
+    const updated = await db.getInvoiceById(invoice.id!);
+
+    return NextResponse.json({
+      status: 'ok',
+      message: 'Línea actualizada',
+      data: updated
+    } as ApiResponse);
+  } catch (error) {
+    console.error('Error updating invoice item:', error);
+    return NextResponse.json({
+      status: 'error',
+      message: 'Error interno del servidor'
+    } as ApiResponse, { status: 500 });
+  }
+}
+
+// DELETE - Eliminar una línea de una cuenta en borrador
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ invoiceId: string; itemId: string }> }
+) {
+  try {
+    const userId = getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'No autorizado'
+      } as ApiResponse, { status: 401 });
+    }
+
+    await initializeDatabase();
+    const db = getDatabase();
+
+    const context = await loadDraftItem(userId, params);
+    if (context.error) return context.error;
+    const { invoice, item } = context;
+
+    await db.deleteInvoiceItem(item.id!);
+    await db.recalculateInvoiceTotals(invoice.id!);
+
+    const updated = await db.getInvoiceById(invoice.id!);
+
+    return NextResponse.json({
+      status: 'ok',
+      message: 'Línea eliminada',
+      data: updated
+    } as ApiResponse);
+  } catch (error) {
+    console.error('Error deleting invoice item:', error);
+    return NextResponse.json({
+      status: 'error',
+      message: 'Error interno del servidor'
+    } as ApiResponse, { status: 500 });
+  }
+}
@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDatabase, initializeDatabase } from '@/lib/db';
+import { getUserIdFromRequest } from '@/lib/auth';
+import { ApiResponse, InvoiceItemRequest } from '@/lib/types';
+import { parseInvoiceItemRequest } from '@/lib/invoice-items';
+
+// POST - Agregar una línea (horas, tarifa fija, gasto o descuento) a una cuenta en borrador
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ invoiceId: string }> }
+) {
+  try {
+    const userId = getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'No autorizado'
+      } as ApiResponse, { status: 401 });
+    }
+
+    const { invoiceId } = await params;
+    const invoiceIdNum = parseInt(invoiceId);
+
+    if (isNaN(invoiceIdNum)) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'ID de cuenta de cobro inválido'
+      } as ApiResponse, { status: 400 });
+    }
+
+    const body: InvoiceItemRequest = await request.json();
+
+    await initializeDatabase();
+    const db = getDatabase();
+
+    // Verificar propiedad
+    const invoice = await db.getInvoiceById(invoiceIdNum);
+    if (!invoice || invoice.user_id !== userId) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'Cuenta de cobro no encontrada'
+      } as ApiResponse, { status: 404 });
+    }
+
+    if (invoice.status !== 'draft') {
+      return NextResponse.json({
+        status: 'error',
+        message: 'Solo se pueden modificar cuentas en estado borrador'
+      } as ApiResponse, { status: 400 });
+    }
+
+    const company = await db.getCompanyById(invoice.company_id);
+    const parsed = parseInvoiceItemRequest(body ?? {}, company?.hourly_rate ?? 0);
+    if ('error' in parsed) {
+      return NextResponse.json({
+        status: 'error',
+        message: parsed.error
+      } as ApiResponse, { status: 400 });
+    }
+
+    if (parsed.item.project_id != null) {
+      const project = await db.getProjectById(parsed.item.project_id);
+      if (!project || project.user_id !== userId || project.company_id !== invoice.company_id) {
+        return NextResponse.json({
+          status: 'error',
+          message: 'Proyecto no encontrado o sin permisos'
+        } as ApiResponse, { status: 404 });
+      }
+    }
+
+    await db.addInvoiceItem({ ...parsed.item, invoice_id: invoiceIdNum });
+    await db.recalculateInvoiceTotals(invoiceIdNum);
+
+    const updated = await db.getInvoiceById(invoiceIdNum);
+
+    return NextResponse.json({
+      status: 'ok',
+      message: 'Línea agregada a la cuenta de cobro',
+      data: updated
+    } as ApiResponse, { status: 201 });
+  } catch (error) {
+    console.error('Error adding invoice item:', error);
+    return NextResponse.json({
+      status: 'error',
+      message: 'Error interno del servidor'
+    } as ApiResponse, { status: 500 });
+  }
+}
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDatabase, initializeDatabase } from '@/lib/db';
+import { getUserIdFromRequest } from '@/lib/auth';
+import { ApiResponse } from '@/lib/types';
+
+// DELETE - Eliminar un pago registrado por error (el estado se recalcula con el nuevo saldo)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ invoiceId: string; paymentId: string }> }
+) {
+  try {
+    const userId = getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'No autorizado'
+      } as ApiResponse, { status: 401 });
+    }
+
+    const { invoiceId, paymentId } = await params;
+    const invoiceIdNum = parseInt(invoiceId);
+    const paymentIdNum = parseInt(paymentId);
+
+    if (isNaN(invoiceIdNum) || isNaN(paymentIdNum)) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'ID de cuenta de cobro o de pago inválido'
+      } as ApiResponse, { status: 400 });
+    }
+
+    await initializeDatabase();
+    const db = getDatabase();
+
+    const invoice = await db.getInvoiceById(invoiceIdNum);
+    if (!invoice || invoice.user_id !== userId) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'Cuenta de cobro no encontrada'
+      } as ApiResponse, { status: 404 });
+    }
+
+    const payment = await db.getInvoicePaymentById(paymentIdNum);
+    if (!payment || payment.invoice_id !== invoiceIdNum) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'Pago no encontrado'
+      } as ApiResponse, { status: 404 });
+    }
+
+    if (invoice.status === 'cancelled') {
+      return NextResponse.json({
+        status: 'error',
+        message: 'No se pueden modificar pagos de una cuenta cancelada'
+      } as ApiResponse, { status: 400 });
+    }
+
+    await db.deleteInvoicePayment(paymentIdNum);
+    await db.syncInvoicePaymentStatus(invoiceIdNum);
+
+    const updated = await db.getInvoiceById(invoiceIdNum);
+
+    return NextResponse.json({
+      status: 'ok',
+      message: 'Pago eliminado',
+      data: updated
+    } as ApiResponse);
+  } catch (error) {
+    console.error('Error deleting invoice payment:', error);
+    return NextResponse.json({
+      status: 'error',
+      message: 'Error interno del servidor'
+    } as ApiResponse, { status: 500 });
+  }
+}
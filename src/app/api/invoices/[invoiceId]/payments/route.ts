@@ -0,0 +1,161 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDatabase, initializeDatabase } from '@/lib/db';
+import { getUserIdFromRequest } from '@/lib/auth';
+import { ApiResponse, CreateInvoicePaymentRequest } from '@/lib/types';
+import { INVOICE_PAYMENT_METHODS, PAYABLE_INVOICE_STATUSES, roundMoney } from '@/lib/invoice-payments';
+import { isDateString } from '@/lib/dates';
+
+// GET - Listar los pagos de una cuenta de cobro con su saldo
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ invoiceId: string }> }
+) {
+  try {
+    const userId = getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'No autorizado'
+      } as ApiResponse, { status: 401 });
+    }
+
+    const { invoiceId } = await params;
+    const invoiceIdNum = parseInt(invoiceId);
+
+    if (isNaN(invoiceIdNum)) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'ID de cuenta de cobro inválido'
+      } as ApiResponse, { status: 400 });
+    }
+
+    await initializeDatabase();
+    const db = getDatabase();
+
+    const invoice = await db.getInvoiceById(invoiceIdNum);
+    if (!invoice || invoice.user_id !== userId) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'Cuenta de cobro no encontrada'
+      } as ApiResponse, { status: 404 });
+    }
+
+    return NextResponse.json({
+      status: 'ok',
+      message: 'Pagos obtenidos',
+      data: {
+        payments: invoice.payments ?? [],
+        total_amount: invoice.total_amount,
+        net_amount: invoice.net_amount,
+        amount_paid: invoice.amount_paid,
+        balance: invoice.balance
+      }
+    } as ApiResponse);
+  } catch (error) {
+    console.error('Error fetching invoice payments:', error);
+    return NextResponse.json({
+      status: 'error',
+      message: 'Error interno del servidor'
+    } as ApiResponse, { status: 500 });
+  }
+}
+
+// POST - Registrar un pago (abono, pago total o retención) a una cuenta enviada
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ invoiceId: string }> }
+) {
+  try {
+    const userId = getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'No autorizado'
+      } as ApiResponse, { status: 401 });
+    }
+
+    const { invoiceId } = await params;
+    const invoiceIdNum = parseInt(invoiceId);
+
+    if (isNaN(invoiceIdNum)) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'ID de cuenta de cobro inválido'
+      } as ApiResponse, { status: 400 });
+    }
+
+    const body: CreateInvoicePaymentRequest = await request.json();
+    const method = body?.method ?? 'transfer';
+
+    if (!isDateString(body?.date)) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'Formato de fecha inválido, usa YYYY-MM-DD'
+      } as ApiResponse, { status: 400 });
+    }
+
+    if (typeof body.amount !== 'number' || !Number.isFinite(body.amount) || body.amount <= 0) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'El monto debe ser un número mayor que 0'
+      } as ApiResponse, { status: 400 });
+    }
+
+    if (!INVOICE_PAYMENT_METHODS.includes(method)) {
+      return NextResponse.json({
+        status: 'error',
+        message: `Medio de pago inválido. Valores permitidos: ${INVOICE_PAYMENT_METHODS.join(', ')}`
+      } as ApiResponse, { status: 400 });
+    }
+
+    await initializeDatabase();
+    const db = getDatabase();
+
+    const invoice = await db.getInvoiceById(invoiceIdNum);
+    if (!invoice || invoice.user_id !== userId) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'Cuenta de cobro no encontrada'
+      } as ApiResponse, { status: 404 });
+    }
+
+    if (!PAYABLE_INVOICE_STATUSES.includes(invoice.status)) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'Solo se pueden registrar pagos en cuentas enviadas con saldo pendiente'
+      } as ApiResponse, { status: 400 });
+    }
+
+    const amount = roundMoney(body.amount);
+    if (amount > (invoice.balance ?? 0)) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'El pago supera el saldo pendiente de la cuenta'
+      } as ApiResponse, { status: 400 });
+    }
+
+    await db.addInvoicePayment({
+      invoice_id: invoiceIdNum,
+      date: body.date,
+      amount,
+      method,
+      reference: body.reference?.toString().trim() || undefined,
+      notes: body.notes?.toString().trim() || undefined
+    });
+    await db.syncInvoicePaymentStatus(invoiceIdNum);
+
+    const updated = await db.getInvoiceById(invoiceIdNum);
+
+    return NextResponse.json({
+      status: 'ok',
+      message: updated?.status === 'paid' ? 'Pago registrado, la cuenta quedó pagada' : 'Pago registrado',
+      data: updated
+    } as ApiResponse, { status: 201 });
+  } catch (error) {
+    console.error('Error adding invoice payment:', error);
+    return NextResponse.json({
+      status: 'error',
+      message: 'Error interno del servidor'
+    } as ApiResponse, { status: 500 });
+  }
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDatabase, initializeDatabase } from '@/lib/db';
+import { getUserIdFromRequest } from '@/lib/auth';
+import { ApiResponse } from '@/lib/types';
+import { renderInvoicePdf } from '@/lib/invoice-pdf';
+import { getInvoiceFileName } from '@/lib/invoice-files';
+
+// GET - Descargar la cuenta de cobro en PDF (?inline=true para abrirla en el navegador)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ invoiceId: string }> }
+) {
+  try {
+    const userId = getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'No autorizado'
+      } as ApiResponse, { status: 401 });
+    }
+
+    const { invoiceId } = await params;
+    const invoiceIdNum = parseInt(invoiceId);
+
+    if (isNaN(invoiceIdNum)) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'ID de cuenta de cobro inválido'
+      } as ApiResponse, { status: 400 });
+    }
+
+    await initializeDatabase();
+    const db = getDatabase();
+
+    const invoice = await db.getInvoiceById(invoiceIdNum);
+    if (!invoice || invoice.user_id !== userId) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'Cuenta de cobro no encontrada'
+      } as ApiResponse, { status: 404 });
+    }
+
+    const pdf = renderInvoicePdf(invoice);
+    const fileName = getInvoiceFileName(invoice);
+    const { searchParams } = new URL(request.url);
+    const disposition = searchParams.get('inline') === 'true' ? 'inline' : 'attachment';
+
+    return new NextResponse(pdf, {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `${disposition}; filename="${fileName}"`,
+        'Content-Length': pdf.byteLength.toString(),
+        'Cache-Control': 'no-store'
+      }
+    });
+  } catch (error) {
+    console.error('Error generating invoice PDF:', error);
+    return NextResponse.json({
+      status: 'error',
+      message: 'Error interno del servidor'
+    } as ApiResponse, { status: 500 });
+  }
+}
@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getDatabase, initializeDatabase } from '@/lib/db';
 import { getUserIdFromRequest } from '@/lib/auth';
 import { ApiResponse, InvoiceStatus } from '@/lib/types';
+import { resolveInvoiceTaxRates } from '@/lib/invoice-taxes';
+import { todayInTimeZone } from '@/lib/dates';
 
 // GET - Obtener una cuenta de cobro específica
 export async function GET(
@@ -94,13 +96,35 @@ export async function PATCH(
     // Actualizar estado si se proporciona
     if (body.status) {
       const newStatus = body.status as InvoiceStatus;
+      // partially_paid no se asigna a mano: depende de los pagos registrados
       if (!['draft', 'sent', 'paid', 'cancelled'].includes(newStatus)) {
         return NextResponse.json({
           status: 'error',
           message: 'Estado inválido. Valores permitidos: draft, sent, paid, cancelled'
         } as ApiResponse, { status: 400 });
       }
+
+      if (newStatus === 'paid' && (invoice.balance ?? 0) > 0) {
+        // Marcar como pagada registra un pago por el saldo pendiente para mantener el historial
+        await db.addInvoicePayment({
+          invoice_id: invoiceIdNum,
+          date: todayInTimeZone(await db.getUserTimeZone(userId)),
+          amount: invoice.balance!,
+          method: 'other',
+          reference: 'Marcada como pagada'
+        });
+      }
+
       await db.updateInvoiceStatus(invoiceIdNum, newStatus);
+
+      if (newStatus === 'sent') {
+        await db.syncInvoicePaymentStatus(invoiceIdNum);
+      }
+
+      // Una cuenta anulada libera sus horas para facturarlas en otra
+      if (newStatus === 'cancelled') {
+        await db.releaseInvoiceEntries(invoiceIdNum);
+      }
     }
 
     // Actualizar firma si se proporciona
@@ -116,6 +140,24 @@ export async function PATCH(
       }
     }
 
+    // Volver a aplicar IVA y retenciones desde la configuración actual (solo borradores)
+    if (body.refresh_taxes) {
+      if (invoice.status !== 'draft') {
+        return NextResponse.json({
+          status: 'error',
+          message: 'Solo se pueden recalcular los impuestos de cuentas en borrador'
+        } as ApiResponse, { status: 400 });
+      }
+
+      const userBillingInfo = await db.getUserBillingInfo(userId);
+      const companyBillingInfo = await db.getCompanyBillingInfo(invoice.company_id);
+      await db.updateInvoiceTaxRates(
+        invoiceIdNum,
+        resolveInvoiceTaxRates(userBillingInfo, companyBillingInfo),
+        userBillingInfo?.social_security_note ?? null
+      );
+    }
+
     const updated = await db.getInvoiceById(invoiceIdNum);
 
     return NextResponse.json({
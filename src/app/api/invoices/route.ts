@@ -2,6 +2,12 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getDatabase, initializeDatabase } from '@/lib/db';
 import { getUserIdFromRequest } from '@/lib/auth';
 import { ApiResponse, CreateInvoiceFromHoursRequest, Invoice } from '@/lib/types';
+import { buildInvoiceItemsFromEntries, calculateInvoiceTotals, INVOICE_GROUPINGS } from '@/lib/invoice-items';
+import { calculateInvoiceTaxes, resolveInvoiceTaxRates } from '@/lib/invoice-taxes';
+import { BASE_CURRENCY, isValidExchangeRate } from '@/lib/currency';
+import { createRateResolver, isBillableEntry } from '@/lib/rates';
+import { todayInTimeZone } from '@/lib/dates';
+import { isEntryInvoiced } from '@/lib/entry-days';
 
 // GET - Listar todas las cuentas de cobro del usuario
 export async function GET(request: NextRequest) {
@@ -70,6 +76,21 @@ export async function POST(request: NextRequest) {
       } as ApiResponse, { status: 400 });
     }
 
+    const grouping = body.grouping ?? 'single';
+    if (!INVOICE_GROUPINGS.includes(grouping)) {
+      return NextResponse.json({
+        status: 'error',
+        message: `Agrupación inválida. Valores permitidos: ${INVOICE_GROUPINGS.join(', ')}`
+      } as ApiResponse, { status: 400 });
+    }
+
+    if (body.exchange_rate !== undefined && !isValidExchangeRate(body.exchange_rate)) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'La tasa de cambio debe ser un número mayor que 0'
+      } as ApiResponse, { status: 400 });
+    }
+
     await initializeDatabase();
     const db = getDatabase();
 
@@ -82,6 +103,23 @@ export async function POST(request: NextRequest) {
       } as ApiResponse, { status: 404 });
     }
 
+    // Tasa de cambio del día de emisión: queda guardada en la cuenta
+    const issueDate = body.issue_date || todayInTimeZone(await db.getUserTimeZone(userId));
+    let exchangeRate = 1;
+    if (company.currency !== BASE_CURRENCY) {
+      const storedRate = body.exchange_rate === undefined
+        ? await db.getExchangeRateForDate(userId, company.currency, issueDate)
+        : null;
+      const rate = body.exchange_rate ?? storedRate?.rate;
+      if (!rate) {
+        return NextResponse.json({
+          status: 'error',
+          message: `No hay tasa de cambio ${company.currency}/COP registrada para el ${issueDate}`
+        } as ApiResponse, { status: 400 });
+      }
+      exchangeRate = rate;
+    }
+
     // Obtener datos de facturación del usuario
     const userBillingInfo = await db.getUserBillingInfo(userId);
     if (!userBillingInfo) {
@@ -109,9 +147,53 @@ export async function POST(request: NextRequest) {
       } as ApiResponse, { status: 400 });
     }
 
-    // Calcular totales
-    const totalHours = entries.reduce((sum, entry) => sum + entry.hours, 0);
-    const totalAmount = totalHours * company.hourly_rate;
+    // Las horas no facturables no se cobran
+    entries = entries.filter(isBillableEntry);
+    if (entries.length === 0) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'Las horas del periodo están marcadas como no facturables'
+      } as ApiResponse, { status: 400 });
+    }
+
+    // Las horas ya facturadas no se cobran dos veces: se rechaza la cuenta o, con skip_invoiced, se omiten
+    const invoicedEntries = entries.filter(isEntryInvoiced);
+    let warning: string | null = null;
+    if (invoicedEntries.length > 0) {
+      const invoicedHours = Math.round(invoicedEntries.reduce((sum, entry) => sum + entry.hours, 0) * 100) / 100;
+      const invoiceNumbers = [...new Set(invoicedEntries.map(entry => entry.invoice_number ?? ''))].join(', ');
+      const summary = `${invoicedHours} horas del periodo ya están facturadas en: ${invoiceNumbers}`;
+
+      if (!body.skip_invoiced) {
+        return NextResponse.json({
+          status: 'error',
+          message: `${summary}. Usa skip_invoiced para omitirlas`
+        } as ApiResponse, { status: 409 });
+      }
+
+      entries = entries.filter(entry => !isEntryInvoiced(entry));
+      if (entries.length === 0) {
+        return NextResponse.json({
+          status: 'error',
+          message: 'Todas las horas del periodo ya están facturadas'
+        } as ApiResponse, { status: 400 });
+      }
+      warning = `${summary} (omitidas)`;
+    }
+
+    // Construir las líneas según la agrupación con la tarifa vigente en cada fecha y calcular totales desde ellas
+    const items = buildInvoiceItemsFromEntries(
+      entries,
+      grouping,
+      createRateResolver(await db.getCompanyRates(body.company_id), company.hourly_rate),
+      body.concept || 'Servicios de Desarrollo',
+      grouping === 'project' ? await db.getCompanyProjects(body.company_id) : []
+    );
+    const { total_hours: totalHours, total_amount: totalAmount } = calculateInvoiceTotals(items);
+
+    // IVA y retenciones: las tarifas quedan guardadas en la cuenta como foto del momento
+    const taxRates = resolveInvoiceTaxRates(userBillingInfo, companyBillingInfo);
+    const taxes = calculateInvoiceTaxes(totalAmount, taxRates);
 
     // Obtener nombre del proyecto si aplica
     let projectName: string | undefined;
@@ -128,7 +210,7 @@ export async function POST(request: NextRequest) {
       user_id: userId,
       company_id: body.company_id,
       number: invoiceNumber,
-      issue_date: body.issue_date || new Date().toISOString().split('T')[0],
+      issue_date: issueDate,
       period_start: body.period_start,
       period_end: body.period_end,
       project_name: projectName,
@@ -148,28 +230,29 @@ export async function POST(request: NextRequest) {
       client_nit: companyBillingInfo?.nit,
       client_address: companyBillingInfo?.address,
       client_city: companyBillingInfo?.city,
+      currency: company.currency,
+      exchange_rate: exchangeRate,
       total_hours: totalHours,
-      total_amount: totalAmount
+      total_amount: totalAmount,
+      ...taxRates,
+      ...taxes,
+      social_security_note: userBillingInfo.social_security_note
     };
 
     const invoiceId = await db.createInvoice(invoice);
 
-    // Crear el item de la cuenta (línea de conceptos)
-    await db.addInvoiceItem({
-      invoice_id: invoiceId,
-      concept: body.concept || 'Servicios de Desarrollo',
-      hours: totalHours,
-      rate: company.hourly_rate,
-      total: totalAmount,
-      project_id: body.project_id ?? null
-    });
+    // Crear los items de la cuenta (líneas de conceptos) y enlazar cada entrada con su línea
+    for (const { entry_ids: entryIds, ...item } of items) {
+      const itemId = await db.addInvoiceItem({ ...item, invoice_id: invoiceId });
+      await db.linkEntriesToInvoiceItem(itemId, entryIds);
+    }
 
     // Obtener la cuenta creada completa
     const createdInvoice = await db.getInvoiceById(invoiceId);
 
     return NextResponse.json({
       status: 'ok',
-      message: 'Cuenta de cobro creada exitosamente',
+      message: warning ? `Cuenta de cobro creada. ${warning}` : 'Cuenta de cobro creada exitosamente',
       data: createdInvoice
     } as ApiResponse, { status: 201 });
   } catch (error) {
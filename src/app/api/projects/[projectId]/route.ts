@@ -0,0 +1,145 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDatabase, initializeDatabase } from '@/lib/db';
+import { getUserIdFromRequest } from '@/lib/auth';
+import { ApiResponse, UpdateProjectRequest } from '@/lib/types';
+
+// PUT - Renombrar un proyecto o cambiar si sus horas nuevas son facturables por defecto
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ projectId: string }> }
+) {
+  try {
+    const userId = getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'No autorizado'
+      } as ApiResponse, { status: 401 });
+    }
+
+    const { projectId } = await params;
+    const projectIdNum = parseInt(projectId);
+
+    if (isNaN(projectIdNum)) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'ID de proyecto inválido'
+      } as ApiResponse, { status: 400 });
+    }
+
+    const body: UpdateProjectRequest = await request.json();
+    const name = typeof body?.name === 'string' ? body.name.trim() : '';
+
+    if (!name) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'Falta campo requerido: name'
+      } as ApiResponse, { status: 400 });
+    }
+
+    if (body.billable_default !== undefined && typeof body.billable_default !== 'boolean') {
+      return NextResponse.json({
+        status: 'error',
+        message: 'billable_default debe ser true o false'
+      } as ApiResponse, { status: 400 });
+    }
+
+    await initializeDatabase();
+    const db = getDatabase();
+
+    const project = await db.getProjectById(projectIdNum);
+    if (!project || project.user_id !== userId) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'Proyecto no encontrado o sin permisos'
+      } as ApiResponse, { status: 404 });
+    }
+
+    const duplicate = await db.getProjectByName(project.company_id, name, true);
+    if (duplicate && duplicate.id !== project.id) {
+      return NextResponse.json({
+        status: 'error',
+        message: duplicate.deleted_at
+          ? 'Ya existe un proyecto con ese nombre en la papelera'
+          : 'Ya existe un proyecto con ese nombre en la empresa'
+      } as ApiResponse, { status: 409 });
+    }
+
+    await db.updateProject(projectIdNum, name, body.billable_default);
+    const updated = await db.getProjectById(projectIdNum);
+
+    return NextResponse.json({
+      status: 'ok',
+      message: 'Proyecto actualizado correctamente',
+      data: updated
+    } as ApiResponse);
+  } catch (error) {
+    console.error('Error updating project:', error);
+    return NextResponse.json({
+      status: 'error',
+      message: 'Error interno del servidor'
+    } as ApiResponse, { status: 500 });
+  }
+}
+
+// DELETE - Enviar un proyecto a la papelera (?preview=true solo devuelve el impacto)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ projectId: string }> }
+) {
+  try {
+    const userId = getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'No autorizado'
+      } as ApiResponse, { status: 401 });
+    }
+
+    const { projectId } = await params;
+    const projectIdNum = parseInt(projectId);
+
+    if (isNaN(projectIdNum)) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'ID de proyecto inválido'
+      } as ApiResponse, { status: 400 });
+    }
+
+    await initializeDatabase();
+    const db = getDatabase();
+
+    const project = await db.getProjectById(projectIdNum);
+    if (!project || project.user_id !== userId) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'Proyecto no encontrado o sin permisos'
+      } as ApiResponse, { status: 404 });
+    }
+
+    const impact = await db.getProjectDeletionImpact(projectIdNum);
+
+    const { searchParams } = new URL(request.url);
+    if (searchParams.get('preview') === 'true') {
+      return NextResponse.json({
+        status: 'ok',
+        message: 'Vista previa de eliminación',
+        data: { project, impact }
+      } as ApiResponse);
+    }
+
+    await db.deleteProject(projectIdNum);
+
+    return NextResponse.json({
+      status: 'ok',
+      message: `Proyecto ${project.name} enviado a la papelera`,
+      data: { project, impact }
+    } as ApiResponse);
+  } catch (error) {
+    console.error('Error deleting project:', error);
+    return NextResponse.json({
+      status: 'error',
+      message: 'Error interno del servidor'
+    } as ApiResponse, { status: 500 });
+  }
+}
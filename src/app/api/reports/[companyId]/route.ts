@@ -2,6 +2,12 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getDatabase } from '@/lib/db';
 import { getUserIdFromRequest } from '@/lib/auth';
 import { ApiResponse, HourEntry } from '@/lib/types';
+import { findRateForDate } from '@/lib/currency';
+import { calculateBillableHours, calculateEarnings, createRateResolver, isBillableEntry } from '@/lib/rates';
+import { roundMoney } from '@/lib/invoice-payments';
+import { formatEntryTimeRange, hasEntryTimes } from '@/lib/entry-times';
+import { filterEntriesByTags, parseTagList, summarizeEntriesByTag } from '@/lib/entry-tags';
+import { isDateString } from '@/lib/dates';
 
 export async function GET(
   request: NextRequest,
@@ -28,6 +34,9 @@ export async function GET(
     const { searchParams } = new URL(request.url);
     const startDate = searchParams.get('startDate');
     const endDate = searchParams.get('endDate');
+    // tag=support,bugfix filtra entradas con alguna de esas etiquetas (none = sin etiqueta); groupBy=tag agrega el desglose por etiqueta
+    const { tags: tagFilter, error: tagError } = parseTagList(searchParams.get('tag'));
+    const groupBy = searchParams.get('groupBy') ?? 'project';
 
     if (!startDate || !endDate) {
       return NextResponse.json({
@@ -37,14 +46,20 @@ export async function GET(
     }
 
     // Validar formato de fecha YYYY-MM-DD
-    const dateRegex = /^\d{4}-\d{2}-\d{2}$/;
-    if (!dateRegex.test(startDate) || !dateRegex.test(endDate)) {
+    if (!isDateString(startDate) || !isDateString(endDate)) {
       return NextResponse.json({
         status: 'error',
         message: 'Formato de fecha inválido, usa YYYY-MM-DD'
       } as ApiResponse, { status: 400 });
     }
 
+    if (tagError || !['project', 'tag'].includes(groupBy)) {
+      return NextResponse.json({
+        status: 'error',
+        message: tagError ?? 'Agrupación inválida, usa: project, tag'
+      } as ApiResponse, { status: 400 });
+    }
+
     const db = getDatabase();
     await db.init();
 
@@ -57,38 +72,66 @@ export async function GET(
       } as ApiResponse, { status: 404 });
     }
 
-    // Obtener tarifa de la empresa
+    // Tarifa vigente en la fecha de cada entrada (historial general y por proyecto)
     const hourlyRate = company.hourly_rate || 0;
+    const resolveRate = createRateResolver(await db.getCompanyRates(companyId), hourlyRate);
+
+    // Tasas registradas para la moneda de la empresa; cada entrada se convierte con la tasa de su fecha
+    const exchangeRates = company.currency === 'COP' ? [] : await db.getUserExchangeRates(userId, company.currency);
+    const toCopAmount = (projectEntries: HourEntry[]): number | null => {
+      let total = 0;
+      for (const entry of projectEntries.filter(isBillableEntry)) {
+        const rate = findRateForDate(exchangeRates, company.currency, entry.date);
+        if (rate === null) return null;
+        total += entry.hours * resolveRate(entry) * rate;
+      }
+      return roundMoney(total);
+    };
+
+    // Horarios de las entradas que los registran (clientes que piden entrada y salida)
+    const describeTimeRanges = (projectEntries: HourEntry[]) => projectEntries
+      .filter(hasEntryTimes)
+      .map((entry: HourEntry) => `${entry.date}: ${formatEntryTimeRange(entry)}`);
 
     // Obtener todos los proyectos de la empresa
     const projects = await db.getCompanyProjects(companyId);
 
     // Obtener entradas de horas en el rango de fechas
-    const entries = await db.getEntriesByDateRange(companyId, startDate, endDate);
+    const entries = filterEntriesByTags(await db.getEntriesByDateRange(companyId, startDate, endDate), tagFilter);
 
     // Agrupar entradas por proyecto
     const projectSummaries = [];
     let totalHours = 0;
+    let billableHours = 0;
     let totalAmount = 0;
+    let totalAmountCop: number | null = 0;
 
-    // Procesar proyecto sin asignar (project_id = null)
-    const unassignedEntries = entries.filter((entry: HourEntry) => entry.project_id === null);
+    // Procesar proyecto sin asignar (project_id = null). Las horas de un proyecto en la papelera siguen
+    // vigentes (y facturables) hasta que se purga y quedan sin proyecto, así que se cuentan aquí
+    const activeProjectIds = new Set(projects.map(project => project.id));
+    const unassignedEntries = entries.filter((entry: HourEntry) => entry.project_id == null || !activeProjectIds.has(entry.project_id));
     if (unassignedEntries.length > 0) {
       const projectHours = unassignedEntries.reduce((sum: number, entry: HourEntry) => sum + entry.hours, 0);
-      const projectAmount = projectHours * hourlyRate;
+      const projectAmount = calculateEarnings(unassignedEntries, resolveRate);
+      const projectAmountCop = toCopAmount(unassignedEntries);
       
       projectSummaries.push({
         project_id: null,
         project_name: 'Sin proyecto asignado',
         hours: projectHours,
+        billable_hours: calculateBillableHours(unassignedEntries),
         amount: projectAmount,
+        amount_cop: projectAmountCop,
         descriptions: unassignedEntries
           .filter((entry: HourEntry) => entry.description && entry.description.trim())
-          .map((entry: HourEntry) => `${entry.date}: ${entry.description}`)
+          .map((entry: HourEntry) => `${entry.date}: ${entry.description}`),
+        time_ranges: describeTimeRanges(unassignedEntries)
       });
       
       totalHours += projectHours;
+      billableHours += calculateBillableHours(unassignedEntries);
       totalAmount += projectAmount;
+      totalAmountCop = totalAmountCop === null || projectAmountCop === null ? null : totalAmountCop + projectAmountCop;
     }
 
     // Procesar proyectos específicos
@@ -96,37 +139,53 @@ export async function GET(
       const projectEntries = entries.filter((entry: HourEntry) => entry.project_id === project.id);
       if (projectEntries.length > 0) {
         const projectHours = projectEntries.reduce((sum: number, entry: HourEntry) => sum + entry.hours, 0);
-        const projectAmount = projectHours * hourlyRate;
+        const projectAmount = calculateEarnings(projectEntries, resolveRate);
+        const projectAmountCop = toCopAmount(projectEntries);
         
         projectSummaries.push({
           project_id: project.id,
           project_name: project.name,
           hours: projectHours,
+          billable_hours: calculateBillableHours(projectEntries),
           amount: projectAmount,
+          amount_cop: projectAmountCop,
           descriptions: projectEntries
             .filter((entry: HourEntry) => entry.description && entry.description.trim())
-            .map((entry: HourEntry) => `${entry.date}: ${entry.description}`)
+            .map((entry: HourEntry) => `${entry.date}: ${entry.description}`),
+          time_ranges: describeTimeRanges(projectEntries)
         });
         
         totalHours += projectHours;
+        billableHours += calculateBillableHours(projectEntries);
         totalAmount += projectAmount;
+        totalAmountCop = totalAmountCop === null || projectAmountCop === null ? null : totalAmountCop + projectAmountCop;
       }
     }
 
     const reportData = {
       company: {
         id: company.id,
-        name: company.name
+        name: company.name,
+        currency: company.currency
       },
       period: {
         start_date: startDate,
         end_date: endDate
       },
+      tag_filter: tagFilter,
       projects: projectSummaries,
+      ...(groupBy === 'tag' ? { tags: summarizeEntriesByTag(entries, resolveRate) } : {}),
       summary: {
         total_hours: totalHours,
+        billable_hours: billableHours,
         total_amount: totalAmount,
-        hourly_rate: hourlyRate
+        // null si falta la tasa de cambio de alguna fecha del periodo
+        total_amount_cop: totalAmountCop === null ? null : roundMoney(totalAmountCop),
+        exchange_rate: findRateForDate(exchangeRates, company.currency, endDate),
+        // Tarifa general vigente al cierre del periodo y tarifa efectiva: monto sobre todas las horas trabajadas,
+        // que difiere de la tarifa si hubo cambios de tarifa o horas no facturables
+        hourly_rate: resolveRate({ date: endDate, project_id: null }),
+        effective_hourly_rate: totalHours > 0 ? roundMoney(totalAmount / totalHours) : 0
       }
     };
 
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getDatabase } from '@/lib/db';
 import { getUserIdFromRequest } from '@/lib/auth';
 import { ApiResponse } from '@/lib/types';
+import { isDateString, todayInTimeZone } from '@/lib/dates';
 
 export async function POST(request: NextRequest) {
   try {
@@ -17,7 +18,7 @@ export async function POST(request: NextRequest) {
     await db.init();
 
     const body = await request.json();
-    const { rate, company_id } = body ?? {};
+    const { rate, company_id, effective_from } = body ?? {};
 
     if (typeof rate !== 'number' || !company_id) {
       return NextResponse.json({
@@ -33,6 +34,13 @@ export async function POST(request: NextRequest) {
       } as ApiResponse, { status: 400 });
     }
 
+    if (effective_from !== undefined && !isDateString(effective_from)) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'Formato de fecha inválido, usa YYYY-MM-DD'
+      } as ApiResponse, { status: 400 });
+    }
+
     const company = await db.getCompanyById(company_id);
     if (!company || company.user_id !== userId) {
       return NextResponse.json({
@@ -41,7 +49,7 @@ export async function POST(request: NextRequest) {
       } as ApiResponse, { status: 404 });
     }
 
-    await db.updateCompanyRate(company_id, rate);
+    await db.updateCompanyRate(company_id, rate, effective_from, todayInTimeZone(await db.getUserTimeZone(userId)));
 
     const response: ApiResponse = {
       status: 'ok',
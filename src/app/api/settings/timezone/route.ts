@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDatabase } from '@/lib/db';
+import { getUserIdFromRequest } from '@/lib/auth';
+import { ApiResponse, UpdateTimeZoneRequest } from '@/lib/types';
+import { isValidTimeZone, todayInTimeZone } from '@/lib/dates';
+
+// GET - Zona horaria del usuario y la fecha de hoy en esa zona
+export async function GET(request: NextRequest) {
+  try {
+    const userId = getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'No autorizado'
+      } as ApiResponse, { status: 401 });
+    }
+
+    const db = getDatabase();
+    await db.init();
+
+    const timezone = await db.getUserTimeZone(userId);
+
+    return NextResponse.json({
+      status: 'ok',
+      message: 'Zona horaria obtenida correctamente',
+      data: { timezone, today: todayInTimeZone(timezone) }
+    } as ApiResponse<{ timezone: string; today: string }>);
+  } catch (error) {
+    console.error('Error getting user timezone:', error);
+    return NextResponse.json({
+      status: 'error',
+      message: 'Error interno del servidor'
+    } as ApiResponse, { status: 500 });
+  }
+}
+
+// PUT - Cambiar la zona horaria (IANA, p. ej. America/Bogota). Define qué día es "hoy" para el
+// cronómetro, las tarifas y los valores por defecto; no mueve las fechas ya registradas
+export async function PUT(request: NextRequest) {
+  try {
+    const userId = getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'No autorizado'
+      } as ApiResponse, { status: 401 });
+    }
+
+    const body: UpdateTimeZoneRequest = await request.json();
+    if (!isValidTimeZone(body?.timezone)) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'Zona horaria inválida, usa un nombre IANA como America/Bogota'
+      } as ApiResponse, { status: 400 });
+    }
+
+    const db = getDatabase();
+    await db.init();
+
+    await db.updateUserTimeZone(userId, body.timezone);
+
+    return NextResponse.json({
+      status: 'ok',
+      message: `Zona horaria actualizada a ${body.timezone}`,
+      data: { timezone: body.timezone, today: todayInTimeZone(body.timezone) }
+    } as ApiResponse<{ timezone: string; today: string }>);
+  } catch (error) {
+    console.error('Error updating user timezone:', error);
+    return NextResponse.json({
+      status: 'error',
+      message: 'Error interno del servidor'
+    } as ApiResponse, { status: 500 });
+  }
+}
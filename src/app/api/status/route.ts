@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getDatabase, initializeDatabase } from '@/lib/db';
 import { getUserIdFromRequest } from '@/lib/auth';
 import { ApiResponse } from '@/lib/types';
+import { getTrashRetentionDays } from '@/lib/trash';
 
 export async function GET(request: NextRequest) {
   try {
@@ -15,6 +16,9 @@ export async function GET(request: NextRequest) {
 
     await initializeDatabase();
     const db = getDatabase();
+
+    // Retención de la papelera: al cargar el estado se purga lo que superó el plazo
+    await db.purgeTrash(getTrashRetentionDays(), userId);
     
     // Get query parameters
     const url = new URL(request.url);
@@ -35,6 +39,9 @@ export async function GET(request: NextRequest) {
     // Get companies first
   const companies = await db.getUserCompanies(userId);
   const projects = await db.getUserProjects(userId);
+  const exchangeRates = await db.getUserExchangeRates(userId);
+  const daysOff = await db.getUserDaysOff(userId);
+  const timeOff = await db.getUserTimeOff(userId);
     
     // If no company specified but user has companies, use the first one
     let selectedCompanyId = companyIdNum;
@@ -42,11 +49,12 @@ export async function GET(request: NextRequest) {
       selectedCompanyId = companies[0].id!;
     }
     
-    const [entries, weekdayAverages, totalHours] = selectedCompanyId ? await Promise.all([
+    const [entries, weekdayAverages, totalHours, companyRates] = selectedCompanyId ? await Promise.all([
       db.getEntries(selectedCompanyId),
       db.getWeekdayAverages(selectedCompanyId),
-      db.getTotalHours(selectedCompanyId)
-    ]) : [[], [], 0];
+      db.getTotalHours(selectedCompanyId),
+      db.getCompanyRates(selectedCompanyId)
+    ]) : [[], [], 0, []];
 
     const response: ApiResponse = {
       status: 'ok',
@@ -55,7 +63,11 @@ export async function GET(request: NextRequest) {
         entries,
         companies,
         projects,
+        exchange_rates: exchangeRates,
+        company_rates: companyRates,
         weekday_averages: weekdayAverages,
+        days_off: daysOff,
+        time_off: timeOff,
         total_hours: totalHours,
         entry_count: entries.length
       }
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDatabase, initializeDatabase } from '@/lib/db';
+import { getUserIdFromRequest } from '@/lib/auth';
+import { ApiResponse } from '@/lib/types';
+
+// DELETE - Eliminar una etiqueta y quitarla de todas las entradas
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ tagId: string }> }
+) {
+  try {
+    const userId = getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'No autorizado'
+      } as ApiResponse, { status: 401 });
+    }
+
+    const { tagId } = await params;
+    const tagIdNum = parseInt(tagId);
+    if (isNaN(tagIdNum)) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'ID de etiqueta inválido'
+      } as ApiResponse, { status: 400 });
+    }
+
+    await initializeDatabase();
+    const db = getDatabase();
+
+    const tag = await db.getTagById(tagIdNum);
+    if (!tag || tag.user_id !== userId) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'Etiqueta no encontrada o sin permisos'
+      } as ApiResponse, { status: 404 });
+    }
+
+    await db.deleteTag(tagIdNum);
+
+    return NextResponse.json({
+      status: 'ok',
+      message: `Etiqueta "${tag.name}" eliminada`
+    } as ApiResponse);
+  } catch (error) {
+    console.error('Error deleting tag:', error);
+    return NextResponse.json({
+      status: 'error',
+      message: 'Error interno del servidor'
+    } as ApiResponse, { status: 500 });
+  }
+}
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDatabase, initializeDatabase } from '@/lib/db';
+import { getUserIdFromRequest } from '@/lib/auth';
+import { ApiResponse, CreateTagRequest, Tag } from '@/lib/types';
+import { parseTagList } from '@/lib/entry-tags';
+
+// GET - Etiquetas del usuario con la cantidad de entradas de cada una
+export async function GET(request: NextRequest) {
+  try {
+    const userId = getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'No autorizado'
+      } as ApiResponse, { status: 401 });
+    }
+
+    await initializeDatabase();
+    const db = getDatabase();
+
+    return NextResponse.json({
+      status: 'ok',
+      message: 'Etiquetas obtenidas correctamente',
+      data: await db.getUserTags(userId)
+    } as ApiResponse<Tag[]>);
+  } catch (error) {
+    console.error('Error getting tags:', error);
+    return NextResponse.json({
+      status: 'error',
+      message: 'Error interno del servidor'
+    } as ApiResponse, { status: 500 });
+  }
+}
+
+// POST - Crear una etiqueta (si ya existe se devuelve la misma)
+export async function POST(request: NextRequest) {
+  try {
+    const userId = getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'No autorizado'
+      } as ApiResponse, { status: 401 });
+    }
+
+    const body: CreateTagRequest = await request.json();
+    const { tags, error } = parseTagList(body.name);
+    if (error || tags.length !== 1) {
+      return NextResponse.json({
+        status: 'error',
+        message: error ?? 'Indica un nombre de etiqueta (sin comas)'
+      } as ApiResponse, { status: 400 });
+    }
+
+    await initializeDatabase();
+    const db = getDatabase();
+
+    const [tagId] = await db.ensureTags(userId, tags);
+
+    return NextResponse.json({
+      status: 'ok',
+      message: `Etiqueta "${tags[0]}" lista`,
+      data: await db.getTagById(tagId)
+    } as ApiResponse<Tag>);
+  } catch (error) {
+    console.error('Error creating tag:', error);
+    return NextResponse.json({
+      status: 'error',
+      message: 'Error interno del servidor'
+    } as ApiResponse, { status: 500 });
+  }
+}
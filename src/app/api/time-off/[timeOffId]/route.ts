@@ -0,0 +1,139 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDatabase, initializeDatabase } from '@/lib/db';
+import { getUserIdFromRequest } from '@/lib/auth';
+import { ApiResponse, TimeOff, TimeOffRequest } from '@/lib/types';
+import { timeOffOverlaps, TIME_OFF_TYPE_LABELS, validateTimeOffRequest } from '@/lib/time-off';
+
+// PUT - Actualizar un periodo de tiempo libre (reemplaza todos sus campos)
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ timeOffId: string }> }
+) {
+  try {
+    const userId = getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'No autorizado'
+      } as ApiResponse, { status: 401 });
+    }
+
+    const { timeOffId } = await params;
+    const timeOffIdNum = parseInt(timeOffId);
+    if (isNaN(timeOffIdNum)) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'ID de tiempo libre inválido'
+      } as ApiResponse, { status: 400 });
+    }
+
+    const body: TimeOffRequest = await request.json();
+    const validationError = validateTimeOffRequest(body);
+    if (validationError) {
+      return NextResponse.json({
+        status: 'error',
+        message: validationError
+      } as ApiResponse, { status: 400 });
+    }
+
+    await initializeDatabase();
+    const db = getDatabase();
+
+    const timeOff = await db.getTimeOffById(timeOffIdNum);
+    if (!timeOff || timeOff.user_id !== userId) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'Tiempo libre no encontrado o sin permisos'
+      } as ApiResponse, { status: 404 });
+    }
+
+    if (body.company_id != null) {
+      const company = await db.getCompanyById(body.company_id);
+      if (!company || company.user_id !== userId) {
+        return NextResponse.json({
+          status: 'error',
+          message: 'Empresa no encontrada o sin permisos'
+        } as ApiResponse, { status: 404 });
+      }
+    }
+
+    const existing = await db.getUserTimeOff(userId, body.start_date, body.end_date);
+    const overlapping = existing.find(period => period.id !== timeOffIdNum && timeOffOverlaps(period, body));
+    if (overlapping) {
+      return NextResponse.json({
+        status: 'error',
+        message: `Se cruza con ${TIME_OFF_TYPE_LABELS[overlapping.type].toLowerCase()} del ${overlapping.start_date} al ${overlapping.end_date}`
+      } as ApiResponse, { status: 409 });
+    }
+
+    await db.updateTimeOff(timeOffIdNum, {
+      company_id: body.company_id ?? null,
+      type: body.type,
+      start_date: body.start_date,
+      end_date: body.end_date,
+      paid_hours_per_day: body.paid_hours_per_day ?? null,
+      notes: body.notes?.trim() || undefined
+    });
+
+    return NextResponse.json({
+      status: 'ok',
+      message: 'Tiempo libre actualizado correctamente',
+      data: await db.getTimeOffById(timeOffIdNum)
+    } as ApiResponse<TimeOff>);
+  } catch (error) {
+    console.error('Error updating time off:', error);
+    return NextResponse.json({
+      status: 'error',
+      message: 'Error interno del servidor'
+    } as ApiResponse, { status: 500 });
+  }
+}
+
+// DELETE - Eliminar un periodo de tiempo libre
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ timeOffId: string }> }
+) {
+  try {
+    const userId = getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'No autorizado'
+      } as ApiResponse, { status: 401 });
+    }
+
+    const { timeOffId } = await params;
+    const timeOffIdNum = parseInt(timeOffId);
+    if (isNaN(timeOffIdNum)) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'ID de tiempo libre inválido'
+      } as ApiResponse, { status: 400 });
+    }
+
+    await initializeDatabase();
+    const db = getDatabase();
+
+    const timeOff = await db.getTimeOffById(timeOffIdNum);
+    if (!timeOff || timeOff.user_id !== userId) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'Tiempo libre no encontrado o sin permisos'
+      } as ApiResponse, { status: 404 });
+    }
+
+    await db.deleteTimeOff(timeOffIdNum);
+
+    return NextResponse.json({
+      status: 'ok',
+      message: `Tiempo libre (${TIME_OFF_TYPE_LABELS[timeOff.type]}) del ${timeOff.start_date} al ${timeOff.end_date} eliminado`
+    } as ApiResponse);
+  } catch (error) {
+    console.error('Error deleting time off:', error);
+    return NextResponse.json({
+      status: 'error',
+      message: 'Error interno del servidor'
+    } as ApiResponse, { status: 500 });
+  }
+}
@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDatabase, initializeDatabase } from '@/lib/db';
+import { getUserIdFromRequest } from '@/lib/auth';
+import { ApiResponse, TimeOff, TimeOffRequest } from '@/lib/types';
+import { filterTimeOffForCompany, timeOffOverlaps, TIME_OFF_TYPE_LABELS, validateTimeOffRequest } from '@/lib/time-off';
+import { currentYearInTimeZone, isDateString } from '@/lib/dates';
+
+// GET - Periodos de tiempo libre de un año (?year=, por defecto el actual) o de un rango
+// (?start_date=&end_date=), opcionalmente de una empresa (?company_id=, incluye los de todas)
+export async function GET(request: NextRequest) {
+  try {
+    const userId = getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'No autorizado'
+      } as ApiResponse, { status: 401 });
+    }
+
+    await initializeDatabase();
+    const db = getDatabase();
+
+    const { searchParams } = new URL(request.url);
+    const year = parseInt(searchParams.get('year') ?? String(currentYearInTimeZone(await db.getUserTimeZone(userId))));
+    const startDate = searchParams.get('start_date') ?? `${year}-01-01`;
+    const endDate = searchParams.get('end_date') ?? `${year}-12-31`;
+    const companyId = searchParams.get('company_id');
+
+    if (!isDateString(startDate) || !isDateString(endDate) || startDate > endDate) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'Rango de fechas inválido, usa YYYY-MM-DD'
+      } as ApiResponse, { status: 400 });
+    }
+
+    const timeOff = await db.getUserTimeOff(userId, startDate, endDate);
+
+    return NextResponse.json({
+      status: 'ok',
+      message: 'Tiempo libre obtenido correctamente',
+      data: filterTimeOffForCompany(timeOff, companyId ? parseInt(companyId) : null)
+    } as ApiResponse<TimeOff[]>);
+  } catch (error) {
+    console.error('Error getting time off:', error);
+    return NextResponse.json({
+      status: 'error',
+      message: 'Error interno del servidor'
+    } as ApiResponse, { status: 500 });
+  }
+}
+
+// POST - Registrar un periodo de tiempo libre (sin company_id aplica a todas las empresas)
+export async function POST(request: NextRequest) {
+  try {
+    const userId = getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'No autorizado'
+      } as ApiResponse, { status: 401 });
+    }
+
+    const body: TimeOffRequest = await request.json();
+    const validationError = validateTimeOffRequest(body);
+    if (validationError) {
+      return NextResponse.json({
+        status: 'error',
+        message: validationError
+      } as ApiResponse, { status: 400 });
+    }
+
+    await initializeDatabase();
+    const db = getDatabase();
+
+    if (body.company_id != null) {
+      const company = await db.getCompanyById(body.company_id);
+      if (!company || company.user_id !== userId) {
+        return NextResponse.json({
+          status: 'error',
+          message: 'Empresa no encontrada o sin permisos'
+        } as ApiResponse, { status: 404 });
+      }
+    }
+
+    const existing = await db.getUserTimeOff(userId, body.start_date, body.end_date);
+    const overlapping = existing.find(period => timeOffOverlaps(period, body));
+    if (overlapping) {
+      return NextResponse.json({
+        status: 'error',
+        message: `Se cruza con ${TIME_OFF_TYPE_LABELS[overlapping.type].toLowerCase()} del ${overlapping.start_date} al ${overlapping.end_date}`
+      } as ApiResponse, { status: 409 });
+    }
+
+    const timeOffId = await db.createTimeOff({
+      user_id: userId,
+      company_id: body.company_id ?? null,
+      type: body.type,
+      start_date: body.start_date,
+      end_date: body.end_date,
+      paid_hours_per_day: body.paid_hours_per_day ?? null,
+      notes: body.notes?.trim() || undefined
+    });
+
+    return NextResponse.json({
+      status: 'ok',
+      message: `Tiempo libre registrado (${TIME_OFF_TYPE_LABELS[body.type]}) del ${body.start_date} al ${body.end_date}`,
+      data: await db.getTimeOffById(timeOffId)
+    } as ApiResponse<TimeOff>);
+  } catch (error) {
+    console.error('Error creating time off:', error);
+    return NextResponse.json({
+      status: 'error',
+      message: 'Error interno del servidor'
+    } as ApiResponse, { status: 500 });
+  }
+}
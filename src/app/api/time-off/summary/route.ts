@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDatabase, initializeDatabase } from '@/lib/db';
+import { getUserIdFromRequest } from '@/lib/auth';
+import { ApiResponse, TimeOffYearSummary } from '@/lib/types';
+import { createHolidayChecker } from '@/lib/holidays';
+import { filterTimeOffForCompany, summarizeTimeOffYear } from '@/lib/time-off';
+import { currentYearInTimeZone } from '@/lib/dates';
+
+// GET - Resumen anual de tiempo libre (?year=, por defecto el actual; ?company_id= opcional):
+// días hábiles tomados por tipo, sin fines de semana ni festivos, y horas pagadas
+export async function GET(request: NextRequest) {
+  try {
+    const userId = getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'No autorizado'
+      } as ApiResponse, { status: 401 });
+    }
+
+    await initializeDatabase();
+    const db = getDatabase();
+
+    const { searchParams } = new URL(request.url);
+    const year = parseInt(searchParams.get('year') ?? String(currentYearInTimeZone(await db.getUserTimeZone(userId))));
+    const companyId = searchParams.get('company_id');
+
+    if (isNaN(year) || year < 1970 || year > 9999) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'Año inválido'
+      } as ApiResponse, { status: 400 });
+    }
+
+    const [timeOff, daysOff] = await Promise.all([
+      db.getUserTimeOff(userId, `${year}-01-01`, `${year}-12-31`),
+      db.getUserDaysOff(userId, `${year}-01-01`, `${year}-12-31`)
+    ]);
+
+    return NextResponse.json({
+      status: 'ok',
+      message: `Resumen de tiempo libre de ${year}`,
+      data: summarizeTimeOffYear(
+        filterTimeOffForCompany(timeOff, companyId ? parseInt(companyId) : null),
+        year,
+        createHolidayChecker(daysOff)
+      )
+    } as ApiResponse<TimeOffYearSummary>);
+  } catch (error) {
+    console.error('Error getting time off summary:', error);
+    return NextResponse.json({
+      status: 'error',
+      message: 'Error interno del servidor'
+    } as ApiResponse, { status: 500 });
+  }
+}
@@ -0,0 +1,158 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDatabase, initializeDatabase } from '@/lib/db';
+import { getUserIdFromRequest } from '@/lib/auth';
+import { ApiResponse, EntryChange } from '@/lib/types';
+import { getTimeSessionElapsedSeconds, secondsToHours } from '@/lib/time-sessions';
+import { planDayWrite, sumEntryHours } from '@/lib/entry-days';
+
+// PATCH - Pausar, reanudar o detener una sesión ({ action: 'pause' | 'resume' | 'stop' })
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string }> }
+) {
+  try {
+    const userId = getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'No autorizado'
+      } as ApiResponse, { status: 401 });
+    }
+
+    const { sessionId } = await params;
+    const sessionIdNum = parseInt(sessionId);
+
+    if (isNaN(sessionIdNum)) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'ID de sesión inválido'
+      } as ApiResponse, { status: 400 });
+    }
+
+    const body = await request.json();
+    const action = body?.action;
+
+    if (!['pause', 'resume', 'stop'].includes(action)) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'Acción inválida, usa: pause, resume, stop'
+      } as ApiResponse, { status: 400 });
+    }
+
+    await initializeDatabase();
+    const db = getDatabase();
+
+    const session = await db.getTimeSessionById(sessionIdNum);
+    if (!session || session.user_id !== userId) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'Sesión no encontrada o sin permisos'
+      } as ApiResponse, { status: 404 });
+    }
+
+    if (session.status === 'stopped') {
+      return NextResponse.json({
+        status: 'error',
+        message: 'La sesión ya fue detenida'
+      } as ApiResponse, { status: 409 });
+    }
+
+    const now = new Date();
+
+    if (action === 'pause') {
+      if (session.status === 'paused') {
+        return NextResponse.json({
+          status: 'error',
+          message: 'La sesión ya está en pausa'
+        } as ApiResponse, { status: 409 });
+      }
+
+      await db.pauseTimeSession(sessionIdNum, now.toISOString());
+      return NextResponse.json({
+        status: 'ok',
+        message: 'Cronómetro en pausa',
+        data: await db.getTimeSessionById(sessionIdNum)
+      } as ApiResponse);
+    }
+
+    // Segundos de la pausa en curso (si la hay) que se suman al acumulado
+    const currentPauseSeconds = session.paused_at
+      ? Math.max(0, Math.floor((now.getTime() - new Date(session.paused_at).getTime()) / 1000))
+      : 0;
+    const pausedSeconds = session.paused_seconds + currentPauseSeconds;
+
+    if (action === 'resume') {
+      if (session.status !== 'paused') {
+        return NextResponse.json({
+          status: 'error',
+          message: 'La sesión no está en pausa'
+        } as ApiResponse, { status: 409 });
+      }
+
+      await db.resumeTimeSession(sessionIdNum, pausedSeconds);
+      return NextResponse.json({
+        status: 'ok',
+        message: 'Cronómetro reanudado',
+        data: await db.getTimeSessionById(sessionIdNum)
+      } as ApiResponse);
+    }
+
+    // stop: consolidar las horas netas en la entrada del día
+    const endedAt = now.toISOString();
+    const elapsedSeconds = getTimeSessionElapsedSeconds({
+      ...session,
+      paused_at: null,
+      paused_seconds: pausedSeconds,
+      ended_at: endedAt
+    });
+    const hours = secondsToHours(elapsedSeconds);
+
+    if (hours <= 0) {
+      // Sesiones de menos de un minuto no generan entrada
+      await db.stopTimeSession(sessionIdNum, endedAt, pausedSeconds, 0, null);
+      return NextResponse.json({
+        status: 'ok',
+        message: 'Cronómetro detenido sin horas que registrar',
+        data: await db.getTimeSessionById(sessionIdNum),
+        changes: []
+      } as ApiResponse);
+    }
+
+    // Cada sesión queda como una entrada propia del día. Si el día no alcanza (p. ej. un cronómetro
+    // olvidado toda la noche) se registra solo lo que cabe hasta 24h: la sesión siempre se detiene
+    const dayEntries = await db.getEntriesForDay(session.company_id, session.date, session.project_id ?? null);
+    const recordedHours = Math.min(hours, Math.max(0, Math.round((24 - sumEntryHours(dayEntries)) * 100) / 100));
+    const plan = planDayWrite(dayEntries, recordedHours, 'accumulate');
+    const cappedNote = recordedHours < hours ? ` (de ${hours}h medidas; el día no puede superar 24h)` : '';
+
+    if (recordedHours <= 0 || plan.action !== 'append') {
+      await db.stopTimeSession(sessionIdNum, endedAt, pausedSeconds, 0, null);
+      return NextResponse.json({
+        status: 'ok',
+        message: `Cronómetro detenido sin registrar horas: ${session.date} ya tiene 24h (${hours}h medidas)`,
+        data: await db.getTimeSessionById(sessionIdNum),
+        changes: []
+      } as ApiResponse);
+    }
+
+    const changeBatchId = await db.createChangeBatch(userId, 'timer', `Cronómetro del ${session.date}`);
+    const entryId = await db.addEntry(session.date, recordedHours, session.description ?? '', session.company_id, session.project_id ?? null, undefined, undefined, changeBatchId);
+    const change: EntryChange = { date: session.date, old_value: plan.old_total, new_value: plan.new_total };
+
+    await db.stopTimeSession(sessionIdNum, endedAt, pausedSeconds, recordedHours, entryId);
+
+    return NextResponse.json({
+      status: 'ok',
+      message: `Cronómetro detenido: ${recordedHours}h registradas para ${session.date}${cappedNote}`,
+      data: await db.getTimeSessionById(sessionIdNum),
+      changes: [change],
+      change_batch_id: changeBatchId
+    } as ApiResponse);
+  } catch (error) {
+    console.error('Error updating timer session:', error);
+    return NextResponse.json({
+      status: 'error',
+      message: 'Error interno del servidor'
+    } as ApiResponse, { status: 500 });
+  }
+}
@@ -0,0 +1,145 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDatabase, initializeDatabase } from '@/lib/db';
+import { getUserIdFromRequest } from '@/lib/auth';
+import { ApiResponse, StartTimerRequest } from '@/lib/types';
+import { isDateString, todayInTimeZone } from '@/lib/dates';
+
+const RECENT_SESSIONS_LIMIT = 20;
+
+// GET - Sesión activa del usuario y las sesiones recientes (?entry_id= devuelve las sesiones de una entrada)
+export async function GET(request: NextRequest) {
+  try {
+    const userId = getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'No autorizado'
+      } as ApiResponse, { status: 401 });
+    }
+
+    await initializeDatabase();
+    const db = getDatabase();
+
+    const { searchParams } = new URL(request.url);
+    const entryIdParam = searchParams.get('entry_id');
+    if (entryIdParam) {
+      const entry = await db.getEntryById(parseInt(entryIdParam));
+      const company = entry ? await db.getCompanyById(entry.company_id) : null;
+      if (!entry || !company || company.user_id !== userId) {
+        return NextResponse.json({
+          status: 'error',
+          message: 'Entrada no encontrada o sin permisos'
+        } as ApiResponse, { status: 404 });
+      }
+
+      return NextResponse.json({
+        status: 'ok',
+        message: 'Sesiones de la entrada obtenidas',
+        data: { sessions: await db.getEntryTimeSessions(entry.id!) }
+      } as ApiResponse);
+    }
+
+    const activeSession = await db.getActiveTimeSession(userId);
+    const sessions = await db.getUserTimeSessions(userId, RECENT_SESSIONS_LIMIT);
+
+    return NextResponse.json({
+      status: 'ok',
+      message: 'Cronómetro obtenido',
+      data: {
+        active_session: activeSession,
+        sessions
+      }
+    } as ApiResponse);
+  } catch (error) {
+    console.error('Error fetching timer:', error);
+    return NextResponse.json({
+      status: 'error',
+      message: 'Error interno del servidor'
+    } as ApiResponse, { status: 500 });
+  }
+}
+
+// POST - Iniciar una sesión de cronómetro para una empresa/proyecto
+export async function POST(request: NextRequest) {
+  try {
+    const userId = getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'No autorizado'
+      } as ApiResponse, { status: 401 });
+    }
+
+    const body: StartTimerRequest = await request.json();
+    const { company_id, project_id = null, description = '' } = body ?? {};
+
+    if (!company_id) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'Falta campo requerido: company_id'
+      } as ApiResponse, { status: 400 });
+    }
+
+    await initializeDatabase();
+    const db = getDatabase();
+
+    // Sin fecha, la sesión es de hoy en la zona horaria del usuario (no en UTC)
+    const date = body?.date ?? todayInTimeZone(await db.getUserTimeZone(userId));
+    if (!isDateString(date)) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'Formato de fecha inválido, usa YYYY-MM-DD'
+      } as ApiResponse, { status: 400 });
+    }
+
+    const company = await db.getCompanyById(company_id);
+    if (!company || company.user_id !== userId) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'Empresa no encontrada o sin permisos'
+      } as ApiResponse, { status: 404 });
+    }
+
+    if (project_id != null) {
+      const project = await db.getProjectById(project_id);
+      if (!project || project.user_id !== userId || project.company_id !== company_id) {
+        return NextResponse.json({
+          status: 'error',
+          message: 'Proyecto no encontrado o sin permisos'
+        } as ApiResponse, { status: 404 });
+      }
+    }
+
+    // Solo se permite un cronómetro activo por usuario
+    const activeSession = await db.getActiveTimeSession(userId);
+    if (activeSession) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'Ya hay un cronómetro en curso, deténlo antes de iniciar otro',
+        data: activeSession
+      } as ApiResponse, { status: 409 });
+    }
+
+    const sessionId = await db.createTimeSession({
+      user_id: userId,
+      company_id,
+      project_id,
+      description: description?.toString() ?? '',
+      date,
+      started_at: new Date().toISOString()
+    });
+    const session = await db.getTimeSessionById(sessionId);
+
+    return NextResponse.json({
+      status: 'ok',
+      message: 'Cronómetro iniciado',
+      data: session
+    } as ApiResponse);
+  } catch (error) {
+    console.error('Error starting timer:', error);
+    return NextResponse.json({
+      status: 'error',
+      message: 'Error interno del servidor'
+    } as ApiResponse, { status: 500 });
+  }
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDatabase, initializeDatabase } from '@/lib/db';
+import { getUserIdFromRequest } from '@/lib/auth';
+import { ApiResponse, RestoreTrashItemRequest } from '@/lib/types';
+
+const TRASH_ITEM_MESSAGES: Record<RestoreTrashItemRequest['type'], { notFound: string; restored: string }> = {
+  company: { notFound: 'Empresa no encontrada en la papelera', restored: 'Empresa restaurada con sus proyectos, horas y cuentas' },
+  project: { notFound: 'Proyecto no encontrado en la papelera', restored: 'Proyecto restaurado' },
+  entry: { notFound: 'Entrada no encontrada en la papelera', restored: 'Entrada restaurada' }
+};
+
+// POST - Sacar un elemento de la papelera
+export async function POST(request: NextRequest) {
+  try {
+    const userId = getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'No autorizado'
+      } as ApiResponse, { status: 401 });
+    }
+
+    const body: RestoreTrashItemRequest = await request.json();
+    const { type, id } = body ?? {};
+
+    if (!Object.prototype.hasOwnProperty.call(TRASH_ITEM_MESSAGES, type) || typeof id !== 'number') {
+      return NextResponse.json({
+        status: 'error',
+        message: 'Faltan campos requeridos: type (company, project, entry), id'
+      } as ApiResponse, { status: 400 });
+    }
+
+    await initializeDatabase();
+    const db = getDatabase();
+
+    // Solo se restaura lo que está en la papelera del usuario
+    const trash = await db.getUserTrash(userId);
+    const inTrash = type === 'company'
+      ? trash.companies.some(company => company.id === id)
+      : type === 'project'
+        ? trash.projects.some(project => project.id === id)
+        : trash.entries.some(entry => entry.id === id);
+
+    if (!inTrash) {
+      return NextResponse.json({
+        status: 'error',
+        message: TRASH_ITEM_MESSAGES[type].notFound
+      } as ApiResponse, { status: 404 });
+    }
+
+    await db.restoreTrashItem(type, id);
+
+    return NextResponse.json({
+      status: 'ok',
+      message: TRASH_ITEM_MESSAGES[type].restored
+    } as ApiResponse);
+  } catch (error) {
+    console.error('Error restoring trash item:', error);
+    return NextResponse.json({
+      status: 'error',
+      message: 'Error interno del servidor'
+    } as ApiResponse, { status: 500 });
+  }
+}
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDatabase, initializeDatabase } from '@/lib/db';
+import { getUserIdFromRequest } from '@/lib/auth';
+import { ApiResponse, TrashItem } from '@/lib/types';
+import { buildTrashItems, getTrashRetentionDays } from '@/lib/trash';
+
+// GET - Elementos en la papelera (antes se purga lo que superó el tiempo de retención)
+export async function GET(request: NextRequest) {
+  try {
+    const userId = getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'No autorizado'
+      } as ApiResponse, { status: 401 });
+    }
+
+    await initializeDatabase();
+    const db = getDatabase();
+
+    const retentionDays = getTrashRetentionDays();
+    await db.purgeTrash(retentionDays, userId);
+
+    const [trash, companies, projects] = await Promise.all([
+      db.getUserTrash(userId),
+      db.getUserCompanies(userId),
+      db.getUserProjects(userId)
+    ]);
+
+    return NextResponse.json({
+      status: 'ok',
+      message: `Los elementos se eliminan definitivamente ${retentionDays} días después de enviarlos a la papelera`,
+      data: buildTrashItems(trash, companies, projects, retentionDays)
+    } as ApiResponse<TrashItem[]>);
+  } catch (error) {
+    console.error('Error getting trash:', error);
+    return NextResponse.json({
+      status: 'error',
+      message: 'Error interno del servidor'
+    } as ApiResponse, { status: 500 });
+  }
+}
+
+// DELETE - Vaciar la papelera: elimina definitivamente todo lo que contiene
+export async function DELETE(request: NextRequest) {
+  try {
+    const userId = getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'No autorizado'
+      } as ApiResponse, { status: 401 });
+    }
+
+    await initializeDatabase();
+    const db = getDatabase();
+
+    const purged = await db.purgeTrash(0, userId);
+
+    return NextResponse.json({
+      status: 'ok',
+      message: `Papelera vaciada: ${purged} elementos eliminados definitivamente`
+    } as ApiResponse);
+  } catch (error) {
+    console.error('Error emptying trash:', error);
+    return NextResponse.json({
+      status: 'error',
+      message: 'Error interno del servidor'
+    } as ApiResponse, { status: 500 });
+  }
+}
@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDatabase } from '@/lib/db';
+import { getUserIdFromRequest } from '@/lib/auth';
+import { calculateWeekdayAverages } from '@/lib/analytics';
+import { createHolidayChecker } from '@/lib/holidays';
+import { ApiResponse, LearnWeekdayAveragesRequest } from '@/lib/types';
+import { addDays, todayInTimeZone } from '@/lib/dates';
+
+const DEFAULT_LEARN_WEEKS = 8;
+const MAX_LEARN_WEEKS = 104;
+
+export async function POST(request: NextRequest) {
+  try {
+    const userId = getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'No autorizado'
+      } as ApiResponse, { status: 401 });
+    }
+
+    const body: LearnWeekdayAveragesRequest = await request.json();
+    const { company_id, weeks = DEFAULT_LEARN_WEEKS, per_project = false, dry_run = false } = body ?? {};
+
+    if (!company_id) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'Falta campo requerido: company_id'
+      } as ApiResponse, { status: 400 });
+    }
+
+    if (!Number.isInteger(weeks) || weeks < 1 || weeks > MAX_LEARN_WEEKS) {
+      return NextResponse.json({
+        status: 'error',
+        message: `weeks debe ser un entero entre 1 y ${MAX_LEARN_WEEKS}`
+      } as ApiResponse, { status: 400 });
+    }
+
+    const db = getDatabase();
+    await db.init();
+
+    const company = await db.getCompanyById(company_id);
+    if (!company || company.user_id !== userId) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'Empresa no encontrada o sin permisos'
+      } as ApiResponse, { status: 404 });
+    }
+
+    // Ventana de aprendizaje: las últimas N semanas hasta hoy, en la zona horaria del usuario
+    const endDate = todayInTimeZone(await db.getUserTimeZone(userId));
+    const startDate = addDays(endDate, -weeks * 7 + 1);
+
+    const entries = await db.getEntriesByDateRange(company_id, startDate, endDate);
+    if (entries.length === 0) {
+      return NextResponse.json({
+        status: 'error',
+        message: `No hay horas registradas en las últimas ${weeks} semanas`
+      } as ApiResponse, { status: 400 });
+    }
+
+    // Los festivos y días libres no son días típicos: no entran en los promedios
+    const isHoliday = createHolidayChecker(await db.getUserDaysOff(userId, startDate, endDate));
+    const weekdayAverages = calculateWeekdayAverages(entries, isHoliday);
+
+    const projectAverages: Array<{ project_id: number; averages: Array<{ weekday: number; average_hours: number }> }> = [];
+    if (per_project) {
+      const projectIds = new Set(
+        entries
+          .map(entry => entry.project_id)
+          .filter((projectId): projectId is number => projectId != null)
+      );
+
+      for (const projectId of projectIds) {
+        projectAverages.push({
+          project_id: projectId,
+          averages: calculateWeekdayAverages(entries.filter(entry => entry.project_id === projectId), isHoliday)
+        });
+      }
+    }
+
+    if (!dry_run) {
+      // Los días sin datos en la ventana quedan en 0 para no conservar valores viejos
+      const fullWeek = [0, 1, 2, 3, 4, 5, 6].map(weekday => ({
+        weekday,
+        average_hours: weekdayAverages.find(avg => avg.weekday === weekday)?.average_hours ?? 0
+      }));
+      await db.setWeekdayAverages(company_id, fullWeek);
+
+      for (const project of projectAverages) {
+        await db.setProjectWeekdayAverages(project.project_id, company_id, project.averages);
+      }
+    }
+
+    const response: ApiResponse = {
+      status: 'ok',
+      message: dry_run
+        ? `Promedios calculados con ${weeks} semanas (sin guardar)`
+        : `Promedios actualizados con ${weeks} semanas de historial`,
+      data: {
+        period: { start_date: startDate, end_date: endDate },
+        weekday_averages: weekdayAverages,
+        project_weekday_averages: projectAverages
+      }
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error('Error learning weekday averages:', error);
+    const response: ApiResponse = {
+      status: 'error',
+      message: 'Error interno del servidor'
+    };
+
+    return NextResponse.json(response, { status: 500 });
+  }
+}
@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getDatabase } from '@/lib/db';
 import { getUserIdFromRequest } from '@/lib/auth';
-import { ApiResponse } from '@/lib/types';
+import { ApiResponse, UpdateWeekdayAveragesRequest } from '@/lib/types';
 
 export async function GET(request: NextRequest) {
   try {
@@ -41,12 +41,18 @@ export async function GET(request: NextRequest) {
       } as ApiResponse, { status: 404 });
     }
 
-    const weekdayAverages = await db.getWeekdayAverages(companyId);
+    const [weekdayAverages, projectWeekdayAverages] = await Promise.all([
+      db.getWeekdayAverages(companyId),
+      db.getProjectWeekdayAverages(companyId)
+    ]);
 
     const response: ApiResponse = {
       status: 'ok',
       message: 'Promedios por día de la semana obtenidos correctamente',
-      data: { weekday_averages: weekdayAverages }
+      data: {
+        weekday_averages: weekdayAverages,
+        project_weekday_averages: projectWeekdayAverages
+      }
     };
 
     return NextResponse.json(response);
@@ -59,4 +65,80 @@ export async function GET(request: NextRequest) {
 
     return NextResponse.json(response, { status: 500 });
   }
-}
\ No newline at end of file
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const userId = getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'No autorizado'
+      } as ApiResponse, { status: 401 });
+    }
+
+    const body: UpdateWeekdayAveragesRequest = await request.json();
+    const { company_id, averages } = body ?? {};
+
+    if (!company_id || !Array.isArray(averages)) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'Faltan campos requeridos: company_id, averages'
+      } as ApiResponse, { status: 400 });
+    }
+
+    // Se exigen los siete días (ISO: 0 = lunes ... 6 = domingo), cada uno una sola vez
+    const weekdays = new Set(averages.map(avg => avg?.weekday));
+    const hasAllWeekdays = averages.length === 7 && [0, 1, 2, 3, 4, 5, 6].every(day => weekdays.has(day));
+    if (!hasAllWeekdays) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'Debes enviar un promedio para cada día de la semana (weekday 0-6, 0 = lunes)'
+      } as ApiResponse, { status: 400 });
+    }
+
+    const invalidHours = averages.some(avg =>
+      typeof avg.average_hours !== 'number' || !Number.isFinite(avg.average_hours) || avg.average_hours < 0 || avg.average_hours > 24
+    );
+    if (invalidHours) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'Las horas deben ser un número entre 0 y 24'
+      } as ApiResponse, { status: 400 });
+    }
+
+    const db = getDatabase();
+    await db.init();
+
+    const company = await db.getCompanyById(company_id);
+    if (!company || company.user_id !== userId) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'Empresa no encontrada o sin permisos'
+      } as ApiResponse, { status: 404 });
+    }
+
+    await db.setWeekdayAverages(company_id, averages.map(avg => ({
+      weekday: avg.weekday,
+      average_hours: avg.average_hours
+    })));
+
+    const weekdayAverages = await db.getWeekdayAverages(company_id);
+
+    const response: ApiResponse = {
+      status: 'ok',
+      message: 'Promedios por día de la semana actualizados correctamente',
+      data: { weekday_averages: weekdayAverages }
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error('Error updating weekday averages:', error);
+    const response: ApiResponse = {
+      status: 'error',
+      message: 'Error interno del servidor'
+    };
+
+    return NextResponse.json(response, { status: 500 });
+  }
+}
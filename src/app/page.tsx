@@ -6,10 +6,15 @@ import {
   Calendar, Clock, DollarSign, TrendingUp,
   BarChart3, AlertCircle, CheckCircle,
   ArrowUp, ArrowDown, Minus, LogOut,
-  Building2, Plus, Target, Zap
+  Building2, Plus, Target, Zap, Pencil, Trash2
 } from 'lucide-react';
-import { HourEntry, Company, WeekdayAverage, Project } from '@/lib/types';
-import { formatPrice, formatHours } from '@/lib/formatters';
+import { HourEntry, Company, WeekdayAverage, Project, CompanyDeletionImpact, ProjectDeletionImpact, CurrencyCode, ExchangeRate, CompanyRate, TimeOff, UserDayOff, WEEKDAY_NAMES_ES } from '@/lib/types';
+import { formatPrice, formatHours, formatMoney } from '@/lib/formatters';
+import { findRateForDate, SUPPORTED_CURRENCIES } from '@/lib/currency';
+import { createHolidayChecker } from '@/lib/holidays';
+import { createTimeOffChecker, createTimeOffDayChecker, filterTimeOffForCompany } from '@/lib/time-off';
+import { calculateBillableHours, calculateEarnings, createRateResolver, isBillableEntry } from '@/lib/rates';
+import { addMonths, DEFAULT_TIME_ZONE, todayInTimeZone } from '@/lib/dates';
 import { 
   analyzeTrends, getMissingDaysThisWeek, getProductivityByWeekday, 
   formatHoursDiff 
@@ -18,12 +23,23 @@ import { useAuth } from '@/hooks/useAuth';
 import BulkHoursTable from '@/components/BulkHoursTable';
 import MonthlyReport from '@/components/MonthlyReport';
 import InvoicesManager from '@/components/InvoicesManager';
+import TimerWidget from '@/components/TimerWidget';
+import CompanyRatesPanel from '@/components/CompanyRatesPanel';
+import TrashPanel from '@/components/TrashPanel';
+import HolidaysPanel from '@/components/HolidaysPanel';
+import TimeOffPanel from '@/components/TimeOffPanel';
+import EntryTemplatesPanel from '@/components/EntryTemplatesPanel';
+import TimeZoneSelect from '@/components/TimeZoneSelect';
 
 interface AppData {
   entries: HourEntry[];
   companies: Company[];
   projects: Project[];
+  exchange_rates: ExchangeRate[];
+  company_rates: CompanyRate[];
   weekday_averages: WeekdayAverage[];
+  days_off: UserDayOff[];
+  time_off: TimeOff[];
   total_hours: number;
   entry_count: number;
 }
@@ -37,7 +53,10 @@ type ProjectHoursMetric = {
 };
 
 export default function Dashboard() {
-  const { user, logout, authFetch, isAuthenticated, loading: authLoading } = useAuth();
+  const { user, logout, authFetch, refresh: refreshSession, isAuthenticated, loading: authLoading } = useAuth();
+  // "Hoy" es la fecha en la zona horaria del usuario, no la del navegador ni UTC
+  const timeZone = user?.timezone ?? DEFAULT_TIME_ZONE;
+  const today = todayInTimeZone(timeZone);
   const router = useRouter();
   const [data, setData] = useState<AppData | null>(null);
   const [loading, setLoading] = useState(true);
@@ -49,7 +68,18 @@ export default function Dashboard() {
   const [showNewProjectForm, setShowNewProjectForm] = useState(false);
   const [newCompanyName, setNewCompanyName] = useState('');
   const [newCompanyRate, setNewCompanyRate] = useState('');
+  const [newCompanyCurrency, setNewCompanyCurrency] = useState<CurrencyCode>('COP');
   const [newProjectName, setNewProjectName] = useState('');
+  const [showEditCompanyForm, setShowEditCompanyForm] = useState(false);
+  const [editCompanyName, setEditCompanyName] = useState('');
+  const [editCompanyRate, setEditCompanyRate] = useState('');
+  const [editCompanyCycleDay, setEditCompanyCycleDay] = useState('');
+  const [editCompanyCurrency, setEditCompanyCurrency] = useState<CurrencyCode>('COP');
+  const [editRateEffectiveFrom, setEditRateEffectiveFrom] = useState('');
+  const [editExchangeRate, setEditExchangeRate] = useState('');
+  const [editingProjectId, setEditingProjectId] = useState<number | null>(null);
+  const [editProjectName, setEditProjectName] = useState('');
+  const [editProjectBillable, setEditProjectBillable] = useState(true);
   const [dashboardStartDate, setDashboardStartDate] = useState('');
   const [dashboardEndDate, setDashboardEndDate] = useState('');
 
@@ -91,26 +121,66 @@ export default function Dashboard() {
     return filteredEntries.reduce((sum, entry) => sum + entry.hours, 0);
   }, [filteredEntries]);
 
+  const billableHours = useMemo(() => calculateBillableHours(filteredEntries), [filteredEntries]);
+
   const totalEntries = filteredEntries.length;
 
-  const totalEarnings = selectedCompany?.hourly_rate
-    ? filteredEntries.reduce((sum, entry) => sum + entry.hours * selectedCompany.hourly_rate, 0)
-    : 0;
+  // Tarifa vigente en la fecha de cada entrada (historial de la empresa y tarifas por proyecto)
+  const resolveRate = useMemo(() => {
+    return createRateResolver(data?.company_rates ?? [], selectedCompany?.hourly_rate ?? 0);
+  }, [data?.company_rates, selectedCompany?.hourly_rate]);
+
+  const totalEarnings = useMemo(() => calculateEarnings(filteredEntries, resolveRate), [filteredEntries, resolveRate]);
+
+  // Ingresos sobre todas las horas trabajadas: baja cuando hay horas no facturables
+  const effectiveHourlyRate = totalHours > 0 ? totalEarnings / totalHours : 0;
+
+  const currency = selectedCompany?.currency ?? 'COP';
+  const exchangeRates = useMemo(() => data?.exchange_rates ?? [], [data?.exchange_rates]);
+
+  // Tasa vigente hoy para la moneda de la empresa (null si no hay ninguna registrada)
+  const currentExchangeRate = useMemo(() => {
+    return findRateForDate(exchangeRates, currency, today);
+  }, [exchangeRates, currency, today]);
+
+  // Ingresos en COP convirtiendo cada entrada con la tasa de su fecha
+  const totalEarningsCop = useMemo(() => {
+    if (currency === 'COP') return null;
+    let total = 0;
+    for (const entry of filteredEntries.filter(isBillableEntry)) {
+      const rate = findRateForDate(exchangeRates, currency, entry.date);
+      if (rate === null) return null;
+      total += entry.hours * resolveRate(entry) * rate;
+    }
+    return total;
+  }, [currency, exchangeRates, filteredEntries, resolveRate]);
+
+  // Festivos de Colombia y días libres del usuario: no son días faltantes ni entran en los promedios
+  const daysOff = useMemo(() => data?.days_off ?? [], [data?.days_off]);
+  const isHoliday = useMemo(() => createHolidayChecker(daysOff), [daysOff]);
+
+  // Vacaciones, incapacidades y licencias que aplican a la empresa seleccionada
+  const timeOff = useMemo(
+    () => filterTimeOffForCompany(data?.time_off ?? [], selectedCompany?.id),
+    [data?.time_off, selectedCompany?.id]
+  );
+  const isTimeOffDay = useMemo(() => createTimeOffDayChecker(timeOff, isHoliday), [timeOff, isHoliday]);
+  const isInTimeOff = useMemo(() => createTimeOffChecker(timeOff), [timeOff]);
 
   const analytics = useMemo(() => {
     if (!filteredEntries.length || !selectedCompany?.hourly_rate) return null;
-    return analyzeTrends(filteredEntries, selectedCompany.hourly_rate);
-  }, [filteredEntries, selectedCompany?.hourly_rate]);
+    return analyzeTrends(filteredEntries, resolveRate, isHoliday, isTimeOffDay, today);
+  }, [filteredEntries, resolveRate, selectedCompany?.hourly_rate, isHoliday, isTimeOffDay, today]);
 
   const missingDays = useMemo(() => {
     if (!filteredEntries.length) return [];
-    return getMissingDaysThisWeek(filteredEntries);
-  }, [filteredEntries]);
+    return getMissingDaysThisWeek(filteredEntries, isHoliday, isInTimeOff, today);
+  }, [filteredEntries, isHoliday, isInTimeOff, today]);
 
   const productivityByWeekday = useMemo(() => {
     if (!filteredEntries.length) return [];
-    return getProductivityByWeekday(filteredEntries);
-  }, [filteredEntries]);
+    return getProductivityByWeekday(filteredEntries, isHoliday);
+  }, [filteredEntries, isHoliday]);
 
   const hasCustomDateRange = dashboardStartDate !== '' || dashboardEndDate !== '';
 
@@ -127,16 +197,8 @@ export default function Dashboard() {
     let effectiveEntries = filteredEntries;
 
     if (!hasCustomDateRange) {
-      const today = new Date();
-      today.setHours(23, 59, 59, 999);
-      const cutoff = new Date(today);
-      cutoff.setMonth(cutoff.getMonth() - 1);
-      cutoff.setHours(0, 0, 0, 0);
-
-      effectiveEntries = filteredEntries.filter(entry => {
-        const entryDate = new Date(`${entry.date}T00:00:00`);
-        return entryDate >= cutoff && entryDate <= today;
-      });
+      const cutoff = addMonths(today, -1);
+      effectiveEntries = filteredEntries.filter(entry => entry.date >= cutoff && entry.date <= today);
     }
 
     if (!effectiveEntries.length) {
@@ -178,7 +240,7 @@ export default function Dashboard() {
       .sort((a, b) => b.hours - a.hours);
 
     return { items, totalHours };
-  }, [filteredEntries, hasCustomDateRange, projects]);
+  }, [filteredEntries, hasCustomDateRange, projects, today]);
 
   const projectHoursPeriodLabel = hasCustomDateRange ? 'Periodo filtrado' : 'Últimos 30 días';
 
@@ -263,7 +325,8 @@ export default function Dashboard() {
         method: 'POST',
         body: JSON.stringify({ 
           name: newCompanyName,
-          hourly_rate: newCompanyRate ? parseFloat(newCompanyRate) : undefined
+          hourly_rate: newCompanyRate ? parseFloat(newCompanyRate) : undefined,
+          currency: newCompanyCurrency
         })
       });
       
@@ -272,6 +335,7 @@ export default function Dashboard() {
         const createdCompanyId: number | null = result?.data?.id ?? null;
         setNewCompanyName('');
         setNewCompanyRate('');
+        setNewCompanyCurrency('COP');
         setShowNewCompanyForm(false);
         if (createdCompanyId != null) {
           setSelectedCompanyId(createdCompanyId);
@@ -316,7 +380,152 @@ export default function Dashboard() {
     }
   };
 
-  const handleBulkSave = async (entries: Array<{date: string, hours: number, companyId: number, projectId: number | null, description?: string}>) => {
+  const openEditCompanyForm = () => {
+    if (!selectedCompany) return;
+    setEditCompanyName(selectedCompany.name);
+    setEditCompanyRate(selectedCompany.hourly_rate ? selectedCompany.hourly_rate.toString() : '');
+    setEditCompanyCycleDay(selectedCompany.billing_cycle_day.toString());
+    setEditCompanyCurrency(selectedCompany.currency);
+    setEditRateEffectiveFrom(today);
+    setEditExchangeRate(currentExchangeRate && selectedCompany.currency !== 'COP' ? currentExchangeRate.toString() : '');
+    setShowEditCompanyForm(true);
+  };
+
+  const updateCompany = async () => {
+    if (!selectedCompany?.id || !editCompanyName.trim()) return;
+
+    try {
+      const response = await authFetch(`/api/companies/${selectedCompany.id}`, {
+        method: 'PUT',
+        body: JSON.stringify({
+          name: editCompanyName.trim(),
+          hourly_rate: editCompanyRate ? parseFloat(editCompanyRate) : 0,
+          rate_effective_from: editRateEffectiveFrom || undefined,
+          billing_cycle_day: editCompanyCycleDay ? parseInt(editCompanyCycleDay) : selectedCompany.billing_cycle_day,
+          currency: editCompanyCurrency
+        })
+      });
+
+      const result = await response.json();
+      if (result.status !== 'ok') {
+        alert(result.message || 'Error al actualizar la empresa');
+        return;
+      }
+
+      // Registrar la tasa de hoy si cambió
+      const exchangeRate = editExchangeRate ? parseFloat(editExchangeRate) : null;
+      if (editCompanyCurrency !== 'COP' && exchangeRate && exchangeRate !== currentExchangeRate) {
+        const rateResponse = await authFetch('/api/exchange-rates', {
+          method: 'POST',
+          body: JSON.stringify({ currency: editCompanyCurrency, rate: exchangeRate })
+        });
+        const rateResult = await rateResponse.json();
+        if (rateResult.status !== 'ok') {
+          alert(rateResult.message || 'Error al registrar la tasa de cambio');
+        }
+      }
+
+      setShowEditCompanyForm(false);
+      await fetchData(selectedCompany.id);
+    } catch (error) {
+      console.error('Error updating company:', error);
+    }
+  };
+
+  const deleteCompany = async () => {
+    if (!selectedCompany?.id) return;
+
+    try {
+      const previewResponse = await authFetch(`/api/companies/${selectedCompany.id}?preview=true`, { method: 'DELETE' });
+      const preview = await previewResponse.json();
+      if (preview.status !== 'ok') {
+        alert(preview.message || 'Error al consultar la empresa');
+        return;
+      }
+
+      const impact: CompanyDeletionImpact = preview.data.impact;
+      const confirmed = confirm(
+        `¿Enviar la empresa ${selectedCompany.name} a la papelera?\n\n` +
+        `Con ella se ocultan ${impact.entries} registros de horas, ${impact.projects} proyectos, ` +
+        `${impact.invoices} cuentas de cobro y ${impact.weekday_averages} promedios por día.\n` +
+        'Puedes restaurarla desde la papelera antes de que se elimine definitivamente.'
+      );
+      if (!confirmed) return;
+
+      const response = await authFetch(`/api/companies/${selectedCompany.id}`, { method: 'DELETE' });
+      const result = await response.json();
+      if (result.status !== 'ok') {
+        alert(result.message || 'Error al eliminar la empresa');
+        return;
+      }
+
+      // Al cambiar la empresa seleccionada el efecto vuelve a cargar los datos
+      setShowEditCompanyForm(false);
+      setSelectedCompanyId(null);
+      setSelectedProjectId(null);
+    } catch (error) {
+      console.error('Error deleting company:', error);
+    }
+  };
+
+  const renameProject = async (projectId: number) => {
+    if (!editProjectName.trim()) return;
+
+    try {
+      const response = await authFetch(`/api/projects/${projectId}`, {
+        method: 'PUT',
+        body: JSON.stringify({ name: editProjectName.trim(), billable_default: editProjectBillable })
+      });
+
+      const result = await response.json();
+      if (result.status !== 'ok') {
+        alert(result.message || 'Error al renombrar el proyecto');
+        return;
+      }
+
+      setEditingProjectId(null);
+      setEditProjectName('');
+      await fetchData();
+    } catch (error) {
+      console.error('Error renaming project:', error);
+    }
+  };
+
+  const deleteProject = async (project: Project) => {
+    if (project.id == null) return;
+
+    try {
+      const previewResponse = await authFetch(`/api/projects/${project.id}?preview=true`, { method: 'DELETE' });
+      const preview = await previewResponse.json();
+      if (preview.status !== 'ok') {
+        alert(preview.message || 'Error al consultar el proyecto');
+        return;
+      }
+
+      const impact: ProjectDeletionImpact = preview.data.impact;
+      const confirmed = confirm(
+        `¿Enviar el proyecto ${project.name} a la papelera?\n\n` +
+        `Si se elimina definitivamente, ${impact.entries} registros de horas y ${impact.invoice_items} líneas de cuentas de cobro quedarán sin proyecto asignado.`
+      );
+      if (!confirmed) return;
+
+      const response = await authFetch(`/api/projects/${project.id}`, { method: 'DELETE' });
+      const result = await response.json();
+      if (result.status !== 'ok') {
+        alert(result.message || 'Error al eliminar el proyecto');
+        return;
+      }
+
+      if (selectedProjectId === project.id) {
+        setSelectedProjectId(null);
+      }
+      await fetchData();
+    } catch (error) {
+      console.error('Error deleting project:', error);
+    }
+  };
+
+  const handleBulkSave = async (entries: Array<{date: string, hours: number, companyId: number, projectId: number | null, description?: string, startTime?: string, endTime?: string, breakMinutes?: number, tags?: string[], mode?: 'set' | 'accumulate'}>) => {
     if (!entries.length) {
       return;
     }
@@ -336,7 +545,12 @@ export default function Dashboard() {
               hours: entry.hours,
               company_id: entry.companyId,
               project_id: entry.projectId,
-              description: entry.description ?? ''
+              description: entry.description ?? '',
+              start_time: entry.startTime,
+              end_time: entry.endTime,
+              break_minutes: entry.startTime && entry.endTime ? entry.breakMinutes : undefined,
+              tags: entry.tags,
+              mode: entry.mode
             })
           });
           
@@ -360,7 +574,8 @@ export default function Dashboard() {
       console.log(`Resultados del guardado masivo: ${successCount} exitosos, ${errorCount} errores`);
       
       if (errorCount > 0) {
-        throw new Error(`Se guardaron ${successCount} de ${entries.length} entradas. ${errorCount} fallaron.`);
+        const firstError = results.find(result => !result.success && result.response?.message)?.response?.message;
+        throw new Error(`Se guardaron ${successCount} de ${entries.length} entradas. ${errorCount} fallaron.${firstError ? ` ${firstError}` : ''}`);
       }
       
       await fetchData();
@@ -443,13 +658,23 @@ export default function Dashboard() {
                 )}
               </p>
             </div>
-            <button
-              onClick={logout}
-              className="flex items-center px-4 py-2 bg-red-600 hover:bg-red-700 rounded-lg transition-colors text-white"
-            >
-              <LogOut className="h-5 w-5 mr-2" />
-              Cerrar Sesión
-            </button>
+            <div className="flex items-center gap-4">
+              <TimeZoneSelect timeZone={timeZone} onChange={refreshSession} />
+              <TimerWidget
+                companies={data?.companies ?? []}
+                projects={projects}
+                selectedCompanyId={selectedCompanyId}
+                selectedProjectId={selectedProjectId}
+                onStop={() => fetchData()}
+              />
+              <button
+                onClick={logout}
+                className="flex items-center px-4 py-2 bg-red-600 hover:bg-red-700 rounded-lg transition-colors text-white"
+              >
+                <LogOut className="h-5 w-5 mr-2" />
+                Cerrar Sesión
+              </button>
+            </div>
           </div>
         </div>
       </header>
@@ -548,7 +773,10 @@ export default function Dashboard() {
                 </div>
                 <div className="flex items-end">
                   <div className="w-full rounded-md border border-dashed border-gray-300 px-3 py-2 text-sm text-gray-600 bg-gray-50">
-                    Ingresos estimados: <span className="font-semibold text-gray-900">{formatPrice(totalEarnings)}</span>
+                    Ingresos estimados: <span className="font-semibold text-gray-900">{formatMoney(totalEarnings, currency)}</span>
+                    {totalEarningsCop !== null && (
+                      <span className="ml-1 text-gray-500">≈ {formatPrice(totalEarningsCop)} COP</span>
+                    )}
                   </div>
                 </div>
               </div>
@@ -563,6 +791,7 @@ export default function Dashboard() {
                     <div className="ml-4">
                       <p className="text-sm font-medium text-gray-800">Total Horas</p>
                       <p className="text-2xl font-bold text-gray-900">{formatHours(totalHours)}</p>
+                      <p className="text-sm text-gray-600">{formatHours(billableHours)} facturables</p>
                     </div>
                   </div>
                 </div>
@@ -587,8 +816,15 @@ export default function Dashboard() {
                     <div className="ml-4">
                       <p className="text-sm font-medium text-gray-800">Tarifa/Hora</p>
                       <p className="text-2xl font-bold text-gray-900">
-                        {formatPrice(selectedCompany?.hourly_rate || 0, true)}
+                        {currency === 'COP'
+                          ? formatPrice(selectedCompany?.hourly_rate || 0, true)
+                          : formatMoney(selectedCompany?.hourly_rate || 0, currency)}
                       </p>
+                      {totalHours > 0 && (
+                        <p className="text-sm text-gray-600">
+                          Efectiva: {formatMoney(effectiveHourlyRate, currency)}
+                        </p>
+                      )}
                     </div>
                   </div>
                 </div>
@@ -600,7 +836,14 @@ export default function Dashboard() {
                     <TrendingUp className="h-8 w-8 text-purple-600" />
                     <div className="ml-4">
                       <p className="text-sm font-medium text-gray-800">Ingresos Totales</p>
-                      <p className="text-2xl font-bold text-gray-900">{formatPrice(totalEarnings)}</p>
+                      <p className="text-2xl font-bold text-gray-900">{formatMoney(totalEarnings, currency)}</p>
+                      {currency !== 'COP' && (
+                        <p className="text-sm text-gray-600">
+                          {totalEarningsCop !== null
+                            ? `≈ ${formatPrice(totalEarningsCop)} COP`
+                            : 'Sin tasa de cambio registrada'}
+                        </p>
+                      )}
                     </div>
                   </div>
                 </div>
@@ -687,18 +930,23 @@ export default function Dashboard() {
                       <span className="font-bold text-gray-700">{formatHours(analytics.lastWeek.totalHours)}</span>
                     </div>
                     <div className="flex justify-between items-center pt-2 border-t">
-                      <span className="text-gray-800">Diferencia</span>
+                      <span className="text-gray-800">Diferencia por día hábil</span>
                       <span className={`font-bold ${
                         analytics.weeklyTrend === 'up' ? 'text-green-600' : 
                         analytics.weeklyTrend === 'down' ? 'text-red-600' : 'text-gray-600'
                       }`}>
-                        {formatHoursDiff(analytics.thisWeek.totalHours - analytics.lastWeek.totalHours)}
+                        {formatHoursDiff(analytics.thisWeek.avgHoursPerWorkingDay - analytics.lastWeek.avgHoursPerWorkingDay)}
                       </span>
                     </div>
                     <div className="flex justify-between items-center">
                       <span className="text-gray-800">Días trabajados</span>
                       <span className="font-medium">
                         {analytics.thisWeek.workingDays} de 7 días
+                        {analytics.thisWeek.timeOffDays > 0 && (
+                          <span className="ml-1 text-teal-700">
+                            (+{analytics.thisWeek.timeOffDays} de tiempo libre)
+                          </span>
+                        )}
                       </span>
                     </div>
                   </div>
@@ -720,16 +968,16 @@ export default function Dashboard() {
                       <span className="font-bold text-gray-700">{formatHours(analytics.lastMonth.totalHours)}</span>
                     </div>
                     <div className="flex justify-between items-center pt-2 border-t">
-                      <span className="text-gray-800">Diferencia</span>
+                      <span className="text-gray-800">Diferencia por día hábil</span>
                       <span className={`font-bold ${
                         analytics.monthlyTrend === 'up' ? 'text-green-600' : 
                         analytics.monthlyTrend === 'down' ? 'text-red-600' : 'text-gray-800'
                       }`}>
-                        {formatHoursDiff(analytics.thisMonth.totalHours - analytics.lastMonth.totalHours)}
+                        {formatHoursDiff(analytics.thisMonth.avgHoursPerWorkingDay - analytics.lastMonth.avgHoursPerWorkingDay)}
                       </span>
                     </div>
                     <div className="flex justify-between items-center">
-                      <span className="text-gray-800">Promedio por día trabajado</span>
+                      <span className="text-gray-800">Promedio por día hábil</span>
                       <span className="font-medium">
                         {formatHours(analytics.thisMonth.avgHoursPerWorkingDay)}
                       </span>
@@ -768,13 +1016,13 @@ export default function Dashboard() {
                     </div>
                   )}
 
-                  {analytics && analytics.thisWeek.avgHoursPerWorkingDay < 6 && (
+                  {analytics && analytics.thisWeek.businessDays > 0 && analytics.thisWeek.avgHoursPerWorkingDay < 6 && (
                     <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-md">
                       <p className="text-sm font-medium text-yellow-800">
                         Promedio bajo esta semana
                       </p>
                       <p className="text-xs text-yellow-600 mt-1">
-                        {formatHours(analytics.thisWeek.avgHoursPerWorkingDay)} por día trabajado
+                        {formatHours(analytics.thisWeek.avgHoursPerWorkingDay)} por día hábil
                       </p>
                     </div>
                   )}
@@ -826,12 +1074,109 @@ export default function Dashboard() {
                       <option value="">Seleccionar empresa...</option>
                       {data?.companies?.map(company => (
                         <option key={company.id} value={company.id}>
-                          {company.name} {company.hourly_rate ? `($${company.hourly_rate}/h)` : ''}
+                          {company.name} {company.hourly_rate ? `(${company.currency === 'COP' ? '$' : `${company.currency} `}${company.hourly_rate}/h)` : ''}
                         </option>
                       ))}
                     </select>
                   </div>
 
+                  {selectedCompany && !showEditCompanyForm && (
+                    <div className="flex space-x-2">
+                      <button
+                        onClick={openEditCompanyForm}
+                        className="flex-1 px-3 py-1.5 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-100 transition-colors text-xs flex items-center justify-center"
+                      >
+                        <Pencil className="h-3 w-3 mr-1" />
+                        Editar empresa
+                      </button>
+                      <button
+                        onClick={deleteCompany}
+                        className="flex-1 px-3 py-1.5 border border-red-300 text-red-700 rounded-md hover:bg-red-50 transition-colors text-xs flex items-center justify-center"
+                      >
+                        <Trash2 className="h-3 w-3 mr-1" />
+                        Eliminar empresa
+                      </button>
+                    </div>
+                  )}
+
+                  {/* Edit Company Form */}
+                  {selectedCompany && showEditCompanyForm && (
+                    <div className="border-t pt-4 space-y-3">
+                      <input
+                        type="text"
+                        placeholder="Nombre de la empresa"
+                        value={editCompanyName}
+                        onChange={(e) => setEditCompanyName(e.target.value)}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+                      />
+                      <input
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        placeholder="Tarifa por hora"
+                        value={editCompanyRate}
+                        onChange={(e) => setEditCompanyRate(e.target.value)}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+                      />
+                      {parseFloat(editCompanyRate || '0') !== selectedCompany.hourly_rate && (
+                        <label className="block text-xs text-gray-700">
+                          Nueva tarifa vigente desde
+                          <input
+                            type="date"
+                            value={editRateEffectiveFrom}
+                            onChange={(e) => setEditRateEffectiveFrom(e.target.value)}
+                            className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+                          />
+                        </label>
+                      )}
+                      <input
+                        type="number"
+                        step="1"
+                        min="1"
+                        max="31"
+                        placeholder="Día de corte (1-31)"
+                        value={editCompanyCycleDay}
+                        onChange={(e) => setEditCompanyCycleDay(e.target.value)}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+                      />
+                      <select
+                        value={editCompanyCurrency}
+                        onChange={(e) => setEditCompanyCurrency(e.target.value as CurrencyCode)}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+                      >
+                        {SUPPORTED_CURRENCIES.map(code => (
+                          <option key={code} value={code}>{code}</option>
+                        ))}
+                      </select>
+                      {editCompanyCurrency !== 'COP' && (
+                        <input
+                          type="number"
+                          step="0.01"
+                          min="0"
+                          placeholder={`Tasa de hoy (COP por 1 ${editCompanyCurrency})`}
+                          value={editExchangeRate}
+                          onChange={(e) => setEditExchangeRate(e.target.value)}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+                        />
+                      )}
+                      <div className="flex space-x-2">
+                        <button
+                          onClick={updateCompany}
+                          disabled={!editCompanyName.trim()}
+                          className="flex-1 px-3 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-60 disabled:cursor-not-allowed transition-colors text-sm"
+                        >
+                          Guardar
+                        </button>
+                        <button
+                          onClick={() => setShowEditCompanyForm(false)}
+                          className="flex-1 px-3 py-2 bg-gray-300 text-gray-700 rounded-md hover:bg-gray-400 transition-colors text-sm"
+                        >
+                          Cancelar
+                        </button>
+                      </div>
+                    </div>
+                  )}
+
                   {/* New Company Form */}
                   {showNewCompanyForm && (
                     <div className="border-t pt-4 space-y-3">
@@ -851,6 +1196,15 @@ export default function Dashboard() {
                         onChange={(e) => setNewCompanyRate(e.target.value)}
                         className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
                       />
+                      <select
+                        value={newCompanyCurrency}
+                        onChange={(e) => setNewCompanyCurrency(e.target.value as CurrencyCode)}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+                      >
+                        {SUPPORTED_CURRENCIES.map(code => (
+                          <option key={code} value={code}>{code}</option>
+                        ))}
+                      </select>
                       <div className="flex space-x-2">
                         <button
                           onClick={createCompany}
@@ -896,21 +1250,76 @@ export default function Dashboard() {
                       ) : (
                         <div className="flex flex-wrap gap-2">
                           {activeProjects.map(project => (
-                            <button
-                              key={project.id}
-                              onClick={() => {
-                                if (project.id != null) {
-                                  setSelectedProjectId(project.id);
-                                }
-                              }}
-                              className={`px-3 py-1.5 text-xs rounded-full border transition-colors ${
-                                selectedProjectId === project.id
-                                  ? 'border-blue-500 bg-blue-50 text-blue-600'
-                                  : 'border-gray-200 bg-white text-gray-700 hover:border-blue-200'
-                              }`}
-                            >
-                              {project.name}
-                            </button>
+                            editingProjectId === project.id ? (
+                              <div key={project.id} className="flex items-center gap-1">
+                                <input
+                                  type="text"
+                                  value={editProjectName}
+                                  onChange={(e) => setEditProjectName(e.target.value)}
+                                  onKeyDown={(e) => {
+                                    if (e.key === 'Enter') renameProject(project.id!);
+                                    if (e.key === 'Escape') setEditingProjectId(null);
+                                  }}
+                                  className="px-2 py-1 border border-gray-300 rounded-md text-xs focus:outline-none focus:ring-2 focus:ring-purple-500"
+                                  autoFocus
+                                />
+                                <label className="flex items-center gap-1 text-xs text-gray-600" title="Valor por defecto de las horas nuevas del proyecto">
+                                  <input
+                                    type="checkbox"
+                                    checked={editProjectBillable}
+                                    onChange={(e) => setEditProjectBillable(e.target.checked)}
+                                  />
+                                  Facturable
+                                </label>
+                                <button
+                                  onClick={() => renameProject(project.id!)}
+                                  className="text-green-600 hover:text-green-800"
+                                  title="Guardar"
+                                >
+                                  <CheckCircle className="h-4 w-4" />
+                                </button>
+                              </div>
+                            ) : (
+                              <div
+                                key={project.id}
+                                className={`flex items-center gap-1 pl-3 pr-2 py-1.5 text-xs rounded-full border transition-colors ${
+                                  selectedProjectId === project.id
+                                    ? 'border-blue-500 bg-blue-50 text-blue-600'
+                                    : 'border-gray-200 bg-white text-gray-700 hover:border-blue-200'
+                                }`}
+                              >
+                                <button
+                                  onClick={() => {
+                                    if (project.id != null) {
+                                      setSelectedProjectId(project.id);
+                                    }
+                                  }}
+                                >
+                                  {project.name}
+                                  {project.billable_default === false && (
+                                    <span className="ml-1 text-gray-400">(no facturable)</span>
+                                  )}
+                                </button>
+                                <button
+                                  onClick={() => {
+                                    setEditingProjectId(project.id ?? null);
+                                    setEditProjectName(project.name);
+                                    setEditProjectBillable(project.billable_default !== false);
+                                  }}
+                                  className="text-gray-400 hover:text-blue-600"
+                                  title="Editar proyecto"
+                                >
+                                  <Pencil className="h-3 w-3" />
+                                </button>
+                                <button
+                                  onClick={() => deleteProject(project)}
+                                  className="text-gray-400 hover:text-red-600"
+                                  title="Eliminar proyecto"
+                                >
+                                  <Trash2 className="h-3 w-3" />
+                                </button>
+                              </div>
+                            )
                           ))}
                         </div>
                       )}
@@ -949,6 +1358,17 @@ export default function Dashboard() {
                       )}
                     </div>
                   )}
+
+                  {selectedCompany?.id != null && (
+                    <CompanyRatesPanel
+                      companyId={selectedCompany.id}
+                      currency={currency}
+                      projects={activeProjects}
+                      rates={data?.company_rates ?? []}
+                      timeZone={timeZone}
+                      onChange={() => fetchData(selectedCompany.id)}
+                    />
+                  )}
                   
                   <div className="pt-2 border-t">
                     <div className="flex space-x-2">
@@ -983,13 +1403,25 @@ export default function Dashboard() {
                       <div className="flex justify-between items-center">
                         <span className="text-sm text-gray-800">Ingresos esta semana</span>
                         <span className="font-bold text-green-600">
-                          {formatPrice(analytics.thisWeek.totalEarnings)}
+                          {formatMoney(analytics.thisWeek.totalEarnings, currency)}
                         </span>
                       </div>
                       <div className="flex justify-between items-center">
                         <span className="text-sm text-gray-800">Ingresos este mes</span>
                         <span className="font-bold text-blue-600">
-                          {formatPrice(analytics.thisMonth.totalEarnings)}
+                          {formatMoney(analytics.thisMonth.totalEarnings, currency)}
+                        </span>
+                      </div>
+                      <div className="flex justify-between items-center">
+                        <span className="text-sm text-gray-800">Horas facturables este mes</span>
+                        <span className="font-medium">
+                          {formatHours(analytics.thisMonth.billableHours)} / {formatHours(analytics.thisMonth.totalHours)}
+                        </span>
+                      </div>
+                      <div className="flex justify-between items-center">
+                        <span className="text-sm text-gray-800">Tarifa efectiva este mes</span>
+                        <span className="font-medium">
+                          {formatMoney(analytics.thisMonth.effectiveHourlyRate, currency)}
                         </span>
                       </div>
                       <div className="flex justify-between items-center pt-2 border-t">
@@ -1040,6 +1472,12 @@ export default function Dashboard() {
                 })}
               </div>
             </div>
+
+            <HolidaysPanel timeZone={timeZone} onChange={() => fetchData()} />
+
+            <TimeOffPanel companies={data?.companies || []} timeZone={timeZone} onChange={() => fetchData()} />
+
+            <TrashPanel refreshKey={data} onChange={() => fetchData()} />
           </>
         )}
 
@@ -1052,12 +1490,26 @@ export default function Dashboard() {
             defaultCompanyId={selectedCompany?.id}
             projects={projects}
             defaultProjectId={selectedProjectId}
+            daysOff={daysOff}
+            timeOff={timeOff}
+            timeZone={timeZone}
+          />
+        )}
+
+        {activeTab === 'bulk-table' && (
+          <EntryTemplatesPanel
+            companies={data?.companies || []}
+            projects={projects}
+            defaultCompanyId={selectedCompany?.id}
+            timeZone={timeZone}
+            onChange={() => fetchData()}
           />
         )}
 
         {activeTab === 'reports' && (
           <MonthlyReport
             companies={data?.companies || []}
+            timeZone={timeZone}
           />
         )}
 
@@ -1066,12 +1518,11 @@ export default function Dashboard() {
             companies={data?.companies || []}
             projects={data?.projects || []}
             selectedCompanyId={selectedCompanyId}
+            timeZone={timeZone}
             onDataChange={() => fetchData()}
           />
         )}
       </div>
     </div>
   );
-}
-
-const WEEKDAY_NAMES_ES = ['domingo', 'lunes', 'martes', 'miércoles', 'jueves', 'viernes', 'sábado'];
\ No newline at end of file
+}
\ No newline at end of file
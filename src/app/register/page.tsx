@@ -42,7 +42,8 @@ export default function RegisterPage() {
         body: JSON.stringify({
           email: formData.email,
           password: formData.password,
-          name: formData.first_name + ' ' + formData.last_name
+          name: formData.first_name + ' ' + formData.last_name,
+          timezone: Intl.DateTimeFormat().resolvedOptions().timeZone
         }),
       });
 
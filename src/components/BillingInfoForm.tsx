@@ -4,8 +4,9 @@ import { useState, useEffect } from 'react';
 import { UserBillingInfo, UpdateUserBillingInfoRequest } from '@/lib/types';
 import { 
   User, CreditCard, MapPin, Phone, 
-  Save, Loader2, AlertCircle, CheckCircle
+  Save, Loader2, AlertCircle, CheckCircle, Percent
 } from 'lucide-react';
+import { DEFAULT_IVA_RATE } from '@/lib/invoice-taxes';
 
 interface BillingInfoFormProps {
   billingInfo: UserBillingInfo | null;
@@ -27,7 +28,9 @@ export default function BillingInfoForm({ billingInfo, onSave, loading = false }
     bank_name: '',
     account_type: 'Ahorros',
     account_number: '',
-    declaration: DEFAULT_DECLARATION
+    declaration: DEFAULT_DECLARATION,
+    iva_responsible: false,
+    iva_rate: DEFAULT_IVA_RATE
   });
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -47,7 +50,12 @@ export default function BillingInfoForm({ billingInfo, onSave, loading = false }
         account_type: billingInfo.account_type || 'Ahorros',
         account_number: billingInfo.account_number || '',
         signature_image: billingInfo.signature_image,
-        declaration: billingInfo.declaration || DEFAULT_DECLARATION
+        declaration: billingInfo.declaration || DEFAULT_DECLARATION,
+        iva_responsible: billingInfo.iva_responsible ?? false,
+        iva_rate: billingInfo.iva_rate ?? DEFAULT_IVA_RATE,
+        retefuente_rate: billingInfo.retefuente_rate,
+        reteica_rate: billingInfo.reteica_rate,
+        social_security_note: billingInfo.social_security_note || ''
       });
       if (billingInfo.signature_image) {
         setSignaturePreview(billingInfo.signature_image);
@@ -62,6 +70,14 @@ export default function BillingInfoForm({ billingInfo, onSave, loading = false }
     setSuccess(false);
   };
 
+  // Las tarifas vacías se guardan como no definidas
+  const handleRateChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({ ...prev, [name]: value === '' ? undefined : parseFloat(value) }));
+    setError(null);
+    setSuccess(false);
+  };
+
   const handleSignatureUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
@@ -295,6 +311,98 @@ export default function BillingInfoForm({ billingInfo, onSave, loading = false }
         </div>
       </div>
 
+      {/* Impuestos y retenciones */}
+      <div className="bg-white rounded-lg border border-gray-200 p-4">
+        <h3 className="text-lg font-semibold text-gray-800 mb-4 flex items-center gap-2">
+          <Percent className="w-5 h-5" />
+          Impuestos y Retenciones
+        </h3>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="md:col-span-2 flex items-center gap-2">
+            <input
+              id="iva_responsible"
+              type="checkbox"
+              checked={formData.iva_responsible ?? false}
+              onChange={(e) => setFormData(prev => ({ ...prev, iva_responsible: e.target.checked }))}
+              className="h-4 w-4 text-indigo-600 border-gray-300 rounded"
+              disabled={isLoading}
+            />
+            <label htmlFor="iva_responsible" className="text-sm font-medium text-gray-700">
+              Soy responsable de IVA
+            </label>
+          </div>
+          {formData.iva_responsible && (
+            <div>
+              <label className="text-sm font-medium text-gray-700 mb-1 flex items-center gap-1">
+                IVA (%)
+              </label>
+              <input
+                type="number"
+                name="iva_rate"
+                min="0"
+                max="100"
+                step="0.01"
+                value={formData.iva_rate ?? ''}
+                onChange={handleRateChange}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                disabled={isLoading}
+              />
+            </div>
+          )}
+          <div>
+            <label className="text-sm font-medium text-gray-700 mb-1 flex items-center gap-1">
+              Retención en la fuente (%)
+            </label>
+            <input
+              type="number"
+              name="retefuente_rate"
+              min="0"
+              max="100"
+              step="0.01"
+              value={formData.retefuente_rate ?? ''}
+              onChange={handleRateChange}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+              placeholder="Ej: 11"
+              disabled={isLoading}
+            />
+          </div>
+          <div>
+            <label className="text-sm font-medium text-gray-700 mb-1 flex items-center gap-1">
+              ReteICA (por mil)
+            </label>
+            <input
+              type="number"
+              name="reteica_rate"
+              min="0"
+              max="1000"
+              step="0.001"
+              value={formData.reteica_rate ?? ''}
+              onChange={handleRateChange}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+              placeholder="Ej: 9.66"
+              disabled={isLoading}
+            />
+          </div>
+          <div className="md:col-span-2">
+            <label className="text-sm font-medium text-gray-700 mb-1 flex items-center gap-1">
+              Nota de seguridad social
+            </label>
+            <textarea
+              name="social_security_note"
+              value={formData.social_security_note || ''}
+              onChange={handleChange}
+              rows={2}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent text-sm"
+              placeholder="Ej: Aportes a salud, pensión y ARL realizados sobre el 40% del valor facturado"
+              disabled={isLoading}
+            />
+          </div>
+        </div>
+        <p className="text-xs text-gray-500 mt-2">
+          Las retenciones solo se aplican a las empresas marcadas como agentes retenedores en sus datos de facturación.
+        </p>
+      </div>
+
       {/* Firma y declaración */}
       <div className="bg-white rounded-lg border border-gray-200 p-4">
         <h3 className="text-lg font-semibold text-gray-800 mb-4">
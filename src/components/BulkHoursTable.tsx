@@ -1,10 +1,17 @@
 'use client';
 
 import React, { useState, useEffect, useMemo } from 'react';
-import { Calendar, Check, X, Edit, Trash2, Plus, ChevronLeft, ChevronRight } from 'lucide-react';
-import { WEEKDAY_NAMES_ES, Company, Project } from '@/lib/types';
+import { Calendar, Check, X, Edit, Trash2, Plus, ChevronLeft, ChevronRight, Download, Scissors, Merge, Lock, Undo2 } from 'lucide-react';
+import { WEEKDAY_NAMES_ES, Company, EntryChange, EntryChangeBatch, EntryChangeKind, EntryExportFormat, InvoiceStatus, Project, TimeOff, UserDayOff } from '@/lib/types';
+import { createHolidayChecker, getHolidaysInRange } from '@/lib/holidays';
+import { TIME_OFF_TYPE_LABELS } from '@/lib/time-off';
 import { formatHours } from '@/lib/formatters';
+import { addDays, endOfWeek, formatDate, isDateString, isoWeekday, startOfMonth, startOfWeek, todayInTimeZone } from '@/lib/dates';
+import { getEntryExportFileName } from '@/lib/entry-export';
+import { formatEntryTimeRange, hoursFromTimes } from '@/lib/entry-times';
+import { isEntryLocked } from '@/lib/entry-days';
 import { useAuth } from '@/hooks/useAuth';
+import EntryImportModal from '@/components/EntryImportModal';
 
 interface HourEntry {
   id?: number;
@@ -16,42 +23,43 @@ interface HourEntry {
   description?: string;
   companyId?: number | null;
   projectId?: number | null;
+  startTime?: string;
+  endTime?: string;
+  breakMinutes?: number;
+  billable?: boolean;
+  tags?: string[];
+  invoiceNumber?: string | null;
+  locked?: boolean; // Facturada en una cuenta emitida: editarla requiere desbloquearla
 }
 
+type SaveEntry = {date: string, hours: number, companyId: number, projectId: number | null, description?: string, startTime?: string, endTime?: string, breakMinutes?: number, tags?: string[], mode?: 'set' | 'accumulate'};
+
 interface BulkHoursTableProps {
-  onSave: (entries: Array<{date: string, hours: number, companyId: number, projectId: number | null, description?: string}>) => Promise<void>;
+  onSave: (entries: SaveEntry[]) => Promise<void>;
   onRefresh: () => void;
-  existingEntries: Array<{id?: number, date: string, hours: number, description?: string, company_id?: number, project_id?: number | null}>;
+  existingEntries: Array<{id?: number, date: string, hours: number, description?: string, company_id?: number, project_id?: number | null, start_time?: string | null, end_time?: string | null, break_minutes?: number, billable?: boolean, tags?: string[], invoice_item_id?: number | null, invoice_number?: string | null, invoice_status?: InvoiceStatus | null}>;
   companies: Company[];
   defaultCompanyId?: number;
   projects: Project[];
   defaultProjectId?: number | null;
+  daysOff?: UserDayOff[];
+  timeOff?: TimeOff[];
+  timeZone?: string;
 }
 
-const normalizeStartOfDay = (value: Date) => {
-  const date = new Date(value);
-  date.setHours(0, 0, 0, 0);
-  return date;
+// Horas derivadas del horario si hay entrada y salida válidas; null si no aplica
+const deriveHours = (startTime?: string, endTime?: string, breakMinutes?: number) => {
+  if (!startTime || !endTime || endTime <= startTime) return null;
+  return Math.max(0, hoursFromTimes(startTime, endTime, breakMinutes || 0));
 };
 
-const toISODate = (value: Date) => normalizeStartOfDay(value).toISOString().split('T')[0];
-
-const getMonday = (value: Date) => {
-  const date = normalizeStartOfDay(value);
-  const day = date.getDay();
-  const diff = day === 0 ? -6 : 1 - day; // Ajustar para lunes como inicio
-  date.setDate(date.getDate() + diff);
-  return date;
-};
+// Fecha del rango seleccionado (p. ej. "05 de enero")
+const formatRangeDate = (date: string) => formatDate(date, { day: '2-digit', month: 'long' }, 'es-ES');
 
-const getSunday = (value: Date) => {
-  const monday = getMonday(value);
-  const sunday = new Date(monday);
-  sunday.setDate(monday.getDate() + 6);
-  return normalizeStartOfDay(sunday);
-};
+// Etiquetas escritas separadas por coma
+const splitTags = (value: string) => value.split(',').map((tag) => tag.trim().toLowerCase()).filter(Boolean);
 
-export default function BulkHoursTable({ onSave, onRefresh, existingEntries, companies, defaultCompanyId, projects, defaultProjectId }: BulkHoursTableProps) {
+export default function BulkHoursTable({ onSave, onRefresh, existingEntries, companies, defaultCompanyId, projects, defaultProjectId, daysOff = [], timeOff = [], timeZone }: BulkHoursTableProps) {
   // Hook de autenticación
   const { authFetch } = useAuth();
   
@@ -66,20 +74,29 @@ export default function BulkHoursTable({ onSave, onRefresh, existingEntries, com
   const [editingEntry, setEditingEntry] = useState<HourEntry | null>(null);
   const [selectedIds, setSelectedIds] = useState<Set<number>>(new Set());
   const [bulkEditOpen, setBulkEditOpen] = useState(false);
-  const [bulkEditValues, setBulkEditValues] = useState<{ hours: string; projectId: number | ''; description: string }>({
+  const [editingTags, setEditingTags] = useState('');
+  const [bulkEditValues, setBulkEditValues] = useState<{ hours: string; projectId: number | ''; description: string; billable: '' | 'yes' | 'no'; addTags: string; removeTags: string }>({
     hours: '',
     projectId: '',
-    description: ''
+    description: '',
+    billable: '',
+    addTags: '',
+    removeTags: ''
   });
-  const [newEntry, setNewEntry] = useState<{ date: string; hours: string; projectId: number | '' }>({
+  const [newEntry, setNewEntry] = useState<{ date: string; hours: string; projectId: number | ''; startTime: string; endTime: string; breakMinutes: string; tags: string }>({
     date: '',
     hours: '',
-    projectId: defaultProjectId ?? ''
+    projectId: defaultProjectId ?? '',
+    startTime: '',
+    endTime: '',
+    breakMinutes: '',
+    tags: ''
   });
   const [loading, setLoading] = useState(false);
   
   // Estado para asignación masiva
   const [showBulkMode, setShowBulkMode] = useState(false);
+  const [showImport, setShowImport] = useState(false);
 
   const projectById = useMemo(() => {
     const map = new Map<number, Project>();
@@ -142,8 +159,7 @@ export default function BulkHoursTable({ onSave, onRefresh, existingEntries, com
   // Convertir entradas existentes a formato interno
   useEffect(() => {
     const formattedEntries: HourEntry[] = existingEntries.map((entry, index) => {
-      const date = new Date(entry.date + 'T00:00:00');
-      const weekday = date.getDay() === 0 ? 6 : date.getDay() - 1;
+      const weekday = isoWeekday(entry.date);
       
       return {
         id: entry.id ?? index, // Usar el ID real si existe, sino el índice
@@ -154,7 +170,14 @@ export default function BulkHoursTable({ onSave, onRefresh, existingEntries, com
         isEditing: false,
         description: entry.description ?? '',
         companyId: entry.company_id,
-        projectId: entry.project_id ?? null
+        projectId: entry.project_id ?? null,
+        startTime: entry.start_time ?? undefined,
+        endTime: entry.end_time ?? undefined,
+        breakMinutes: entry.break_minutes ?? 0,
+        billable: entry.billable !== false,
+        tags: entry.tags ?? [],
+        invoiceNumber: entry.invoice_item_id != null ? entry.invoice_number ?? null : null,
+        locked: isEntryLocked(entry)
       };
     });
     
@@ -180,6 +203,26 @@ export default function BulkHoursTable({ onSave, onRefresh, existingEntries, com
     return filtered;
   }, [entries, startDate, endDate]);
 
+  // Vacaciones, incapacidades y licencias que se cruzan con el rango filtrado
+  const timeOffInRange = useMemo(() => {
+    return timeOff.filter(period =>
+      (!startDate || period.end_date >= startDate) && (!endDate || period.start_date <= endDate)
+    );
+  }, [timeOff, startDate, endDate]);
+
+  // Cantidad de entradas por día y proyecto, para ofrecer unirlas
+  const entriesPerDay = useMemo(() => {
+    const counts = new Map<string, number>();
+    entries.forEach((entry) => {
+      const key = `${entry.companyId ?? ''}|${entry.date}|${entry.projectId ?? ''}`;
+      counts.set(key, (counts.get(key) ?? 0) + 1);
+    });
+    return counts;
+  }, [entries]);
+
+  const getDayEntryCount = (entry: HourEntry) =>
+    entriesPerDay.get(`${entry.companyId ?? ''}|${entry.date}|${entry.projectId ?? ''}`) ?? 0;
+
   // Paginación
   const totalPages = Math.ceil(filteredEntries.length / itemsPerPage);
   const startIndex = (currentPage - 1) * itemsPerPage;
@@ -220,6 +263,11 @@ export default function BulkHoursTable({ onSave, onRefresh, existingEntries, com
 
   // Funciones CRUD
   const handleEdit = (entry: HourEntry) => {
+    if (entry.locked && !confirm(`La entrada del ${entry.date} está facturada en la cuenta ${entry.invoiceNumber}. ¿Desbloquearla para editarla?`)) {
+      return;
+    }
+
+    setEditingTags((entry.tags ?? []).join(', '));
     setEditingEntry({
       ...entry,
       projectId: entry.projectId ?? null,
@@ -249,7 +297,13 @@ export default function BulkHoursTable({ onSave, onRefresh, existingEntries, com
           date: editingEntry.date,
           hours: editingEntry.hours,
           description: editingEntry.description ?? '',
-          project_id: editingEntry.projectId ?? null
+          project_id: editingEntry.projectId ?? null,
+          start_time: editingEntry.startTime || null,
+          end_time: editingEntry.endTime || null,
+          break_minutes: editingEntry.startTime && editingEntry.endTime ? editingEntry.breakMinutes || 0 : 0,
+          billable: editingEntry.billable !== false,
+          tags: splitTags(editingTags),
+          unlock: editingEntry.locked === true
         }),
       });
 
@@ -269,7 +323,8 @@ export default function BulkHoursTable({ onSave, onRefresh, existingEntries, com
   };
 
   const handleDelete = async (entry: HourEntry) => {
-    if (!confirm(`¿Estás seguro de que quieres eliminar la entrada del ${entry.date}?`)) {
+    const lockWarning = entry.locked ? ` Está facturada en la cuenta ${entry.invoiceNumber}.` : '';
+    if (!confirm(`¿Estás seguro de que quieres eliminar la entrada del ${entry.date}?${lockWarning}`)) {
       return;
     }
     
@@ -279,7 +334,8 @@ export default function BulkHoursTable({ onSave, onRefresh, existingEntries, com
       const response = await authFetch('/api/entries', {
         method: 'DELETE',
         body: JSON.stringify({
-          id: entry.id
+          id: entry.id,
+          unlock: entry.locked === true
         }),
       });
 
@@ -297,28 +353,111 @@ export default function BulkHoursTable({ onSave, onRefresh, existingEntries, com
     }
   };
 
+  // Dividir una entrada en dos partes del mismo día
+  const handleSplit = async (entry: HourEntry) => {
+    const answer = prompt(`¿Cuántas horas van en la primera parte? (total ${formatHours(entry.hours)})`);
+    if (answer === null) return;
+
+    const firstHours = parseFloat(answer.replace(',', '.'));
+    if (!Number.isFinite(firstHours) || firstHours <= 0 || firstHours >= entry.hours) {
+      alert(`Ingresa un número de horas mayor que 0 y menor que ${entry.hours}.`);
+      return;
+    }
+    const secondHours = Math.round((entry.hours - firstHours) * 100) / 100;
+
+    setLoading(true);
+    try {
+      const response = await authFetch('/api/entries/split', {
+        method: 'POST',
+        body: JSON.stringify({
+          id: entry.id,
+          parts: [{ hours: firstHours }, { hours: secondHours }]
+        }),
+      });
+
+      const data = await response.json();
+
+      if (data.status !== 'ok') {
+        throw new Error(data.message || 'Error al dividir la entrada');
+      }
+
+      onRefresh();
+    } catch (error) {
+      alert('Error al dividir la entrada: ' + (error instanceof Error ? error.message : 'Error desconocido'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Unir todas las entradas del día y proyecto en una sola
+  const handleMergeDay = async (entry: HourEntry) => {
+    if (!confirm(`¿Unir las ${getDayEntryCount(entry)} entradas del ${entry.date} en una sola?`)) {
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const response = await authFetch('/api/entries/merge-day', {
+        method: 'POST',
+        body: JSON.stringify({
+          company_id: entry.companyId,
+          date: entry.date,
+          project_id: entry.projectId ?? null
+        }),
+      });
+
+      const data = await response.json();
+
+      if (data.status !== 'ok') {
+        throw new Error(data.message || 'Error al unir las entradas');
+      }
+
+      onRefresh();
+    } catch (error) {
+      alert('Error al unir las entradas: ' + (error instanceof Error ? error.message : 'Error desconocido'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
   // Eliminación múltiple
   const handleBulkDelete = async () => {
     if (selectedIds.size === 0) return;
     if (!confirm(`¿Eliminar ${selectedIds.size} registros seleccionados?`)) return;
 
+    // Las entradas facturadas en cuentas emitidas solo se eliminan si se desbloquean explícitamente
+    const selected = entries.filter((entry) => entry.id && selectedIds.has(entry.id));
+    const locked = selected.filter((entry) => entry.locked);
+    const invoiceNumbers = [...new Set(locked.map((entry) => entry.invoiceNumber).filter(Boolean))].join(', ');
+    const unlock = locked.length > 0 && confirm(
+      `${locked.length} de los registros están facturados (cuenta ${invoiceNumbers}). ¿Desbloquearlos y eliminarlos también? Cancelar los deja sin eliminar.`
+    );
+
     setLoading(true);
     try {
       let success = 0;
-      for (const entry of entries) {
-        if (!entry.id || !selectedIds.has(entry.id)) continue;
+      const failed: string[] = [];
+      for (const entry of selected) {
+        if (entry.locked && !unlock) {
+          failed.push(`${entry.date}: facturada en la cuenta ${entry.invoiceNumber}`);
+          continue;
+        }
         try {
           const response = await authFetch('/api/entries', {
             method: 'DELETE',
-            body: JSON.stringify({ id: entry.id }),
+            body: JSON.stringify({ id: entry.id, unlock: entry.locked === true }),
           });
           const data = await response.json();
           if (data.status === 'ok') success++;
+          else failed.push(`${entry.date}: ${data.message || 'Error desconocido'}`);
         } catch (error) {
           console.error('Error al eliminar registro en lote', error);
+          failed.push(`${entry.date}: error de conexión`);
         }
       }
-      if (success === 0) {
+      if (failed.length > 0) {
+        alert(`Se eliminaron ${success} de ${selected.length} registros. No se eliminaron:\n${failed.join('\n')}`);
+      } else if (success === 0) {
         alert('No se eliminaron registros.');
       }
       clearSelection();
@@ -337,7 +476,12 @@ export default function BulkHoursTable({ onSave, onRefresh, existingEntries, com
     const hasHours = bulkEditValues.hours.trim() !== '';
     const hasProject = bulkEditValues.projectId !== '';
     const hasDescription = bulkEditValues.description.trim() !== '';
-    if (!hasHours && !hasProject && !hasDescription) {
+    const hasBillable = bulkEditValues.billable !== '';
+    const addTags = splitTags(bulkEditValues.addTags);
+    const removeTags = splitTags(bulkEditValues.removeTags);
+    const hasTags = addTags.length > 0 || removeTags.length > 0;
+    const hasEntryChanges = hasHours || hasProject || hasDescription || hasBillable;
+    if (!hasEntryChanges && !hasTags) {
       alert('Ingresa al menos un cambio para aplicar.');
       return;
     }
@@ -345,7 +489,22 @@ export default function BulkHoursTable({ onSave, onRefresh, existingEntries, com
     setLoading(true);
     try {
       let success = 0;
-      for (const entry of entries) {
+
+      // Las etiquetas se aplican a todos los seleccionados en una sola llamada
+      if (hasTags) {
+        const response = await authFetch('/api/entries/tags', {
+          method: 'POST',
+          body: JSON.stringify({ entry_ids: Array.from(selectedIds), add: addTags, remove: removeTags }),
+        });
+        const data = await response.json();
+        if (data.status !== 'ok') {
+          alert('Error al actualizar etiquetas: ' + (data.message || 'Error desconocido'));
+        } else if (!hasEntryChanges) {
+          success = selectedIds.size;
+        }
+      }
+
+      for (const entry of hasEntryChanges ? entries : []) {
         if (!entry.id || !selectedIds.has(entry.id)) continue;
         const nextHours = hasHours ? parseFloat(bulkEditValues.hours) : entry.hours;
         if (!Number.isFinite(nextHours)) continue;
@@ -356,6 +515,7 @@ export default function BulkHoursTable({ onSave, onRefresh, existingEntries, com
           hours: number;
           description: string;
           project_id?: number | null;
+          billable?: boolean;
         } = {
           id: entry.id,
           date: entry.date,
@@ -365,6 +525,9 @@ export default function BulkHoursTable({ onSave, onRefresh, existingEntries, com
         if (hasProject) {
           payload.project_id = bulkEditValues.projectId === '' ? null : Number(bulkEditValues.projectId);
         }
+        if (hasBillable) {
+          payload.billable = bulkEditValues.billable === 'yes';
+        }
         try {
           const response = await authFetch('/api/entries', {
             method: 'PUT',
@@ -387,13 +550,20 @@ export default function BulkHoursTable({ onSave, onRefresh, existingEntries, com
     }
   };
 
+  const newEntryDerivedHours = deriveHours(newEntry.startTime, newEntry.endTime, parseInt(newEntry.breakMinutes) || 0);
+
   const handleAdd = async () => {
-    if (!newEntry.date || !newEntry.hours) {
+    if (!newEntry.date || (!newEntry.hours && newEntryDerivedHours === null)) {
       alert('Por favor completa todos los campos');
       return;
     }
+
+    if (Boolean(newEntry.startTime) !== Boolean(newEntry.endTime)) {
+      alert('Indica la hora de entrada y la de salida, o deja ambas vacías.');
+      return;
+    }
     
-    const hours = parseFloat(newEntry.hours);
+    const hours = newEntryDerivedHours ?? parseFloat(newEntry.hours);
     if (hours <= 0) {
       alert('Las horas deben ser mayor que 0');
       return;
@@ -420,12 +590,23 @@ export default function BulkHoursTable({ onSave, onRefresh, existingEntries, com
     
     setLoading(true);
     try {
-      await onSave([{ date: newEntry.date, hours, companyId: targetCompanyId, projectId }]);
-      setNewEntry({ date: '', hours: '', projectId });
+      await onSave([{
+        date: newEntry.date,
+        hours,
+        companyId: targetCompanyId,
+        projectId,
+        startTime: newEntry.startTime || undefined,
+        endTime: newEntry.endTime || undefined,
+        breakMinutes: parseInt(newEntry.breakMinutes) || 0,
+        tags: splitTags(newEntry.tags),
+        // Agregar desde el formulario crea otra entrada aunque el día ya tenga horas
+        mode: 'accumulate'
+      }]);
+      setNewEntry({ date: '', hours: '', projectId, startTime: '', endTime: '', breakMinutes: '', tags: newEntry.tags });
       onRefresh();
     } catch (err) {
       console.error('Error al agregar la entrada:', err);
-      alert('Error al agregar la entrada');
+      alert(err instanceof Error ? err.message : 'Error al agregar la entrada');
     } finally {
       setLoading(false);
     }
@@ -436,6 +617,63 @@ export default function BulkHoursTable({ onSave, onRefresh, existingEntries, com
     setCurrentPage(1);
   }, [startDate, endDate, itemsPerPage]);
 
+  // Descargar las horas del rango filtrado de la empresa actual
+  const handleExport = async (format: EntryExportFormat) => {
+    const params = new URLSearchParams({ format });
+    if (effectiveDefaultCompanyId) params.set('company_id', String(effectiveDefaultCompanyId));
+    if (startDate) params.set('start_date', startDate);
+    if (endDate) params.set('end_date', endDate);
+
+    const response = await authFetch(`/api/entries/export?${params.toString()}`);
+    if (!response.ok) {
+      const result = await response.json().catch(() => null);
+      alert(result?.message || 'Error al exportar las horas');
+      return;
+    }
+
+    const blob = await response.blob();
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = getEntryExportFileName(format, startDate || undefined, endDate || undefined);
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  // Deshacer la operación más reciente que siga vigente (edición, carga masiva, promedios, importación...)
+  const handleUndoLast = async () => {
+    setLoading(true);
+    try {
+      const historyResponse = await authFetch('/api/entries/history?limit=20');
+      const history = await historyResponse.json();
+      if (history.status !== 'ok') {
+        throw new Error(history.message || 'Error al obtener el historial');
+      }
+
+      const lastBatch = (history.data as EntryChangeBatch[]).find(batch => !batch.undone_at);
+      if (!lastBatch) {
+        alert('No hay operaciones recientes para deshacer.');
+        return;
+      }
+
+      if (!confirm(`¿Deshacer "${lastBatch.summary}" (${lastBatch.change_count} cambios)?`)) {
+        return;
+      }
+
+      const response = await authFetch(`/api/entries/history/${lastBatch.id}/undo`, { method: 'POST' });
+      const data = await response.json();
+      if (data.status !== 'ok') {
+        throw new Error(data.message || 'Error al deshacer la operación');
+      }
+
+      onRefresh();
+    } catch (error) {
+      alert('Error al deshacer: ' + (error instanceof Error ? error.message : 'Error desconocido'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const handleOpenBulkMode = () => {
     if (!effectiveDefaultCompanyId) {
       alert('Necesitas seleccionar o crear una empresa antes de usar la asignación masiva.');
@@ -443,9 +681,9 @@ export default function BulkHoursTable({ onSave, onRefresh, existingEntries, com
     }
 
     if (!startDate || !endDate) {
-      const today = new Date();
-      const defaultStart = toISODate(getMonday(today));
-      const defaultEnd = toISODate(getSunday(today));
+      const today = todayInTimeZone(timeZone);
+      const defaultStart = startOfWeek(today);
+      const defaultEnd = endOfWeek(today);
 
       if (!startDate) {
         setStartDate(defaultStart);
@@ -473,7 +711,7 @@ export default function BulkHoursTable({ onSave, onRefresh, existingEntries, com
       </div>
 
       {/* Filtros */}
-      <div className="grid grid-cols-1 md:grid-cols-5 gap-4 mb-6">
+      <div className="grid grid-cols-1 md:grid-cols-6 gap-4 mb-6">
         <div>
           <label className="block text-sm font-medium text-gray-900 mb-1">Fecha Inicio</label>
           <input
@@ -524,6 +762,56 @@ export default function BulkHoursTable({ onSave, onRefresh, existingEntries, com
             Asignación Masiva
           </button>
         </div>
+        <div className="flex items-end">
+          <button
+            onClick={() => setShowImport(true)}
+            disabled={!effectiveDefaultCompanyId}
+            className="w-full bg-white border border-purple-600 text-purple-700 py-2 px-4 rounded-md hover:bg-purple-50 disabled:opacity-60 transition-colors"
+          >
+            Importar CSV
+          </button>
+        </div>
+      </div>
+
+      {timeOffInRange.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 mb-4 text-sm">
+          <span className="text-gray-700">Tiempo libre:</span>
+          {timeOffInRange.map(period => (
+            <span
+              key={period.id}
+              className="rounded-full bg-teal-100 px-2 py-1 text-xs font-medium text-teal-800"
+              title={period.notes || undefined}
+            >
+              {TIME_OFF_TYPE_LABELS[period.type]} · {period.start_date === period.end_date ? period.start_date : `${period.start_date} al ${period.end_date}`}
+            </span>
+          ))}
+        </div>
+      )}
+
+      {/* Deshacer y exportación */}
+      <div className="flex items-center justify-end gap-2 mb-4 text-sm">
+        <button
+          onClick={handleUndoLast}
+          disabled={loading}
+          className="mr-auto flex items-center rounded-md border border-gray-300 px-3 py-1 text-gray-700 hover:bg-gray-100 disabled:opacity-60"
+          title="Deshacer la última operación sobre las horas"
+        >
+          <Undo2 className="h-4 w-4 mr-1" />
+          Deshacer última operación
+        </button>
+        <span className="flex items-center text-gray-700">
+          <Download className="h-4 w-4 mr-1" />
+          Exportar {startDate || endDate ? 'rango filtrado' : 'todo'}:
+        </span>
+        {([['csv', 'CSV'], ['xlsx', 'Excel'], ['json', 'JSON']] as Array<[EntryExportFormat, string]>).map(([format, label]) => (
+          <button
+            key={format}
+            onClick={() => handleExport(format)}
+            className="rounded-md border border-gray-300 px-3 py-1 text-gray-700 hover:bg-gray-100"
+          >
+            {label}
+          </button>
+        ))}
       </div>
 
       {/* Estadísticas */}
@@ -591,9 +879,11 @@ export default function BulkHoursTable({ onSave, onRefresh, existingEntries, com
                   step="0.5"
                   min="0"
                   max="24"
-                  value={newEntry.hours}
+                  value={newEntryDerivedHours ?? newEntry.hours}
                   onChange={(e) => setNewEntry({ ...newEntry, hours: e.target.value })}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  disabled={newEntryDerivedHours !== null}
+                  title={newEntryDerivedHours !== null ? 'Calculado desde el horario' : undefined}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100"
                 />
               </div>
               <div className="flex items-end">
@@ -606,6 +896,48 @@ export default function BulkHoursTable({ onSave, onRefresh, existingEntries, com
                 </button>
               </div>
             </div>
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mt-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-900 mb-1">Entrada (opcional)</label>
+                <input
+                  type="time"
+                  value={newEntry.startTime}
+                  onChange={(e) => setNewEntry({ ...newEntry, startTime: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-900 mb-1">Salida (opcional)</label>
+                <input
+                  type="time"
+                  value={newEntry.endTime}
+                  onChange={(e) => setNewEntry({ ...newEntry, endTime: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-900 mb-1">Pausa (min)</label>
+                <input
+                  type="number"
+                  step="5"
+                  min="0"
+                  value={newEntry.breakMinutes}
+                  onChange={(e) => setNewEntry({ ...newEntry, breakMinutes: e.target.value })}
+                  disabled={!newEntry.startTime || !newEntry.endTime}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-900 mb-1">Etiquetas (opcional)</label>
+                <input
+                  type="text"
+                  placeholder="meeting, bugfix"
+                  value={newEntry.tags}
+                  onChange={(e) => setNewEntry({ ...newEntry, tags: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+            </div>
           </div>
 
           {/* Acciones de selección múltiple */}
@@ -714,25 +1046,110 @@ export default function BulkHoursTable({ onSave, onRefresh, existingEntries, com
                             : 'Sin proyecto'}
                         </span>
                       )}
+                      {editingEntry?.id === entry.id ? (
+                        <>
+                          <input
+                            type="text"
+                            placeholder="Etiquetas separadas por coma"
+                            value={editingTags}
+                            onChange={(e) => setEditingTags(e.target.value)}
+                            className="mt-1 w-full rounded-md border border-gray-300 px-2 py-1 text-xs text-gray-900 focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          />
+                          <label className="mt-1 flex items-center gap-1 text-xs text-gray-700">
+                            <input
+                              type="checkbox"
+                              checked={editingEntry?.billable !== false}
+                              onChange={(e) => {
+                                if (editingEntry) {
+                                  setEditingEntry({ ...editingEntry, billable: e.target.checked });
+                                }
+                              }}
+                            />
+                            Facturable
+                          </label>
+                        </>
+                      ) : (entry.billable === false || entry.invoiceNumber || (entry.tags && entry.tags.length > 0)) && (
+                        <div className="mt-1 flex flex-wrap gap-1">
+                          {entry.invoiceNumber && (
+                            <span
+                              className={`inline-flex items-center gap-1 rounded-full px-2 py-0.5 text-xs ${entry.locked ? 'bg-green-100 text-green-800' : 'bg-blue-50 text-blue-700'}`}
+                              title={entry.locked ? 'Facturada en una cuenta emitida: solo lectura' : 'En una cuenta en borrador'}
+                            >
+                              {entry.locked && <Lock className="h-3 w-3" />}
+                              {entry.invoiceNumber}
+                            </span>
+                          )}
+                          {entry.billable === false && (
+                            <span className="rounded-full bg-amber-100 px-2 py-0.5 text-xs text-amber-800">no facturable</span>
+                          )}
+                          {(entry.tags ?? []).map((tag) => (
+                            <span key={tag} className="rounded-full bg-gray-100 px-2 py-0.5 text-xs text-gray-700">
+                              {tag}
+                            </span>
+                          ))}
+                        </div>
+                      )}
                     </td>
                     <td className="py-3 px-4 text-center">
                       {editingEntry?.id === entry.id ? (
-                        <input
-                          type="number"
-                          step="0.5"
-                          min="0"
-                          max="24"
-                          value={editingEntry?.hours || 0}
-                          onChange={(e) => {
-                            if (editingEntry) {
-                              setEditingEntry({ ...editingEntry, hours: parseFloat(e.target.value) || 0 });
-                            }
-                          }}
-                          className="w-20 px-2 py-1 border border-gray-300 rounded text-center focus:outline-none focus:ring-1 focus:ring-blue-500"
-                          autoFocus
-                        />
+                        <div className="flex flex-col items-center gap-1">
+                          <input
+                            type="number"
+                            step="0.5"
+                            min="0"
+                            max="24"
+                            value={editingEntry?.hours || 0}
+                            onChange={(e) => {
+                              if (editingEntry) {
+                                setEditingEntry({ ...editingEntry, hours: parseFloat(e.target.value) || 0 });
+                              }
+                            }}
+                            disabled={Boolean(editingEntry?.startTime && editingEntry?.endTime)}
+                            className="w-20 px-2 py-1 border border-gray-300 rounded text-center focus:outline-none focus:ring-1 focus:ring-blue-500 disabled:bg-gray-100"
+                            autoFocus
+                          />
+                          <div className="flex items-center gap-1">
+                            {(['startTime', 'endTime'] as const).map((field) => (
+                              <input
+                                key={field}
+                                type="time"
+                                value={editingEntry?.[field] ?? ''}
+                                onChange={(e) => {
+                                  if (!editingEntry) return;
+                                  const next = { ...editingEntry, [field]: e.target.value || undefined };
+                                  const derived = deriveHours(next.startTime, next.endTime, next.breakMinutes);
+                                  setEditingEntry(derived === null ? next : { ...next, hours: derived });
+                                }}
+                                aria-label={field === 'startTime' ? 'Entrada' : 'Salida'}
+                                className="w-24 px-1 py-1 border border-gray-300 rounded text-xs focus:outline-none focus:ring-1 focus:ring-blue-500"
+                              />
+                            ))}
+                            <input
+                              type="number"
+                              step="5"
+                              min="0"
+                              value={editingEntry?.breakMinutes || ''}
+                              placeholder="pausa"
+                              onChange={(e) => {
+                                if (!editingEntry) return;
+                                const next = { ...editingEntry, breakMinutes: parseInt(e.target.value) || 0 };
+                                const derived = deriveHours(next.startTime, next.endTime, next.breakMinutes);
+                                setEditingEntry(derived === null ? next : { ...next, hours: derived });
+                              }}
+                              aria-label="Pausa en minutos"
+                              className="w-16 px-1 py-1 border border-gray-300 rounded text-xs focus:outline-none focus:ring-1 focus:ring-blue-500"
+                            />
+                          </div>
+                        </div>
                       ) : (
-                        <span className="font-medium">{formatHours(entry.hours)}</span>
+                        <>
+                          <span className="font-medium">{formatHours(entry.hours)}</span>
+                          {entry.startTime && entry.endTime && (
+                            <div className="text-xs text-gray-600">
+                              {formatEntryTimeRange({ start_time: entry.startTime, end_time: entry.endTime, break_minutes: entry.breakMinutes })}
+                            </div>
+                          )}
+                        </>
                       )}
                     </td>
                     <td className="py-3 px-4 text-center">
@@ -765,6 +1182,24 @@ export default function BulkHoursTable({ onSave, onRefresh, existingEntries, com
                           >
                             <Edit className="h-4 w-4" />
                           </button>
+                          <button
+                            onClick={() => handleSplit(entry)}
+                            disabled={loading || entry.hours <= 0 || entry.locked}
+                            className="text-gray-600 hover:text-gray-800 disabled:text-gray-400"
+                            title="Dividir"
+                          >
+                            <Scissors className="h-4 w-4" />
+                          </button>
+                          {getDayEntryCount(entry) > 1 && (
+                            <button
+                              onClick={() => handleMergeDay(entry)}
+                              disabled={loading}
+                              className="text-purple-600 hover:text-purple-800 disabled:text-gray-400"
+                              title="Unir entradas del día"
+                            >
+                              <Merge className="h-4 w-4" />
+                            </button>
+                          )}
                           <button
                             onClick={() => handleDelete(entry)}
                             disabled={loading}
@@ -833,6 +1268,19 @@ export default function BulkHoursTable({ onSave, onRefresh, existingEntries, com
               projects={projects}
               projectById={projectById}
               defaultProjectId={effectiveDefaultProjectId}
+              daysOff={daysOff}
+              timeOff={timeOff}
+              timeZone={timeZone}
+            />
+          )}
+
+          {/* Modal de importación CSV */}
+          {showImport && effectiveDefaultCompanyId && (
+            <EntryImportModal
+              companyId={effectiveDefaultCompanyId}
+              projects={projects}
+              onClose={() => setShowImport(false)}
+              onImported={onRefresh}
             />
           )}
 
@@ -891,6 +1339,40 @@ export default function BulkHoursTable({ onSave, onRefresh, existingEntries, com
                       className="mt-1 w-full rounded-md border border-gray-300 px-3 py-2 text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
                     />
                   </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-900">Facturable (opcional)</label>
+                    <select
+                      value={bulkEditValues.billable}
+                      onChange={(e) => setBulkEditValues((s) => ({ ...s, billable: e.target.value as '' | 'yes' | 'no' }))}
+                      className="mt-1 w-full rounded-md border border-gray-300 px-3 py-2 text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      <option value="">No cambiar</option>
+                      <option value="yes">Facturable</option>
+                      <option value="no">No facturable</option>
+                    </select>
+                  </div>
+                  <div className="grid grid-cols-2 gap-3">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-900">Agregar etiquetas</label>
+                      <input
+                        type="text"
+                        placeholder="support, meeting"
+                        value={bulkEditValues.addTags}
+                        onChange={(e) => setBulkEditValues((s) => ({ ...s, addTags: e.target.value }))}
+                        className="mt-1 w-full rounded-md border border-gray-300 px-3 py-2 text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-900">Quitar etiquetas</label>
+                      <input
+                        type="text"
+                        placeholder="bugfix"
+                        value={bulkEditValues.removeTags}
+                        onChange={(e) => setBulkEditValues((s) => ({ ...s, removeTags: e.target.value }))}
+                        className="mt-1 w-full rounded-md border border-gray-300 px-3 py-2 text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                    </div>
+                  </div>
                 </div>
                 <div className="mt-5 flex justify-end gap-2">
                   <button onClick={closeBulkEdit} className="rounded-md border border-gray-300 px-4 py-2 text-sm text-gray-700 hover:bg-gray-100">Cancelar</button>
@@ -921,6 +1403,8 @@ interface BulkDayCell {
   existingCompanyId?: number | null;
   projectId: number | null;
   existingProjectId?: number | null;
+  holidayName?: string; // Festivo o día libre: no se llena con promedios
+  timeOffLabel?: string; // Vacaciones, incapacidad o licencia: tampoco se llena con promedios
 }
 
 type BulkWeekRow = BulkDayCell[];
@@ -929,7 +1413,7 @@ interface BulkAssignmentModalProps {
   startDate: string;
   endDate: string;
   existingEntries: HourEntry[];
-  onSave: (entries: Array<{date: string, hours: number, companyId: number, projectId: number | null, description?: string}>) => Promise<void>;
+  onSave: (entries: SaveEntry[]) => Promise<void>;
   onRefresh: () => void;
   onClose: () => void;
   companies: Company[];
@@ -937,13 +1421,30 @@ interface BulkAssignmentModalProps {
   projects: Project[];
   projectById: Map<number, Project>;
   defaultProjectId: number | null;
+  daysOff: UserDayOff[];
+  timeOff: TimeOff[];
+  timeZone?: string;
 }
 
-const getWeekdayIndex = (value: Date) => {
-  const day = value.getDay();
-  return day === 0 ? 6 : day - 1;
+// Vista previa (dry_run) de una carga sobre todo el rango
+const CHANGE_KIND_LABELS: Record<EntryChangeKind, string> = {
+  create: 'Nuevo',
+  overwrite: 'Sobrescribe',
+  accumulate: 'Suma',
+  skip: 'Se omite',
+  conflict: 'Conflicto'
+};
+
+const CHANGE_KIND_CLASSES: Record<EntryChangeKind, string> = {
+  create: 'bg-green-100 text-green-800',
+  overwrite: 'bg-orange-100 text-orange-800',
+  accumulate: 'bg-blue-100 text-blue-800',
+  skip: 'bg-gray-100 text-gray-600',
+  conflict: 'bg-red-100 text-red-700'
 };
 
+type RangeOperation = 'bulk' | 'fill_average';
+
 function BulkAssignmentModal({
   startDate,
   endDate,
@@ -955,7 +1456,10 @@ function BulkAssignmentModal({
   defaultCompanyId,
   projects,
   projectById,
-  defaultProjectId
+  defaultProjectId,
+  daysOff,
+  timeOff,
+  timeZone
 }: BulkAssignmentModalProps) {
   const [weeks, setWeeks] = useState<BulkWeekRow[]>([]);
   const [isLoading, setIsLoading] = useState(false);
@@ -1027,51 +1531,61 @@ function BulkAssignmentModal({
   };
 
   const range = useMemo(() => {
-    const parseDate = (value?: string) => {
-      if (!value) return null;
-      const parsed = new Date(`${value}T00:00:00`);
-      return Number.isNaN(parsed.getTime()) ? null : parsed;
-    };
-
-    const today = new Date();
-    const startCandidate = parseDate(startDate) ?? getMonday(today);
-    const endCandidate = parseDate(endDate) ?? getSunday(today);
+    const today = todayInTimeZone(timeZone);
+    const startCandidate = isDateString(startDate) ? startDate : today;
+    const endCandidate = isDateString(endDate) ? endDate : endOfWeek(today);
 
-    const start = getMonday(startCandidate);
-    let end = normalizeStartOfDay(endCandidate);
-    if (end < start) {
-      end = new Date(start);
-    }
+    const start = startOfWeek(startCandidate);
+    const end = endCandidate < start ? start : endCandidate;
 
     return { start, end };
-  }, [startDate, endDate]);
+  }, [startDate, endDate, timeZone]);
 
   const rangeStart = range.start;
   const rangeEnd = range.end;
 
+  const holidayNames = useMemo(() => {
+    const holidays = getHolidaysInRange(startOfWeek(rangeStart), endOfWeek(rangeEnd), daysOff);
+    return new Map(holidays.map((holiday) => [holiday.date, holiday.name]));
+  }, [daysOff, rangeEnd, rangeStart]);
+
+  const isHoliday = useMemo(() => createHolidayChecker(daysOff), [daysOff]);
+
+  const timeOffLabelFor = useMemo(() => {
+    return (date: string) => {
+      const period = timeOff.find((item) => date >= item.start_date && date <= item.end_date);
+      return period ? TIME_OFF_TYPE_LABELS[period.type] : undefined;
+    };
+  }, [timeOff]);
+
+  // Un día puede tener varias entradas: se muestran sumadas en la celda
   const existingEntriesMap = useMemo(() => {
     const map = new Map<string, HourEntry>();
     existingEntries.forEach((entry) => {
-      map.set(entry.date, entry);
+      const current = map.get(entry.date);
+      if (!current) {
+        map.set(entry.date, { ...entry });
+        return;
+      }
+      current.hours = Math.round((current.hours + entry.hours) * 100) / 100;
+      current.description = [current.description, entry.description].filter(Boolean).join('; ');
     });
     return map;
   }, [existingEntries]);
 
   const historicalAverages = useMemo(() => {
     const totals = Array.from({ length: 7 }, () => ({ sum: 0, count: 0 }));
-  const targetMonth = rangeStart.getMonth();
-  const targetYear = rangeStart.getFullYear();
+    const targetMonth = startOfMonth(rangeStart);
 
-    existingEntries.forEach((entry) => {
-      const entryDate = new Date(`${entry.date}T00:00:00`);
-      if (Number.isNaN(entryDate.getTime())) return;
+    existingEntriesMap.forEach((entry) => {
+      if (!isDateString(entry.date)) return;
 
-      // Excluir mes en curso para usar "otros meses" como referencia
-      if (entryDate.getMonth() === targetMonth && entryDate.getFullYear() === targetYear) {
+      // Excluir mes en curso para usar "otros meses" como referencia, y los festivos
+      if (startOfMonth(entry.date) === targetMonth || isHoliday(entry.date)) {
         return;
       }
 
-      const idx = getWeekdayIndex(entryDate);
+      const idx = isoWeekday(entry.date);
       totals[idx].sum += entry.hours;
       totals[idx].count += 1;
     });
@@ -1085,23 +1599,19 @@ function BulkAssignmentModal({
     const overallAverage = totalCount > 0 ? Number((totalSum / totalCount).toFixed(2)) : null;
 
     return { averagesByWeekday, overallAverage };
-  }, [existingEntries, rangeStart]);
+  }, [existingEntriesMap, isHoliday, rangeStart]);
 
   useEffect(() => {
-  const monday = getMonday(rangeStart);
-  const sunday = getSunday(rangeEnd);
-    const formatter = new Intl.DateTimeFormat('es-ES', { day: '2-digit', month: 'short' });
+    const monday = startOfWeek(rangeStart);
+    const sunday = endOfWeek(rangeEnd);
 
     const newWeeks: BulkWeekRow[] = [];
-    for (let cursor = new Date(monday); cursor <= sunday; cursor.setDate(cursor.getDate() + 7)) {
-      const weekStart = new Date(cursor);
+    for (let weekStart = monday; weekStart <= sunday; weekStart = addDays(weekStart, 7)) {
       const weekCells: BulkWeekRow = [];
 
       for (let index = 0; index < 7; index++) {
-        const dayDate = new Date(weekStart);
-        dayDate.setDate(weekStart.getDate() + index);
-        const isoDate = toISODate(dayDate);
-        const withinRange = dayDate >= rangeStart && dayDate <= rangeEnd;
+        const isoDate = addDays(weekStart, index);
+        const withinRange = isoDate >= rangeStart && isoDate <= rangeEnd;
         const existingEntry = existingEntriesMap.get(isoDate);
         const isExisting = Boolean(existingEntry);
         const existingProjectId = existingEntry?.projectId ?? null;
@@ -1113,7 +1623,7 @@ function BulkAssignmentModal({
         weekCells.push({
           key: `${isoDate}-${index}`,
           date: withinRange ? isoDate : null,
-          dayLabel: withinRange ? formatter.format(dayDate) : '',
+          dayLabel: withinRange ? formatDate(isoDate, { day: '2-digit', month: 'short' }, 'es-ES') : '',
           weekdayIndex: index,
           hours: '',
           description: '',
@@ -1125,7 +1635,9 @@ function BulkAssignmentModal({
           companyId,
           existingCompanyId: existingEntry?.companyId,
           projectId,
-          existingProjectId
+          existingProjectId,
+          holidayName: withinRange ? holidayNames.get(isoDate) : undefined,
+          timeOffLabel: withinRange ? timeOffLabelFor(isoDate) : undefined
         });
       }
 
@@ -1133,7 +1645,7 @@ function BulkAssignmentModal({
     }
 
     setWeeks(newWeeks);
-  }, [existingEntriesMap, fallbackCompanyId, fallbackProjectId, projectById, rangeEnd, rangeStart]);
+  }, [existingEntriesMap, fallbackCompanyId, fallbackProjectId, holidayNames, projectById, rangeEnd, rangeStart, timeOffLabelFor]);
 
   const updateHours = (weekIndex: number, dayIndex: number, value: string) => {
     setWeeks((prev) =>
@@ -1218,7 +1730,7 @@ function BulkAssignmentModal({
     setWeeks((prev) =>
       prev.map((week) =>
         week.map((day) => {
-          if (day.isDisabled || !day.date) {
+          if (day.isDisabled || !day.date || day.holidayName || day.timeOffLabel) {
             return day;
           }
 
@@ -1234,6 +1746,84 @@ function BulkAssignmentModal({
     );
   };
 
+  // Carga sobre todo el rango en el servidor: primero se pide la vista previa y luego se confirma
+  const { authFetch } = useAuth();
+  const [rangeOperation, setRangeOperation] = useState<RangeOperation>('bulk');
+  const [rangeHours, setRangeHours] = useState('8');
+  const [rangeMode, setRangeMode] = useState<'set' | 'accumulate' | 'error'>('set');
+  const [rangeOverwrite, setRangeOverwrite] = useState(false);
+  const [rangePreview, setRangePreview] = useState<EntryChange[] | null>(null);
+  const [rangeMessage, setRangeMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    setRangePreview(null);
+    setRangeMessage(null);
+  }, [rangeOperation, rangeHours, rangeMode, rangeOverwrite, bulkProjectId, rangeStart, rangeEnd]);
+
+  const rangePreviewByDate = useMemo(
+    () => new Map((rangePreview ?? []).map((change) => [change.date, change])),
+    [rangePreview]
+  );
+
+  const rangePreviewCounts = useMemo(() => {
+    const counts = new Map<EntryChangeKind, number>();
+    (rangePreview ?? []).forEach((change) => {
+      if (change.kind) counts.set(change.kind, (counts.get(change.kind) ?? 0) + 1);
+    });
+    return counts;
+  }, [rangePreview]);
+
+  const rangeWrites = (rangePreviewCounts.get('create') ?? 0) + (rangePreviewCounts.get('overwrite') ?? 0) + (rangePreviewCounts.get('accumulate') ?? 0);
+
+  const runRangeOperation = async (dryRun: boolean) => {
+    const project = bulkProjectId != null ? projectById.get(bulkProjectId) : undefined;
+    const companyId = project?.company_id ?? fallbackCompanyId;
+    if (!companyId) {
+      setRangeMessage('Selecciona un proyecto o una empresa');
+      return;
+    }
+
+    const hours = parseFloat(rangeHours);
+    if (rangeOperation === 'bulk' && (Number.isNaN(hours) || hours < 0 || hours > 24)) {
+      setRangeMessage('Las horas deben ser un número entre 0 y 24');
+      return;
+    }
+
+    const base = {
+      start_date: rangeStart,
+      end_date: rangeEnd,
+      company_id: companyId,
+      // Sin proyecto no se envía el campo: null limitaría la operación a las entradas sin proyecto
+      ...(bulkProjectId != null ? { project_id: bulkProjectId } : {}),
+      dry_run: dryRun
+    };
+
+    setIsLoading(true);
+    try {
+      const response = rangeOperation === 'bulk'
+        ? await authFetch('/api/entries/bulk', { method: 'POST', body: JSON.stringify({ ...base, hours, mode: rangeMode }) })
+        : await authFetch('/api/entries/fill-average', { method: 'POST', body: JSON.stringify({ ...base, overwrite: rangeOverwrite }) });
+      const result = await response.json();
+      setRangeMessage(result.message);
+
+      if (result.status !== 'ok') {
+        return;
+      }
+
+      if (dryRun) {
+        setRangePreview(result.changes ?? []);
+      } else {
+        onRefresh();
+        onClose();
+      }
+    } catch (error) {
+      console.error('Error applying range operation:', error);
+      setRangeMessage('Error al procesar el rango');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   const handleBulkSave = async () => {
     setIsLoading(true);
     try {
@@ -1306,15 +1896,6 @@ function BulkAssignmentModal({
     }
   };
 
-  const rangeFormatter = useMemo(
-    () =>
-      new Intl.DateTimeFormat('es-ES', {
-        day: '2-digit',
-        month: 'long'
-      }),
-    []
-  );
-
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4">
       <div className="bg-white rounded-xl shadow-xl w-full max-w-6xl max-h-[90vh] flex flex-col">
@@ -1322,7 +1903,7 @@ function BulkAssignmentModal({
           <div>
             <h2 className="text-xl font-bold text-gray-900">Asignación Masiva de Horas</h2>
             <p className="text-sm text-gray-600">
-              Rango seleccionado: {rangeFormatter.format(rangeStart)} – {rangeFormatter.format(rangeEnd)}
+              Rango seleccionado: {formatRangeDate(rangeStart)} – {formatRangeDate(rangeEnd)}
             </p>
           </div>
           <button
@@ -1381,6 +1962,78 @@ function BulkAssignmentModal({
           </div>
         </div>
 
+        <div className="px-6 py-3 border-b border-gray-200 space-y-2 text-xs text-gray-700">
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="font-medium">Aplicar a todo el rango:</span>
+            <select
+              value={rangeOperation}
+              onChange={(e) => setRangeOperation(e.target.value as RangeOperation)}
+              className="rounded-md border border-gray-300 px-2 py-1 text-xs text-gray-900 focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="bulk">Mismas horas cada día</option>
+              <option value="fill_average">Promedios por día de la semana</option>
+            </select>
+            {rangeOperation === 'bulk' ? (
+              <>
+                <input
+                  type="number"
+                  min="0"
+                  max="24"
+                  step="0.25"
+                  value={rangeHours}
+                  onChange={(e) => setRangeHours(e.target.value)}
+                  className="w-20 rounded-md border border-gray-300 px-2 py-1 text-xs text-gray-900 focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <select
+                  value={rangeMode}
+                  onChange={(e) => setRangeMode(e.target.value as 'set' | 'accumulate' | 'error')}
+                  className="rounded-md border border-gray-300 px-2 py-1 text-xs text-gray-900 focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="set">Reemplazar el total del día</option>
+                  <option value="accumulate">Sumar a lo registrado</option>
+                  <option value="error">Solo días vacíos</option>
+                </select>
+              </>
+            ) : (
+              <label className="flex items-center gap-1">
+                <input type="checkbox" checked={rangeOverwrite} onChange={(e) => setRangeOverwrite(e.target.checked)} />
+                Sobrescribir días con horas
+              </label>
+            )}
+            <button
+              type="button"
+              onClick={() => runRangeOperation(true)}
+              disabled={isLoading}
+              className="rounded-md border border-gray-300 px-3 py-1 font-medium text-gray-700 transition-colors hover:bg-gray-100 disabled:opacity-60"
+            >
+              Vista previa
+            </button>
+            {rangePreview && rangeWrites > 0 && (
+              <button
+                type="button"
+                onClick={() => runRangeOperation(false)}
+                disabled={isLoading}
+                className="rounded-md bg-green-600 px-3 py-1 font-semibold text-white transition-colors hover:bg-green-700 disabled:opacity-60"
+              >
+                Confirmar {rangeWrites} días
+              </button>
+            )}
+          </div>
+          {rangePreview && (
+            <div className="flex flex-wrap items-center gap-2">
+              {(Object.keys(CHANGE_KIND_LABELS) as EntryChangeKind[])
+                .filter((kind) => rangePreviewCounts.has(kind))
+                .map((kind) => (
+                  <span key={kind} className={`rounded-full px-2 py-0.5 font-medium ${CHANGE_KIND_CLASSES[kind]}`}>
+                    {CHANGE_KIND_LABELS[kind]}: {rangePreviewCounts.get(kind)}
+                  </span>
+                ))}
+              {rangePreview.length === 0 && <span className="text-gray-500">No hay días que cambien</span>}
+            </div>
+          )}
+          {rangeMessage && <p className="text-gray-500">{rangeMessage}</p>}
+        </div>
+
         <div className="flex-1 overflow-y-auto px-6 py-4 space-y-6">
           {weeks.map((week, weekIndex) => (
             <div key={`week-${weekIndex}`} className="grid grid-cols-1 gap-3 md:grid-cols-7">
@@ -1401,14 +2054,37 @@ function BulkAssignmentModal({
                             {WEEKDAY_NAMES_ES[day.weekdayIndex]}
                           </p>
                           <p className="text-sm font-semibold text-gray-900">{day.dayLabel}</p>
+                          {day.holidayName && <p className="text-xs text-rose-600">{day.holidayName}</p>}
+                          {day.timeOffLabel && <p className="text-xs text-teal-700">{day.timeOffLabel}</p>}
                         </div>
-                        {day.isExisting && (
+                        {day.isExisting ? (
                           <span className="rounded-full bg-amber-100 px-2 py-1 text-xs font-medium text-amber-700">
                             Ya registrado
                           </span>
+                        ) : day.holidayName ? (
+                          <span className="rounded-full bg-rose-100 px-2 py-1 text-xs font-medium text-rose-700">
+                            Festivo
+                          </span>
+                        ) : day.timeOffLabel && (
+                          <span className="rounded-full bg-teal-100 px-2 py-1 text-xs font-medium text-teal-800">
+                            Tiempo libre
+                          </span>
                         )}
                       </div>
 
+                      {rangePreviewByDate.has(day.date) && (() => {
+                        const change = rangePreviewByDate.get(day.date)!;
+                        const kind = change.kind ?? 'create';
+                        return (
+                          <p className={`mt-2 rounded px-2 py-1 text-xs ${CHANGE_KIND_CLASSES[kind]}`} title={change.reason}>
+                            {CHANGE_KIND_LABELS[kind]}
+                            {kind === 'skip' || kind === 'conflict'
+                              ? `${change.reason ? `: ${change.reason}` : ''}`
+                              : `: ${formatHours(change.old_value ?? 0)} h → ${formatHours(change.new_value ?? 0)} h`}
+                          </p>
+                        );
+                      })()}
+
                       {day.isDisabled ? (
                         <p className="mt-3 text-xs text-gray-500">
                           {day.isExisting
@@ -30,7 +30,11 @@ export default function CompanyBillingForm({
     city: '',
     contact_name: '',
     contact_phone: '',
-    contact_email: ''
+    contact_email: '',
+    applies_retefuente: false,
+    retefuente_rate: null as number | null,
+    applies_reteica: false,
+    reteica_rate: null as number | null
   });
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -45,7 +49,11 @@ export default function CompanyBillingForm({
         city: billingInfo.city || '',
         contact_name: billingInfo.contact_name || '',
         contact_phone: billingInfo.contact_phone || '',
-        contact_email: billingInfo.contact_email || ''
+        contact_email: billingInfo.contact_email || '',
+        applies_retefuente: billingInfo.applies_retefuente ?? false,
+        retefuente_rate: billingInfo.retefuente_rate ?? null,
+        applies_reteica: billingInfo.applies_reteica ?? false,
+        reteica_rate: billingInfo.reteica_rate ?? null
       });
     } else {
       // Si no hay billing info, usar el nombre de la empresa como legal_name
@@ -63,6 +71,21 @@ export default function CompanyBillingForm({
     setSuccess(false);
   };
 
+  // Tarifa vacía = usar la del perfil del usuario
+  const handleRateChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({ ...prev, [name]: value === '' ? null : parseFloat(value) }));
+    setError(null);
+    setSuccess(false);
+  };
+
+  const handleCheckboxChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, checked } = e.target;
+    setFormData(prev => ({ ...prev, [name]: checked }));
+    setError(null);
+    setSuccess(false);
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError(null);
@@ -213,6 +236,64 @@ export default function CompanyBillingForm({
         </div>
       </div>
 
+      {/* Retenciones que practica la empresa */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className="text-sm font-medium text-gray-700 mb-1 flex items-center gap-2">
+            <input
+              type="checkbox"
+              name="applies_retefuente"
+              checked={formData.applies_retefuente}
+              onChange={handleCheckboxChange}
+              className="h-4 w-4 text-indigo-600 border-gray-300 rounded"
+              disabled={isLoading}
+            />
+            Practica retención en la fuente
+          </label>
+          {formData.applies_retefuente && (
+            <input
+              type="number"
+              name="retefuente_rate"
+              min="0"
+              max="100"
+              step="0.01"
+              value={formData.retefuente_rate ?? ''}
+              onChange={handleRateChange}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent text-sm"
+              placeholder="% (vacío = tarifa de tu perfil)"
+              disabled={isLoading}
+            />
+          )}
+        </div>
+        <div>
+          <label className="text-sm font-medium text-gray-700 mb-1 flex items-center gap-2">
+            <input
+              type="checkbox"
+              name="applies_reteica"
+              checked={formData.applies_reteica}
+              onChange={handleCheckboxChange}
+              className="h-4 w-4 text-indigo-600 border-gray-300 rounded"
+              disabled={isLoading}
+            />
+            Practica ReteICA
+          </label>
+          {formData.applies_reteica && (
+            <input
+              type="number"
+              name="reteica_rate"
+              min="0"
+              max="1000"
+              step="0.001"
+              value={formData.reteica_rate ?? ''}
+              onChange={handleRateChange}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent text-sm"
+              placeholder="Por mil (vacío = tarifa de tu perfil)"
+              disabled={isLoading}
+            />
+          )}
+        </div>
+      </div>
+
       {/* Botón guardar */}
       <div className="flex justify-end">
         <button
@@ -0,0 +1,159 @@
+'use client';
+
+import { useState } from 'react';
+import { Plus, Trash2, History } from 'lucide-react';
+import { CompanyRate, Project } from '@/lib/types';
+import { formatMoney } from '@/lib/formatters';
+import { BASE_RATE_EFFECTIVE_FROM } from '@/lib/rates';
+import { formatDate, todayInTimeZone } from '@/lib/dates';
+import { useAuth } from '@/hooks/useAuth';
+
+interface CompanyRatesPanelProps {
+  companyId: number;
+  currency: string;
+  projects: Project[];
+  rates: CompanyRate[];
+  timeZone?: string;
+  onChange: () => Promise<void> | void;
+}
+
+const formatEffectiveFrom = (value: string) =>
+  value === BASE_RATE_EFFECTIVE_FROM
+    ? 'Desde el inicio'
+    : formatDate(value, { day: '2-digit', month: 'short', year: 'numeric' });
+
+// Historial de tarifas: cambios de la tarifa general y tarifas especiales por proyecto
+export default function CompanyRatesPanel({ companyId, currency, projects, rates, timeZone, onChange }: CompanyRatesPanelProps) {
+  const { authFetch } = useAuth();
+  const [hourlyRate, setHourlyRate] = useState('');
+  const [effectiveFrom, setEffectiveFrom] = useState(() => todayInTimeZone(timeZone));
+  const [projectId, setProjectId] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const projectName = (id: number | null) =>
+    id === null ? 'General' : projects.find(project => project.id === id)?.name ?? 'Proyecto';
+
+  const addRate = async () => {
+    if (!hourlyRate) return;
+
+    setBusy(true);
+    setError(null);
+    try {
+      const response = await authFetch(`/api/companies/${companyId}/rates`, {
+        method: 'POST',
+        body: JSON.stringify({
+          hourly_rate: parseFloat(hourlyRate),
+          effective_from: effectiveFrom,
+          project_id: projectId ? parseInt(projectId) : null
+        })
+      });
+      const result = await response.json();
+      if (result.status !== 'ok') {
+        setError(result.message);
+        return;
+      }
+      setHourlyRate('');
+      await onChange();
+    } catch {
+      setError('Error al registrar la tarifa');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const deleteRate = async (rate: CompanyRate) => {
+    if (!confirm(`¿Eliminar la tarifa de ${formatMoney(rate.hourly_rate, currency)} (${formatEffectiveFrom(rate.effective_from)})? Las horas de ese periodo se valorarán con la tarifa anterior.`)) {
+      return;
+    }
+
+    setBusy(true);
+    setError(null);
+    try {
+      const response = await authFetch(`/api/companies/${companyId}/rates/${rate.id}`, { method: 'DELETE' });
+      const result = await response.json();
+      if (result.status !== 'ok') {
+        setError(result.message);
+        return;
+      }
+      await onChange();
+    } catch {
+      setError('Error al eliminar la tarifa');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const sortedRates = [...rates].sort((a, b) =>
+    (a.project_id ?? 0) - (b.project_id ?? 0) || b.effective_from.localeCompare(a.effective_from)
+  );
+
+  return (
+    <div className="border-t pt-4 space-y-3">
+      <h4 className="text-sm font-semibold text-gray-800 flex items-center">
+        <History className="h-4 w-4 mr-1" />
+        Historial de tarifas
+      </h4>
+
+      <ul className="space-y-1 text-xs text-gray-700">
+        {sortedRates.map(rate => (
+          <li key={rate.id} className="flex items-center justify-between gap-2">
+            <span>
+              <span className="font-medium">{projectName(rate.project_id)}</span>
+              {' · '}
+              {formatEffectiveFrom(rate.effective_from)}
+            </span>
+            <span className="flex items-center gap-2">
+              <span className="font-semibold">{formatMoney(rate.hourly_rate, currency)}/h</span>
+              <button
+                onClick={() => deleteRate(rate)}
+                disabled={busy}
+                className="text-gray-400 hover:text-red-600 disabled:opacity-50"
+                title="Eliminar tarifa"
+              >
+                <Trash2 className="h-3 w-3" />
+              </button>
+            </span>
+          </li>
+        ))}
+      </ul>
+
+      <div className="grid grid-cols-2 gap-2">
+        <input
+          type="number"
+          step="0.01"
+          min="0"
+          placeholder="Nueva tarifa"
+          value={hourlyRate}
+          onChange={(e) => setHourlyRate(e.target.value)}
+          className="px-2 py-1.5 border border-gray-300 rounded-md text-xs focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <input
+          type="date"
+          value={effectiveFrom}
+          onChange={(e) => setEffectiveFrom(e.target.value)}
+          className="px-2 py-1.5 border border-gray-300 rounded-md text-xs focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <select
+          value={projectId}
+          onChange={(e) => setProjectId(e.target.value)}
+          className="px-2 py-1.5 border border-gray-300 rounded-md text-xs focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          <option value="">Toda la empresa</option>
+          {projects.map(project => (
+            <option key={project.id} value={project.id}>{project.name}</option>
+          ))}
+        </select>
+        <button
+          onClick={addRate}
+          disabled={busy || !hourlyRate || !effectiveFrom}
+          className="px-2 py-1.5 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-60 text-xs flex items-center justify-center"
+        >
+          <Plus className="h-3 w-3 mr-1" />
+          Agregar tarifa
+        </button>
+      </div>
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </div>
+  );
+}
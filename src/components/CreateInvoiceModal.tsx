@@ -1,7 +1,9 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { Company, Project, CreateInvoiceFromHoursRequest } from '@/lib/types';
+import { Company, Project, CreateInvoiceFromHoursRequest, InvoiceGrouping } from '@/lib/types';
+import { getLastCompletedBillingCycle } from '@/lib/billing-cycles';
+import { addMonths, endOfMonth, startOfMonth, todayInTimeZone } from '@/lib/dates';
 import { 
   FileText, Calendar, Building2, Briefcase,
   X, Loader2, AlertCircle
@@ -14,23 +16,33 @@ interface CreateInvoiceModalProps {
   companies: Company[];
   projects: Project[];
   selectedCompanyId?: number | null;
+  timeZone?: string;
 }
 
+const groupingLabels: Record<InvoiceGrouping, string> = {
+  single: 'Una sola línea',
+  project: 'Una línea por proyecto',
+  week: 'Una línea por semana',
+  description: 'Una línea por descripción'
+};
+
 export default function CreateInvoiceModal({
   isOpen,
   onClose,
   onSubmit,
   companies,
   projects,
-  selectedCompanyId
+  selectedCompanyId,
+  timeZone
 }: CreateInvoiceModalProps) {
   const [formData, setFormData] = useState<CreateInvoiceFromHoursRequest>({
     company_id: 0,
     period_start: '',
     period_end: '',
     project_id: null,
-    issue_date: new Date().toISOString().split('T')[0],
-    concept: 'Servicios de Desarrollo'
+    issue_date: todayInTimeZone(timeZone),
+    concept: 'Servicios de Desarrollo',
+    grouping: 'single'
   });
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -39,33 +51,55 @@ export default function CreateInvoiceModal({
   useEffect(() => {
     if (isOpen) {
       // Calcular periodo del mes anterior por defecto
-      const now = new Date();
-      const lastMonth = new Date(now.getFullYear(), now.getMonth() - 1, 1);
-      const lastDayOfLastMonth = new Date(now.getFullYear(), now.getMonth(), 0);
+      const today = todayInTimeZone(timeZone);
+      const lastMonth = addMonths(startOfMonth(today), -1);
 
       setFormData({
         company_id: selectedCompanyId || companies[0]?.id || 0,
-        period_start: lastMonth.toISOString().split('T')[0],
-        period_end: lastDayOfLastMonth.toISOString().split('T')[0],
+        period_start: lastMonth,
+        period_end: endOfMonth(lastMonth),
         project_id: null,
-        issue_date: now.toISOString().split('T')[0],
-        concept: 'Servicios de Desarrollo'
+        issue_date: today,
+        concept: 'Servicios de Desarrollo',
+        grouping: 'single'
       });
       setError(null);
     }
-  }, [isOpen, selectedCompanyId, companies]);
+  }, [isOpen, selectedCompanyId, companies, timeZone]);
 
   const filteredProjects = projects.filter(p => p.company_id === formData.company_id);
+  const selectedCompany = companies.find(c => c.id === formData.company_id);
+
+  // Usar el último ciclo de facturación completo de la empresa como periodo
+  const applyLastBillingCycle = () => {
+    if (!selectedCompany) return;
+    const today = todayInTimeZone(timeZone);
+    const cycle = getLastCompletedBillingCycle(today, selectedCompany.billing_cycle_day);
+    setFormData(prev => ({
+      ...prev,
+      period_start: cycle.start,
+      period_end: cycle.end
+    }));
+    setError(null);
+  };
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
     
-    if (name === 'company_id') {
+    if (name === 'skip_invoiced') {
+      setFormData(prev => ({ ...prev, skip_invoiced: (e.target as HTMLInputElement).checked }));
+    } else if (name === 'company_id') {
       // Al cambiar empresa, resetear proyecto
       setFormData(prev => ({
         ...prev,
         company_id: parseInt(value),
-        project_id: null
+        project_id: null,
+        exchange_rate: undefined
+      }));
+    } else if (name === 'exchange_rate') {
+      setFormData(prev => ({
+        ...prev,
+        exchange_rate: value ? parseFloat(value) : undefined
       }));
     } else if (name === 'project_id') {
       setFormData(prev => ({
@@ -182,6 +216,19 @@ export default function CreateInvoiceModal({
           )}
 
           {/* Periodo */}
+          {selectedCompany && (
+            <div className="flex items-center justify-between text-xs text-gray-500">
+              <span>Día de corte: {selectedCompany.billing_cycle_day}</span>
+              <button
+                type="button"
+                onClick={applyLastBillingCycle}
+                className="font-medium text-indigo-600 hover:text-indigo-700"
+                disabled={loading}
+              >
+                Usar último ciclo de facturación
+              </button>
+            </div>
+          )}
           <div className="grid grid-cols-2 gap-4">
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1 flex items-center gap-1">
@@ -243,6 +290,56 @@ export default function CreateInvoiceModal({
             />
           </div>
 
+          {/* Agrupación de líneas */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Líneas de la cuenta
+            </label>
+            <select
+              name="grouping"
+              value={formData.grouping || 'single'}
+              onChange={handleChange}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+              disabled={loading}
+            >
+              {Object.entries(groupingLabels).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          </div>
+
+          {/* Horas ya incluidas en otra cuenta: sin marcar, el servidor rechaza la cuenta */}
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              name="skip_invoiced"
+              checked={formData.skip_invoiced ?? false}
+              onChange={handleChange}
+              disabled={loading}
+            />
+            Omitir horas ya facturadas en otra cuenta
+          </label>
+
+          {/* Tasa de cambio (solo empresas en moneda extranjera) */}
+          {selectedCompany && selectedCompany.currency !== 'COP' && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Tasa de cambio (COP por 1 {selectedCompany.currency})
+              </label>
+              <input
+                type="number"
+                name="exchange_rate"
+                min="0"
+                step="0.01"
+                value={formData.exchange_rate ?? ''}
+                onChange={handleChange}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                placeholder="Vacío = tasa registrada para la fecha de emisión"
+                disabled={loading}
+              />
+            </div>
+          )}
+
           {/* Botones */}
           <div className="flex justify-end gap-3 pt-4">
             <button
@@ -0,0 +1,240 @@
+'use client';
+
+import { useState } from 'react';
+import { Upload, X } from 'lucide-react';
+import { EntryChange, EntryImportDateOrder, EntryImportFormat, EntryImportResult, Project } from '@/lib/types';
+import { formatHours } from '@/lib/formatters';
+import { useAuth } from '@/hooks/useAuth';
+
+interface EntryImportModalProps {
+  companyId: number;
+  projects: Project[];
+  onClose: () => void;
+  onImported: () => void;
+}
+
+const FORMAT_LABELS: Record<EntryImportFormat | 'auto', string> = {
+  auto: 'Detectar automáticamente',
+  toggl: 'Toggl (exportación detallada)',
+  clockify: 'Clockify',
+  generic: 'Genérico (fecha, horas, proyecto, descripción)'
+};
+
+// Importar horas desde CSV: primero se pide la vista previa y luego se confirma con los mismos datos
+export default function EntryImportModal({ companyId, projects, onClose, onImported }: EntryImportModalProps) {
+  const { authFetch } = useAuth();
+  const [csv, setCsv] = useState('');
+  const [fileName, setFileName] = useState('');
+  const [format, setFormat] = useState<EntryImportFormat | 'auto'>('auto');
+  const [dateOrder, setDateOrder] = useState<EntryImportDateOrder | ''>('');
+  const [mode, setMode] = useState<'set' | 'accumulate' | 'error'>('set');
+  const [skipExisting, setSkipExisting] = useState(false);
+  const [projectId, setProjectId] = useState('');
+  const [previewResult, setPreviewResult] = useState<{ result: EntryImportResult; changes: EntryChange[] } | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const companyProjects = projects.filter(project => project.id != null && project.company_id === companyId);
+
+  const handleFile = async (file: File | undefined) => {
+    setPreviewResult(null);
+    setError(null);
+    if (!file) return;
+    setFileName(file.name);
+    setCsv(await file.text());
+  };
+
+  const runImport = async (preview: boolean) => {
+    setBusy(true);
+    setError(null);
+    try {
+      const response = await authFetch('/api/entries/import', {
+        method: 'POST',
+        body: JSON.stringify({
+          csv,
+          company_id: companyId,
+          format,
+          date_order: dateOrder || undefined,
+          mode,
+          skip_existing: skipExisting,
+          project_id: projectId ? parseInt(projectId) : null,
+          preview
+        })
+      });
+      const data = await response.json();
+      if (data.status !== 'ok') {
+        setError(data.message);
+        return;
+      }
+
+      if (preview) {
+        setPreviewResult({ result: data.data, changes: data.changes ?? [] });
+        return;
+      }
+
+      alert(data.message);
+      onImported();
+      onClose();
+    } catch {
+      setError('Error al importar el archivo');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // Cualquier cambio en las opciones invalida la vista previa
+  const resetPreview = () => setPreviewResult(null);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4">
+      <div className="w-full max-w-3xl max-h-[90vh] overflow-y-auto rounded-xl bg-white p-5 shadow-xl">
+        <div className="mb-4 flex items-center justify-between">
+          <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+            <Upload className="h-5 w-5 mr-2" />
+            Importar horas desde CSV
+          </h3>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700" aria-label="Cerrar">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="md:col-span-2">
+            <label className="block text-sm font-medium text-gray-900 mb-1">Archivo CSV</label>
+            <input
+              type="file"
+              accept=".csv,text/csv"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+              className="w-full text-sm text-gray-900"
+            />
+            {fileName && <p className="mt-1 text-xs text-gray-600">{fileName}</p>}
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-900 mb-1">Formato</label>
+            <select
+              value={format}
+              onChange={(e) => { setFormat(e.target.value as EntryImportFormat | 'auto'); resetPreview(); }}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {Object.entries(FORMAT_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-900 mb-1">Fechas con barras</label>
+            <select
+              value={dateOrder}
+              onChange={(e) => { setDateOrder(e.target.value as EntryImportDateOrder | ''); resetPreview(); }}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">Según el formato</option>
+              <option value="dmy">Día/Mes/Año</option>
+              <option value="mdy">Mes/Día/Año</option>
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-900 mb-1">Si ya hay horas ese día</label>
+            <select
+              value={mode}
+              onChange={(e) => { setMode(e.target.value as 'set' | 'accumulate' | 'error'); resetPreview(); }}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="set">Reemplazar</option>
+              <option value="accumulate">Sumar</option>
+              <option value="error">Marcar como error</option>
+            </select>
+            <label className="mt-2 flex items-center text-sm text-gray-900">
+              <input
+                type="checkbox"
+                checked={skipExisting}
+                onChange={(e) => { setSkipExisting(e.target.checked); resetPreview(); }}
+                className="mr-2"
+              />
+              Omitir días que ya tienen horas
+            </label>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-900 mb-1">Proyecto para filas sin proyecto</label>
+            <select
+              value={projectId}
+              onChange={(e) => { setProjectId(e.target.value); resetPreview(); }}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">Sin proyecto</option>
+              {companyProjects.map(project => (
+                <option key={project.id} value={project.id}>{project.name}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        {error && <p className="mt-4 text-sm text-red-600">{error}</p>}
+
+        {previewResult && (
+          <div className="mt-5 space-y-3">
+            <p className="text-sm text-gray-900">
+              {previewResult.result.rows_read} filas leídas como <strong>{FORMAT_LABELS[previewResult.result.format]}</strong>,{' '}
+              {previewResult.result.days} días a importar.
+            </p>
+            {previewResult.result.new_projects.length > 0 && (
+              <p className="text-sm text-blue-700">
+                Se crearán los proyectos: {previewResult.result.new_projects.join(', ')}
+              </p>
+            )}
+            {previewResult.result.errors.length > 0 && (
+              <ul className="text-sm text-red-600 list-disc list-inside max-h-32 overflow-y-auto">
+                {previewResult.result.errors.map(message => <li key={message}>{message}</li>)}
+              </ul>
+            )}
+            <div className="max-h-72 overflow-y-auto border border-gray-200 rounded-md">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 sticky top-0">
+                  <tr>
+                    <th className="text-left py-2 px-3 font-medium text-gray-900">Fecha</th>
+                    <th className="text-left py-2 px-3 font-medium text-gray-900">Proyecto</th>
+                    <th className="text-right py-2 px-3 font-medium text-gray-900">Antes</th>
+                    <th className="text-right py-2 px-3 font-medium text-gray-900">Después</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {previewResult.changes.map(change => (
+                    <tr key={`${change.date}-${change.project_name ?? ''}`} className="border-t">
+                      <td className="py-2 px-3 font-mono text-gray-900">{change.date}</td>
+                      <td className="py-2 px-3 text-gray-900">{change.project_name ?? 'Sin proyecto'}</td>
+                      <td className="py-2 px-3 text-right text-gray-600">{formatHours(change.old_value ?? 0)}</td>
+                      <td className="py-2 px-3 text-right font-medium text-gray-900">{formatHours(change.new_value ?? 0)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
+        <div className="mt-5 flex justify-end gap-2">
+          <button onClick={onClose} className="rounded-md border border-gray-300 px-4 py-2 text-sm text-gray-700 hover:bg-gray-100">
+            Cancelar
+          </button>
+          {previewResult ? (
+            <button
+              onClick={() => runImport(false)}
+              disabled={busy || previewResult.changes.length === 0}
+              className="rounded-md bg-green-600 px-4 py-2 text-sm font-semibold text-white hover:bg-green-700 disabled:opacity-60"
+            >
+              {busy ? 'Importando...' : `Importar ${previewResult.changes.length} días`}
+            </button>
+          ) : (
+            <button
+              onClick={() => runImport(true)}
+              disabled={busy || !csv}
+              className="rounded-md bg-blue-600 px-4 py-2 text-sm font-semibold text-white hover:bg-blue-700 disabled:opacity-60"
+            >
+              {busy ? 'Procesando...' : 'Vista previa'}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,337 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { CalendarClock, Pause, Play, Plus, Trash2 } from 'lucide-react';
+import { Company, EntryChange, EntryTemplate, Project, WEEKDAY_NAMES_ES } from '@/lib/types';
+import { formatHours } from '@/lib/formatters';
+import { endOfWeek, startOfWeek, todayInTimeZone } from '@/lib/dates';
+import { useAuth } from '@/hooks/useAuth';
+
+interface EntryTemplatesPanelProps {
+  companies: Company[];
+  projects: Project[];
+  defaultCompanyId?: number;
+  timeZone?: string;
+  onChange: () => Promise<void> | void;
+}
+
+// Semana actual de lunes a domingo en la zona horaria del usuario
+const getCurrentWeek = (timeZone?: string) => {
+  const today = todayInTimeZone(timeZone);
+  return { start: startOfWeek(today), end: endOfWeek(today) };
+};
+
+// Plantillas de horas recurrentes y su generación en un rango con vista previa
+export default function EntryTemplatesPanel({ companies, projects, defaultCompanyId, timeZone, onChange }: EntryTemplatesPanelProps) {
+  const { authFetch } = useAuth();
+  const [templates, setTemplates] = useState<EntryTemplate[]>([]);
+  const [companyId, setCompanyId] = useState(defaultCompanyId ? String(defaultCompanyId) : '');
+  const [projectId, setProjectId] = useState('');
+  const [weekdays, setWeekdays] = useState<number[]>([]);
+  const [intervalWeeks, setIntervalWeeks] = useState('1');
+  const [hours, setHours] = useState('');
+  const [description, setDescription] = useState('');
+  const [range, setRange] = useState(() => getCurrentWeek(timeZone));
+  const [mode, setMode] = useState<'set' | 'accumulate'>('set');
+  const [preview, setPreview] = useState<EntryChange[] | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchTemplates = useCallback(async () => {
+    try {
+      const response = await authFetch('/api/entry-templates');
+      const result = await response.json();
+      if (result.status === 'ok') {
+        setTemplates(result.data);
+      }
+    } catch {
+      setError('Error al cargar las plantillas');
+    }
+  }, [authFetch]);
+
+  useEffect(() => {
+    fetchTemplates();
+  }, [fetchTemplates]);
+
+  const companyName = (id: number) => companies.find(company => company.id === id)?.name ?? 'Empresa';
+  const projectName = (id: number | null | undefined) =>
+    id == null ? null : projects.find(project => project.id === id)?.name ?? null;
+  const companyProjects = projects.filter(project => project.company_id === parseInt(companyId));
+
+  const describeTemplate = (template: EntryTemplate) => {
+    const days = template.weekdays.map(day => WEEKDAY_NAMES_ES[day].slice(0, 3)).join(', ');
+    const every = template.interval_weeks === 1 ? 'cada semana' : `cada ${template.interval_weeks} semanas`;
+    return `${days} · ${every} · ${formatHours(template.hours)} h`;
+  };
+
+  const toggleWeekday = (day: number) => {
+    setWeekdays(prev => prev.includes(day) ? prev.filter(value => value !== day) : [...prev, day]);
+  };
+
+  const runRequest = async (request: () => Promise<Response>, fallback: string) => {
+    setBusy(true);
+    setError(null);
+    try {
+      const response = await request();
+      const result = await response.json();
+      if (result.status !== 'ok') {
+        setError(result.message);
+        return null;
+      }
+      return result;
+    } catch {
+      setError(fallback);
+      return null;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const createTemplate = async () => {
+    if (!companyId || !hours || weekdays.length === 0) return;
+
+    const result = await runRequest(() => authFetch('/api/entry-templates', {
+      method: 'POST',
+      body: JSON.stringify({
+        company_id: parseInt(companyId),
+        project_id: projectId ? parseInt(projectId) : null,
+        weekdays: [...weekdays].sort((a, b) => a - b).map(day => WEEKDAY_NAMES_ES[day]),
+        interval_weeks: parseInt(intervalWeeks) || 1,
+        hours: parseFloat(hours),
+        description
+      })
+    }), 'Error al crear la plantilla');
+    if (!result) return;
+
+    setWeekdays([]);
+    setHours('');
+    setDescription('');
+    setPreview(null);
+    await fetchTemplates();
+  };
+
+  const toggleActive = async (template: EntryTemplate) => {
+    const result = await runRequest(() => authFetch(`/api/entry-templates/${template.id}`, {
+      method: 'PUT',
+      body: JSON.stringify({ active: !template.active })
+    }), 'Error al actualizar la plantilla');
+    if (!result) return;
+
+    setPreview(null);
+    await fetchTemplates();
+  };
+
+  const deleteTemplate = async (template: EntryTemplate) => {
+    if (!confirm(`¿Eliminar la plantilla "${template.description || describeTemplate(template)}"? Las horas ya registradas se conservan.`)) {
+      return;
+    }
+
+    const result = await runRequest(
+      () => authFetch(`/api/entry-templates/${template.id}`, { method: 'DELETE' }),
+      'Error al eliminar la plantilla'
+    );
+    if (!result) return;
+
+    setPreview(null);
+    await fetchTemplates();
+  };
+
+  const materialize = async (confirmWrite: boolean) => {
+    const result = await runRequest(() => authFetch('/api/entry-templates/materialize', {
+      method: 'POST',
+      body: JSON.stringify({ start_date: range.start, end_date: range.end, mode, preview: !confirmWrite })
+    }), 'Error al generar las horas');
+    if (!result) return;
+
+    setMessage(result.message);
+    if (confirmWrite) {
+      setPreview(null);
+      await onChange();
+    } else {
+      setPreview(result.changes ?? []);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6 mt-8 space-y-4">
+      <h3 className="text-lg font-semibold flex items-center">
+        <CalendarClock className="h-5 w-5 mr-2 text-indigo-600" />
+        Plantillas recurrentes
+      </h3>
+
+      {templates.length === 0 ? (
+        <p className="text-sm text-gray-500">Aún no tienes plantillas</p>
+      ) : (
+        <ul className="divide-y text-sm">
+          {templates.map(template => (
+            <li key={template.id} className={`py-2 flex items-center justify-between gap-4 ${template.active ? '' : 'opacity-60'}`}>
+              <div className="min-w-0">
+                <p className="text-gray-900 truncate">
+                  {template.description || 'Sin descripción'}
+                  {!template.active && <span className="ml-2 text-xs text-gray-500">(pausada)</span>}
+                </p>
+                <p className="text-xs text-gray-500 truncate">
+                  {[companyName(template.company_id), projectName(template.project_id)].filter(Boolean).join(' / ')}
+                  {' · '}
+                  {describeTemplate(template)}
+                </p>
+              </div>
+              <span className="flex items-center gap-2">
+                <button
+                  onClick={() => toggleActive(template)}
+                  disabled={busy}
+                  className="text-gray-400 hover:text-blue-600 disabled:opacity-50"
+                  title={template.active ? 'Pausar plantilla' : 'Activar plantilla'}
+                >
+                  {template.active ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+                </button>
+                <button
+                  onClick={() => deleteTemplate(template)}
+                  disabled={busy}
+                  className="text-gray-400 hover:text-red-600 disabled:opacity-50"
+                  title="Eliminar plantilla"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="border-t pt-4 space-y-3">
+        <h4 className="text-sm font-semibold text-gray-800">Nueva plantilla</h4>
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-2">
+          <select
+            value={companyId}
+            onChange={(e) => { setCompanyId(e.target.value); setProjectId(''); }}
+            className="px-2 py-1.5 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="">Empresa</option>
+            {companies.map(company => (
+              <option key={company.id} value={company.id}>{company.name}</option>
+            ))}
+          </select>
+          <select
+            value={projectId}
+            onChange={(e) => setProjectId(e.target.value)}
+            disabled={!companyId}
+            className="px-2 py-1.5 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="">Sin proyecto</option>
+            {companyProjects.map(project => (
+              <option key={project.id} value={project.id}>{project.name}</option>
+            ))}
+          </select>
+          <input
+            type="number"
+            step="0.25"
+            min="0"
+            max="24"
+            placeholder="Horas"
+            value={hours}
+            onChange={(e) => setHours(e.target.value)}
+            className="px-2 py-1.5 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <select
+            value={intervalWeeks}
+            onChange={(e) => setIntervalWeeks(e.target.value)}
+            className="px-2 py-1.5 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="1">Cada semana</option>
+            <option value="2">Cada 2 semanas</option>
+            <option value="3">Cada 3 semanas</option>
+            <option value="4">Cada 4 semanas</option>
+          </select>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {WEEKDAY_NAMES_ES.map((name, day) => (
+            <label key={name} className="flex items-center text-xs text-gray-700 capitalize">
+              <input
+                type="checkbox"
+                checked={weekdays.includes(day)}
+                onChange={() => toggleWeekday(day)}
+                className="mr-1"
+              />
+              {name}
+            </label>
+          ))}
+        </div>
+        <div className="flex gap-2">
+          <input
+            type="text"
+            placeholder="Descripción"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            className="flex-1 px-2 py-1.5 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <button
+            onClick={createTemplate}
+            disabled={busy || !companyId || !hours || weekdays.length === 0}
+            className="px-3 py-1.5 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-60 text-sm flex items-center"
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Agregar
+          </button>
+        </div>
+      </div>
+
+      <div className="border-t pt-4 space-y-3">
+        <h4 className="text-sm font-semibold text-gray-800">Generar horas</h4>
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <input
+            type="date"
+            value={range.start}
+            onChange={(e) => { setRange(prev => ({ ...prev, start: e.target.value })); setPreview(null); }}
+            className="px-2 py-1.5 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <span className="text-gray-500">a</span>
+          <input
+            type="date"
+            value={range.end}
+            onChange={(e) => { setRange(prev => ({ ...prev, end: e.target.value })); setPreview(null); }}
+            className="px-2 py-1.5 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <select
+            value={mode}
+            onChange={(e) => { setMode(e.target.value as 'set' | 'accumulate'); setPreview(null); }}
+            className="px-2 py-1.5 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="set">Reemplazar el total del día</option>
+            <option value="accumulate">Sumar a lo registrado</option>
+          </select>
+          <button
+            onClick={() => materialize(false)}
+            disabled={busy || templates.length === 0 || !range.start || !range.end}
+            className="px-3 py-1.5 border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-60"
+          >
+            Vista previa
+          </button>
+          {preview && preview.length > 0 && (
+            <button
+              onClick={() => materialize(true)}
+              disabled={busy}
+              className="px-3 py-1.5 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-60"
+            >
+              Confirmar
+            </button>
+          )}
+        </div>
+
+        {preview && preview.length > 0 && (
+          <ul className="text-xs text-gray-700 space-y-1">
+            {preview.map((change, index) => (
+              <li key={index}>
+                {change.date}{change.project_name ? ` (${change.project_name})` : ''}:{' '}
+                {formatHours(change.old_value ?? 0)} h → <span className="font-semibold">{formatHours(change.new_value ?? 0)} h</span>
+              </li>
+            ))}
+          </ul>
+        )}
+        {message && <p className="text-xs text-gray-500">{message}</p>}
+        {error && <p className="text-xs text-red-600">{error}</p>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,159 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { CalendarOff, Plus, Trash2 } from 'lucide-react';
+import { Holiday } from '@/lib/types';
+import { currentYearInTimeZone, formatDate } from '@/lib/dates';
+import { useAuth } from '@/hooks/useAuth';
+
+interface HolidaysPanelProps {
+  timeZone?: string;
+  onChange: () => Promise<void> | void;
+}
+
+const formatHolidayDate = (value: string) =>
+  formatDate(value, { weekday: 'short', day: '2-digit', month: 'short' });
+
+// Festivos de Colombia del año y días libres propios (no se llenan ni cuentan como faltantes)
+export default function HolidaysPanel({ timeZone, onChange }: HolidaysPanelProps) {
+  const { authFetch } = useAuth();
+  const currentYear = currentYearInTimeZone(timeZone);
+  const [year, setYear] = useState(currentYear);
+  const [holidays, setHolidays] = useState<Holiday[]>([]);
+  const [date, setDate] = useState('');
+  const [name, setName] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchHolidays = useCallback(async () => {
+    try {
+      const response = await authFetch(`/api/holidays?year=${year}`);
+      const result = await response.json();
+      if (result.status !== 'ok') {
+        setError(result.message);
+        return;
+      }
+      setHolidays(result.data);
+    } catch {
+      setError('Error al cargar los festivos');
+    }
+  }, [authFetch, year]);
+
+  useEffect(() => {
+    fetchHolidays();
+  }, [fetchHolidays]);
+
+  const addDayOff = async () => {
+    if (!date) return;
+
+    setBusy(true);
+    setError(null);
+    try {
+      const response = await authFetch('/api/holidays', {
+        method: 'POST',
+        body: JSON.stringify({ date, name })
+      });
+      const result = await response.json();
+      if (result.status !== 'ok') {
+        setError(result.message);
+        return;
+      }
+      setDate('');
+      setName('');
+      await fetchHolidays();
+      await onChange();
+    } catch {
+      setError('Error al registrar el día libre');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const deleteDayOff = async (holiday: Holiday) => {
+    if (holiday.id == null || !confirm(`¿Eliminar el día libre del ${holiday.date}?`)) return;
+
+    setBusy(true);
+    setError(null);
+    try {
+      const response = await authFetch(`/api/holidays/${holiday.id}`, { method: 'DELETE' });
+      const result = await response.json();
+      if (result.status !== 'ok') {
+        setError(result.message);
+        return;
+      }
+      await fetchHolidays();
+      await onChange();
+    } catch {
+      setError('Error al eliminar el día libre');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6 mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold flex items-center">
+          <CalendarOff className="h-5 w-5 mr-2 text-rose-600" />
+          Festivos y días libres
+        </h3>
+        <select
+          value={year}
+          onChange={(e) => setYear(parseInt(e.target.value))}
+          className="px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          {[-1, 0, 1].map(offset => {
+            const option = currentYear + offset;
+            return <option key={option} value={option}>{option}</option>;
+          })}
+        </select>
+      </div>
+
+      <ul className="grid grid-cols-1 md:grid-cols-3 gap-x-6 gap-y-1 text-sm">
+        {holidays.map(holiday => (
+          <li key={holiday.date} className="flex items-center justify-between gap-2">
+            <span className="truncate">
+              <span className="text-gray-500 capitalize mr-2">{formatHolidayDate(holiday.date)}</span>
+              <span className={holiday.source === 'user' ? 'text-rose-700 font-medium' : 'text-gray-900'}>{holiday.name}</span>
+            </span>
+            {holiday.source === 'user' && (
+              <button
+                onClick={() => deleteDayOff(holiday)}
+                disabled={busy}
+                className="text-gray-400 hover:text-red-600 disabled:opacity-50"
+                title="Eliminar día libre"
+              >
+                <Trash2 className="h-3 w-3" />
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      <div className="mt-4 pt-4 border-t flex flex-wrap items-center gap-2">
+        <input
+          type="date"
+          value={date}
+          onChange={(e) => setDate(e.target.value)}
+          className="px-2 py-1.5 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <input
+          type="text"
+          placeholder="Motivo (opcional)"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          className="flex-1 px-2 py-1.5 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <button
+          onClick={addDayOff}
+          disabled={busy || !date}
+          className="px-3 py-1.5 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-60 text-sm flex items-center"
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          Agregar día libre
+        </button>
+      </div>
+      {error && <p className="mt-2 text-xs text-red-600">{error}</p>}
+    </div>
+  );
+}
@@ -1,36 +1,89 @@
 'use client';
 
 import { useState, useCallback } from 'react';
-import { Invoice, InvoiceStatus } from '@/lib/types';
-import { formatPrice } from '@/lib/formatters';
+import { Invoice, InvoiceItemRequest, InvoiceItemType, InvoiceStatus, InvoicePaymentMethod, CreateInvoicePaymentRequest } from '@/lib/types';
+import { formatMoney, formatPrice } from '@/lib/formatters';
+import { getInvoiceFileName } from '@/lib/invoice-files';
+import { PAYABLE_INVOICE_STATUSES } from '@/lib/invoice-payments';
+import { getInvoiceTaxLines } from '@/lib/invoice-taxes';
+import { formatDate, todayInTimeZone } from '@/lib/dates';
 import { 
   FileText, Building2, User, 
   CreditCard, Printer, Check, 
-  Send, X
+  Send, X, Plus, Trash2, Download
 } from 'lucide-react';
 
 interface InvoiceViewProps {
   invoice: Invoice;
   onStatusChange?: (invoiceId: number, status: InvoiceStatus) => Promise<void>;
+  onAddItem?: (invoiceId: number, item: InvoiceItemRequest) => Promise<void>;
+  onRemoveItem?: (invoiceId: number, itemId: number) => Promise<void>;
+  onDownloadPdf?: (invoice: Invoice) => Promise<void>;
+  onAddPayment?: (invoiceId: number, payment: CreateInvoicePaymentRequest) => Promise<void>;
+  onDeletePayment?: (invoiceId: number, paymentId: number) => Promise<void>;
   onClose?: () => void;
   printMode?: boolean;
+  timeZone?: string;
 }
 
 const statusLabels: Record<InvoiceStatus, { label: string; color: string }> = {
   draft: { label: 'Borrador', color: 'bg-gray-200 text-gray-700' },
   sent: { label: 'Enviada', color: 'bg-blue-100 text-blue-700' },
+  partially_paid: { label: 'Pago parcial', color: 'bg-amber-100 text-amber-700' },
   paid: { label: 'Pagada', color: 'bg-green-100 text-green-700' },
   cancelled: { label: 'Cancelada', color: 'bg-red-100 text-red-700' }
 };
 
-export default function InvoiceView({ invoice, onStatusChange, onClose, printMode = false }: InvoiceViewProps) {
+const itemTypeLabels: Record<InvoiceItemType, string> = {
+  hours: 'Horas',
+  fixed_fee: 'Tarifa fija',
+  expense: 'Gasto',
+  discount: 'Descuento'
+};
+
+const paymentMethodLabels: Record<InvoicePaymentMethod, string> = {
+  transfer: 'Transferencia',
+  cash: 'Efectivo',
+  check: 'Cheque',
+  other: 'Otro'
+};
+
+const emptyItemForm = { item_type: 'hours' as InvoiceItemType, concept: '', quantity: '' };
+
+const createEmptyPaymentForm = (timeZone?: string) => ({
+  date: todayInTimeZone(timeZone),
+  amount: '',
+  method: 'transfer' as InvoicePaymentMethod,
+  reference: ''
+});
+
+export default function InvoiceView({
+  invoice,
+  onStatusChange,
+  onAddItem,
+  onRemoveItem,
+  onDownloadPdf,
+  onAddPayment,
+  onDeletePayment,
+  onClose,
+  printMode = false,
+  timeZone
+}: InvoiceViewProps) {
   const [loading, setLoading] = useState(false);
+  const [itemForm, setItemForm] = useState(emptyItemForm);
+  const [itemError, setItemError] = useState<string | null>(null);
+  const canEditItems = !printMode && invoice.status === 'draft' && !!onAddItem;
+  const [paymentForm, setPaymentForm] = useState(() => createEmptyPaymentForm(timeZone));
+  const [paymentError, setPaymentError] = useState<string | null>(null);
+  const canAddPayments = !printMode && PAYABLE_INVOICE_STATUSES.includes(invoice.status) && !!onAddPayment;
+  const taxLines = getInvoiceTaxLines(invoice);
+  const currency = invoice.currency ?? 'COP';
+  const money = (amount: number) => formatMoney(amount, currency);
 
   const handlePrint = useCallback(() => {
     // Cambiar título temporalmente para que el PDF tenga el nombre correcto
     const originalTitle = document.title;
-    const clientName = invoice.client_name.replace(/[^a-zA-Z0-9\s]/g, '').trim().replace(/\s+/g, '_');
-    document.title = `Cuenta_Cobro_${invoice.number}_${clientName}`;
+    document.title = getInvoiceFileName(invoice, '');
     
     window.print();
     
@@ -38,7 +91,17 @@ export default function InvoiceView({ invoice, onStatusChange, onClose, printMod
     setTimeout(() => {
       document.title = originalTitle;
     }, 1000);
-  }, [invoice.number, invoice.client_name]);
+  }, [invoice]);
+
+  const handleDownloadPdf = useCallback(async () => {
+    if (!onDownloadPdf) return;
+    setLoading(true);
+    try {
+      await onDownloadPdf(invoice);
+    } finally {
+      setLoading(false);
+    }
+  }, [invoice, onDownloadPdf]);
 
   const handleStatusChange = useCallback(async (newStatus: InvoiceStatus) => {
     if (!onStatusChange) return;
@@ -50,12 +113,86 @@ export default function InvoiceView({ invoice, onStatusChange, onClose, printMod
     }
   }, [invoice.id, onStatusChange]);
 
+  const handleAddItem = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!onAddItem) return;
+
+    const quantity = parseFloat(itemForm.quantity);
+    if (!itemForm.concept.trim() || isNaN(quantity) || quantity <= 0) {
+      setItemError('Ingresa un concepto y un valor mayor que 0');
+      return;
+    }
+
+    setLoading(true);
+    setItemError(null);
+    try {
+      await onAddItem(invoice.id!, itemForm.item_type === 'hours'
+        ? { item_type: 'hours', concept: itemForm.concept.trim(), hours: quantity }
+        : { item_type: itemForm.item_type, concept: itemForm.concept.trim(), amount: quantity });
+      setItemForm(emptyItemForm);
+    } catch (err) {
+      setItemError(err instanceof Error ? err.message : 'Error al agregar la línea');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRemoveItem = async (itemId: number) => {
+    if (!onRemoveItem) return;
+    setLoading(true);
+    setItemError(null);
+    try {
+      await onRemoveItem(invoice.id!, itemId);
+    } catch (err) {
+      setItemError(err instanceof Error ? err.message : 'Error al eliminar la línea');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleAddPayment = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!onAddPayment) return;
+
+    const amount = parseFloat(paymentForm.amount);
+    if (!paymentForm.date || isNaN(amount) || amount <= 0) {
+      setPaymentError('Ingresa la fecha y un monto mayor que 0');
+      return;
+    }
+
+    setLoading(true);
+    setPaymentError(null);
+    try {
+      await onAddPayment(invoice.id!, {
+        date: paymentForm.date,
+        amount,
+        method: paymentForm.method,
+        reference: paymentForm.reference.trim() || undefined
+      });
+      setPaymentForm(createEmptyPaymentForm(timeZone));
+    } catch (err) {
+      setPaymentError(err instanceof Error ? err.message : 'Error al registrar el pago');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDeletePayment = async (paymentId: number) => {
+    if (!onDeletePayment || !confirm('¿Eliminar este pago?')) return;
+    setLoading(true);
+    setPaymentError(null);
+    try {
+      await onDeletePayment(invoice.id!, paymentId);
+    } catch (err) {
+      setPaymentError(err instanceof Error ? err.message : 'Error al eliminar el pago');
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const formatPeriod = (start: string, end: string) => {
-    const formatDate = (dateStr: string) => {
-      const date = new Date(dateStr + 'T00:00:00');
-      return date.toLocaleDateString('es-CO', { day: '2-digit', month: '2-digit', year: 'numeric' });
-    };
-    return `${formatDate(start)} - ${formatDate(end)}`;
+    const options: Intl.DateTimeFormatOptions = { day: '2-digit', month: '2-digit', year: 'numeric' };
+    return `${formatDate(start, options)} - ${formatDate(end, options)}`;
   };
 
   const status = statusLabels[invoice.status];
@@ -83,7 +220,7 @@ export default function InvoiceView({ invoice, onStatusChange, onClose, printMod
                 Marcar Enviada
               </button>
             )}
-            {invoice.status === 'sent' && onStatusChange && (
+            {PAYABLE_INVOICE_STATUSES.includes(invoice.status) && onStatusChange && (
               <button
                 onClick={() => handleStatusChange('paid')}
                 disabled={loading}
@@ -93,6 +230,16 @@ export default function InvoiceView({ invoice, onStatusChange, onClose, printMod
                 Marcar Pagada
               </button>
             )}
+            {onDownloadPdf && (
+              <button
+                onClick={handleDownloadPdf}
+                disabled={loading}
+                className="flex items-center gap-1 px-3 py-1.5 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 text-sm"
+              >
+                <Download className="w-4 h-4" />
+                PDF
+              </button>
+            )}
             <button
               onClick={handlePrint}
               className="flex items-center gap-1 px-3 py-1.5 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 text-sm"
@@ -152,7 +299,7 @@ export default function InvoiceView({ invoice, onStatusChange, onClose, printMod
               <div className="flex items-center gap-2 md:justify-end print:justify-end">
                 <span className="text-sm text-gray-500">Fecha de Emisión:</span>
                 <span className="font-medium text-gray-700">
-                  {new Date(invoice.issue_date + 'T00:00:00').toLocaleDateString('es-CO')}
+                  {formatDate(invoice.issue_date)}
                 </span>
               </div>
               <div className="flex items-center gap-2 md:justify-end print:justify-end">
@@ -182,28 +329,113 @@ export default function InvoiceView({ invoice, onStatusChange, onClose, printMod
                   <th className="p-3 text-sm font-semibold text-gray-600 uppercase text-center">Horas</th>
                   <th className="p-3 text-sm font-semibold text-gray-600 uppercase text-right">Tarifa por Hora</th>
                   <th className="p-3 text-sm font-semibold text-gray-600 uppercase text-right">Total</th>
+                  {canEditItems && onRemoveItem && <th className="p-3 print:hidden"></th>}
                 </tr>
               </thead>
               <tbody>
-                {invoice.items?.map((item, index) => (
-                  <tr key={item.id || index} className="border-b border-gray-200">
-                    <td className="p-3 text-gray-800">{item.concept}</td>
-                    <td className="p-3 text-center text-gray-800">{item.hours}</td>
-                    <td className="p-3 text-right text-gray-800">{formatPrice(item.rate)}</td>
-                    <td className="p-3 text-right font-semibold text-gray-800">{formatPrice(item.total)}</td>
-                  </tr>
-                ))}
+                {invoice.items?.map((item, index) => {
+                  const isHours = item.item_type === 'hours';
+                  return (
+                    <tr key={item.id || index} className="border-b border-gray-200">
+                      <td className="p-3 text-gray-800">
+                        {item.concept}
+                        {!isHours && (
+                          <span className="ml-2 text-xs text-gray-500">({itemTypeLabels[item.item_type]})</span>
+                        )}
+                      </td>
+                      <td className="p-3 text-center text-gray-800">{isHours ? item.hours : '-'}</td>
+                      <td className="p-3 text-right text-gray-800">{isHours ? money(item.rate) : '-'}</td>
+                      <td className={`p-3 text-right font-semibold ${item.total < 0 ? 'text-red-600' : 'text-gray-800'}`}>
+                        {money(item.total)}
+                      </td>
+                      {canEditItems && onRemoveItem && (
+                        <td className="p-3 text-right print:hidden">
+                          <button
+                            onClick={() => handleRemoveItem(item.id!)}
+                            disabled={loading}
+                            className="p-1 text-red-500 hover:text-red-700 disabled:opacity-50"
+                            title="Eliminar línea"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </td>
+                      )}
+                    </tr>
+                  );
+                })}
               </tbody>
             </table>
           </div>
+
+          {canEditItems && (
+            <form onSubmit={handleAddItem} className="mt-3 flex flex-wrap items-end gap-2 print:hidden">
+              <select
+                value={itemForm.item_type}
+                onChange={(e) => setItemForm(prev => ({ ...prev, item_type: e.target.value as InvoiceItemType }))}
+                className="px-2 py-1.5 border border-gray-300 rounded-lg text-sm"
+                disabled={loading}
+              >
+                {Object.entries(itemTypeLabels).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+              <input
+                type="text"
+                value={itemForm.concept}
+                onChange={(e) => setItemForm(prev => ({ ...prev, concept: e.target.value }))}
+                placeholder="Concepto"
+                className="flex-1 min-w-[12rem] px-2 py-1.5 border border-gray-300 rounded-lg text-sm"
+                disabled={loading}
+              />
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={itemForm.quantity}
+                onChange={(e) => setItemForm(prev => ({ ...prev, quantity: e.target.value }))}
+                placeholder={itemForm.item_type === 'hours' ? 'Horas' : 'Monto'}
+                className="w-32 px-2 py-1.5 border border-gray-300 rounded-lg text-sm"
+                disabled={loading}
+              />
+              <button
+                type="submit"
+                disabled={loading}
+                className="flex items-center gap-1 px-3 py-1.5 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 text-sm disabled:opacity-50"
+              >
+                <Plus className="w-4 h-4" />
+                Agregar línea
+              </button>
+              {itemError && <p className="w-full text-sm text-red-600">{itemError}</p>}
+            </form>
+          )}
         </div>
 
         {/* Total */}
         <div className="mb-6">
+          {taxLines.length > 0 && (
+            <div className="mb-2 ml-auto w-full md:w-2/3 text-sm">
+              <div className="flex justify-between py-1 text-gray-700">
+                <span>Subtotal</span>
+                <span>{money(invoice.total_amount)}</span>
+              </div>
+              {taxLines.map(line => (
+                <div key={line.label} className="flex justify-between py-1 text-gray-700 border-t border-gray-100">
+                  <span>{line.label}</span>
+                  <span className={line.amount < 0 ? 'text-red-600' : ''}>{money(line.amount)}</span>
+                </div>
+              ))}
+            </div>
+          )}
           <div className="flex justify-between items-center bg-gray-800 text-white p-4 rounded-t-lg">
-            <span className="text-xl font-bold">Total a Pagar</span>
-            <span className="text-2xl font-bold">{formatPrice(invoice.total_amount)}</span>
+            <span className="text-xl font-bold">{taxLines.length > 0 ? 'Neto a Pagar' : 'Total a Pagar'}</span>
+            <span className="text-2xl font-bold">{money(invoice.net_amount ?? invoice.total_amount)}</span>
           </div>
+          {currency !== 'COP' && (
+            <div className="flex justify-between items-center bg-gray-100 px-4 py-2 text-sm text-gray-700">
+              <span>Equivalente en COP (tasa {formatPrice(invoice.exchange_rate ?? 1, true)})</span>
+              <span className="font-semibold">{formatPrice((invoice.net_amount ?? invoice.total_amount) * (invoice.exchange_rate ?? 1))}</span>
+            </div>
+          )}
           
           {/* Información de pago */}
           {(invoice.issuer_bank_name || invoice.issuer_account_number) && (
@@ -234,8 +466,113 @@ export default function InvoiceView({ invoice, onStatusChange, onClose, printMod
               </div>
             </div>
           )}
+
+          {invoice.social_security_note && (
+            <p className="mt-3 text-xs text-gray-600">{invoice.social_security_note}</p>
+          )}
         </div>
 
+        {/* Pagos recibidos (no se imprimen) */}
+        {!printMode && ((invoice.payments?.length ?? 0) > 0 || canAddPayments) && (
+          <div className="mb-6 print:hidden">
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-lg font-semibold text-gray-800">Pagos</h3>
+              <div className="text-sm text-gray-600">
+                Pagado: <span className="font-semibold text-green-700">{money(invoice.amount_paid ?? 0)}</span>
+                <span className="mx-2">•</span>
+                Saldo: <span className="font-semibold text-blue-700">{money(invoice.balance ?? invoice.net_amount ?? invoice.total_amount)}</span>
+              </div>
+            </div>
+
+            {(invoice.payments?.length ?? 0) > 0 && (
+              <table className="w-full text-left text-sm border-collapse mb-3">
+                <thead>
+                  <tr className="bg-gray-100">
+                    <th className="p-2 font-semibold text-gray-600">Fecha</th>
+                    <th className="p-2 font-semibold text-gray-600">Medio</th>
+                    <th className="p-2 font-semibold text-gray-600">Referencia</th>
+                    <th className="p-2 font-semibold text-gray-600 text-right">Monto</th>
+                    {onDeletePayment && invoice.status !== 'cancelled' && <th className="p-2"></th>}
+                  </tr>
+                </thead>
+                <tbody>
+                  {invoice.payments!.map(payment => (
+                    <tr key={payment.id} className="border-b border-gray-200">
+                      <td className="p-2 text-gray-800">
+                        {formatDate(payment.date)}
+                      </td>
+                      <td className="p-2 text-gray-800">{paymentMethodLabels[payment.method] ?? payment.method}</td>
+                      <td className="p-2 text-gray-600">{payment.reference || '-'}</td>
+                      <td className="p-2 text-right font-semibold text-gray-800">{money(payment.amount)}</td>
+                      {onDeletePayment && invoice.status !== 'cancelled' && (
+                        <td className="p-2 text-right">
+                          <button
+                            onClick={() => handleDeletePayment(payment.id!)}
+                            disabled={loading}
+                            className="p-1 text-red-500 hover:text-red-700 disabled:opacity-50"
+                            title="Eliminar pago"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </td>
+                      )}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+
+            {canAddPayments && (
+              <form onSubmit={handleAddPayment} className="flex flex-wrap items-end gap-2">
+                <input
+                  type="date"
+                  value={paymentForm.date}
+                  onChange={(e) => setPaymentForm(prev => ({ ...prev, date: e.target.value }))}
+                  className="px-2 py-1.5 border border-gray-300 rounded-lg text-sm"
+                  disabled={loading}
+                />
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={paymentForm.amount}
+                  onChange={(e) => setPaymentForm(prev => ({ ...prev, amount: e.target.value }))}
+                  placeholder="Monto"
+                  className="w-36 px-2 py-1.5 border border-gray-300 rounded-lg text-sm"
+                  disabled={loading}
+                />
+                <select
+                  value={paymentForm.method}
+                  onChange={(e) => setPaymentForm(prev => ({ ...prev, method: e.target.value as InvoicePaymentMethod }))}
+                  className="px-2 py-1.5 border border-gray-300 rounded-lg text-sm"
+                  disabled={loading}
+                >
+                  {Object.entries(paymentMethodLabels).map(([value, label]) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </select>
+                <input
+                  type="text"
+                  value={paymentForm.reference}
+                  onChange={(e) => setPaymentForm(prev => ({ ...prev, reference: e.target.value }))}
+                  placeholder="Referencia"
+                  className="flex-1 min-w-[10rem] px-2 py-1.5 border border-gray-300 rounded-lg text-sm"
+                  disabled={loading}
+                />
+                <button
+                  type="submit"
+                  disabled={loading}
+                  className="flex items-center gap-1 px-3 py-1.5 bg-green-600 text-white rounded-lg hover:bg-green-700 text-sm disabled:opacity-50"
+                >
+                  <Plus className="w-4 h-4" />
+                  Registrar pago
+                </button>
+              </form>
+            )}
+            {paymentError && <p className="mt-1 text-sm text-red-600">{paymentError}</p>}
+          </div>
+        )}
+
         {/* Declaración */}
         {invoice.issuer_declaration && (
           <div className="mb-6">
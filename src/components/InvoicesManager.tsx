@@ -1,8 +1,11 @@
 'use client';
 
 import { useState, useEffect, useCallback } from 'react';
-import { Invoice, InvoiceStatus, Company, Project, CreateInvoiceFromHoursRequest, UserBillingInfo, CompanyBillingInfo } from '@/lib/types';
-import { formatPrice } from '@/lib/formatters';
+import { Invoice, InvoiceStatus, Company, Project, CreateInvoiceFromHoursRequest, UserBillingInfo, CompanyBillingInfo, InvoiceItemRequest, CreateInvoicePaymentRequest } from '@/lib/types';
+import { formatMoney, formatPrice } from '@/lib/formatters';
+import { getInvoiceFileName } from '@/lib/invoice-files';
+import { PAYABLE_INVOICE_STATUSES } from '@/lib/invoice-payments';
+import { formatDate } from '@/lib/dates';
 import { useAuth } from '@/hooks/useAuth';
 import InvoiceView from './InvoiceView';
 import CreateInvoiceModal from './CreateInvoiceModal';
@@ -18,12 +21,14 @@ interface InvoicesManagerProps {
   companies: Company[];
   projects: Project[];
   selectedCompanyId: number | null;
+  timeZone?: string;
   onDataChange?: () => void;
 }
 
 const statusLabels: Record<InvoiceStatus, { label: string; color: string }> = {
   draft: { label: 'Borrador', color: 'bg-gray-200 text-gray-700' },
   sent: { label: 'Enviada', color: 'bg-blue-100 text-blue-700' },
+  partially_paid: { label: 'Pago parcial', color: 'bg-amber-100 text-amber-700' },
   paid: { label: 'Pagada', color: 'bg-green-100 text-green-700' },
   cancelled: { label: 'Cancelada', color: 'bg-red-100 text-red-700' }
 };
@@ -32,6 +37,7 @@ export default function InvoicesManager({
   companies, 
   projects, 
   selectedCompanyId,
+  timeZone,
   onDataChange 
 }: InvoicesManagerProps) {
   const { authFetch } = useAuth();
@@ -156,6 +162,88 @@ export default function InvoicesManager({
     await fetchInvoices();
   };
 
+  // Agregar línea a una cuenta en borrador
+  const handleAddItem = async (invoiceId: number, item: InvoiceItemRequest) => {
+    const response = await authFetch(`/api/invoices/${invoiceId}/items`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(item)
+    });
+    const result = await response.json();
+
+    if (result.status !== 'ok') {
+      throw new Error(result.message);
+    }
+
+    setSelectedInvoice(result.data);
+    await fetchInvoices();
+  };
+
+  // Eliminar línea de una cuenta en borrador
+  const handleRemoveItem = async (invoiceId: number, itemId: number) => {
+    const response = await authFetch(`/api/invoices/${invoiceId}/items/${itemId}`, {
+      method: 'DELETE'
+    });
+    const result = await response.json();
+
+    if (result.status !== 'ok') {
+      throw new Error(result.message);
+    }
+
+    setSelectedInvoice(result.data);
+    await fetchInvoices();
+  };
+
+  // Registrar un pago a una cuenta enviada
+  const handleAddPayment = async (invoiceId: number, payment: CreateInvoicePaymentRequest) => {
+    const response = await authFetch(`/api/invoices/${invoiceId}/payments`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(payment)
+    });
+    const result = await response.json();
+
+    if (result.status !== 'ok') {
+      throw new Error(result.message);
+    }
+
+    setSelectedInvoice(result.data);
+    await fetchInvoices();
+  };
+
+  // Eliminar un pago registrado
+  const handleDeletePayment = async (invoiceId: number, paymentId: number) => {
+    const response = await authFetch(`/api/invoices/${invoiceId}/payments/${paymentId}`, {
+      method: 'DELETE'
+    });
+    const result = await response.json();
+
+    if (result.status !== 'ok') {
+      throw new Error(result.message);
+    }
+
+    setSelectedInvoice(result.data);
+    await fetchInvoices();
+  };
+
+  // Descargar el PDF generado en el servidor
+  const handleDownloadPdf = async (invoice: Invoice) => {
+    const response = await authFetch(`/api/invoices/${invoice.id}/pdf`);
+    if (!response.ok) {
+      const result = await response.json().catch(() => null);
+      alert(result?.message || 'Error al generar el PDF');
+      return;
+    }
+
+    const blob = await response.blob();
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = getInvoiceFileName(invoice);
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
   // Eliminar cuenta
   const handleDeleteInvoice = async (invoiceId: number) => {
     if (!confirm('¿Estás seguro de eliminar esta cuenta de cobro?')) return;
@@ -219,13 +307,29 @@ export default function InvoicesManager({
   };
 
   // Stats
-  const totalPending = invoices
-    .filter(i => i.status === 'sent')
-    .reduce((sum, i) => sum + i.total_amount, 0);
+  const outstandingInvoices = invoices.filter(i => PAYABLE_INVOICE_STATUSES.includes(i.status));
+
+  // Los totales se suman en COP usando la tasa guardada en cada cuenta
+  const toCop = (invoice: Invoice, amount: number) => amount * (invoice.exchange_rate ?? 1);
+
+  const totalPending = outstandingInvoices.reduce((sum, i) => sum + toCop(i, i.balance ?? i.net_amount ?? i.total_amount), 0);
   
   const totalPaid = invoices
-    .filter(i => i.status === 'paid')
-    .reduce((sum, i) => sum + i.total_amount, 0);
+    .filter(i => i.status !== 'cancelled')
+    .reduce((sum, i) => sum + toCop(i, i.amount_paid ?? 0), 0);
+
+  // Saldo pendiente por empresa
+  const outstandingByCompany = companies
+    .map(company => {
+      const companyInvoices = outstandingInvoices.filter(i => i.company_id === company.id);
+      return {
+        company,
+        count: companyInvoices.length,
+        balance: companyInvoices.reduce((sum, i) => sum + toCop(i, i.balance ?? i.net_amount ?? i.total_amount), 0)
+      };
+    })
+    .filter(row => row.count > 0)
+    .sort((a, b) => b.balance - a.balance);
 
   if (selectedInvoice) {
     return (
@@ -234,7 +338,13 @@ export default function InvoicesManager({
           <InvoiceView
             invoice={selectedInvoice}
             onStatusChange={handleStatusChange}
+            onAddItem={handleAddItem}
+            onRemoveItem={handleRemoveItem}
+            onDownloadPdf={handleDownloadPdf}
+            onAddPayment={handleAddPayment}
+            onDeletePayment={handleDeletePayment}
             onClose={() => setSelectedInvoice(null)}
+            timeZone={timeZone}
           />
         </div>
       </div>
@@ -383,6 +493,27 @@ export default function InvoicesManager({
         </div>
       </div>
 
+      {/* Saldo pendiente por empresa */}
+      {outstandingByCompany.length > 0 && (
+        <div className="bg-white rounded-lg border border-gray-200 p-4">
+          <h3 className="text-sm font-semibold text-gray-600 mb-3">Saldo pendiente por empresa</h3>
+          <div className="space-y-2">
+            {outstandingByCompany.map(row => (
+              <div key={row.company.id} className="flex items-center justify-between text-sm">
+                <span className="flex items-center gap-2 text-gray-800">
+                  <Building2 className="w-4 h-4 text-gray-500" />
+                  {row.company.name}
+                  <span className="text-xs text-gray-500">
+                    ({row.count} {row.count === 1 ? 'cuenta' : 'cuentas'})
+                  </span>
+                </span>
+                <span className="font-semibold text-blue-600">{formatPrice(row.balance)}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Lista de facturas */}
       {loading ? (
         <div className="flex items-center justify-center py-12">
@@ -412,7 +543,8 @@ export default function InvoicesManager({
                 <th className="px-4 py-3 text-left text-sm font-semibold text-gray-600">Cliente</th>
                 <th className="px-4 py-3 text-left text-sm font-semibold text-gray-600">Periodo</th>
                 <th className="px-4 py-3 text-right text-sm font-semibold text-gray-600">Horas</th>
-                <th className="px-4 py-3 text-right text-sm font-semibold text-gray-600">Total</th>
+                <th className="px-4 py-3 text-right text-sm font-semibold text-gray-600">Neto</th>
+                <th className="px-4 py-3 text-right text-sm font-semibold text-gray-600">Saldo</th>
                 <th className="px-4 py-3 text-center text-sm font-semibold text-gray-600">Estado</th>
                 <th className="px-4 py-3 text-right text-sm font-semibold text-gray-600">Acciones</th>
               </tr>
@@ -429,15 +561,25 @@ export default function InvoicesManager({
                       {invoice.client_name}
                     </td>
                     <td className="px-4 py-3 text-sm text-gray-600">
-                      {new Date(invoice.period_start + 'T00:00:00').toLocaleDateString('es-CO', { day: '2-digit', month: 'short' })}
+                      {formatDate(invoice.period_start, { day: '2-digit', month: 'short' })}
                       {' - '}
-                      {new Date(invoice.period_end + 'T00:00:00').toLocaleDateString('es-CO', { day: '2-digit', month: 'short', year: '2-digit' })}
+                      {formatDate(invoice.period_end, { day: '2-digit', month: 'short', year: '2-digit' })}
                     </td>
                     <td className="px-4 py-3 text-sm text-gray-800 text-right">
                       {invoice.total_hours}h
                     </td>
                     <td className="px-4 py-3 text-sm font-semibold text-gray-800 text-right">
-                      {formatPrice(invoice.total_amount)}
+                      {formatMoney(invoice.net_amount ?? invoice.total_amount, invoice.currency)}
+                      {(invoice.net_amount ?? invoice.total_amount) !== invoice.total_amount && (
+                        <span className="block text-xs font-normal text-gray-500">
+                          Subtotal {formatMoney(invoice.total_amount, invoice.currency)}
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-600 text-right">
+                      {PAYABLE_INVOICE_STATUSES.includes(invoice.status)
+                        ? formatMoney(invoice.balance ?? invoice.net_amount ?? invoice.total_amount, invoice.currency)
+                        : '-'}
                     </td>
                     <td className="px-4 py-3 text-center">
                       <span className={`inline-flex px-2 py-1 rounded-full text-xs font-medium ${status.color}`}>
@@ -480,6 +622,7 @@ export default function InvoicesManager({
         companies={companies}
         projects={projects}
         selectedCompanyId={selectedCompanyId}
+        timeZone={timeZone}
       />
     </div>
   );
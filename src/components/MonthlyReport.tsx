@@ -1,6 +1,8 @@
 import React, { useState, useEffect } from 'react';
-import { Download, Calendar, Building2, FileText } from 'lucide-react';
+import { Download, Calendar, Building2, FileText, Tag as TagIcon } from 'lucide-react';
 import jsPDF from 'jspdf';
+import { Tag, TagReportSummary } from '@/lib/types';
+import { endOfMonth, formatDate, startOfMonth, todayInTimeZone } from '@/lib/dates';
 
 interface Company {
   id?: number;
@@ -11,6 +13,7 @@ interface ReportData {
   company: {
     id: number;
     name: string;
+    currency: string;
   };
   period: {
     start_date: string;
@@ -20,35 +23,55 @@ interface ReportData {
     project_id: number | null;
     project_name: string;
     hours: number;
+    billable_hours: number;
     amount: number;
+    amount_cop: number | null;
     descriptions: string[];
+    time_ranges: string[];
   }>;
+  tag_filter: string[];
+  tags?: TagReportSummary[];
   summary: {
     total_hours: number;
+    billable_hours: number;
     total_amount: number;
+    total_amount_cop: number | null;
+    exchange_rate: number | null;
     hourly_rate: number;
+    effective_hourly_rate: number;
   };
 }
 
 interface MonthlyReportProps {
   companies: Company[];
+  timeZone?: string;
 }
 
-export default function MonthlyReport({ companies }: MonthlyReportProps) {
+export default function MonthlyReport({ companies, timeZone }: MonthlyReportProps) {
   const [selectedCompany, setSelectedCompany] = useState<number | ''>('');
   const [startDate, setStartDate] = useState('');
   const [endDate, setEndDate] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [reportData, setReportData] = useState<ReportData | null>(null);
+  const [availableTags, setAvailableTags] = useState<Tag[]>([]);
+  const [tagFilter, setTagFilter] = useState('');
+  const [groupByTag, setGroupByTag] = useState(true);
 
-  // Establecer fechas por defecto al inicio del mes actual
+  // Establecer fechas por defecto al mes actual (en la zona horaria del usuario)
   useEffect(() => {
-    const now = new Date();
-    const firstDay = new Date(now.getFullYear(), now.getMonth(), 1);
-    const lastDay = new Date(now.getFullYear(), now.getMonth() + 1, 0);
-    
-    setStartDate(firstDay.toISOString().split('T')[0]);
-    setEndDate(lastDay.toISOString().split('T')[0]);
+    const today = todayInTimeZone(timeZone);
+    setStartDate(startOfMonth(today));
+    setEndDate(endOfMonth(today));
+  }, [timeZone]);
+
+  // Etiquetas del usuario para filtrar el reporte
+  useEffect(() => {
+    fetch('/api/tags', { credentials: 'include' })
+      .then((response) => response.json())
+      .then((result) => {
+        if (result.status === 'ok') setAvailableTags(result.data);
+      })
+      .catch((error) => console.error('Error al cargar etiquetas:', error));
   }, []);
 
   const fetchReportData = async () => {
@@ -59,8 +82,11 @@ export default function MonthlyReport({ companies }: MonthlyReportProps) {
 
     setIsLoading(true);
     try {
+      const params = new URLSearchParams({ startDate, endDate, groupBy: groupByTag ? 'tag' : 'project' });
+      if (tagFilter) params.set('tag', tagFilter);
+
       const response = await fetch(
-        `/api/reports/${selectedCompany}?startDate=${startDate}&endDate=${endDate}`,
+        `/api/reports/${selectedCompany}?${params.toString()}`,
         {
           credentials: 'include',
         }
@@ -81,21 +107,39 @@ export default function MonthlyReport({ companies }: MonthlyReportProps) {
     }
   };
 
-  const formatDate = (dateString: string) => {
-    return new Date(dateString).toLocaleDateString('es-ES', {
+  const formatReportDate = (dateString: string) => {
+    return formatDate(dateString, {
       year: 'numeric',
       month: 'long',
       day: 'numeric'
-    });
+    }, 'es-ES');
   };
 
-  const formatCurrency = (amount: number) => {
+  const formatCurrency = (amount: number, currency = reportData?.company.currency ?? 'COP') => {
     return new Intl.NumberFormat('es-CO', {
       style: 'currency',
-      currency: 'COP'
+      currency
     }).format(amount);
   };
 
+  // Equivalente en COP para empresas que facturan en otra moneda
+  const copEquivalent = reportData && reportData.company.currency !== 'COP'
+    ? reportData.summary.total_amount_cop !== null
+      ? `Equivalente en COP: ${formatCurrency(reportData.summary.total_amount_cop, 'COP')}`
+      : 'Equivalente en COP: falta registrar la tasa de cambio del periodo'
+    : null;
+
+  // Horas del proyecto con la parte no facturable aparte, si la hay
+  const describeProjectHours = (project: ReportData['projects'][number]) =>
+    project.billable_hours < project.hours
+      ? `${project.billable_hours.toFixed(2)}h facturables de ${project.hours.toFixed(2)}h`
+      : `${project.hours.toFixed(2)}h`;
+
+  const hasNonBillableHours = reportData ? reportData.summary.billable_hours < reportData.summary.total_hours : false;
+
+  const describeTagSummary = (summary: TagReportSummary) =>
+    `${summary.tag ?? 'Sin etiqueta'}: ${summary.hours.toFixed(2)}h (${summary.share}%) - ${formatCurrency(summary.amount)}`;
+
   const generatePDF = () => {
     if (!reportData) return;
 
@@ -120,10 +164,15 @@ export default function MonthlyReport({ companies }: MonthlyReportProps) {
     // Fechas de corte
     doc.setFontSize(12);
     doc.setFont('helvetica', 'normal');
-    doc.text(`Fecha inicio de corte: ${formatDate(reportData.period.start_date)}`, 20, yPosition);
+    doc.text(`Fecha inicio de corte: ${formatReportDate(reportData.period.start_date)}`, 20, yPosition);
     yPosition += 8;
-    doc.text(`Fecha fin de corte: ${formatDate(reportData.period.end_date)}`, 20, yPosition);
-    yPosition += 15;
+    doc.text(`Fecha fin de corte: ${formatReportDate(reportData.period.end_date)}`, 20, yPosition);
+    yPosition += 8;
+    if (reportData.tag_filter.length > 0) {
+      doc.text(`Etiquetas: ${reportData.tag_filter.join(', ')}`, 20, yPosition);
+      yPosition += 8;
+    }
+    yPosition += 7;
 
     // Proyectos
     reportData.projects.forEach((project) => {
@@ -135,7 +184,7 @@ export default function MonthlyReport({ companies }: MonthlyReportProps) {
 
       doc.setFont('helvetica', 'bold');
       doc.setFontSize(12);
-      doc.text(`Horas de proyecto: ${project.project_name} - ${project.hours.toFixed(2)}h`, 20, yPosition);
+      doc.text(`Horas de proyecto: ${project.project_name} - ${describeProjectHours(project)}`, 20, yPosition);
       yPosition += 8;
 
       // Descripciones de horas a facturar (solo si existen)
@@ -155,11 +204,47 @@ export default function MonthlyReport({ companies }: MonthlyReportProps) {
         });
       }
 
+      // Horarios de entrada y salida (solo si se registraron)
+      if (project.time_ranges.length > 0) {
+        doc.text('Horarios:', 20, yPosition);
+        yPosition += 6;
+
+        project.time_ranges.forEach(range => {
+          if (yPosition > 260) {
+            doc.addPage();
+            yPosition = 20;
+          }
+          doc.text(`• ${range}`, 25, yPosition);
+          yPosition += 5;
+        });
+      }
+
       yPosition += 5;
       doc.text('Estado aprobación producer ILS: _______________', 20, yPosition);
       yPosition += 15;
     });
 
+    // Distribución por etiqueta (soporte vs. desarrollo, reuniones...)
+    if (reportData.tags && reportData.tags.length > 0) {
+      if (yPosition > 240) {
+        doc.addPage();
+        yPosition = 20;
+      }
+      doc.setFont('helvetica', 'bold');
+      doc.text('Distribución por etiqueta:', 20, yPosition);
+      yPosition += 6;
+      doc.setFont('helvetica', 'normal');
+      reportData.tags.forEach(summary => {
+        if (yPosition > 260) {
+          doc.addPage();
+          yPosition = 20;
+        }
+        doc.text(`• ${describeTagSummary(summary)}`, 25, yPosition);
+        yPosition += 5;
+      });
+      yPosition += 10;
+    }
+
     // Totales
     if (yPosition > 220) {
       doc.addPage();
@@ -168,12 +253,25 @@ export default function MonthlyReport({ companies }: MonthlyReportProps) {
 
     doc.setFont('helvetica', 'bold');
     doc.setFontSize(14);
-    doc.text(`Horas totales a facturar: ${reportData.summary.total_hours.toFixed(2)}h`, 20, yPosition);
+    doc.text(`Horas totales a facturar: ${reportData.summary.billable_hours.toFixed(2)}h`, 20, yPosition);
     yPosition += 10;
 
+    if (hasNonBillableHours) {
+      doc.setFontSize(12);
+      doc.text(`Horas trabajadas (incluye no facturables): ${reportData.summary.total_hours.toFixed(2)}h`, 20, yPosition);
+      doc.setFontSize(14);
+      yPosition += 10;
+    }
+
     doc.text(`$ total a facturar: ${formatCurrency(reportData.summary.total_amount)}`, 20, yPosition);
     yPosition += 10;
 
+    if (copEquivalent) {
+      doc.setFontSize(12);
+      doc.text(copEquivalent, 20, yPosition);
+      yPosition += 10;
+    }
+
     doc.setFont('helvetica', 'normal');
     doc.setFontSize(10);
     doc.text(`(Tarifa por hora: ${formatCurrency(reportData.summary.hourly_rate)})`, 20, yPosition);
@@ -190,7 +288,7 @@ export default function MonthlyReport({ companies }: MonthlyReportProps) {
         <h2 className="text-xl font-bold text-gray-900">Generar Reporte Mensual</h2>
       </div>
 
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
         {/* Selector de empresa */}
         <div>
           <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -238,6 +336,35 @@ export default function MonthlyReport({ companies }: MonthlyReportProps) {
             className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
           />
         </div>
+
+        {/* Filtro por etiqueta */}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            <TagIcon className="inline h-4 w-4 mr-1" />
+            Etiqueta
+          </label>
+          <select
+            value={tagFilter}
+            onChange={(e) => setTagFilter(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          >
+            <option value="">Todas</option>
+            <option value="none">Sin etiqueta</option>
+            {availableTags.map((tag) => (
+              <option key={tag.id} value={tag.name}>
+                {tag.name}
+              </option>
+            ))}
+          </select>
+          <label className="mt-2 flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={groupByTag}
+              onChange={(e) => setGroupByTag(e.target.checked)}
+            />
+            Desglose por etiqueta
+          </label>
+        </div>
       </div>
 
       {/* Botones */}
@@ -271,13 +398,16 @@ export default function MonthlyReport({ companies }: MonthlyReportProps) {
             
             <div className="mb-4">
               <p><strong>Empresa:</strong> {reportData.company.name}</p>
-              <p><strong>Fecha inicio de corte:</strong> {formatDate(reportData.period.start_date)}</p>
-              <p><strong>Fecha fin de corte:</strong> {formatDate(reportData.period.end_date)}</p>
+              <p><strong>Fecha inicio de corte:</strong> {formatReportDate(reportData.period.start_date)}</p>
+              <p><strong>Fecha fin de corte:</strong> {formatReportDate(reportData.period.end_date)}</p>
+              {reportData.tag_filter.length > 0 && (
+                <p><strong>Etiquetas:</strong> {reportData.tag_filter.join(', ')}</p>
+              )}
             </div>
 
             {reportData.projects.map((project, index) => (
               <div key={project.project_id || `unassigned-${index}`} className="mb-6 p-3 bg-white rounded border">
-                <p><strong>Horas de proyecto:</strong> {project.project_name} - {project.hours.toFixed(2)}h</p>
+                <p><strong>Horas de proyecto:</strong> {project.project_name} - {describeProjectHours(project)}</p>
                 {project.descriptions.length > 0 && (
                   <>
                     <p><strong>Descripción horas a facturar:</strong></p>
@@ -288,16 +418,46 @@ export default function MonthlyReport({ companies }: MonthlyReportProps) {
                     </div>
                   </>
                 )}
+                {project.time_ranges.length > 0 && (
+                  <>
+                    <p><strong>Horarios:</strong></p>
+                    <div className="ml-4 mb-2">
+                      {project.time_ranges.map((range, i) => (
+                        <p key={i} className="text-sm">• {range}</p>
+                      ))}
+                    </div>
+                  </>
+                )}
                 <p><strong>Estado aprobación producer ILS:</strong> _______________</p>
               </div>
             ))}
 
+            {reportData.tags && reportData.tags.length > 0 && (
+              <div className="mb-6 p-3 bg-white rounded border">
+                <p><strong>Distribución por etiqueta:</strong></p>
+                <div className="ml-4">
+                  {reportData.tags.map((summary) => (
+                    <p key={summary.tag ?? 'untagged'} className="text-sm">• {describeTagSummary(summary)}</p>
+                  ))}
+                </div>
+              </div>
+            )}
+
             <div className="border-t pt-4 mt-4">
-              <p><strong>Horas totales a facturar:</strong> {reportData.summary.total_hours.toFixed(2)}h</p>
+              <p><strong>Horas totales a facturar:</strong> {reportData.summary.billable_hours.toFixed(2)}h</p>
+              {hasNonBillableHours && (
+                <p><strong>Horas trabajadas (incluye no facturables):</strong> {reportData.summary.total_hours.toFixed(2)}h</p>
+              )}
               <p><strong>$ total a facturar:</strong> {formatCurrency(reportData.summary.total_amount)}</p>
+              {copEquivalent && <p><strong>{copEquivalent}</strong></p>}
               <p className="text-sm text-gray-600">
                 (Tarifa por hora: {formatCurrency(reportData.summary.hourly_rate)})
               </p>
+              {Math.abs(reportData.summary.effective_hourly_rate - reportData.summary.hourly_rate) > 0.005 && (
+                <p className="text-sm text-gray-600">
+                  (Tarifa promedio efectiva del periodo: {formatCurrency(reportData.summary.effective_hourly_rate)})
+                </p>
+              )}
             </div>
           </div>
         </div>
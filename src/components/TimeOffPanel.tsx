@@ -0,0 +1,229 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Plane, Plus, Trash2 } from 'lucide-react';
+import { Company, TimeOff, TimeOffType, TimeOffYearSummary } from '@/lib/types';
+import { TIME_OFF_TYPES, TIME_OFF_TYPE_LABELS } from '@/lib/time-off';
+import { formatHours } from '@/lib/formatters';
+import { currentYearInTimeZone } from '@/lib/dates';
+import { useAuth } from '@/hooks/useAuth';
+
+interface TimeOffPanelProps {
+  companies: Company[];
+  timeZone?: string;
+  onChange: () => Promise<void> | void;
+}
+
+const inputClass = 'px-2 py-1.5 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+// Vacaciones, incapacidades y licencias: no cuentan como días faltantes ni bajan los promedios
+export default function TimeOffPanel({ companies, timeZone, onChange }: TimeOffPanelProps) {
+  const { authFetch } = useAuth();
+  const currentYear = currentYearInTimeZone(timeZone);
+  const [year, setYear] = useState(currentYear);
+  const [periods, setPeriods] = useState<TimeOff[]>([]);
+  const [summary, setSummary] = useState<TimeOffYearSummary | null>(null);
+  const [type, setType] = useState<TimeOffType>('vacation');
+  const [companyId, setCompanyId] = useState('');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [paidHours, setPaidHours] = useState('');
+  const [notes, setNotes] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const companyName = (id?: number | null) =>
+    id == null ? 'Todas las empresas' : companies.find(company => company.id === id)?.name ?? 'Empresa desconocida';
+
+  const fetchTimeOff = useCallback(async () => {
+    try {
+      const [listResponse, summaryResponse] = await Promise.all([
+        authFetch(`/api/time-off?year=${year}`),
+        authFetch(`/api/time-off/summary?year=${year}`)
+      ]);
+      const [listResult, summaryResult] = await Promise.all([listResponse.json(), summaryResponse.json()]);
+      if (listResult.status !== 'ok' || summaryResult.status !== 'ok') {
+        setError(listResult.status !== 'ok' ? listResult.message : summaryResult.message);
+        return;
+      }
+      setPeriods(listResult.data);
+      setSummary(summaryResult.data);
+    } catch {
+      setError('Error al cargar el tiempo libre');
+    }
+  }, [authFetch, year]);
+
+  useEffect(() => {
+    fetchTimeOff();
+  }, [fetchTimeOff]);
+
+  const addTimeOff = async () => {
+    if (!startDate) return;
+
+    setBusy(true);
+    setError(null);
+    try {
+      const response = await authFetch('/api/time-off', {
+        method: 'POST',
+        body: JSON.stringify({
+          type,
+          company_id: companyId ? parseInt(companyId) : null,
+          start_date: startDate,
+          end_date: endDate || startDate,
+          paid_hours_per_day: companyId && paidHours ? parseFloat(paidHours) : null,
+          notes
+        })
+      });
+      const result = await response.json();
+      if (result.status !== 'ok') {
+        setError(result.message);
+        return;
+      }
+      setStartDate('');
+      setEndDate('');
+      setPaidHours('');
+      setNotes('');
+      await fetchTimeOff();
+      await onChange();
+    } catch {
+      setError('Error al registrar el tiempo libre');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const deleteTimeOff = async (period: TimeOff) => {
+    if (!confirm(`¿Eliminar ${TIME_OFF_TYPE_LABELS[period.type].toLowerCase()} del ${period.start_date} al ${period.end_date}?`)) return;
+
+    setBusy(true);
+    setError(null);
+    try {
+      const response = await authFetch(`/api/time-off/${period.id}`, { method: 'DELETE' });
+      const result = await response.json();
+      if (result.status !== 'ok') {
+        setError(result.message);
+        return;
+      }
+      await fetchTimeOff();
+      await onChange();
+    } catch {
+      setError('Error al eliminar el tiempo libre');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const daysByPeriod = new Map(summary?.periods.map(period => [period.id, period.days]) ?? []);
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6 mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold flex items-center">
+          <Plane className="h-5 w-5 mr-2 text-teal-600" />
+          Tiempo libre
+        </h3>
+        <select
+          value={year}
+          onChange={(e) => setYear(parseInt(e.target.value))}
+          className="px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          {[-1, 0, 1].map(offset => {
+            const option = currentYear + offset;
+            return <option key={option} value={option}>{option}</option>;
+          })}
+        </select>
+      </div>
+
+      {summary && (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-4 text-sm">
+          <div className="rounded-md bg-teal-50 p-3">
+            <p className="text-gray-600">Días hábiles tomados</p>
+            <p className="text-xl font-bold text-teal-800">{summary.total_days}</p>
+          </div>
+          <div className="rounded-md bg-gray-50 p-3">
+            <p className="text-gray-600">Horas pagadas</p>
+            <p className="text-xl font-bold text-gray-900">{formatHours(summary.paid_hours)}</p>
+          </div>
+          <div className="rounded-md bg-gray-50 p-3 col-span-2">
+            <p className="text-gray-600 mb-1">Por tipo</p>
+            <p className="text-gray-900">
+              {TIME_OFF_TYPES.filter(item => summary.days_by_type[item] > 0)
+                .map(item => `${TIME_OFF_TYPE_LABELS[item]}: ${summary.days_by_type[item]}`)
+                .join(' · ') || 'Sin tiempo libre registrado'}
+            </p>
+          </div>
+        </div>
+      )}
+
+      <ul className="divide-y text-sm">
+        {periods.map(period => (
+          <li key={period.id} className="flex items-center justify-between gap-2 py-1.5">
+            <span className="truncate">
+              <span className="font-medium text-teal-800 mr-2">{TIME_OFF_TYPE_LABELS[period.type]}</span>
+              <span className="text-gray-700">
+                {period.start_date === period.end_date ? period.start_date : `${period.start_date} al ${period.end_date}`}
+              </span>
+              <span className="text-gray-500 ml-2">
+                · {companyName(period.company_id)} · {daysByPeriod.get(period.id) ?? 0} días hábiles
+                {period.paid_hours_per_day != null && ` · ${formatHours(period.paid_hours_per_day)} h pagadas/día`}
+                {period.notes && ` · ${period.notes}`}
+              </span>
+            </span>
+            <button
+              onClick={() => deleteTimeOff(period)}
+              disabled={busy}
+              className="text-gray-400 hover:text-red-600 disabled:opacity-50"
+              title="Eliminar tiempo libre"
+            >
+              <Trash2 className="h-3 w-3" />
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      <div className="mt-4 pt-4 border-t flex flex-wrap items-center gap-2">
+        <select value={type} onChange={(e) => setType(e.target.value as TimeOffType)} className={inputClass}>
+          {TIME_OFF_TYPES.map(item => (
+            <option key={item} value={item}>{TIME_OFF_TYPE_LABELS[item]}</option>
+          ))}
+        </select>
+        <select value={companyId} onChange={(e) => setCompanyId(e.target.value)} className={inputClass}>
+          <option value="">Todas las empresas</option>
+          {companies.map(company => (
+            <option key={company.id} value={company.id}>{company.name}</option>
+          ))}
+        </select>
+        <input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} className={inputClass} />
+        <input type="date" value={endDate} min={startDate} onChange={(e) => setEndDate(e.target.value)} className={inputClass} />
+        <input
+          type="number"
+          min="0"
+          max="24"
+          step="0.5"
+          placeholder="Horas pagadas/día"
+          value={paidHours}
+          disabled={!companyId}
+          onChange={(e) => setPaidHours(e.target.value)}
+          className={`w-36 ${inputClass} disabled:bg-gray-100`}
+          title={companyId ? undefined : 'Las horas pagadas requieren una empresa'}
+        />
+        <input
+          type="text"
+          placeholder="Notas (opcional)"
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          className={`flex-1 ${inputClass}`}
+        />
+        <button
+          onClick={addTimeOff}
+          disabled={busy || !startDate}
+          className="px-3 py-1.5 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-60 text-sm flex items-center"
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          Agregar
+        </button>
+      </div>
+      {error && <p className="mt-2 text-xs text-red-600">{error}</p>}
+    </div>
+  );
+}
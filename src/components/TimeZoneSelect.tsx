@@ -0,0 +1,59 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { Globe } from 'lucide-react';
+import { useAuth } from '@/hooks/useAuth';
+
+interface TimeZoneSelectProps {
+  timeZone: string;
+  onChange: () => Promise<void> | void;
+}
+
+// Zona horaria del usuario: define qué día es "hoy" en el tablero, el cronómetro y los valores por defecto
+export default function TimeZoneSelect({ timeZone, onChange }: TimeZoneSelectProps) {
+  const { authFetch } = useAuth();
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const options = useMemo(() => {
+    const zones = Intl.supportedValuesOf('timeZone');
+    return zones.includes(timeZone) ? zones : [timeZone, ...zones];
+  }, [timeZone]);
+
+  const updateTimeZone = async (value: string) => {
+    setBusy(true);
+    setError(null);
+    try {
+      const response = await authFetch('/api/settings/timezone', {
+        method: 'PUT',
+        body: JSON.stringify({ timezone: value })
+      });
+      const result = await response.json();
+      if (result.status !== 'ok') {
+        setError(result.message);
+        return;
+      }
+      await onChange();
+    } catch {
+      setError('Error al actualizar la zona horaria');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <label className="flex items-center text-sm text-gray-700" title={error ?? 'Zona horaria'}>
+      <Globe className={`h-4 w-4 mr-1 ${error ? 'text-red-600' : 'text-gray-500'}`} />
+      <select
+        value={timeZone}
+        disabled={busy}
+        onChange={(e) => updateTimeZone(e.target.value)}
+        className="max-w-44 px-2 py-1 border border-gray-300 rounded-md bg-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-60"
+      >
+        {options.map(zone => (
+          <option key={zone} value={zone}>{zone.replace(/_/g, ' ')}</option>
+        ))}
+      </select>
+    </label>
+  );
+}
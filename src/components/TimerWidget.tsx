@@ -0,0 +1,184 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Play, Pause, Square, Timer } from 'lucide-react';
+import { Company, Project, TimeSession } from '@/lib/types';
+import { formatElapsed, getTimeSessionElapsedSeconds } from '@/lib/time-sessions';
+import { useAuth } from '@/hooks/useAuth';
+
+interface TimerWidgetProps {
+  companies: Company[];
+  projects: Project[];
+  selectedCompanyId: number | null;
+  selectedProjectId: number | null;
+  onStop?: () => void;
+}
+
+export default function TimerWidget({
+  companies,
+  projects,
+  selectedCompanyId,
+  selectedProjectId,
+  onStop
+}: TimerWidgetProps) {
+  const { authFetch } = useAuth();
+  const [session, setSession] = useState<TimeSession | null>(null);
+  const [elapsed, setElapsed] = useState(0);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchActiveSession = useCallback(async () => {
+    try {
+      const response = await authFetch('/api/timer');
+      const data = await response.json();
+      if (data.status === 'ok') {
+        setSession(data.data.active_session ?? null);
+      }
+    } catch (err) {
+      console.error('Error fetching timer:', err);
+    }
+  }, [authFetch]);
+
+  useEffect(() => {
+    fetchActiveSession();
+  }, [fetchActiveSession]);
+
+  // Refrescar el contador cada segundo mientras la sesión corre
+  useEffect(() => {
+    if (!session) {
+      setElapsed(0);
+      return;
+    }
+
+    setElapsed(getTimeSessionElapsedSeconds(session));
+    if (session.status !== 'running') return;
+
+    const interval = setInterval(() => {
+      setElapsed(getTimeSessionElapsedSeconds(session));
+    }, 1000);
+    return () => clearInterval(interval);
+  }, [session]);
+
+  const startTimer = async () => {
+    if (selectedCompanyId == null) {
+      setError('Selecciona una empresa para iniciar el cronómetro');
+      return;
+    }
+
+    setBusy(true);
+    setError(null);
+    try {
+      const response = await authFetch('/api/timer', {
+        method: 'POST',
+        // Sin fecha: el servidor imputa la sesión al día de hoy en la zona horaria del usuario
+        body: JSON.stringify({
+          company_id: selectedCompanyId,
+          project_id: selectedProjectId
+        })
+      });
+      const data = await response.json();
+      if (data.status === 'ok') {
+        setSession(data.data);
+      } else {
+        setError(data.message);
+        if (response.status === 409 && data.data) {
+          setSession(data.data);
+        }
+      }
+    } catch {
+      setError('Error al iniciar el cronómetro');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const updateTimer = async (action: 'pause' | 'resume' | 'stop') => {
+    if (!session?.id) return;
+
+    setBusy(true);
+    setError(null);
+    try {
+      const response = await authFetch(`/api/timer/${session.id}`, {
+        method: 'PATCH',
+        body: JSON.stringify({ action })
+      });
+      const data = await response.json();
+      if (data.status !== 'ok') {
+        setError(data.message);
+        return;
+      }
+
+      if (action === 'stop') {
+        setSession(null);
+        onStop?.();
+      } else {
+        setSession(data.data);
+      }
+    } catch {
+      setError('Error al actualizar el cronómetro');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const sessionCompany = session ? companies.find(company => company.id === session.company_id) : null;
+  const sessionProject = session?.project_id != null
+    ? projects.find(project => project.id === session.project_id)
+    : null;
+
+  return (
+    <div className="flex flex-col items-end">
+      <div className="flex items-center gap-2 bg-white border border-gray-200 rounded-lg px-3 py-2 shadow-sm">
+        <Timer className={`h-5 w-5 ${session?.status === 'running' ? 'text-green-600' : 'text-gray-700'}`} />
+        <span className="font-mono text-lg text-gray-900 tabular-nums">{formatElapsed(elapsed)}</span>
+        {session && (
+          <span className="text-xs text-gray-700 max-w-[10rem] truncate">
+            {sessionCompany?.name ?? 'Empresa'}
+            {sessionProject && ` • ${sessionProject.name}`}
+          </span>
+        )}
+        {!session && (
+          <button
+            onClick={startTimer}
+            disabled={busy || selectedCompanyId == null}
+            className="p-1.5 rounded bg-green-600 text-white hover:bg-green-700 disabled:opacity-50"
+            title="Iniciar cronómetro"
+          >
+            <Play className="h-4 w-4" />
+          </button>
+        )}
+        {session?.status === 'running' && (
+          <button
+            onClick={() => updateTimer('pause')}
+            disabled={busy}
+            className="p-1.5 rounded bg-yellow-500 text-white hover:bg-yellow-600 disabled:opacity-50"
+            title="Pausar"
+          >
+            <Pause className="h-4 w-4" />
+          </button>
+        )}
+        {session?.status === 'paused' && (
+          <button
+            onClick={() => updateTimer('resume')}
+            disabled={busy}
+            className="p-1.5 rounded bg-green-600 text-white hover:bg-green-700 disabled:opacity-50"
+            title="Reanudar"
+          >
+            <Play className="h-4 w-4" />
+          </button>
+        )}
+        {session && (
+          <button
+            onClick={() => updateTimer('stop')}
+            disabled={busy}
+            className="p-1.5 rounded bg-red-600 text-white hover:bg-red-700 disabled:opacity-50"
+            title="Detener y registrar horas"
+          >
+            <Square className="h-4 w-4" />
+          </button>
+        )}
+      </div>
+      {error && <p className="mt-1 text-xs text-red-600">{error}</p>}
+    </div>
+  );
+}
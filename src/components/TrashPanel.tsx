@@ -0,0 +1,146 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { RotateCcw, Trash2 } from 'lucide-react';
+import { TrashItem, TrashItemType } from '@/lib/types';
+import { formatDate } from '@/lib/dates';
+import { useAuth } from '@/hooks/useAuth';
+
+interface TrashPanelProps {
+  // Cambia cada vez que el tablero recarga datos (p. ej. tras eliminar una empresa o proyecto)
+  refreshKey: unknown;
+  onChange: () => Promise<void> | void;
+}
+
+const TRASH_TYPE_LABELS: Record<TrashItemType, string> = {
+  company: 'Empresa',
+  project: 'Proyecto',
+  entry: 'Registro'
+};
+
+const formatPurgeDate = (value: string) =>
+  formatDate(value, { day: '2-digit', month: 'short', year: 'numeric' });
+
+// Papelera: empresas, proyectos y registros eliminados que aún se pueden restaurar
+export default function TrashPanel({ refreshKey, onChange }: TrashPanelProps) {
+  const { authFetch } = useAuth();
+  const [items, setItems] = useState<TrashItem[]>([]);
+  const [retentionMessage, setRetentionMessage] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchTrash = useCallback(async () => {
+    try {
+      const response = await authFetch('/api/trash');
+      const result = await response.json();
+      if (result.status !== 'ok') {
+        setError(result.message);
+        return;
+      }
+      setItems(result.data);
+      setRetentionMessage(result.message);
+    } catch {
+      setError('Error al cargar la papelera');
+    }
+  }, [authFetch]);
+
+  useEffect(() => {
+    fetchTrash();
+  }, [fetchTrash, refreshKey]);
+
+  const restoreItem = async (item: TrashItem) => {
+    setBusy(true);
+    setError(null);
+    try {
+      const response = await authFetch('/api/trash/restore', {
+        method: 'POST',
+        body: JSON.stringify({ type: item.type, id: item.id })
+      });
+      const result = await response.json();
+      if (result.status !== 'ok') {
+        setError(result.message);
+        return;
+      }
+      await fetchTrash();
+      await onChange();
+    } catch {
+      setError('Error al restaurar el elemento');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const emptyTrash = async () => {
+    if (!confirm(`¿Vaciar la papelera? Se eliminarán definitivamente ${items.length} elementos. Esta acción no se puede deshacer.`)) {
+      return;
+    }
+
+    setBusy(true);
+    setError(null);
+    try {
+      const response = await authFetch('/api/trash', { method: 'DELETE' });
+      const result = await response.json();
+      if (result.status !== 'ok') {
+        setError(result.message);
+        return;
+      }
+      await fetchTrash();
+    } catch {
+      setError('Error al vaciar la papelera');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6 mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold flex items-center">
+          <Trash2 className="h-5 w-5 mr-2 text-gray-600" />
+          Papelera
+        </h3>
+        {items.length > 0 && (
+          <button
+            onClick={emptyTrash}
+            disabled={busy}
+            className="px-3 py-1.5 text-sm text-red-600 border border-red-200 rounded-md hover:bg-red-50 disabled:opacity-50"
+          >
+            Vaciar papelera
+          </button>
+        )}
+      </div>
+
+      {items.length === 0 ? (
+        <p className="text-sm text-gray-500">La papelera está vacía</p>
+      ) : (
+        <ul className="divide-y text-sm">
+          {items.map(item => (
+            <li key={`${item.type}-${item.id}`} className="py-2 flex items-center justify-between gap-4">
+              <div className="min-w-0">
+                <p className="text-gray-900 truncate">
+                  <span className="text-xs font-medium text-gray-500 mr-2">{TRASH_TYPE_LABELS[item.type]}</span>
+                  {item.label}
+                </p>
+                <p className="text-xs text-gray-500 truncate">
+                  {item.detail} · se elimina el {formatPurgeDate(item.purge_at)}
+                </p>
+              </div>
+              <button
+                onClick={() => restoreItem(item)}
+                disabled={busy}
+                className="flex items-center px-2 py-1 text-xs text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                title="Restaurar"
+              >
+                <RotateCcw className="h-3 w-3 mr-1" />
+                Restaurar
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {retentionMessage && items.length > 0 && <p className="mt-3 text-xs text-gray-500">{retentionMessage}</p>}
+      {error && <p className="mt-2 text-xs text-red-600">{error}</p>}
+    </div>
+  );
+}
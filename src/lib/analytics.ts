@@ -1,11 +1,17 @@
 import { HourEntry } from './types';
+import { calculateBillableHours, calculateEarnings, RateResolver } from './rates';
+import { addDays, addMonths, endOfMonth, endOfWeek, isoWeekday, isoWeekNumber, isWeekend, listDates, startOfMonth, startOfWeek, todayInTimeZone } from './dates';
 
 export interface PeriodStats {
   totalHours: number;
-  workingDays: number;
+  billableHours: number;
+  workingDays: number; // Días con horas registradas, sin los de tiempo libre
+  businessDays: number; // Días hábiles transcurridos sin festivos ni tiempo libre: el denominador de los promedios
+  timeOffDays: number; // Días hábiles de vacaciones, incapacidad o licencia dentro del periodo
   avgHoursPerDay: number;
-  avgHoursPerWorkingDay: number;
+  avgHoursPerWorkingDay: number; // Horas por día hábil (businessDays)
   totalEarnings: number;
+  effectiveHourlyRate: number; // Ingresos sobre todas las horas trabajadas, incluidas las no facturables
 }
 
 export interface WeeklyStats extends PeriodStats {
@@ -23,99 +29,140 @@ export interface TrendAnalysis {
   monthlyTrend: 'up' | 'down' | 'stable';
 }
 
-// Obtener el inicio y fin de la semana (lunes a domingo)
-export function getWeekBounds(date: Date): { start: Date; end: Date } {
-  const start = new Date(date);
-  const day = start.getDay();
-  const diff = start.getDate() - day + (day === 0 ? -6 : 1); // Lunes como primer día
-  start.setDate(diff);
-  start.setHours(0, 0, 0, 0);
-  
-  const end = new Date(start);
-  end.setDate(start.getDate() + 6);
-  end.setHours(23, 59, 59, 999);
-  
-  return { start, end };
+// Obtener el inicio (lunes) y fin (domingo) de la semana de una fecha YYYY-MM-DD
+export function getWeekBounds(date: string): { start: string; end: string } {
+  return { start: startOfWeek(date), end: endOfWeek(date) };
 }
 
-// Obtener el inicio y fin del mes
-export function getMonthBounds(date: Date): { start: Date; end: Date } {
-  const start = new Date(date.getFullYear(), date.getMonth(), 1);
-  const end = new Date(date.getFullYear(), date.getMonth() + 1, 0, 23, 59, 59, 999);
-  return { start, end };
+// Obtener el primer y último día del mes de una fecha
+export function getMonthBounds(date: string): { start: string; end: string } {
+  return { start: startOfMonth(date), end: endOfMonth(date) };
 }
 
-// Filtrar entradas por rango de fechas
-export function filterEntriesByDateRange(entries: HourEntry[], start: Date, end: Date): HourEntry[] {
-  return entries.filter(entry => {
-    const entryDate = new Date(entry.date + 'T00:00:00');
-    return entryDate >= start && entryDate <= end;
-  });
+// Filtrar entradas por rango de fechas (inclusive)
+export function filterEntriesByDateRange(entries: HourEntry[], start: string, end: string): HourEntry[] {
+  return entries.filter(entry => entry.date >= start && entry.date <= end);
 }
 
-// Calcular estadísticas para un periodo
-export function calculatePeriodStats(entries: HourEntry[], hourlyRate: number): PeriodStats {
+// Calcular estadísticas para un periodo. Los ingresos usan la tarifa vigente en la fecha de cada entrada.
+// El promedio por día hábil se divide entre los días hábiles del periodo (businessDates) menos los de
+// tiempo libre (timeOffDates), para que una semana de vacaciones no aparezca como una semana de pocas
+// horas. Sin businessDates se usan los días con horas
+export function calculatePeriodStats(
+  entries: HourEntry[],
+  hourlyRate: number | RateResolver,
+  timeOffDates: string[] = [],
+  businessDates?: string[]
+): PeriodStats {
   const totalHours = entries.reduce((sum, entry) => sum + entry.hours, 0);
-  const workingDays = entries.length;
+  const timeOff = new Set(timeOffDates);
+  const workEntries = entries.filter(entry => !timeOff.has(entry.date));
+  const workHours = workEntries.reduce((sum, entry) => sum + entry.hours, 0);
+  // Un día con varias entradas cuenta una sola vez
+  const workingDays = new Set(workEntries.filter(entry => entry.hours > 0).map(entry => entry.date)).size;
   
   // Calcular días únicos en el rango (incluyendo fines de semana)
-  const dates = entries.map(e => e.date);
+  const dates = workEntries.map(e => e.date);
   const uniqueDates = new Set(dates);
   const daysInPeriod = uniqueDates.size;
+  const businessDays = businessDates ? businessDates.filter(date => !timeOff.has(date)).length : workingDays;
   
+  const totalEarnings = calculateEarnings(entries, hourlyRate);
+
   return {
     totalHours,
+    billableHours: calculateBillableHours(entries),
     workingDays,
-    avgHoursPerDay: daysInPeriod > 0 ? totalHours / daysInPeriod : 0,
-    avgHoursPerWorkingDay: workingDays > 0 ? totalHours / workingDays : 0,
-    totalEarnings: totalHours * hourlyRate
+    businessDays,
+    timeOffDays: timeOff.size,
+    avgHoursPerDay: daysInPeriod > 0 ? workHours / daysInPeriod : 0,
+    avgHoursPerWorkingDay: businessDays > 0 ? workHours / businessDays : 0,
+    totalEarnings,
+    effectiveHourlyRate: totalHours > 0 ? totalEarnings / totalHours : 0
   };
 }
 
-// Calcular estadísticas de una semana específica
-export function calculateWeekStats(entries: HourEntry[], date: Date, hourlyRate: number): WeeklyStats {
+// Estadísticas de un rango con sus días hábiles (lunes a viernes sin festivos) hasta today: los días
+// futuros no cuentan y hoy solo cuenta si ya tiene horas
+function calculateRangeStats(
+  entries: HourEntry[],
+  start: string,
+  end: string,
+  hourlyRate: number | RateResolver,
+  isHoliday: (date: string) => boolean,
+  isTimeOffDay: (date: string) => boolean,
+  today: string
+): PeriodStats {
+  const rangeEntries = filterEntriesByDateRange(entries, start, end);
+  const entryDates = new Set(rangeEntries.map(entry => entry.date));
+  const dates = listDates(start, end);
+  const businessDates = dates.filter(date =>
+    !isWeekend(date) && !isHoliday(date) && (date < today || (date === today && entryDates.has(date)))
+  );
+  return calculatePeriodStats(rangeEntries, hourlyRate, dates.filter(isTimeOffDay), businessDates);
+}
+
+// Calcular estadísticas de la semana que contiene la fecha
+export function calculateWeekStats(
+  entries: HourEntry[],
+  date: string,
+  hourlyRate: number | RateResolver,
+  isHoliday: (date: string) => boolean = () => false,
+  isTimeOffDay: (date: string) => boolean = () => false,
+  today: string = todayInTimeZone()
+): WeeklyStats {
   const { start, end } = getWeekBounds(date);
-  const weekEntries = filterEntriesByDateRange(entries, start, end);
-  const stats = calculatePeriodStats(weekEntries, hourlyRate);
-  
-  // Número de semana del año
-  const startOfYear = new Date(date.getFullYear(), 0, 1);
-  const weekNumber = Math.ceil(((date.getTime() - startOfYear.getTime()) / 86400000 + startOfYear.getDay() + 1) / 7);
-  
+  const stats = calculateRangeStats(entries, start, end, hourlyRate, isHoliday, isTimeOffDay, today);
+
   return {
     ...stats,
-    weekNumber,
-    startDate: start.toISOString().split('T')[0],
-    endDate: end.toISOString().split('T')[0]
+    weekNumber: isoWeekNumber(date),
+    startDate: start,
+    endDate: end
   };
 }
 
-// Analizar tendencias
-export function analyzeTrends(entries: HourEntry[], hourlyRate: number): TrendAnalysis {
-  const now = new Date();
-  const lastWeek = new Date(now);
-  lastWeek.setDate(now.getDate() - 7);
-  
-  const lastMonth = new Date(now.getFullYear(), now.getMonth() - 1, 1);
-  const lastMonthEnd = new Date(now.getFullYear(), now.getMonth(), 0);
-  
-  const thisWeekStats = calculateWeekStats(entries, now, hourlyRate);
-  const lastWeekStats = calculateWeekStats(entries, lastWeek, hourlyRate);
-  
-  const thisMonthBounds = getMonthBounds(now);
-  const thisMonthEntries = filterEntriesByDateRange(entries, thisMonthBounds.start, thisMonthBounds.end);
-  const thisMonthStats = calculatePeriodStats(thisMonthEntries, hourlyRate);
-  
-  const lastMonthBounds = { start: lastMonth, end: lastMonthEnd };
-  const lastMonthEntries = filterEntriesByDateRange(entries, lastMonthBounds.start, lastMonthBounds.end);
-  const lastMonthStats = calculatePeriodStats(lastMonthEntries, hourlyRate);
+// Calcular estadísticas de un mes
+function calculateMonthStats(
+  entries: HourEntry[],
+  date: string,
+  hourlyRate: number | RateResolver,
+  isHoliday: (date: string) => boolean,
+  isTimeOffDay: (date: string) => boolean,
+  today: string
+): PeriodStats {
+  const { start, end } = getMonthBounds(date);
+  return calculateRangeStats(entries, start, end, hourlyRate, isHoliday, isTimeOffDay, today);
+}
+
+// Diferencia mínima de horas por día hábil para marcar una tendencia
+const TREND_THRESHOLD = 0.25;
+
+// Tendencia por horas por día hábil: un periodo sin días hábiles (todo de vacaciones) no se compara
+function compareByBusinessDay(current: PeriodStats, previous: PeriodStats): 'up' | 'down' | 'stable' {
+  if (current.businessDays === 0 || previous.businessDays === 0) return 'stable';
+  const diff = current.avgHoursPerWorkingDay - previous.avgHoursPerWorkingDay;
+  return Math.abs(diff) < TREND_THRESHOLD ? 'stable' : diff > 0 ? 'up' : 'down';
+}
+
+// Analizar tendencias. isHoliday marca festivos y días libres e isTimeOffDay los días hábiles de tiempo
+// libre del usuario; today es la fecha de hoy en su zona horaria. Se comparan horas por día hábil, así que
+// el tiempo libre, los festivos y la semana o el mes aún en curso no se ven como una baja
+export function analyzeTrends(
+  entries: HourEntry[],
+  hourlyRate: number | RateResolver,
+  isHoliday: (date: string) => boolean = () => false,
+  isTimeOffDay: (date: string) => boolean = () => false,
+  today: string = todayInTimeZone()
+): TrendAnalysis {
+  const thisWeekStats = calculateWeekStats(entries, today, hourlyRate, isHoliday, isTimeOffDay, today);
+  const lastWeekStats = calculateWeekStats(entries, addDays(today, -7), hourlyRate, isHoliday, isTimeOffDay, today);
+  const thisMonthStats = calculateMonthStats(entries, today, hourlyRate, isHoliday, isTimeOffDay, today);
+  const lastMonthStats = calculateMonthStats(entries, addMonths(startOfMonth(today), -1), hourlyRate, isHoliday, isTimeOffDay, today);
   
   // Calcular tendencias
-  const weeklyDiff = thisWeekStats.totalHours - lastWeekStats.totalHours;
-  const monthlyDiff = thisMonthStats.totalHours - lastMonthStats.totalHours;
-  
-  const weeklyTrend = Math.abs(weeklyDiff) < 1 ? 'stable' : weeklyDiff > 0 ? 'up' : 'down';
-  const monthlyTrend = Math.abs(monthlyDiff) < 2 ? 'stable' : monthlyDiff > 0 ? 'up' : 'down';
+  const weeklyTrend = compareByBusinessDay(thisWeekStats, lastWeekStats);
+  const monthlyTrend = compareByBusinessDay(thisMonthStats, lastMonthStats);
   
   return {
     thisWeek: thisWeekStats,
@@ -127,46 +174,58 @@ export function analyzeTrends(entries: HourEntry[], hourlyRate: number): TrendAn
   };
 }
 
-// Obtener días faltantes de la semana actual
-export function getMissingDaysThisWeek(entries: HourEntry[]): string[] {
-  const { start, end } = getWeekBounds(new Date());
+// Obtener días faltantes de la semana actual hasta hoy (los festivos, días libres y el tiempo libre
+// no cuentan como faltantes)
+export function getMissingDaysThisWeek(
+  entries: HourEntry[],
+  isHoliday: (date: string) => boolean = () => false,
+  isTimeOffDay: (date: string) => boolean = () => false,
+  today: string = todayInTimeZone()
+): string[] {
   const entryDates = new Set(entries.map(e => e.date));
-  const missingDays: string[] = [];
-  
-  for (let d = new Date(start); d <= end; d.setDate(d.getDate() + 1)) {
-    const dateStr = d.toISOString().split('T')[0];
-    if (!entryDates.has(dateStr) && d <= new Date()) { // Solo días pasados y hoy
-      missingDays.push(dateStr);
-    }
-  }
-  
-  return missingDays;
+  return listDates(startOfWeek(today), today).filter(date => !entryDates.has(date) && !isHoliday(date) && !isTimeOffDay(date));
 }
 
-// Calcular productividad por día de la semana
-export function getProductivityByWeekday(entries: HourEntry[]) {
+// Calcular productividad por día de la semana (0 = lunes). Las entradas del mismo día se suman antes de
+// promediar (un día puede tener varias), y las horas de festivos y días libres no entran en el promedio
+// para no mezclar días atípicos con los laborales
+export function getProductivityByWeekday(entries: Pick<HourEntry, 'date' | 'hours'>[], isHoliday: (date: string) => boolean = () => false) {
   const weekdayStats = Array(7).fill(0).map((_, index) => ({
     weekday: index,
     totalHours: 0,
-    entryCount: 0,
+    dayCount: 0,
     avgHours: 0
   }));
-  
-  entries.forEach(entry => {
-    const date = new Date(entry.date + 'T00:00:00');
-    const weekday = date.getDay() === 0 ? 6 : date.getDay() - 1; // Convertir domingo a 6
-    
-    weekdayStats[weekday].totalHours += entry.hours;
-    weekdayStats[weekday].entryCount += 1;
+
+  const dailyTotals = new Map<string, number>();
+  entries.filter(entry => !isHoliday(entry.date)).forEach(entry => {
+    dailyTotals.set(entry.date, (dailyTotals.get(entry.date) ?? 0) + entry.hours);
+  });
+
+  dailyTotals.forEach((hours, date) => {
+    const weekday = isoWeekday(date);
+    weekdayStats[weekday].totalHours += hours;
+    weekdayStats[weekday].dayCount += 1;
   });
   
   weekdayStats.forEach(stat => {
-    stat.avgHours = stat.entryCount > 0 ? stat.totalHours / stat.entryCount : 0;
+    stat.avgHours = stat.dayCount > 0 ? stat.totalHours / stat.dayCount : 0;
   });
   
   return weekdayStats;
 }
 
+// Calcular promedios por día de la semana para weekday_averages (ISO: 0 = lunes), con los mismos
+// totales por día de getProductivityByWeekday; los días de la semana sin horas no se guardan
+export function calculateWeekdayAverages(entries: HourEntry[], isHoliday: (date: string) => boolean = () => false): Array<{ weekday: number; average_hours: number }> {
+  return getProductivityByWeekday(entries, isHoliday)
+    .filter(stat => stat.dayCount > 0)
+    .map(stat => ({
+      weekday: stat.weekday,
+      average_hours: Math.round(stat.avgHours * 100) / 100
+    }));
+}
+
 // Formatear diferencia de horas con signo
 export function formatHoursDiff(diff: number): string {
   const sign = diff >= 0 ? '+' : '';
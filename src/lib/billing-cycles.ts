@@ -0,0 +1,121 @@
+import { BillingCycleStats, HourEntry, MonthlyEarnings } from './types';
+import { calculateBillableHours, calculateEarnings, RateResolver } from './rates';
+import { toDateString } from './dates';
+
+export interface BillingCycleRange {
+  start: string; // ISO date (YYYY-MM-DD)
+  end: string; // ISO date (YYYY-MM-DD), inclusivo
+}
+
+const parseISODate = (value: string) => {
+  const [year, month, day] = value.split('-').map(Number);
+  return { year, month: month - 1, day };
+};
+
+const toISODate = (year: number, month: number, day: number) =>
+  toDateString(new Date(Date.UTC(year, month, day)));
+
+const daysInMonth = (year: number, month: number) =>
+  new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+// Normaliza el día de corte al rango válido 1-31
+export function normalizeBillingCycleDay(day: number | null | undefined): number {
+  if (!day || !Number.isFinite(day)) return 1;
+  return Math.min(31, Math.max(1, Math.trunc(day)));
+}
+
+// Fecha de inicio del ciclo que arranca en el mes indicado.
+// Si el mes es más corto que el día de corte (ej. 31 en febrero) se usa el último día del mes.
+export function getCycleStartInMonth(year: number, month: number, billingCycleDay: number): string {
+  const day = Math.min(normalizeBillingCycleDay(billingCycleDay), daysInMonth(year, month));
+  return toISODate(year, month, day);
+}
+
+// Ciclo que contiene una fecha: del día de corte hasta el día anterior al siguiente corte
+export function getBillingCycleForDate(date: string, billingCycleDay: number): BillingCycleRange {
+  const { year, month } = parseISODate(date);
+  let startYear = year;
+  let startMonth = month;
+  let start = getCycleStartInMonth(startYear, startMonth, billingCycleDay);
+
+  if (date < start) {
+    startMonth -= 1;
+    if (startMonth < 0) {
+      startMonth = 11;
+      startYear -= 1;
+    }
+    start = getCycleStartInMonth(startYear, startMonth, billingCycleDay);
+  }
+
+  const nextMonth = (startMonth + 1) % 12;
+  const nextYear = startMonth === 11 ? startYear + 1 : startYear;
+  const nextStart = parseISODate(getCycleStartInMonth(nextYear, nextMonth, billingCycleDay));
+  const end = toISODate(nextStart.year, nextStart.month, nextStart.day - 1);
+
+  return { start, end };
+}
+
+// Lista de ciclos consecutivos que cubren el rango [startDate, endDate]
+export function getBillingCyclesInRange(startDate: string, endDate: string, billingCycleDay: number): BillingCycleRange[] {
+  const cycles: BillingCycleRange[] = [];
+  let cycle = getBillingCycleForDate(startDate, billingCycleDay);
+
+  while (cycle.start <= endDate) {
+    cycles.push(cycle);
+    const { year, month, day } = parseISODate(cycle.end);
+    cycle = getBillingCycleForDate(toISODate(year, month, day + 1), billingCycleDay);
+  }
+
+  return cycles;
+}
+
+// Ciclo completo más reciente (el anterior al que contiene la fecha de referencia)
+export function getLastCompletedBillingCycle(referenceDate: string, billingCycleDay: number): BillingCycleRange {
+  const current = getBillingCycleForDate(referenceDate, billingCycleDay);
+  const { year, month, day } = parseISODate(current.start);
+  return getBillingCycleForDate(toISODate(year, month, day - 1), billingCycleDay);
+}
+
+// Calcular estadísticas de cada ciclo a partir de las entradas de horas
+export function calculateBillingCycleStats(
+  entries: HourEntry[],
+  cycles: BillingCycleRange[],
+  hourlyRate: number | RateResolver
+): BillingCycleStats[] {
+  return cycles.map(cycle => {
+    const cycleEntries = entries.filter(entry => entry.date >= cycle.start && entry.date <= cycle.end);
+    const totalHours = cycleEntries.reduce((sum, entry) => sum + entry.hours, 0);
+    const daysWorked = new Set(cycleEntries.filter(entry => entry.hours > 0).map(entry => entry.date)).size;
+
+    return {
+      cycle_start: cycle.start,
+      cycle_end: cycle.end,
+      total_hours: totalHours,
+      billable_hours: calculateBillableHours(cycleEntries),
+      total_earnings: calculateEarnings(cycleEntries, hourlyRate),
+      days_worked: daysWorked,
+      average_hours_per_day: daysWorked > 0 ? totalHours / daysWorked : 0
+    };
+  });
+}
+
+// Agrupar ciclos por el mes (YYYY-MM) en que inicia cada uno
+export function groupBillingCyclesByMonth(cycles: BillingCycleStats[]): MonthlyEarnings[] {
+  const months = new Map<string, MonthlyEarnings>();
+
+  for (const cycle of cycles) {
+    const month = cycle.cycle_start.slice(0, 7);
+    let bucket = months.get(month);
+
+    if (!bucket) {
+      bucket = { month, total_hours: 0, total_earnings: 0, billing_cycles: [] };
+      months.set(month, bucket);
+    }
+
+    bucket.total_hours += cycle.total_hours;
+    bucket.total_earnings += cycle.total_earnings;
+    bucket.billing_cycles.push(cycle);
+  }
+
+  return Array.from(months.values()).sort((a, b) => a.month.localeCompare(b.month));
+}
@@ -0,0 +1,33 @@
+import { CurrencyCode, ExchangeRate } from './types';
+import { roundMoney } from './invoice-payments';
+
+export const BASE_CURRENCY: CurrencyCode = 'COP';
+export const SUPPORTED_CURRENCIES: CurrencyCode[] = ['COP', 'USD', 'EUR'];
+
+export function isSupportedCurrency(value: unknown): value is CurrencyCode {
+  return typeof value === 'string' && SUPPORTED_CURRENCIES.includes(value as CurrencyCode);
+}
+
+export function isValidExchangeRate(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0;
+}
+
+// Equivalente en COP. Sin tasa (moneda extranjera sin registrar) devuelve null.
+export function toCop(amount: number, currency: CurrencyCode, rate: number | null | undefined): number | null {
+  if (currency === BASE_CURRENCY) return amount;
+  if (!rate) return null;
+  return roundMoney(amount * rate);
+}
+
+// Tasa vigente en una fecha: la última registrada con effective_date <= fecha.
+// `rates` debe venir ordenado por effective_date ascendente.
+export function findRateForDate(rates: ExchangeRate[], currency: CurrencyCode, date: string): number | null {
+  if (currency === BASE_CURRENCY) return 1;
+
+  let match: number | null = null;
+  for (const rate of rates) {
+    if (rate.currency !== currency || rate.effective_date > date) continue;
+    match = rate.rate;
+  }
+  return match;
+}
@@ -0,0 +1,120 @@
+// Fechas de calendario (YYYY-MM-DD): no tienen hora ni zona horaria, así que toda la aritmética
+// se hace en UTC y el resultado no depende de la zona del servidor ni del navegador. Lo único que
+// depende de una zona es "hoy", que se calcula con la zona horaria del usuario (todayInTimeZone).
+//
+// Días de la semana en toda la app (ISO, como WEEKDAY_NAMES_ES y WEEKDAY_ALIASES):
+// 0 = lunes ... 5 = sábado, 6 = domingo. Así se guardan weekday_averages, project_weekday_averages
+// y las plantillas, y así los usan la carga masiva, las exportaciones y la analítica.
+
+export const DEFAULT_TIME_ZONE = 'America/Bogota';
+
+const DAY_MS = 86_400_000;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Fecha válida en formato YYYY-MM-DD (rechaza días inexistentes como 2026-02-30)
+export function isDateString(value: unknown): value is string {
+  return typeof value === 'string' && DATE_PATTERN.test(value) && toDateString(parseDate(value)) === value;
+}
+
+// Zona horaria IANA reconocida por el runtime (p. ej. America/Bogota)
+export function isValidTimeZone(value: unknown): value is string {
+  if (typeof value !== 'string' || !value) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Medianoche UTC de la fecha
+export function parseDate(date: string): Date {
+  return new Date(date + 'T00:00:00Z');
+}
+
+// Fecha (YYYY-MM-DD) de un Date según sus campos UTC
+export function toDateString(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+// Fecha de hoy en la zona horaria del usuario: a las 11 p. m. en Bogotá sigue siendo hoy,
+// aunque en UTC ya sea mañana
+export function todayInTimeZone(timeZone: string = DEFAULT_TIME_ZONE, now: Date = new Date()): string {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit'
+  }).formatToParts(now);
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find(item => item.type === type)?.value ?? '';
+  return `${part('year')}-${part('month')}-${part('day')}`;
+}
+
+export function currentYearInTimeZone(timeZone: string = DEFAULT_TIME_ZONE, now: Date = new Date()): number {
+  return parseInt(todayInTimeZone(timeZone, now).slice(0, 4));
+}
+
+export function addDays(date: string, days: number): string {
+  return toDateString(new Date(parseDate(date).getTime() + days * DAY_MS));
+}
+
+// Suma meses conservando el día cuando existe (31 de enero + 1 mes = 28 o 29 de febrero)
+export function addMonths(date: string, months: number): string {
+  const value = parseDate(date);
+  const target = new Date(Date.UTC(value.getUTCFullYear(), value.getUTCMonth() + months, 1));
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(value.getUTCDate(), lastDay));
+  return toDateString(target);
+}
+
+// Días de diferencia (end - start)
+export function daysBetween(start: string, end: string): number {
+  return Math.round((parseDate(end).getTime() - parseDate(start).getTime()) / DAY_MS);
+}
+
+// Fechas entre dos días, inclusive
+export function listDates(start: string, end: string): string[] {
+  const dates: string[] = [];
+  for (let date = start; date <= end; date = addDays(date, 1)) {
+    dates.push(date);
+  }
+  return dates;
+}
+
+// Día de la semana ISO: 0 = lunes, 6 = domingo
+export function isoWeekday(date: string): number {
+  return (parseDate(date).getUTCDay() + 6) % 7;
+}
+
+export function isWeekend(date: string): boolean {
+  return isoWeekday(date) >= 5;
+}
+
+// Lunes de la semana de la fecha
+export function startOfWeek(date: string): string {
+  return addDays(date, -isoWeekday(date));
+}
+
+// Domingo de la semana de la fecha
+export function endOfWeek(date: string): string {
+  return addDays(startOfWeek(date), 6);
+}
+
+export function startOfMonth(date: string): string {
+  return date.slice(0, 8) + '01';
+}
+
+export function endOfMonth(date: string): string {
+  return addDays(addMonths(startOfMonth(date), 1), -1);
+}
+
+// Número de semana ISO 8601 (la semana 1 es la que contiene el primer jueves del año)
+export function isoWeekNumber(date: string): number {
+  const thursday = addDays(date, 3 - isoWeekday(date));
+  return Math.floor(daysBetween(thursday.slice(0, 4) + '-01-01', thursday) / 7) + 1;
+}
+
+// Formatear una fecha de calendario para mostrarla, sin que la zona del navegador cambie el día
+export function formatDate(date: string, options: Intl.DateTimeFormatOptions = {}, locale = 'es-CO'): string {
+  return parseDate(date).toLocaleDateString(locale, { ...options, timeZone: 'UTC' });
+}
@@ -1,8 +1,41 @@
-import { createClient, type ResultSet } from '@libsql/client';
-import { HourEntry, Settings, WeekdayAverage, User, Company, Project, EntryChange, UserBillingInfo, CompanyBillingInfo, Invoice, InvoiceItem, InvoiceStatus } from './types';
+import { createClient, type InStatement, type ResultSet, type Transaction } from '@libsql/client';
+import { HourEntry, Settings, WeekdayAverage, User, Company, CompanyRate, CurrencyCode, ExchangeRate, Project, EntryChange, EntryChangeAction, EntryChangeBatch, EntryChangeRecord, EntryChangeSource, EntryTemplate, UserBillingInfo, CompanyBillingInfo, Invoice, InvoiceItem, InvoiceItemType, InvoicePayment, InvoicePaymentMethod, InvoiceStatus, CompanyDeletionImpact, ProjectDeletionImpact, ProjectWeekdayAverage, Tag, TimeOff, TimeOffType, TimeSession, TimeSessionStatus, TrashItemType, UserDayOff } from './types';
+import { calculateInvoiceTotals } from './invoice-items';
+import { TemplateFields } from './entry-templates';
+import { getStatusForPayments, roundMoney } from './invoice-payments';
+import { calculateInvoiceTaxes, InvoiceTaxRates } from './invoice-taxes';
+import { BASE_RATE_EFFECTIVE_FROM } from './rates';
+import { EMPTY_ENTRY_TIMES, EntryTimes } from './entry-times';
+import { DayWrite, groupEntriesByDate, isEntryLocked, lockedEntryMessage, mergeEntryDescriptions, sumEntryHours } from './entry-days';
+import { DEFAULT_TIME_ZONE, isoWeekday, listDates, todayInTimeZone } from './dates';
+
+// Suma de pagos registrados, para calcular saldo en las consultas de cuentas
+const INVOICE_AMOUNT_PAID_SQL = '(SELECT COALESCE(SUM(amount), 0) FROM invoice_payments WHERE invoice_payments.invoice_id = invoices.id) as amount_paid';
+
+// Entradas con los nombres de sus etiquetas separados por coma (las etiquetas no admiten comas)
+// y la cuenta de cobro que las facturó, si existe
+const entrySelectSql = (source: string) => `SELECT hour_entries.*,
+  (SELECT GROUP_CONCAT(tags.name, ',') FROM entry_tags JOIN tags ON tags.id = entry_tags.tag_id WHERE entry_tags.entry_id = hour_entries.id) as tag_names,
+  (SELECT invoice_items.invoice_id FROM invoice_items WHERE invoice_items.id = hour_entries.invoice_item_id) as linked_invoice_id,
+  (SELECT invoices.number FROM invoice_items JOIN invoices ON invoices.id = invoice_items.invoice_id WHERE invoice_items.id = hour_entries.invoice_item_id) as linked_invoice_number,
+  (SELECT invoices.status FROM invoice_items JOIN invoices ON invoices.id = invoice_items.invoice_id WHERE invoice_items.id = hour_entries.invoice_item_id) as linked_invoice_status
+  FROM ${source}`;
+
+// Las lecturas normales no ven las entradas en la papelera; las de la papelera solo ven esas
+const ENTRY_SELECT_SQL = entrySelectSql('(SELECT * FROM hour_entries WHERE deleted_at IS NULL) AS hour_entries');
+const DELETED_ENTRY_SELECT_SQL = entrySelectSql('(SELECT * FROM hour_entries WHERE deleted_at IS NOT NULL) AS hour_entries');
+
+const TRASH_TABLES: Record<TrashItemType, string> = {
+  company: 'companies',
+  project: 'projects',
+  entry: 'hour_entries'
+};
 
 type LibsqlClient = ReturnType<typeof createClient>;
 
+// Cliente o transacción interactiva: los métodos que aceptan uno pueden correr dentro de una transacción
+type SqlExecutor = Pick<Transaction, 'execute' | 'batch'>;
+
 const nextPhase = process.env.NEXT_PHASE;
 const isBuildPhase = nextPhase === 'phase-production-build' || nextPhase === 'phase-production-export';
 
@@ -100,8 +133,10 @@ class Database {
           name TEXT NOT NULL,
           hourly_rate REAL NOT NULL DEFAULT 0,
           billing_cycle_day INTEGER NOT NULL DEFAULT 1,
+          currency TEXT NOT NULL DEFAULT 'COP',
           user_id INTEGER NOT NULL,
           created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          deleted_at DATETIME,
           FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE
         )
       `);
@@ -113,7 +148,9 @@ class Database {
           name TEXT NOT NULL,
           company_id INTEGER NOT NULL,
           user_id INTEGER NOT NULL,
+          billable_default INTEGER NOT NULL DEFAULT 1,
           created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          deleted_at DATETIME,
           FOREIGN KEY (company_id) REFERENCES companies (id) ON DELETE CASCADE,
           FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE,
           UNIQUE(name, company_id)
@@ -129,9 +166,16 @@ class Database {
           description TEXT,
           company_id INTEGER NOT NULL,
           project_id INTEGER,
+          start_time TEXT,
+          end_time TEXT,
+          break_minutes INTEGER NOT NULL DEFAULT 0,
+          billable INTEGER NOT NULL DEFAULT 1,
+          invoice_item_id INTEGER,
           created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          deleted_at DATETIME,
           FOREIGN KEY (company_id) REFERENCES companies (id) ON DELETE CASCADE,
-          FOREIGN KEY (project_id) REFERENCES projects (id) ON DELETE SET NULL
+          FOREIGN KEY (project_id) REFERENCES projects (id) ON DELETE SET NULL,
+          FOREIGN KEY (invoice_item_id) REFERENCES invoice_items (id) ON DELETE SET NULL
         )
       `);
 
@@ -150,6 +194,45 @@ class Database {
         )
       `);
 
+      // Create time_sessions table
+      await client.execute(`
+        CREATE TABLE IF NOT EXISTS time_sessions (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          user_id INTEGER NOT NULL,
+          company_id INTEGER NOT NULL,
+          project_id INTEGER,
+          description TEXT,
+          date TEXT NOT NULL,
+          status TEXT NOT NULL DEFAULT 'running',
+          started_at TEXT NOT NULL,
+          paused_at TEXT,
+          paused_seconds INTEGER NOT NULL DEFAULT 0,
+          ended_at TEXT,
+          hours REAL,
+          entry_id INTEGER,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE,
+          FOREIGN KEY (company_id) REFERENCES companies (id) ON DELETE CASCADE,
+          FOREIGN KEY (project_id) REFERENCES projects (id) ON DELETE SET NULL,
+          FOREIGN KEY (entry_id) REFERENCES hour_entries (id) ON DELETE SET NULL
+        )
+      `);
+
+      // Create project_weekday_averages table
+      await client.execute(`
+        CREATE TABLE IF NOT EXISTS project_weekday_averages (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          weekday INTEGER NOT NULL,
+          average_hours REAL NOT NULL,
+          project_id INTEGER NOT NULL,
+          company_id INTEGER NOT NULL,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (project_id) REFERENCES projects (id) ON DELETE CASCADE,
+          FOREIGN KEY (company_id) REFERENCES companies (id) ON DELETE CASCADE,
+          UNIQUE(weekday, project_id)
+        )
+      `);
+
       // Create user_billing_info table
       await client.execute(`
         CREATE TABLE IF NOT EXISTS user_billing_info (
@@ -166,6 +249,11 @@ class Database {
           account_number TEXT,
           signature_image TEXT,
           declaration TEXT,
+          iva_responsible INTEGER NOT NULL DEFAULT 0,
+          iva_rate REAL,
+          retefuente_rate REAL,
+          reteica_rate REAL,
+          social_security_note TEXT,
           created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
           updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
           FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE
@@ -184,6 +272,10 @@ class Database {
           contact_name TEXT,
           contact_phone TEXT,
           contact_email TEXT,
+          applies_retefuente INTEGER NOT NULL DEFAULT 0,
+          retefuente_rate REAL,
+          applies_reteica INTEGER NOT NULL DEFAULT 0,
+          reteica_rate REAL,
           created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
           updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
           FOREIGN KEY (company_id) REFERENCES companies (id) ON DELETE CASCADE
@@ -217,8 +309,20 @@ class Database {
           client_nit TEXT,
           client_address TEXT,
           client_city TEXT,
+          currency TEXT NOT NULL DEFAULT 'COP',
+          exchange_rate REAL NOT NULL DEFAULT 1,
           total_hours REAL NOT NULL DEFAULT 0,
           total_amount REAL NOT NULL DEFAULT 0,
+          iva_rate REAL NOT NULL DEFAULT 0,
+          iva_amount REAL NOT NULL DEFAULT 0,
+          gross_amount REAL,
+          retefuente_rate REAL NOT NULL DEFAULT 0,
+          retefuente_amount REAL NOT NULL DEFAULT 0,
+          reteica_rate REAL NOT NULL DEFAULT 0,
+          reteica_amount REAL NOT NULL DEFAULT 0,
+          total_deductions REAL NOT NULL DEFAULT 0,
+          net_amount REAL,
+          social_security_note TEXT,
           created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
           updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
           FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE,
@@ -232,6 +336,7 @@ class Database {
         CREATE TABLE IF NOT EXISTS invoice_items (
           id INTEGER PRIMARY KEY AUTOINCREMENT,
           invoice_id INTEGER NOT NULL,
+          item_type TEXT NOT NULL DEFAULT 'hours',
           concept TEXT NOT NULL,
           hours REAL NOT NULL,
           rate REAL NOT NULL,
@@ -242,6 +347,242 @@ class Database {
         )
       `);
 
+      await this.ensureInvoiceItemColumns();
+
+      // Create invoice_payments table
+      await client.execute(`
+        CREATE TABLE IF NOT EXISTS invoice_payments (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          invoice_id INTEGER NOT NULL,
+          date TEXT NOT NULL,
+          amount REAL NOT NULL,
+          method TEXT NOT NULL DEFAULT 'transfer',
+          reference TEXT,
+          notes TEXT,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (invoice_id) REFERENCES invoices (id) ON DELETE CASCADE
+        )
+      `);
+
+      // Create company_rates table (historial de tarifas, general o por proyecto)
+      await client.execute(`
+        CREATE TABLE IF NOT EXISTS company_rates (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          company_id INTEGER NOT NULL,
+          project_id INTEGER,
+          hourly_rate REAL NOT NULL,
+          effective_from TEXT NOT NULL,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (company_id) REFERENCES companies (id) ON DELETE CASCADE,
+          FOREIGN KEY (project_id) REFERENCES projects (id) ON DELETE CASCADE
+        )
+      `);
+
+      // Empresas sin historial: su tarifa actual pasa a ser la tarifa base de todas sus horas
+      await client.execute({
+        sql: `INSERT INTO company_rates (company_id, project_id, hourly_rate, effective_from)
+              SELECT id, NULL, hourly_rate, ? FROM companies
+              WHERE id NOT IN (SELECT company_id FROM company_rates WHERE project_id IS NULL)`,
+        args: [BASE_RATE_EFFECTIVE_FROM]
+      });
+
+      // Create exchange_rates table (tasas a COP registradas por el usuario)
+      await client.execute(`
+        CREATE TABLE IF NOT EXISTS exchange_rates (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          user_id INTEGER NOT NULL,
+          currency TEXT NOT NULL,
+          rate REAL NOT NULL,
+          effective_date TEXT NOT NULL,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE,
+          UNIQUE(user_id, currency, effective_date)
+        )
+      `);
+
+      // Create tags table (etiquetas del usuario) y su relación con las entradas
+      await client.execute(`
+        CREATE TABLE IF NOT EXISTS tags (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          user_id INTEGER NOT NULL,
+          name TEXT NOT NULL,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE,
+          UNIQUE(user_id, name)
+        )
+      `);
+
+      await client.execute(`
+        CREATE TABLE IF NOT EXISTS entry_tags (
+          entry_id INTEGER NOT NULL,
+          tag_id INTEGER NOT NULL,
+          PRIMARY KEY (entry_id, tag_id),
+          FOREIGN KEY (entry_id) REFERENCES hour_entries (id) ON DELETE CASCADE,
+          FOREIGN KEY (tag_id) REFERENCES tags (id) ON DELETE CASCADE
+        )
+      `);
+      await client.execute('CREATE INDEX IF NOT EXISTS idx_entry_tags_tag ON entry_tags (tag_id)');
+
+      // Historial de cambios de entradas agrupado por operación (lote)
+      await client.execute(`
+        CREATE TABLE IF NOT EXISTS entry_change_batches (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          user_id INTEGER NOT NULL,
+          source TEXT NOT NULL,
+          summary TEXT NOT NULL,
+          undone_at DATETIME,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE
+        )
+      `);
+
+      await client.execute(`
+        CREATE TABLE IF NOT EXISTS entry_changes (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          batch_id INTEGER NOT NULL,
+          entry_id INTEGER NOT NULL,
+          action TEXT NOT NULL CHECK (action IN ('create', 'update', 'delete')),
+          before_data TEXT,
+          after_data TEXT,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (batch_id) REFERENCES entry_change_batches (id) ON DELETE CASCADE
+        )
+      `);
+      await client.execute('CREATE INDEX IF NOT EXISTS idx_entry_changes_batch ON entry_changes (batch_id)');
+
+      // Días libres definidos por el usuario (se suman a los festivos nacionales)
+      await client.execute(`
+        CREATE TABLE IF NOT EXISTS user_days_off (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          user_id INTEGER NOT NULL,
+          date TEXT NOT NULL,
+          name TEXT NOT NULL,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE,
+          UNIQUE(user_id, date)
+        )
+      `);
+
+      // Tiempo libre (vacaciones, incapacidades, licencias); company_id NULL = todas las empresas
+      await client.execute(`
+        CREATE TABLE IF NOT EXISTS time_off (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          user_id INTEGER NOT NULL,
+          company_id INTEGER,
+          type TEXT NOT NULL,
+          start_date TEXT NOT NULL,
+          end_date TEXT NOT NULL,
+          paid_hours_per_day REAL,
+          notes TEXT,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE,
+          FOREIGN KEY (company_id) REFERENCES companies (id) ON DELETE CASCADE
+        )
+      `);
+
+      // Plantillas de horas recurrentes (weekdays: días ISO separados por coma, 0 = lunes)
+      await client.execute(`
+        CREATE TABLE IF NOT EXISTS entry_templates (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          user_id INTEGER NOT NULL,
+          company_id INTEGER NOT NULL,
+          project_id INTEGER,
+          weekdays TEXT NOT NULL,
+          interval_weeks INTEGER NOT NULL DEFAULT 1,
+          hours REAL NOT NULL,
+          description TEXT NOT NULL DEFAULT '',
+          start_date TEXT NOT NULL,
+          end_date TEXT,
+          active INTEGER NOT NULL DEFAULT 1,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE,
+          FOREIGN KEY (company_id) REFERENCES companies (id) ON DELETE CASCADE,
+          FOREIGN KEY (project_id) REFERENCES projects (id) ON DELETE SET NULL
+        )
+      `);
+
+      // Columnas de impuestos y retenciones en bases de datos existentes
+      await this.ensureColumns('user_billing_info', {
+        iva_responsible: 'INTEGER NOT NULL DEFAULT 0',
+        iva_rate: 'REAL',
+        retefuente_rate: 'REAL',
+        reteica_rate: 'REAL',
+        social_security_note: 'TEXT'
+      });
+      await this.ensureColumns('company_billing_info', {
+        applies_retefuente: 'INTEGER NOT NULL DEFAULT 0',
+        retefuente_rate: 'REAL',
+        applies_reteica: 'INTEGER NOT NULL DEFAULT 0',
+        reteica_rate: 'REAL'
+      });
+      await this.ensureColumns('invoices', {
+        iva_rate: 'REAL NOT NULL DEFAULT 0',
+        iva_amount: 'REAL NOT NULL DEFAULT 0',
+        gross_amount: 'REAL',
+        retefuente_rate: 'REAL NOT NULL DEFAULT 0',
+        retefuente_amount: 'REAL NOT NULL DEFAULT 0',
+        reteica_rate: 'REAL NOT NULL DEFAULT 0',
+        reteica_amount: 'REAL NOT NULL DEFAULT 0',
+        total_deductions: 'REAL NOT NULL DEFAULT 0',
+        net_amount: 'REAL',
+        social_security_note: 'TEXT'
+      });
+
+      // Moneda de la empresa y tasa de cambio de la cuenta
+      await this.ensureColumns('companies', {
+        currency: "TEXT NOT NULL DEFAULT 'COP'"
+      });
+      await this.ensureColumns('invoices', {
+        currency: "TEXT NOT NULL DEFAULT 'COP'",
+        exchange_rate: 'REAL NOT NULL DEFAULT 1'
+      });
+
+      // Horario opcional de las entradas
+      await this.ensureColumns('hour_entries', {
+        start_time: 'TEXT',
+        end_time: 'TEXT',
+        break_minutes: 'INTEGER NOT NULL DEFAULT 0'
+      });
+
+      // Horas facturables: por entrada, con valor por defecto en el proyecto
+      await this.ensureColumns('hour_entries', {
+        billable: 'INTEGER NOT NULL DEFAULT 1'
+      });
+      await this.ensureColumns('projects', {
+        billable_default: 'INTEGER NOT NULL DEFAULT 1'
+      });
+
+      // Línea de cuenta de cobro que facturó cada entrada
+      await this.ensureColumns('hour_entries', {
+        invoice_item_id: 'INTEGER'
+      });
+      await client.execute('CREATE INDEX IF NOT EXISTS idx_hour_entries_invoice_item ON hour_entries (invoice_item_id)');
+
+      // Papelera: fecha de eliminación en empresas, proyectos y entradas
+      for (const table of Object.values(TRASH_TABLES)) {
+        await this.ensureColumns(table, { deleted_at: 'DATETIME' });
+      }
+
+      // Zona horaria del usuario: define qué fecha es "hoy" para sus registros
+      await this.ensureColumns('users', {
+        timezone: `TEXT NOT NULL DEFAULT '${DEFAULT_TIME_ZONE}'`
+      });
+
+      // Migraciones de datos que corren una sola vez
+      await client.execute(`
+        CREATE TABLE IF NOT EXISTS schema_migrations (
+          name TEXT PRIMARY KEY,
+          applied_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        )
+      `);
+
+      // Los promedios por día de la semana pasan de 0 = domingo a la convención ISO (0 = lunes).
+      // Se suma 7 primero para no chocar con UNIQUE(weekday, ...) a mitad de la actualización
+      await this.runMigrationOnce('weekday_averages_iso', ['weekday_averages', 'project_weekday_averages'].flatMap(table => [
+        `UPDATE ${table} SET weekday = weekday + 7`,
+        `UPDATE ${table} SET weekday = (weekday - 7 + 6) % 7`
+      ]));
+
     } catch (error) {
       console.error('Database initialization error:', error);
       throw error;
@@ -275,12 +616,69 @@ class Database {
     }
   }
 
+  private async ensureInvoiceItemColumns(): Promise<void> {
+    try {
+      const client = this.getClient();
+      const result = await client.execute({ sql: "PRAGMA table_info('invoice_items')" });
+      const hasItemTypeColumn = result.rows.some((row: Record<string, unknown>) => {
+        const name = row.name;
+        return typeof name === 'string' && name === 'item_type';
+      });
+
+      if (!hasItemTypeColumn) {
+        await client.execute({
+          sql: "ALTER TABLE invoice_items ADD COLUMN item_type TEXT NOT NULL DEFAULT 'hours'"
+        });
+      }
+    } catch (error) {
+      console.error('Error ensuring item_type column on invoice_items:', error);
+      throw error;
+    }
+  }
+
+  // Ejecutar una migración de datos en una sola transacción y registrarla para no repetirla
+  private async runMigrationOnce(name: string, statements: string[]): Promise<void> {
+    try {
+      const client = this.getClient();
+      const applied = await client.execute({ sql: 'SELECT 1 FROM schema_migrations WHERE name = ?', args: [name] });
+      if (applied.rows.length > 0) return;
+
+      await client.batch([
+        ...statements,
+        { sql: 'INSERT INTO schema_migrations (name) VALUES (?)', args: [name] }
+      ], 'write');
+    } catch (error) {
+      console.error(`Error running migration ${name}:`, error);
+      throw error;
+    }
+  }
+
+  // Agregar columnas faltantes a una tabla existente (migración aditiva)
+  private async ensureColumns(table: string, columns: Record<string, string>): Promise<void> {
+    try {
+      const client = this.getClient();
+      const result = await client.execute({ sql: `PRAGMA table_info('${table}')` });
+      const existing = new Set(result.rows.map((row: Record<string, unknown>) => String(row.name)));
+
+      for (const [column, definition] of Object.entries(columns)) {
+        if (!existing.has(column)) {
+          await client.execute({
+            sql: `ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`
+          });
+        }
+      }
+    } catch (error) {
+      console.error(`Error ensuring columns on ${table}:`, error);
+      throw error;
+    }
+  }
+
   // User methods
-  async createUser(email: string, passwordHash: string, name: string): Promise<number> {
+  async createUser(email: string, passwordHash: string, name: string, timezone: string = DEFAULT_TIME_ZONE): Promise<number> {
     const client = this.getClient();
     const result = await client.execute({
-      sql: 'INSERT INTO users (email, password_hash, name) VALUES (?, ?, ?)',
-      args: [email, passwordHash, name]
+      sql: 'INSERT INTO users (email, password_hash, name, timezone) VALUES (?, ?, ?, ?)',
+      args: [email, passwordHash, name, timezone]
     });
     return Number(result.lastInsertRowid);
   }
@@ -300,6 +698,7 @@ class Database {
       email: String(row.email),
       password_hash: String(row.password_hash),
       name: String(row.name),
+      timezone: row.timezone ? String(row.timezone) : DEFAULT_TIME_ZONE,
       created_at: String(row.created_at)
     };
   }
@@ -319,286 +718,1415 @@ class Database {
       email: String(row.email),
       password_hash: String(row.password_hash),
       name: String(row.name),
+      timezone: row.timezone ? String(row.timezone) : DEFAULT_TIME_ZONE,
       created_at: String(row.created_at)
     };
   }
 
+  async getUserTimeZone(userId: number): Promise<string> {
+    const client = this.getClient();
+    const result = await client.execute({
+      sql: 'SELECT timezone FROM users WHERE id = ?',
+      args: [userId]
+    });
+    const timezone = result.rows[0]?.timezone;
+    return timezone ? String(timezone) : DEFAULT_TIME_ZONE;
+  }
+
+  async updateUserTimeZone(userId: number, timezone: string): Promise<void> {
+    const client = this.getClient();
+    await client.execute({
+      sql: 'UPDATE users SET timezone = ? WHERE id = ?',
+      args: [timezone, userId]
+    });
+  }
+
   // Company methods
-  async createCompany(name: string, hourlyRate: number, userId: number): Promise<number> {
+  async createCompany(name: string, hourlyRate: number, userId: number, billingCycleDay = 1, currency: CurrencyCode = 'COP'): Promise<number> {
     const client = this.getClient();
     const result = await client.execute({
-      sql: 'INSERT INTO companies (name, hourly_rate, user_id) VALUES (?, ?, ?)',
-      args: [name, hourlyRate, userId]
+      sql: 'INSERT INTO companies (name, hourly_rate, billing_cycle_day, currency, user_id) VALUES (?, ?, ?, ?, ?)',
+      args: [name, hourlyRate, billingCycleDay, currency, userId]
     });
-    return Number(result.lastInsertRowid);
+    const companyId = Number(result.lastInsertRowid);
+    await this.setCompanyRate(companyId, null, hourlyRate, BASE_RATE_EFFECTIVE_FROM);
+    return companyId;
   }
 
   async getUserCompanies(userId: number): Promise<Company[]> {
     const client = this.getClient();
     const result = await client.execute({
-      sql: 'SELECT * FROM companies WHERE user_id = ? ORDER BY created_at DESC',
+      sql: 'SELECT * FROM companies WHERE user_id = ? AND deleted_at IS NULL ORDER BY created_at DESC',
       args: [userId]
     });
     
-    return result.rows.map((row: Record<string, unknown>) => ({
-      id: Number(row.id),
-      name: String(row.name),
-      hourly_rate: Number(row.hourly_rate),
-      billing_cycle_day: Number(row.billing_cycle_day ?? 1),
-      user_id: Number(row.user_id),
-      created_at: String(row.created_at)
-    }));
+    return result.rows.map((row: Record<string, unknown>) => this.mapRowToCompany(row));
   }
 
   async getCompanyById(id: number): Promise<Company | null> {
     const client = this.getClient();
     const result = await client.execute({
-      sql: 'SELECT * FROM companies WHERE id = ?',
+      sql: 'SELECT * FROM companies WHERE id = ? AND deleted_at IS NULL',
       args: [id]
     });
     
     if (result.rows.length === 0) return null;
     
-    const row = result.rows[0] as Record<string, unknown>;
+    return this.mapRowToCompany(result.rows[0] as Record<string, unknown>);
+  }
+
+  private mapRowToCompany(row: Record<string, unknown>): Company {
     return {
       id: Number(row.id),
       name: String(row.name),
       hourly_rate: Number(row.hourly_rate),
       billing_cycle_day: Number(row.billing_cycle_day ?? 1),
+      currency: (row.currency ? String(row.currency) : 'COP') as CurrencyCode,
       user_id: Number(row.user_id),
-      created_at: String(row.created_at)
+      created_at: String(row.created_at),
+      deleted_at: row.deleted_at != null ? String(row.deleted_at) : null
     };
   }
 
-  async updateCompany(id: number, name: string, hourlyRate: number): Promise<void> {
+  async updateCompany(id: number, name: string, hourlyRate: number, billingCycleDay?: number, currency?: CurrencyCode): Promise<void> {
     const client = this.getClient();
-    await client.execute({
-      sql: 'UPDATE companies SET name = ?, hourly_rate = ? WHERE id = ?',
-      args: [name, hourlyRate, id]
-    });
-  }
+    const fields = ['name = ?', 'hourly_rate = ?'];
+    const args: (string | number)[] = [name, hourlyRate];
+
+    if (typeof billingCycleDay !== 'undefined') {
+      fields.push('billing_cycle_day = ?');
+      args.push(billingCycleDay);
+    }
+    if (typeof currency !== 'undefined') {
+      fields.push('currency = ?');
+      args.push(currency);
+    }
 
-  async deleteCompany(id: number): Promise<void> {
-    const client = this.getClient();
     await client.execute({
-      sql: 'DELETE FROM companies WHERE id = ?',
-      args: [id]
+      sql: `UPDATE companies SET ${fields.join(', ')} WHERE id = ?`,
+      args: [...args, id]
     });
   }
 
-  // Project methods
-  async createProject(name: string, companyId: number, userId: number): Promise<number> {
+  async getCompanyDeletionImpact(id: number): Promise<CompanyDeletionImpact> {
     const client = this.getClient();
     const result = await client.execute({
-      sql: 'INSERT INTO projects (name, company_id, user_id) VALUES (?, ?, ?)',
-      args: [name, companyId, userId]
+      sql: `SELECT
+              (SELECT COUNT(*) FROM hour_entries WHERE company_id = ? AND deleted_at IS NULL) as entries,
+              (SELECT COUNT(*) FROM projects WHERE company_id = ? AND deleted_at IS NULL) as projects,
+              (SELECT COUNT(*) FROM invoices WHERE company_id = ?) as invoices,
+              (SELECT COUNT(*) FROM weekday_averages WHERE company_id = ?) as weekday_averages`,
+      args: [id, id, id, id]
     });
-    return Number(result.lastInsertRowid);
+
+    const row = result.rows[0] as Record<string, unknown>;
+    return {
+      entries: Number(row?.entries ?? 0),
+      projects: Number(row?.projects ?? 0),
+      invoices: Number(row?.invoices ?? 0),
+      weekday_averages: Number(row?.weekday_averages ?? 0)
+    };
   }
 
-  async getProjectById(id: number): Promise<Project | null> {
+  // La empresa va a la papelera con todo lo suyo; purgeTrash la elimina definitivamente
+  async deleteCompany(id: number): Promise<void> {
     const client = this.getClient();
-    const result = await client.execute({
-      sql: 'SELECT * FROM projects WHERE id = ?',
+    await client.execute({
+      sql: 'UPDATE companies SET deleted_at = CURRENT_TIMESTAMP WHERE id = ?',
       args: [id]
     });
+  }
 
-    if (result.rows.length === 0) return null;
-
-    const row = result.rows[0] as Record<string, unknown>;
-    return {
-      id: Number(row.id),
-      name: String(row.name),
-      company_id: Number(row.company_id),
-      user_id: Number(row.user_id),
-      created_at: String(row.created_at)
-    };
+  private async purgeCompany(id: number): Promise<void> {
+    const client = this.getClient();
+    // Borrado explícito de dependientes: no dependemos de que PRAGMA foreign_keys esté activo
+    await client.batch([
+      { sql: 'DELETE FROM invoice_items WHERE invoice_id IN (SELECT id FROM invoices WHERE company_id = ?)', args: [id] },
+      { sql: 'DELETE FROM invoice_payments WHERE invoice_id IN (SELECT id FROM invoices WHERE company_id = ?)', args: [id] },
+      { sql: 'DELETE FROM invoices WHERE company_id = ?', args: [id] },
+      { sql: 'DELETE FROM time_sessions WHERE company_id = ?', args: [id] },
+      { sql: 'DELETE FROM entry_templates WHERE company_id = ?', args: [id] },
+      { sql: 'DELETE FROM time_off WHERE company_id = ?', args: [id] },
+      { sql: 'DELETE FROM entry_tags WHERE entry_id IN (SELECT id FROM hour_entries WHERE company_id = ?)', args: [id] },
+      { sql: 'DELETE FROM hour_entries WHERE company_id = ?', args: [id] },
+      { sql: 'DELETE FROM weekday_averages WHERE company_id = ?', args: [id] },
+      { sql: 'DELETE FROM project_weekday_averages WHERE company_id = ?', args: [id] },
+      { sql: 'DELETE FROM company_billing_info WHERE company_id = ?', args: [id] },
+      { sql: 'DELETE FROM company_rates WHERE company_id = ?', args: [id] },
+      { sql: 'DELETE FROM projects WHERE company_id = ?', args: [id] },
+      { sql: 'DELETE FROM companies WHERE id = ?', args: [id] }
+    ], 'write');
   }
 
-  async getCompanyProjects(companyId: number): Promise<Project[]> {
+  // Company rate history methods
+  async getCompanyRates(companyId: number): Promise<CompanyRate[]> {
     const client = this.getClient();
     const result = await client.execute({
-      sql: 'SELECT * FROM projects WHERE company_id = ? ORDER BY created_at DESC',
+      sql: 'SELECT * FROM company_rates WHERE company_id = ? ORDER BY effective_from ASC, id ASC',
       args: [companyId]
     });
-
-    return result.rows.map((row: Record<string, unknown>) => ({
-      id: Number(row.id),
-      name: String(row.name),
-      company_id: Number(row.company_id),
-      user_id: Number(row.user_id),
-      created_at: String(row.created_at)
-    }));
+    return result.rows.map((row: Record<string, unknown>) => this.mapRowToCompanyRate(row));
   }
 
-  async getUserProjects(userId: number): Promise<Project[]> {
+  async getUserCompanyRates(userId: number): Promise<CompanyRate[]> {
     const client = this.getClient();
     const result = await client.execute({
-      sql: 'SELECT * FROM projects WHERE user_id = ? ORDER BY created_at DESC',
+      sql: `SELECT company_rates.* FROM company_rates
+            JOIN companies ON companies.id = company_rates.company_id
+            WHERE companies.user_id = ? AND companies.deleted_at IS NULL
+            ORDER BY company_rates.effective_from ASC, company_rates.id ASC`,
       args: [userId]
     });
-
-    return result.rows.map((row: Record<string, unknown>) => ({
-      id: Number(row.id),
-      name: String(row.name),
-      company_id: Number(row.company_id),
-      user_id: Number(row.user_id),
-      created_at: String(row.created_at)
-    }));
+    return result.rows.map((row: Record<string, unknown>) => this.mapRowToCompanyRate(row));
   }
 
-  async updateProject(id: number, name: string): Promise<void> {
+  async getCompanyRateById(id: number): Promise<CompanyRate | null> {
     const client = this.getClient();
-    await client.execute({
-      sql: 'UPDATE projects SET name = ? WHERE id = ?',
-      args: [name, id]
+    const result = await client.execute({
+      sql: 'SELECT * FROM company_rates WHERE id = ?',
+      args: [id]
     });
+
+    if (result.rows.length === 0) return null;
+    return this.mapRowToCompanyRate(result.rows[0] as Record<string, unknown>);
   }
 
-  async deleteProject(id: number): Promise<void> {
+  // Una tarifa por alcance (empresa o proyecto) y fecha: registrar la misma fecha la reemplaza
+  async setCompanyRate(companyId: number, projectId: number | null, hourlyRate: number, effectiveFrom: string): Promise<number> {
     const client = this.getClient();
-    await client.execute({
-      sql: 'DELETE FROM projects WHERE id = ?',
-      args: [id]
+    const existing = await client.execute({
+      sql: 'SELECT id FROM company_rates WHERE company_id = ? AND project_id IS ? AND effective_from = ?',
+      args: [companyId, projectId, effectiveFrom]
     });
-  }
 
-  // Hour entries methods
-  async addEntry(date: string, hours: number, description: string, companyId: number, projectId?: number | null): Promise<number> {
-    const client = this.getClient();
+    if (existing.rows.length > 0) {
+      const id = Number((existing.rows[0] as Record<string, unknown>).id);
+      await client.execute({
+        sql: 'UPDATE company_rates SET hourly_rate = ? WHERE id = ?',
+        args: [hourlyRate, id]
+      });
+      return id;
+    }
+
+    const result = await client.execute({
+      sql: 'INSERT INTO company_rates (company_id, project_id, hourly_rate, effective_from) VALUES (?, ?, ?, ?)',
+      args: [companyId, projectId, hourlyRate, effectiveFrom]
+    });
+    return Number(result.lastInsertRowid);
+  }
+
+  async deleteCompanyRate(id: number): Promise<void> {
+    const client = this.getClient();
+    await client.execute({
+      sql: 'DELETE FROM company_rates WHERE id = ?',
+      args: [id]
+    });
+  }
+
+  // companies.hourly_rate refleja la tarifa general vigente hoy (la usan formularios y líneas manuales)
+  async syncCompanyCurrentRate(companyId: number, today: string): Promise<void> {
+    const client = this.getClient();
+    await client.execute({
+      sql: `UPDATE companies SET hourly_rate = COALESCE((
+              SELECT hourly_rate FROM company_rates
+              WHERE company_id = ? AND project_id IS NULL AND effective_from <= ?
+              ORDER BY effective_from DESC LIMIT 1
+            ), hourly_rate)
+            WHERE id = ?`,
+      args: [companyId, today, companyId]
+    });
+  }
+
+  private mapRowToCompanyRate(row: Record<string, unknown>): CompanyRate {
+    return {
+      id: Number(row.id),
+      company_id: Number(row.company_id),
+      project_id: row.project_id != null ? Number(row.project_id) : null,
+      hourly_rate: Number(row.hourly_rate),
+      effective_from: String(row.effective_from),
+      created_at: row.created_at ? String(row.created_at) : undefined
+    };
+  }
+
+  // Exchange rate methods
+  async getUserExchangeRates(userId: number, currency?: CurrencyCode): Promise<ExchangeRate[]> {
+    const client = this.getClient();
+    const result = currency
+      ? await client.execute({
+          sql: 'SELECT * FROM exchange_rates WHERE user_id = ? AND currency = ? ORDER BY effective_date ASC',
+          args: [userId, currency]
+        })
+      : await client.execute({
+          sql: 'SELECT * FROM exchange_rates WHERE user_id = ? ORDER BY currency ASC, effective_date ASC',
+          args: [userId]
+        });
+
+    return result.rows.map((row: Record<string, unknown>) => this.mapRowToExchangeRate(row));
+  }
+
+  async getExchangeRateById(id: number): Promise<ExchangeRate | null> {
+    const client = this.getClient();
+    const result = await client.execute({
+      sql: 'SELECT * FROM exchange_rates WHERE id = ?',
+      args: [id]
+    });
+
+    if (result.rows.length === 0) return null;
+    return this.mapRowToExchangeRate(result.rows[0] as Record<string, unknown>);
+  }
+
+  // Tasa vigente en la fecha: la última registrada en o antes de ese día
+  async getExchangeRateForDate(userId: number, currency: CurrencyCode, date: string): Promise<ExchangeRate | null> {
+    const client = this.getClient();
+    const result = await client.execute({
+      sql: `SELECT * FROM exchange_rates
+            WHERE user_id = ? AND currency = ? AND effective_date <= ?
+            ORDER BY effective_date DESC
+            LIMIT 1`,
+      args: [userId, currency, date]
+    });
+
+    if (result.rows.length === 0) return null;
+    return this.mapRowToExchangeRate(result.rows[0] as Record<string, unknown>);
+  }
+
+  // Una tasa por moneda y día: registrar de nuevo la misma fecha la reemplaza
+  async upsertExchangeRate(userId: number, currency: CurrencyCode, rate: number, effectiveDate: string): Promise<number> {
+    const client = this.getClient();
+    await client.execute({
+      sql: `INSERT INTO exchange_rates (user_id, currency, rate, effective_date)
+            VALUES (?, ?, ?, ?)
+            ON CONFLICT(user_id, currency, effective_date) DO UPDATE SET rate = excluded.rate`,
+      args: [userId, currency, rate, effectiveDate]
+    });
+
+    const result = await client.execute({
+      sql: 'SELECT id FROM exchange_rates WHERE user_id = ? AND currency = ? AND effective_date = ?',
+      args: [userId, currency, effectiveDate]
+    });
+    return Number((result.rows[0] as Record<string, unknown>).id);
+  }
+
+  async deleteExchangeRate(id: number): Promise<void> {
+    const client = this.getClient();
+    await client.execute({
+      sql: 'DELETE FROM exchange_rates WHERE id = ?',
+      args: [id]
+    });
+  }
+
+  private mapRowToExchangeRate(row: Record<string, unknown>): ExchangeRate {
+    return {
+      id: Number(row.id),
+      user_id: Number(row.user_id),
+      currency: String(row.currency) as CurrencyCode,
+      rate: Number(row.rate),
+      effective_date: String(row.effective_date),
+      created_at: row.created_at ? String(row.created_at) : undefined
+    };
+  }
+
+  // Project methods
+  // El nombre es único por empresa: si hay un proyecto con ese nombre en la papelera se restaura
+  async createProject(name: string, companyId: number, userId: number): Promise<number> {
+    const client = this.getClient();
+    const trashed = await client.execute({
+      sql: 'SELECT id FROM projects WHERE company_id = ? AND name = ? AND deleted_at IS NOT NULL',
+      args: [companyId, name]
+    });
+    if (trashed.rows.length > 0) {
+      const trashedId = Number(trashed.rows[0].id);
+      await this.restoreTrashItem('project', trashedId);
+      return trashedId;
+    }
+
+    const result = await client.execute({
+      sql: 'INSERT INTO projects (name, company_id, user_id) VALUES (?, ?, ?)',
+      args: [name, companyId, userId]
+    });
+    return Number(result.lastInsertRowid);
+  }
+
+  async getProjectById(id: number): Promise<Project | null> {
+    const client = this.getClient();
+    const result = await client.execute({
+      sql: 'SELECT * FROM projects WHERE id = ? AND deleted_at IS NULL',
+      args: [id]
+    });
+
+    if (result.rows.length === 0) return null;
+
+    return this.mapRowToProject(result.rows[0] as Record<string, unknown>);
+  }
+
+  async getCompanyProjects(companyId: number): Promise<Project[]> {
+    const client = this.getClient();
+    const result = await client.execute({
+      sql: 'SELECT * FROM projects WHERE company_id = ? AND deleted_at IS NULL ORDER BY created_at DESC',
+      args: [companyId]
+    });
+
+    return result.rows.map((row: Record<string, unknown>) => this.mapRowToProject(row));
+  }
+
+  async getUserProjects(userId: number): Promise<Project[]> {
+    const client = this.getClient();
+    const result = await client.execute({
+      sql: 'SELECT * FROM projects WHERE user_id = ? AND deleted_at IS NULL ORDER BY created_at DESC',
+      args: [userId]
+    });
+
+    return result.rows.map((row: Record<string, unknown>) => this.mapRowToProject(row));
+  }
+
+  async updateProject(id: number, name: string, billableDefault?: boolean): Promise<void> {
+    const client = this.getClient();
+    if (billableDefault === undefined) {
+      await client.execute({
+        sql: 'UPDATE projects SET name = ? WHERE id = ?',
+        args: [name, id]
+      });
+      return;
+    }
+
+    await client.execute({
+      sql: 'UPDATE projects SET name = ?, billable_default = ? WHERE id = ?',
+      args: [name, billableDefault ? 1 : 0, id]
+    });
+  }
+
+  private mapRowToProject(row: Record<string, unknown>): Project {
+    return {
+      id: Number(row.id),
+      name: String(row.name),
+      company_id: Number(row.company_id),
+      user_id: Number(row.user_id),
+      billable_default: row.billable_default == null || Number(row.billable_default) === 1,
+      created_at: String(row.created_at),
+      deleted_at: row.deleted_at != null ? String(row.deleted_at) : null
+    };
+  }
+
+  // includeDeleted también encuentra proyectos en la papelera (el nombre sigue ocupado)
+  async getProjectByName(companyId: number, name: string, includeDeleted = false): Promise<Project | null> {
+    const client = this.getClient();
+    const result = await client.execute({
+      sql: `SELECT * FROM projects WHERE company_id = ? AND name = ?${includeDeleted ? '' : ' AND deleted_at IS NULL'}`,
+      args: [companyId, name]
+    });
+
+    if (result.rows.length === 0) return null;
+
+    return this.mapRowToProject(result.rows[0] as Record<string, unknown>);
+  }
+
+  async getProjectDeletionImpact(id: number): Promise<ProjectDeletionImpact> {
+    const client = this.getClient();
+    const result = await client.execute({
+      sql: `SELECT
+              (SELECT COUNT(*) FROM hour_entries WHERE project_id = ? AND deleted_at IS NULL) as entries,
+              (SELECT COUNT(*) FROM invoice_items WHERE project_id = ?) as invoice_items`,
+      args: [id, id]
+    });
+
+    const row = result.rows[0] as Record<string, unknown>;
+    return {
+      entries: Number(row?.entries ?? 0),
+      invoice_items: Number(row?.invoice_items ?? 0)
+    };
+  }
+
+  // El proyecto va a la papelera; sus horas lo conservan asignado hasta que se purga
+  async deleteProject(id: number): Promise<void> {
+    const client = this.getClient();
+    await client.execute({
+      sql: 'UPDATE projects SET deleted_at = CURRENT_TIMESTAMP WHERE id = ?',
+      args: [id]
+    });
+  }
+
+  private async purgeProject(id: number): Promise<void> {
+    const client = this.getClient();
+    // Las horas y líneas de cuentas de cobro se conservan sin proyecto asignado
+    await client.batch([
+      { sql: 'UPDATE hour_entries SET project_id = NULL WHERE project_id = ?', args: [id] },
+      { sql: 'UPDATE invoice_items SET project_id = NULL WHERE project_id = ?', args: [id] },
+      { sql: 'UPDATE time_sessions SET project_id = NULL WHERE project_id = ?', args: [id] },
+      // Una plantilla sin su proyecto generaría horas en otro lugar: queda inactiva
+      { sql: 'UPDATE entry_templates SET project_id = NULL, active = 0 WHERE project_id = ?', args: [id] },
+      { sql: 'DELETE FROM project_weekday_averages WHERE project_id = ?', args: [id] },
+      { sql: 'DELETE FROM company_rates WHERE project_id = ?', args: [id] },
+      { sql: 'DELETE FROM projects WHERE id = ?', args: [id] }
+    ], 'write');
+  }
+
+  // Hour entries methods
+  // Sin `billable` explícito la entrada toma el valor por defecto de su proyecto (facturable si no tiene)
+  // Con changeBatchId el cambio queda en el historial (igual en los demás métodos que modifican entradas)
+  async addEntry(date: string, hours: number, description: string, companyId: number, projectId?: number | null, times: EntryTimes = EMPTY_ENTRY_TIMES, billable?: boolean, changeBatchId?: number | null): Promise<number> {
+    const client = this.getClient();
+    const result = await client.execute(this.insertEntryStatement(date, hours, description, companyId, projectId, times, billable));
+    const entryId = Number(result.lastInsertRowid);
+    if (changeBatchId) await this.recordEntryChanges(changeBatchId, [], [entryId]);
+    return entryId;
+  }
+
+  // Primera entrada del día; un día puede tener varias, para operar sobre todas usa getEntriesForDay
+  async getEntryByDate(companyId: number, date: string, projectId?: number | null): Promise<HourEntry | null> {
+    let sql = `${ENTRY_SELECT_SQL} WHERE date = ? AND company_id = ?`;
+    const args: Array<string | number | null> = [date, companyId];
+
+    if (typeof projectId === 'number') {
+      sql += ' AND project_id = ?';
+      args.push(projectId);
+    } else if (projectId === null) {
+      sql += ' AND project_id IS NULL';
+    }
+
+    const client = this.getClient();
+    const result = await client.execute({ sql, args });
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return this.mapRowToHourEntry(result.rows[0] as Record<string, unknown>);
+  }
+
+  // Todas las entradas de un día (del proyecto indicado, sin proyecto con null, o de todos con undefined)
+  async getEntriesForDay(companyId: number, date: string, projectId?: number | null): Promise<HourEntry[]> {
+    let sql = `${ENTRY_SELECT_SQL} WHERE date = ? AND company_id = ?`;
+    const args: Array<string | number | null> = [date, companyId];
+
+    if (typeof projectId === 'number') {
+      sql += ' AND project_id = ?';
+      args.push(projectId);
+    } else if (projectId === null) {
+      sql += ' AND project_id IS NULL';
+    }
+
+    const client = this.getClient();
+    const result = await client.execute({ sql: sql + ' ORDER BY id ASC', args });
+    return result.rows.map((row: Record<string, unknown>) => this.mapRowToHourEntry(row));
+  }
+
+  // Dejar un día en una sola entrada: se actualiza la primera y las demás van a la papelera en la misma transacción
+  // Sin horario explícito se conserva el de la entrada solo si era la única y sus horas no cambian
+  async replaceDayEntries(dayEntries: HourEntry[], hours: number, description: string, times?: EntryTimes, billable?: boolean, changeBatchId?: number | null): Promise<number> {
+    const client = this.getClient();
+
+    await client.batch(this.replaceDayStatements(dayEntries, hours, description, times, billable), 'write');
+    if (changeBatchId) await this.recordEntryChanges(changeBatchId, dayEntries, []);
+    return dayEntries[0].id!;
+  }
+
+  private insertEntryStatement(date: string, hours: number, description: string, companyId: number, projectId?: number | null, times: EntryTimes = EMPTY_ENTRY_TIMES, billable?: boolean): InStatement {
+    return {
+      sql: `INSERT INTO hour_entries (date, hours, description, company_id, project_id, start_time, end_time, break_minutes, billable)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, COALESCE(?, (SELECT billable_default FROM projects WHERE id = ?), 1))`,
+      args: [date, hours, description, companyId, projectId ?? null, times.start_time, times.end_time, times.break_minutes, billable === undefined ? null : billable ? 1 : 0, projectId ?? null]
+    };
+  }
+
+  private replaceDayStatements(dayEntries: HourEntry[], hours: number, description: string, times?: EntryTimes, billable?: boolean): InStatement[] {
+    const [first, ...rest] = dayEntries;
+    const keepTimes = rest.length === 0 && first.hours === hours;
+    const nextTimes = times ?? (keepTimes
+      ? { start_time: first.start_time ?? null, end_time: first.end_time ?? null, break_minutes: first.break_minutes ?? 0 }
+      : EMPTY_ENTRY_TIMES);
+    const invoiceItemId = dayEntries.find(entry => entry.invoice_item_id != null)?.invoice_item_id ?? null;
+
+    // Las etiquetas y la línea facturada de las entradas reemplazadas pasan a la que queda. Las reemplazadas
+    // van a la papelera como en deleteEntry (conservan sus etiquetas para restaurarlas)
+    return [
+      ...rest.flatMap(entry => [
+        {
+          sql: 'INSERT OR IGNORE INTO entry_tags (entry_id, tag_id) SELECT ?, tag_id FROM entry_tags WHERE entry_id = ?',
+          args: [first.id!, entry.id!]
+        },
+        { sql: 'UPDATE hour_entries SET deleted_at = CURRENT_TIMESTAMP WHERE id = ?', args: [entry.id!] }
+      ]),
+      {
+        sql: 'UPDATE hour_entries SET hours = ?, description = ?, start_time = ?, end_time = ?, break_minutes = ?, billable = COALESCE(?, billable), invoice_item_id = COALESCE(invoice_item_id, ?) WHERE id = ?',
+        args: [hours, description, nextTimes.start_time, nextTimes.end_time, nextTimes.break_minutes, billable === undefined ? null : billable ? 1 : 0, invoiceItemId, first.id!]
+      }
+    ];
+  }
+
+  // Aplica los días planificados de una carga masiva en una sola transacción, junto con su registro en el
+  // historial: si algo falla se revierte todo y no queda ningún día a medias
+  async applyDayWrites(writes: DayWrite[], changeBatchId?: number | null): Promise<number[]> {
+    if (writes.length === 0) return [];
+
+    const statements: InStatement[] = [];
+    const insertIndexes: number[] = [];
+    for (const write of writes) {
+      if (write.action === 'replace') {
+        statements.push(...this.replaceDayStatements(write.day_entries, write.hours, write.description));
+      } else {
+        insertIndexes.push(statements.length);
+        statements.push(this.insertEntryStatement(write.date, write.hours, write.description, write.company_id, write.project_id));
+      }
+    }
+
+    const transaction = await this.getClient().transaction('write');
+    try {
+      const results = await transaction.batch(statements);
+      const createdIds = insertIndexes.map(index => Number(results[index].lastInsertRowid));
+      if (changeBatchId) {
+        const replaced = writes.flatMap(write => write.action === 'replace' ? write.day_entries : []);
+        await this.recordEntryChanges(changeBatchId, replaced, createdIds, transaction);
+      }
+      await transaction.commit();
+      return createdIds;
+    } catch (error) {
+      if (!transaction.closed) await transaction.rollback();
+      throw error;
+    } finally {
+      transaction.close();
+    }
+  }
+
+  // Unir las entradas de un día en una: suma de horas y descripciones combinadas
+  async mergeDayEntries(companyId: number, date: string, projectId: number | null, changeBatchId?: number | null): Promise<HourEntry | null> {
+    const dayEntries = await this.getEntriesForDay(companyId, date, projectId);
+    if (dayEntries.length === 0) return null;
+    if (dayEntries.length === 1) return dayEntries[0];
+
+    const mergedId = await this.replaceDayEntries(dayEntries, sumEntryHours(dayEntries), mergeEntryDescriptions(dayEntries), undefined, undefined, changeBatchId);
+    return this.getEntryById(mergedId);
+  }
+
+  // Dividir una entrada: la primera parte queda en la entrada original y las demás se crean en el mismo día.
+  // Solo entradas sin horario (la ruta rechaza las que tienen entrada y salida)
+  async splitEntry(entry: HourEntry, parts: Array<{ hours: number; description: string; project_id: number | null }>, changeBatchId?: number | null): Promise<number[]> {
+    const [first, ...rest] = parts;
+    const client = this.getClient();
+
+    const results = await client.batch([
+      {
+        sql: 'UPDATE hour_entries SET hours = ?, description = ?, project_id = ? WHERE id = ?',
+        args: [first.hours, first.description, first.project_id, entry.id!]
+      },
+      ...rest.map(part => ({
+        sql: 'INSERT INTO hour_entries (date, hours, description, company_id, project_id, billable, invoice_item_id) VALUES (?, ?, ?, ?, ?, ?, ?)',
+        args: [entry.date, part.hours, part.description, entry.company_id, part.project_id, entry.billable === false ? 0 : 1, entry.invoice_item_id ?? null]
+      }))
+    ], 'write');
+
+    // Las partes nuevas conservan las etiquetas (y la facturación) de la entrada original
+    const newIds = results.slice(1).map(result => Number(result.lastInsertRowid));
+    if (newIds.length > 0) {
+      await client.batch(newIds.map(newId => ({
+        sql: 'INSERT OR IGNORE INTO entry_tags (entry_id, tag_id) SELECT ?, tag_id FROM entry_tags WHERE entry_id = ?',
+        args: [newId, entry.id!]
+      })), 'write');
+    }
+
+    if (changeBatchId) await this.recordEntryChanges(changeBatchId, [entry], newIds);
+    return [entry.id!, ...newIds];
+  }
+
+  async getEntryById(id: number): Promise<HourEntry | null> {
+    const client = this.getClient();
+    const result = await client.execute({
+      sql: `${ENTRY_SELECT_SQL} WHERE id = ?`,
+      args: [id]
+    });
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return this.mapRowToHourEntry(result.rows[0] as Record<string, unknown>);
+  }
+
+  async getEntries(companyId: number): Promise<HourEntry[]> {
+    const client = this.getClient();
+    const result = await client.execute({
+      sql: `${ENTRY_SELECT_SQL} WHERE company_id = ? ORDER BY date DESC, id DESC`,
+      args: [companyId]
+    });
+    
+    return result.rows.map((row: Record<string, unknown>) => this.mapRowToHourEntry(row));
+  }
+
+  async getEntriesByDateRange(companyId: number, startDate: string, endDate: string): Promise<HourEntry[]> {
+    const client = this.getClient();
+    const result = await client.execute({
+      sql: `${ENTRY_SELECT_SQL} WHERE company_id = ? AND date >= ? AND date <= ? ORDER BY date ASC, id ASC`,
+      args: [companyId, startDate, endDate]
+    });
+    
+    return result.rows.map((row: Record<string, unknown>) => this.mapRowToHourEntry(row));
+  }
+
+  // Sin horario explícito se conserva el existente solo si las horas no cambian; sin `billable` se conserva el actual
+  async updateEntry(id: number, date: string, hours: number, description: string, projectId?: number | null, times?: EntryTimes, billable?: boolean, changeBatchId?: number | null): Promise<void> {
+    const client = this.getClient();
+    const before = changeBatchId ? await this.getEntriesByIds([id]) : [];
+    const timesSql = (times
+      ? 'start_time = ?, end_time = ?, break_minutes = ?'
+      : 'start_time = CASE WHEN hours = ? THEN start_time END, end_time = CASE WHEN hours = ? THEN end_time END, break_minutes = CASE WHEN hours = ? THEN break_minutes ELSE 0 END'
+    ) + (billable === undefined ? '' : ', billable = ?');
+    const timesArgs = [
+      ...(times ? [times.start_time, times.end_time, times.break_minutes] : [hours, hours, hours]),
+      ...(billable === undefined ? [] : [billable ? 1 : 0])
+    ];
+
+    if (typeof projectId === 'undefined') {
+      await client.execute({
+        sql: `UPDATE hour_entries SET ${timesSql}, date = ?, hours = ?, description = ? WHERE id = ?`,
+        args: [...timesArgs, date, hours, description, id]
+      });
+    } else {
+      await client.execute({
+        sql: `UPDATE hour_entries SET ${timesSql}, date = ?, hours = ?, description = ?, project_id = ? WHERE id = ?`,
+        args: [...timesArgs, date, hours, description, projectId ?? null, id]
+      });
+    }
+
+    if (changeBatchId) await this.recordEntryChanges(changeBatchId, before, [id]);
+  }
+
+  // Entradas de un día en todas las empresas del usuario (para validar cruces de horario)
+  async getUserEntriesByDate(userId: number, date: string): Promise<HourEntry[]> {
+    const client = this.getClient();
+    const result = await client.execute({
+      sql: `SELECT e.* FROM hour_entries e
+            JOIN companies c ON c.id = e.company_id
+            WHERE c.user_id = ? AND e.date = ? AND e.deleted_at IS NULL AND c.deleted_at IS NULL
+            ORDER BY e.start_time ASC, e.id ASC`,
+      args: [userId, date]
+    });
+
+    return result.rows.map((row: Record<string, unknown>) => this.mapRowToHourEntry(row));
+  }
+
+  private mapRowToHourEntry(row: Record<string, unknown>): HourEntry {
+    return {
+      id: Number(row.id),
+      date: String(row.date),
+      hours: Number(row.hours),
+      description: String(row.description ?? ''),
+      company_id: Number(row.company_id),
+      project_id: row.project_id != null ? Number(row.project_id) : null,
+      start_time: row.start_time != null ? String(row.start_time) : null,
+      end_time: row.end_time != null ? String(row.end_time) : null,
+      break_minutes: Number(row.break_minutes ?? 0),
+      billable: row.billable == null || Number(row.billable) === 1,
+      tags: row.tag_names != null ? String(row.tag_names).split(',').sort() : [],
+      invoice_item_id: row.invoice_item_id != null ? Number(row.invoice_item_id) : null,
+      invoice_id: row.linked_invoice_id != null ? Number(row.linked_invoice_id) : null,
+      invoice_number: row.linked_invoice_number != null ? String(row.linked_invoice_number) : null,
+      invoice_status: row.linked_invoice_status != null ? row.linked_invoice_status as InvoiceStatus : null,
+      created_at: row.created_at != null ? String(row.created_at) : undefined,
+      deleted_at: row.deleted_at != null ? String(row.deleted_at) : null,
+    };
+  }
+
+  // La entrada va a la papelera (conserva sus etiquetas para restaurarla)
+  async deleteEntry(id: number, changeBatchId?: number | null): Promise<void> {
+    const client = this.getClient();
+    const before = changeBatchId ? await this.getEntriesByIds([id]) : [];
+    await client.execute({
+      sql: 'UPDATE hour_entries SET deleted_at = CURRENT_TIMESTAMP WHERE id = ?',
+      args: [id]
+    });
+    if (changeBatchId) await this.recordEntryChanges(changeBatchId, before, []);
+  }
+
+  private async purgeEntry(id: number): Promise<void> {
+    const client = this.getClient();
+    await client.batch([
+      { sql: 'DELETE FROM entry_tags WHERE entry_id = ?', args: [id] },
+      { sql: 'DELETE FROM hour_entries WHERE id = ?', args: [id] }
+    ], 'write');
+  }
+
+  // Trash methods
+  // Elementos en la papelera del usuario. Las entradas y proyectos de una empresa en la papelera
+  // no se listan aparte: vuelven con ella
+  async getUserTrash(userId: number): Promise<{ companies: Company[]; projects: Project[]; entries: HourEntry[] }> {
+    const client = this.getClient();
+    const [companies, projects, entries] = await Promise.all([
+      client.execute({
+        sql: 'SELECT * FROM companies WHERE user_id = ? AND deleted_at IS NOT NULL ORDER BY deleted_at DESC',
+        args: [userId]
+      }),
+      client.execute({
+        sql: `SELECT * FROM projects
+              WHERE user_id = ? AND deleted_at IS NOT NULL
+                AND company_id IN (SELECT id FROM companies WHERE deleted_at IS NULL)
+              ORDER BY deleted_at DESC`,
+        args: [userId]
+      }),
+      client.execute({
+        sql: `${DELETED_ENTRY_SELECT_SQL}
+              WHERE company_id IN (SELECT id FROM companies WHERE user_id = ? AND deleted_at IS NULL)
+              ORDER BY deleted_at DESC, id DESC`,
+        args: [userId]
+      })
+    ]);
+
+    return {
+      companies: companies.rows.map((row: Record<string, unknown>) => this.mapRowToCompany(row)),
+      projects: projects.rows.map((row: Record<string, unknown>) => this.mapRowToProject(row)),
+      entries: entries.rows.map((row: Record<string, unknown>) => this.mapRowToHourEntry(row))
+    };
+  }
+
+  async restoreTrashItem(type: TrashItemType, id: number): Promise<void> {
+    const client = this.getClient();
+    await client.execute({
+      sql: `UPDATE ${TRASH_TABLES[type]} SET deleted_at = NULL WHERE id = ?`,
+      args: [id]
+    });
+  }
+
+  // Eliminar definitivamente lo que lleva más de retentionDays en la papelera (0 = todo).
+  // Sin userId purga la papelera de todos los usuarios. Devuelve cuántos elementos se eliminaron.
+  async purgeTrash(retentionDays: number, userId?: number): Promise<number> {
+    const client = this.getClient();
+    const cutoff = `-${Math.max(0, Math.floor(retentionDays))} days`;
+    const userFilter = userId === undefined ? '' : ' AND company_id IN (SELECT id FROM companies WHERE user_id = ?)';
+    const userArgs = userId === undefined ? [] : [userId];
+
+    const expired = async (table: string, filter: string) => {
+      const result = await client.execute({
+        sql: `SELECT id FROM ${table} WHERE deleted_at IS NOT NULL AND deleted_at <= datetime('now', ?)${filter}`,
+        args: [cutoff, ...userArgs]
+      });
+      return result.rows.map(row => Number(row.id));
+    };
+
+    const entryIds = await expired('hour_entries', userFilter);
+    const projectIds = await expired('projects', userId === undefined ? '' : ' AND user_id = ?');
+    const companyIds = await expired('companies', userId === undefined ? '' : ' AND user_id = ?');
+
+    for (const id of entryIds) await this.purgeEntry(id);
+    for (const id of projectIds) await this.purgeProject(id);
+    for (const id of companyIds) await this.purgeCompany(id);
+
+    return entryIds.length + projectIds.length + companyIds.length;
+  }
+
+  async getEntriesByIds(ids: number[], executor: SqlExecutor = this.getClient()): Promise<HourEntry[]> {
+    if (ids.length === 0) return [];
+    const result = await executor.execute({
+      sql: `${ENTRY_SELECT_SQL} WHERE id IN (${ids.map(() => '?').join(', ')}) ORDER BY id ASC`,
+      args: ids
+    });
+
+    return result.rows.map((row: Record<string, unknown>) => this.mapRowToHourEntry(row));
+  }
+
+  // Entry change history methods
+  async createChangeBatch(userId: number, source: EntryChangeSource, summary: string): Promise<number> {
+    const client = this.getClient();
+    const result = await client.execute({
+      sql: 'INSERT INTO entry_change_batches (user_id, source, summary) VALUES (?, ?, ?)',
+      args: [userId, source, summary]
+    });
+    return Number(result.lastInsertRowid);
+  }
+
+  // Lotes recientes con cambios (los que no tocaron ninguna entrada no se listan)
+  async getUserChangeBatches(userId: number, limit = 20): Promise<EntryChangeBatch[]> {
+    const client = this.getClient();
+    const result = await client.execute({
+      sql: `SELECT b.*, (SELECT COUNT(*) FROM entry_changes c WHERE c.batch_id = b.id) as change_count
+            FROM entry_change_batches b
+            WHERE b.user_id = ? AND EXISTS (SELECT 1 FROM entry_changes c WHERE c.batch_id = b.id)
+            ORDER BY b.id DESC
+            LIMIT ?`,
+      args: [userId, limit]
+    });
+
+    return result.rows.map((row: Record<string, unknown>) => this.mapRowToChangeBatch(row));
+  }
+
+  async getChangeBatchById(id: number): Promise<EntryChangeBatch | null> {
+    const client = this.getClient();
+    const result = await client.execute({
+      sql: `SELECT b.*, (SELECT COUNT(*) FROM entry_changes c WHERE c.batch_id = b.id) as change_count
+            FROM entry_change_batches b WHERE b.id = ?`,
+      args: [id]
+    });
+
+    if (result.rows.length === 0) return null;
+    return this.mapRowToChangeBatch(result.rows[0] as Record<string, unknown>);
+  }
+
+  async getChangeBatchRecords(batchId: number): Promise<EntryChangeRecord[]> {
+    const client = this.getClient();
+    const result = await client.execute({
+      sql: 'SELECT * FROM entry_changes WHERE batch_id = ? ORDER BY id ASC',
+      args: [batchId]
+    });
+
+    return result.rows.map((row: Record<string, unknown>) => this.mapRowToChangeRecord(row));
+  }
+
+  // Deshacer un lote en una sola transacción: cada entrada vuelve a su estado previo (o se elimina si el lote la creó)
+  async undoChangeBatch(batch: EntryChangeBatch, restores: Array<{ entry_id: number; target: HourEntry | null }>): Promise<void> {
+    const client = this.getClient();
+    await client.batch([
+      ...restores.flatMap(({ entry_id: entryId, target }) => {
+        if (!target) {
+          return [
+            { sql: 'DELETE FROM entry_tags WHERE entry_id = ?', args: [entryId] },
+            { sql: 'DELETE FROM hour_entries WHERE id = ?', args: [entryId] }
+          ];
+        }
+
+        return [
+          {
+            sql: `INSERT INTO hour_entries (id, date, hours, description, company_id, project_id, start_time, end_time, break_minutes, billable, invoice_item_id, created_at)
+                  VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, COALESCE(?, CURRENT_TIMESTAMP))
+                  ON CONFLICT(id) DO UPDATE SET date = excluded.date, hours = excluded.hours, description = excluded.description,
+                    company_id = excluded.company_id, project_id = excluded.project_id, start_time = excluded.start_time,
+                    end_time = excluded.end_time, break_minutes = excluded.break_minutes, billable = excluded.billable,
+                    invoice_item_id = excluded.invoice_item_id, deleted_at = NULL`,
+            args: [
+              entryId, target.date, target.hours, target.description ?? '', target.company_id, target.project_id ?? null,
+              target.start_time ?? null, target.end_time ?? null, target.break_minutes ?? 0, target.billable === false ? 0 : 1,
+              target.invoice_item_id ?? null, target.created_at ?? null
+            ]
+          },
+          { sql: 'DELETE FROM entry_tags WHERE entry_id = ?', args: [entryId] },
+          // Las etiquetas se restauran por nombre; las que el usuario eliminó después no vuelven
+          ...(target.tags ?? []).map(tag => ({
+            sql: 'INSERT OR IGNORE INTO entry_tags (entry_id, tag_id) SELECT ?, id FROM tags WHERE user_id = ? AND name = ?',
+            args: [entryId, batch.user_id, tag]
+          }))
+        ];
+      }),
+      { sql: 'UPDATE entry_change_batches SET undone_at = CURRENT_TIMESTAMP WHERE id = ?', args: [batch.id!] }
+    ], 'write');
+  }
+
+  // Guarda el estado antes/después de las entradas que tocó una operación
+  private async recordEntryChanges(batchId: number, before: HourEntry[], entryIds: number[], executor: SqlExecutor = this.getClient()): Promise<void> {
+    const beforeById = new Map(before.map(entry => [entry.id!, entry]));
+    const ids = [...new Set([...beforeById.keys(), ...entryIds])];
+    const afterById = new Map((await this.getEntriesByIds(ids, executor)).map(entry => [entry.id!, entry]));
+
+    const statements = ids.flatMap(id => {
+      const previous = beforeById.get(id) ?? null;
+      const next = afterById.get(id) ?? null;
+      if (!previous && !next) return [];
+
+      const action: EntryChangeAction = !previous ? 'create' : !next ? 'delete' : 'update';
+      return [{
+        sql: 'INSERT INTO entry_changes (batch_id, entry_id, action, before_data, after_data) VALUES (?, ?, ?, ?, ?)',
+        args: [batchId, id, action, previous ? JSON.stringify(previous) : null, next ? JSON.stringify(next) : null]
+      }];
+    });
+
+    if (statements.length > 0) {
+      await executor.batch(statements);
+    }
+  }
+
+  private mapRowToChangeBatch(row: Record<string, unknown>): EntryChangeBatch {
+    return {
+      id: Number(row.id),
+      user_id: Number(row.user_id),
+      source: String(row.source) as EntryChangeSource,
+      summary: String(row.summary ?? ''),
+      change_count: Number(row.change_count ?? 0),
+      undone_at: row.undone_at != null ? String(row.undone_at) : null,
+      created_at: row.created_at != null ? String(row.created_at) : undefined
+    };
+  }
+
+  private mapRowToChangeRecord(row: Record<string, unknown>): EntryChangeRecord {
+    return {
+      id: Number(row.id),
+      batch_id: Number(row.batch_id),
+      entry_id: Number(row.entry_id),
+      action: String(row.action) as EntryChangeAction,
+      before: row.before_data != null ? JSON.parse(String(row.before_data)) as HourEntry : null,
+      after: row.after_data != null ? JSON.parse(String(row.after_data)) as HourEntry : null,
+      created_at: row.created_at != null ? String(row.created_at) : undefined
+    };
+  }
+
+  // Tag methods
+  async getUserTags(userId: number): Promise<Tag[]> {
+    const client = this.getClient();
+    const result = await client.execute({
+      sql: `SELECT t.*, COUNT(e.id) as entry_count FROM tags t
+            LEFT JOIN entry_tags et ON et.tag_id = t.id
+            LEFT JOIN hour_entries e ON e.id = et.entry_id AND e.deleted_at IS NULL
+            WHERE t.user_id = ?
+            GROUP BY t.id
+            ORDER BY t.name ASC`,
+      args: [userId]
+    });
+
+    return result.rows.map((row: Record<string, unknown>) => this.mapRowToTag(row));
+  }
+
+  async getTagById(id: number): Promise<Tag | null> {
+    const client = this.getClient();
+    const result = await client.execute({
+      sql: 'SELECT * FROM tags WHERE id = ?',
+      args: [id]
+    });
+
+    return result.rows.length > 0 ? this.mapRowToTag(result.rows[0] as Record<string, unknown>) : null;
+  }
+
+  // Ids de las etiquetas por nombre, creando las que el usuario aún no tiene
+  async ensureTags(userId: number, names: string[]): Promise<number[]> {
+    if (names.length === 0) return [];
+
+    const client = this.getClient();
+    await client.batch(names.map(name => ({
+      sql: 'INSERT OR IGNORE INTO tags (user_id, name) VALUES (?, ?)',
+      args: [userId, name]
+    })), 'write');
+
+    const result = await client.execute({
+      sql: `SELECT id FROM tags WHERE user_id = ? AND name IN (${names.map(() => '?').join(', ')})`,
+      args: [userId, ...names]
+    });
+    return result.rows.map((row: Record<string, unknown>) => Number(row.id));
+  }
+
+  async deleteTag(id: number): Promise<void> {
+    const client = this.getClient();
+    await client.batch([
+      { sql: 'DELETE FROM entry_tags WHERE tag_id = ?', args: [id] },
+      { sql: 'DELETE FROM tags WHERE id = ?', args: [id] }
+    ], 'write');
+  }
+
+  // Reemplaza las etiquetas de una entrada
+  async setEntryTags(entryId: number, tagIds: number[], changeBatchId?: number | null): Promise<void> {
+    const client = this.getClient();
+    const before = changeBatchId ? await this.getEntriesByIds([entryId]) : [];
+    await client.batch([
+      { sql: 'DELETE FROM entry_tags WHERE entry_id = ?', args: [entryId] },
+      ...tagIds.map(tagId => ({
+        sql: 'INSERT OR IGNORE INTO entry_tags (entry_id, tag_id) VALUES (?, ?)',
+        args: [entryId, tagId]
+      }))
+    ], 'write');
+    if (changeBatchId) await this.recordEntryChanges(changeBatchId, before, []);
+  }
+
+  async addEntryTags(entryIds: number[], tagIds: number[], changeBatchId?: number | null): Promise<void> {
+    if (entryIds.length === 0 || tagIds.length === 0) return;
+
+    const client = this.getClient();
+    const before = changeBatchId ? await this.getEntriesByIds(entryIds) : [];
+    await client.batch(entryIds.flatMap(entryId => tagIds.map(tagId => ({
+      sql: 'INSERT OR IGNORE INTO entry_tags (entry_id, tag_id) VALUES (?, ?)',
+      args: [entryId, tagId]
+    }))), 'write');
+    if (changeBatchId) await this.recordEntryChanges(changeBatchId, before, []);
+  }
+
+  async removeEntryTags(entryIds: number[], tagIds: number[], changeBatchId?: number | null): Promise<void> {
+    if (entryIds.length === 0 || tagIds.length === 0) return;
+
+    const client = this.getClient();
+    const before = changeBatchId ? await this.getEntriesByIds(entryIds) : [];
+    await client.execute({
+      sql: `DELETE FROM entry_tags
+            WHERE entry_id IN (${entryIds.map(() => '?').join(', ')})
+              AND tag_id IN (${tagIds.map(() => '?').join(', ')})`,
+      args: [...entryIds, ...tagIds]
+    });
+    if (changeBatchId) await this.recordEntryChanges(changeBatchId, before, []);
+  }
+
+  private mapRowToTag(row: Record<string, unknown>): Tag {
+    return {
+      id: Number(row.id),
+      user_id: Number(row.user_id),
+      name: String(row.name),
+      entry_count: row.entry_count != null ? Number(row.entry_count) : undefined,
+      created_at: row.created_at != null ? String(row.created_at) : undefined
+    };
+  }
+
+  async getTotalHours(companyId: number): Promise<number> {
+    const client = this.getClient();
+    const result = await client.execute({
+      sql: 'SELECT COALESCE(SUM(hours), 0) as total FROM hour_entries WHERE company_id = ? AND deleted_at IS NULL',
+      args: [companyId]
+    });
+    return Number(result.rows[0]?.total) || 0;
+  }
+
+  // Todas las entradas se crean en una sola transacción (ver applyDayWrites)
+  async addBulkEntries(entries: { date: string; hours: number; description: string; companyId: number; projectId?: number | null }[], changeBatchId?: number | null): Promise<number[]> {
+    return this.applyDayWrites(entries.map(entry => ({
+      date: entry.date,
+      company_id: entry.companyId,
+      project_id: entry.projectId ?? null,
+      action: 'append',
+      hours: entry.hours,
+      description: entry.description,
+      day_entries: []
+    })), changeBatchId);
+  }
+
+  // ========== Time Session Methods ==========
+
+  async createTimeSession(session: Omit<TimeSession, 'id' | 'created_at' | 'status' | 'paused_at' | 'paused_seconds' | 'ended_at' | 'hours' | 'entry_id'>): Promise<number> {
+    const client = this.getClient();
+    const result = await client.execute({
+      sql: `INSERT INTO time_sessions (user_id, company_id, project_id, description, date, status, started_at)
+            VALUES (?, ?, ?, ?, ?, 'running', ?)`,
+      args: [
+        session.user_id,
+        session.company_id,
+        session.project_id ?? null,
+        session.description ?? null,
+        session.date,
+        session.started_at
+      ]
+    });
+    return Number(result.lastInsertRowid);
+  }
+
+  async getTimeSessionById(id: number): Promise<TimeSession | null> {
+    const client = this.getClient();
+    const result = await client.execute({
+      sql: 'SELECT * FROM time_sessions WHERE id = ?',
+      args: [id]
+    });
+
+    if (result.rows.length === 0) return null;
+    return this.mapRowToTimeSession(result.rows[0] as Record<string, unknown>);
+  }
+
+  async getActiveTimeSession(userId: number): Promise<TimeSession | null> {
+    const client = this.getClient();
+    const result = await client.execute({
+      sql: "SELECT * FROM time_sessions WHERE user_id = ? AND status IN ('running', 'paused') ORDER BY started_at DESC LIMIT 1",
+      args: [userId]
+    });
+
+    if (result.rows.length === 0) return null;
+    return this.mapRowToTimeSession(result.rows[0] as Record<string, unknown>);
+  }
+
+  async getUserTimeSessions(userId: number, limit = 20): Promise<TimeSession[]> {
+    const client = this.getClient();
+    const result = await client.execute({
+      sql: 'SELECT * FROM time_sessions WHERE user_id = ? ORDER BY started_at DESC LIMIT ?',
+      args: [userId, limit]
+    });
+
+    return result.rows.map((row: Record<string, unknown>) => this.mapRowToTimeSession(row));
+  }
+
+  async getEntryTimeSessions(entryId: number): Promise<TimeSession[]> {
+    const client = this.getClient();
+    const result = await client.execute({
+      sql: 'SELECT * FROM time_sessions WHERE entry_id = ? ORDER BY started_at ASC',
+      args: [entryId]
+    });
+
+    return result.rows.map((row: Record<string, unknown>) => this.mapRowToTimeSession(row));
+  }
+
+  async pauseTimeSession(id: number, pausedAt: string): Promise<void> {
+    const client = this.getClient();
+    await client.execute({
+      sql: "UPDATE time_sessions SET status = 'paused', paused_at = ? WHERE id = ?",
+      args: [pausedAt, id]
+    });
+  }
+
+  async resumeTimeSession(id: number, pausedSeconds: number): Promise<void> {
+    const client = this.getClient();
+    await client.execute({
+      sql: "UPDATE time_sessions SET status = 'running', paused_at = NULL, paused_seconds = ? WHERE id = ?",
+      args: [pausedSeconds, id]
+    });
+  }
+
+  async stopTimeSession(id: number, endedAt: string, pausedSeconds: number, hours: number, entryId: number | null): Promise<void> {
+    const client = this.getClient();
+    await client.execute({
+      sql: "UPDATE time_sessions SET status = 'stopped', paused_at = NULL, ended_at = ?, paused_seconds = ?, hours = ?, entry_id = ? WHERE id = ?",
+      args: [endedAt, pausedSeconds, hours, entryId, id]
+    });
+  }
+
+  private mapRowToTimeSession(row: Record<string, unknown>): TimeSession {
+    return {
+      id: Number(row.id),
+      user_id: Number(row.user_id),
+      company_id: Number(row.company_id),
+      project_id: row.project_id != null ? Number(row.project_id) : null,
+      description: row.description ? String(row.description) : undefined,
+      date: String(row.date),
+      status: String(row.status) as TimeSessionStatus,
+      started_at: String(row.started_at),
+      paused_at: row.paused_at ? String(row.paused_at) : null,
+      paused_seconds: Number(row.paused_seconds ?? 0),
+      ended_at: row.ended_at ? String(row.ended_at) : null,
+      hours: row.hours != null ? Number(row.hours) : null,
+      entry_id: row.entry_id != null ? Number(row.entry_id) : null,
+      created_at: row.created_at ? String(row.created_at) : undefined
+    };
+  }
+
+  // ========== User Days Off Methods ==========
+
+  async getUserDaysOff(userId: number, startDate?: string, endDate?: string): Promise<UserDayOff[]> {
+    const client = this.getClient();
+    let sql = 'SELECT * FROM user_days_off WHERE user_id = ?';
+    const args: (number | string)[] = [userId];
+
+    if (startDate) {
+      sql += ' AND date >= ?';
+      args.push(startDate);
+    }
+    if (endDate) {
+      sql += ' AND date <= ?';
+      args.push(endDate);
+    }
+
+    const result = await client.execute({ sql: sql + ' ORDER BY date ASC', args });
+    return result.rows.map((row: Record<string, unknown>) => this.mapRowToUserDayOff(row));
+  }
+
+  async getUserDayOffById(id: number): Promise<UserDayOff | null> {
+    const client = this.getClient();
+    const result = await client.execute({
+      sql: 'SELECT * FROM user_days_off WHERE id = ?',
+      args: [id]
+    });
+
+    if (result.rows.length === 0) return null;
+    return this.mapRowToUserDayOff(result.rows[0] as Record<string, unknown>);
+  }
+
+  // Un día libre por fecha: si ya existe se actualiza su nombre
+  async setUserDayOff(userId: number, date: string, name: string): Promise<number> {
+    const client = this.getClient();
+    await client.execute({
+      sql: `INSERT INTO user_days_off (user_id, date, name) VALUES (?, ?, ?)
+            ON CONFLICT(user_id, date) DO UPDATE SET name = excluded.name`,
+      args: [userId, date, name]
+    });
     const result = await client.execute({
-      sql: 'INSERT INTO hour_entries (date, hours, description, company_id, project_id) VALUES (?, ?, ?, ?, ?)',
-      args: [date, hours, description, companyId, projectId ?? null]
+      sql: 'SELECT id FROM user_days_off WHERE user_id = ? AND date = ?',
+      args: [userId, date]
     });
-    return Number(result.lastInsertRowid);
+    return Number(result.rows[0].id);
   }
 
-  async getEntryByDate(companyId: number, date: string, projectId?: number | null): Promise<HourEntry | null> {
-    let sql = 'SELECT * FROM hour_entries WHERE date = ? AND company_id = ?';
-    const args: Array<string | number | null> = [date, companyId];
-
-    if (typeof projectId === 'number') {
-      sql += ' AND project_id = ?';
-      args.push(projectId);
-    } else if (projectId === null) {
-      sql += ' AND project_id IS NULL';
-    }
-
+  async deleteUserDayOff(id: number): Promise<void> {
     const client = this.getClient();
-    const result = await client.execute({ sql, args });
-    if (result.rows.length === 0) {
-      return null;
-    }
+    await client.execute({
+      sql: 'DELETE FROM user_days_off WHERE id = ?',
+      args: [id]
+    });
+  }
 
-    const row = result.rows[0] as Record<string, unknown>;
+  private mapRowToUserDayOff(row: Record<string, unknown>): UserDayOff {
     return {
       id: Number(row.id),
+      user_id: Number(row.user_id),
       date: String(row.date),
-      hours: Number(row.hours),
-      description: String(row.description ?? ''),
-      company_id: Number(row.company_id),
-      project_id: row.project_id != null ? Number(row.project_id) : null,
-      created_at: String(row.created_at ?? ''),
+      name: String(row.name),
+      created_at: row.created_at ? String(row.created_at) : undefined
     };
   }
 
-  async getEntryById(id: number): Promise<HourEntry | null> {
+  // ========== Time Off Methods ==========
+
+  // Periodos que se cruzan con el rango; los de empresas en la papelera no se incluyen
+  async getUserTimeOff(userId: number, startDate?: string, endDate?: string): Promise<TimeOff[]> {
+    const client = this.getClient();
+    let sql = `SELECT * FROM time_off
+      WHERE user_id = ? AND (company_id IS NULL OR company_id IN (SELECT id FROM companies WHERE deleted_at IS NULL))`;
+    const args: (number | string)[] = [userId];
+
+    if (startDate) {
+      sql += ' AND end_date >= ?';
+      args.push(startDate);
+    }
+    if (endDate) {
+      sql += ' AND start_date <= ?';
+      args.push(endDate);
+    }
+
+    const result = await client.execute({ sql: sql + ' ORDER BY start_date ASC, id ASC', args });
+    return result.rows.map((row: Record<string, unknown>) => this.mapRowToTimeOff(row));
+  }
+
+  async getTimeOffById(id: number): Promise<TimeOff | null> {
     const client = this.getClient();
     const result = await client.execute({
-      sql: 'SELECT * FROM hour_entries WHERE id = ?',
+      sql: 'SELECT * FROM time_off WHERE id = ?',
       args: [id]
     });
 
-    if (result.rows.length === 0) {
-      return null;
-    }
+    if (result.rows.length === 0) return null;
+    return this.mapRowToTimeOff(result.rows[0] as Record<string, unknown>);
+  }
 
-    const row = result.rows[0] as Record<string, unknown>;
+  async createTimeOff(timeOff: Omit<TimeOff, 'id' | 'created_at'>): Promise<number> {
+    const client = this.getClient();
+    const result = await client.execute({
+      sql: `INSERT INTO time_off (user_id, company_id, type, start_date, end_date, paid_hours_per_day, notes)
+            VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      args: [
+        timeOff.user_id,
+        timeOff.company_id ?? null,
+        timeOff.type,
+        timeOff.start_date,
+        timeOff.end_date,
+        timeOff.paid_hours_per_day ?? null,
+        timeOff.notes ?? null
+      ]
+    });
+    return Number(result.lastInsertRowid);
+  }
+
+  async updateTimeOff(id: number, timeOff: Omit<TimeOff, 'id' | 'user_id' | 'created_at'>): Promise<void> {
+    const client = this.getClient();
+    await client.execute({
+      sql: `UPDATE time_off SET company_id = ?, type = ?, start_date = ?, end_date = ?, paid_hours_per_day = ?, notes = ?
+            WHERE id = ?`,
+      args: [
+        timeOff.company_id ?? null,
+        timeOff.type,
+        timeOff.start_date,
+        timeOff.end_date,
+        timeOff.paid_hours_per_day ?? null,
+        timeOff.notes ?? null,
+        id
+      ]
+    });
+  }
+
+  async deleteTimeOff(id: number): Promise<void> {
+    const client = this.getClient();
+    await client.execute({
+      sql: 'DELETE FROM time_off WHERE id = ?',
+      args: [id]
+    });
+  }
+
+  private mapRowToTimeOff(row: Record<string, unknown>): TimeOff {
     return {
       id: Number(row.id),
-      date: String(row.date),
-      hours: Number(row.hours),
-      description: String(row.description ?? ''),
-      company_id: Number(row.company_id),
-      project_id: row.project_id != null ? Number(row.project_id) : null,
-      created_at: String(row.created_at ?? ''),
+      user_id: Number(row.user_id),
+      company_id: row.company_id != null ? Number(row.company_id) : null,
+      type: String(row.type) as TimeOffType,
+      start_date: String(row.start_date),
+      end_date: String(row.end_date),
+      paid_hours_per_day: row.paid_hours_per_day != null ? Number(row.paid_hours_per_day) : null,
+      notes: row.notes ? String(row.notes) : undefined,
+      created_at: row.created_at ? String(row.created_at) : undefined
     };
   }
 
-  async getEntries(companyId: number): Promise<HourEntry[]> {
+  // ========== Entry Template Methods ==========
+
+  async createEntryTemplate(userId: number, fields: TemplateFields): Promise<number> {
     const client = this.getClient();
     const result = await client.execute({
-      sql: 'SELECT * FROM hour_entries WHERE company_id = ? ORDER BY date DESC, id DESC',
-      args: [companyId]
+      sql: `INSERT INTO entry_templates (user_id, company_id, project_id, weekdays, interval_weeks, hours, description, start_date, end_date, active)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      args: [
+        userId,
+        fields.company_id,
+        fields.project_id ?? null,
+        fields.weekdays.join(','),
+        fields.interval_weeks,
+        fields.hours,
+        fields.description,
+        fields.start_date,
+        fields.end_date ?? null,
+        fields.active ? 1 : 0
+      ]
     });
-    
-    return result.rows.map((row: Record<string, unknown>) => ({
-      id: Number(row.id),
-      date: String(row.date),
-      hours: Number(row.hours),
-      description: String(row.description) || '',
-      company_id: Number(row.company_id),
-      project_id: row.project_id != null ? Number(row.project_id) : null
-    }));
+    return Number(result.lastInsertRowid);
   }
 
-  async getEntriesByDateRange(companyId: number, startDate: string, endDate: string): Promise<HourEntry[]> {
+  async getEntryTemplateById(id: number): Promise<EntryTemplate | null> {
     const client = this.getClient();
     const result = await client.execute({
-      sql: 'SELECT * FROM hour_entries WHERE company_id = ? AND date >= ? AND date <= ? ORDER BY date ASC, id ASC',
-      args: [companyId, startDate, endDate]
+      sql: 'SELECT * FROM entry_templates WHERE id = ?',
+      args: [id]
     });
-    
-    return result.rows.map((row: Record<string, unknown>) => ({
-      id: Number(row.id),
-      date: String(row.date),
-      hours: Number(row.hours),
-      description: String(row.description) || '',
-      company_id: Number(row.company_id),
-      project_id: row.project_id != null ? Number(row.project_id) : null
-    }));
+
+    if (result.rows.length === 0) return null;
+    return this.mapRowToEntryTemplate(result.rows[0] as Record<string, unknown>);
   }
 
-  async updateEntry(id: number, date: string, hours: number, description: string, projectId?: number | null): Promise<void> {
+  // Las plantillas de empresas en la papelera no se listan ni se generan
+  async getUserEntryTemplates(userId: number): Promise<EntryTemplate[]> {
     const client = this.getClient();
-    if (typeof projectId === 'undefined') {
-      await client.execute({
-        sql: 'UPDATE hour_entries SET date = ?, hours = ?, description = ? WHERE id = ?',
-        args: [date, hours, description, id]
-      });
-      return;
-    }
-
-    await client.execute({
-      sql: 'UPDATE hour_entries SET date = ?, hours = ?, description = ?, project_id = ? WHERE id = ?',
-      args: [date, hours, description, projectId ?? null, id]
+    const result = await client.execute({
+      sql: `SELECT * FROM entry_templates
+            WHERE user_id = ? AND company_id IN (SELECT id FROM companies WHERE deleted_at IS NULL)
+            ORDER BY created_at ASC, id ASC`,
+      args: [userId]
     });
+
+    return result.rows.map((row: Record<string, unknown>) => this.mapRowToEntryTemplate(row));
   }
 
-  async deleteEntry(id: number): Promise<void> {
+  async updateEntryTemplate(id: number, fields: TemplateFields): Promise<void> {
     const client = this.getClient();
     await client.execute({
-      sql: 'DELETE FROM hour_entries WHERE id = ?',
-      args: [id]
+      sql: `UPDATE entry_templates
+            SET company_id = ?, project_id = ?, weekdays = ?, interval_weeks = ?, hours = ?, description = ?, start_date = ?, end_date = ?, active = ?
+            WHERE id = ?`,
+      args: [
+        fields.company_id,
+        fields.project_id ?? null,
+        fields.weekdays.join(','),
+        fields.interval_weeks,
+        fields.hours,
+        fields.description,
+        fields.start_date,
+        fields.end_date ?? null,
+        fields.active ? 1 : 0,
+        id
+      ]
     });
   }
 
-  async getTotalHours(companyId: number): Promise<number> {
+  async deleteEntryTemplate(id: number): Promise<void> {
     const client = this.getClient();
-    const result = await client.execute({
-      sql: 'SELECT COALESCE(SUM(hours), 0) as total FROM hour_entries WHERE company_id = ?',
-      args: [companyId]
+    await client.execute({
+      sql: 'DELETE FROM entry_templates WHERE id = ?',
+      args: [id]
     });
-    return Number(result.rows[0]?.total) || 0;
   }
 
-  async addBulkEntries(entries: { date: string; hours: number; description: string; companyId: number; projectId?: number | null }[]): Promise<void> {
-    for (const entry of entries) {
-      await this.addEntry(entry.date, entry.hours, entry.description, entry.companyId, entry.projectId ?? null);
-    }
+  private mapRowToEntryTemplate(row: Record<string, unknown>): EntryTemplate {
+    return {
+      id: Number(row.id),
+      user_id: Number(row.user_id),
+      company_id: Number(row.company_id),
+      project_id: row.project_id != null ? Number(row.project_id) : null,
+      weekdays: String(row.weekdays).split(',').filter(Boolean).map(Number),
+      interval_weeks: Number(row.interval_weeks ?? 1),
+      hours: Number(row.hours),
+      description: row.description ? String(row.description) : '',
+      start_date: String(row.start_date),
+      end_date: row.end_date ? String(row.end_date) : null,
+      active: Number(row.active) === 1,
+      created_at: row.created_at ? String(row.created_at) : undefined
+    };
   }
 
-  // Weekday averages methods
+  // Weekday averages methods (weekday ISO: 0 = lunes, ver dates.ts)
   async getWeekdayAverages(companyId: number): Promise<WeekdayAverage[]> {
     const client = this.getClient();
     const result = await client.execute({
@@ -625,49 +2153,115 @@ class Database {
     });
   }
 
-  async fillWithAverages(startDate: string, endDate: string, companyId: number, overwrite = false): Promise<EntryChange[]> {
-    const averages = await this.getWeekdayAverages(companyId);
+  // Reemplaza los siete promedios de la empresa en una sola operación
+  async setWeekdayAverages(companyId: number, averages: Array<{ weekday: number; average_hours: number }>): Promise<void> {
+    const client = this.getClient();
+    await client.batch([
+      { sql: 'DELETE FROM weekday_averages WHERE company_id = ?', args: [companyId] },
+      ...averages.map(avg => ({
+        sql: 'INSERT INTO weekday_averages (weekday, average_hours, company_id) VALUES (?, ?, ?)',
+        args: [avg.weekday, avg.average_hours, companyId]
+      }))
+    ], 'write');
+  }
+
+  async getProjectWeekdayAverages(companyId: number, projectId?: number): Promise<ProjectWeekdayAverage[]> {
+    let sql = 'SELECT * FROM project_weekday_averages WHERE company_id = ?';
+    const args: number[] = [companyId];
+
+    if (typeof projectId === 'number') {
+      sql += ' AND project_id = ?';
+      args.push(projectId);
+    }
+
+    sql += ' ORDER BY project_id, weekday';
+
+    const client = this.getClient();
+    const result = await client.execute({ sql, args });
+
+    return result.rows.map((row: Record<string, unknown>) => ({
+      id: Number(row.id),
+      weekday: Number(row.weekday),
+      average_hours: Number(row.average_hours),
+      project_id: Number(row.project_id),
+      company_id: Number(row.company_id)
+    }));
+  }
+
+  async setProjectWeekdayAverages(projectId: number, companyId: number, averages: Array<{ weekday: number; average_hours: number }>): Promise<void> {
+    const client = this.getClient();
+    await client.batch([
+      { sql: 'DELETE FROM project_weekday_averages WHERE project_id = ?', args: [projectId] },
+      ...averages.map(avg => ({
+        sql: 'INSERT INTO project_weekday_averages (weekday, average_hours, project_id, company_id) VALUES (?, ?, ?, ?)',
+        args: [avg.weekday, avg.average_hours, projectId, companyId]
+      }))
+    ], 'write');
+  }
+
+  // isHoliday: días que no se llenan (festivos y días libres, salvo que se pida incluirlos)
+  // Llena los días del rango con el promedio de su día de la semana. Devuelve el efecto en cada día con
+  // promedio (incluidos los omitidos y los que chocan con entradas facturadas); con dryRun no escribe nada.
+  // Las escrituras se aplican juntas en una transacción
+  async fillWithAverages(startDate: string, endDate: string, companyId: number, overwrite = false, projectId?: number | null, isHoliday: (date: string) => boolean = () => false, dryRun = false, changeBatchId?: number | null): Promise<EntryChange[]> {
+    // Con proyecto se usan sus promedios propios y, si no tiene, los de la empresa
+    const projectAverages = typeof projectId === 'number'
+      ? await this.getProjectWeekdayAverages(companyId, projectId)
+      : [];
+    const averages = projectAverages.length > 0 ? projectAverages : await this.getWeekdayAverages(companyId);
     if (averages.length === 0) return [];
 
     const averageMap = new Map(averages.map(avg => [avg.weekday, avg.average_hours]));
     
-    const start = new Date(startDate);
-    const end = new Date(endDate);
     const changes: EntryChange[] = [];
-    const client = this.getClient();
+    const writes: DayWrite[] = [];
+    // Un día está ocupado si tiene entradas del proyecto indicado (null: sin proyecto; undefined: de cualquier
+    // proyecto). Sobrescribir solo reemplaza las del mismo proyecto (sin proyecto, las no asignadas, como la
+    // carga masiva): nunca se reemplazan juntas entradas de proyectos distintos
+    const rangeEntries = await this.getEntriesByDateRange(companyId, startDate, endDate);
+    const occupiedByDate = groupEntriesByDate(rangeEntries, projectId);
+    const entriesByDate = groupEntriesByDate(rangeEntries, projectId ?? null);
     
-    for (let date = new Date(start); date <= end; date.setDate(date.getDate() + 1)) {
-      const weekday = date.getDay();
-      const averageHours = averageMap.get(weekday);
-      
-      if (averageHours) {
-        const dateString = date.toISOString().split('T')[0];
-        
-        // Check if entry already exists
-        const existingResult = await client.execute({
-          sql: 'SELECT id FROM hour_entries WHERE date = ? AND company_id = ?',
-          args: [dateString, companyId]
-        });
-        
-        if (existingResult.rows.length === 0) {
-          await this.addEntry(dateString, averageHours, 'Filled with average', companyId);
+    for (const dateString of listDates(startDate, endDate)) {
+      const averageHours = averageMap.get(isoWeekday(dateString));
+
+      if (averageHours && !isHoliday(dateString)) {
+        const occupiedTotal = sumEntryHours(occupiedByDate.get(dateString) ?? []);
+        const dayEntries = entriesByDate.get(dateString) ?? [];
+        const oldTotal = sumEntryHours(dayEntries);
+        const locked = dayEntries.find(isEntryLocked);
+
+        if (!occupiedByDate.has(dateString)) {
+          writes.push({ date: dateString, company_id: companyId, project_id: projectId ?? null, action: 'append', hours: averageHours, description: 'Filled with average', day_entries: [] });
           changes.push({
             date: dateString,
             old_value: 0,
             new_value: averageHours,
+            kind: 'create'
           });
         }
-        else if (overwrite) {
-          const existing = existingResult.rows[0] as Record<string, unknown>;
-          await this.updateEntry(Number(existing.id), dateString, averageHours, 'Filled with average');
+        else if (!overwrite || dayEntries.length === 0) {
+          // Sin sobrescribir, o con horas solo en otros proyectos: el día ya está trabajado
+          changes.push({ date: dateString, old_value: occupiedTotal, new_value: occupiedTotal, kind: 'skip' });
+        }
+        else if (locked) {
+          changes.push({ date: dateString, old_value: oldTotal, new_value: oldTotal, kind: 'conflict', reason: lockedEntryMessage(locked) });
+        }
+        else {
+          writes.push({ date: dateString, company_id: companyId, project_id: projectId ?? null, action: 'replace', hours: averageHours, description: 'Filled with average', day_entries: dayEntries });
           changes.push({
             date: dateString,
-            old_value: Number(existing.hours),
+            old_value: oldTotal,
             new_value: averageHours,
+            kind: 'overwrite'
           });
         }
       }
     }
+
+    if (!dryRun) {
+      await this.applyDayWrites(writes, changeBatchId);
+    }
     return changes;
   }
 
@@ -681,12 +2275,10 @@ class Database {
     // No-op since we now use company-based rates
   }
 
-  async updateCompanyRate(companyId: number, hourlyRate: number): Promise<void> {
-    const client = this.getClient();
-    await client.execute({
-      sql: 'UPDATE companies SET hourly_rate = ? WHERE id = ?',
-      args: [hourlyRate, companyId]
-    });
+  // Cambiar la tarifa general desde una fecha; las horas anteriores conservan su tarifa
+  async updateCompanyRate(companyId: number, hourlyRate: number, effectiveFrom?: string, today: string = todayInTimeZone()): Promise<void> {
+    await this.setCompanyRate(companyId, null, hourlyRate, effectiveFrom ?? today);
+    await this.syncCompanyCurrentRate(companyId, today);
   }
 
   // ========== User Billing Info Methods ==========
@@ -715,6 +2307,11 @@ class Database {
       account_number: row.account_number ? String(row.account_number) : undefined,
       signature_image: row.signature_image ? String(row.signature_image) : undefined,
       declaration: row.declaration ? String(row.declaration) : undefined,
+      iva_responsible: Boolean(row.iva_responsible),
+      iva_rate: row.iva_rate != null ? Number(row.iva_rate) : undefined,
+      retefuente_rate: row.retefuente_rate != null ? Number(row.retefuente_rate) : undefined,
+      reteica_rate: row.reteica_rate != null ? Number(row.reteica_rate) : undefined,
+      social_security_note: row.social_security_note ? String(row.social_security_note) : undefined,
       created_at: row.created_at ? String(row.created_at) : undefined,
       updated_at: row.updated_at ? String(row.updated_at) : undefined
     };
@@ -723,8 +2320,9 @@ class Database {
   async upsertUserBillingInfo(userId: number, info: Omit<UserBillingInfo, 'id' | 'user_id' | 'created_at' | 'updated_at'>): Promise<number> {
     const client = this.getClient();
     const result = await client.execute({
-      sql: `INSERT INTO user_billing_info (user_id, name, id_type, id_number, address, city, phone, bank_name, account_type, account_number, signature_image, declaration, updated_at)
-            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+      sql: `INSERT INTO user_billing_info (user_id, name, id_type, id_number, address, city, phone, bank_name, account_type, account_number, signature_image, declaration,
+              iva_responsible, iva_rate, retefuente_rate, reteica_rate, social_security_note, updated_at)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
             ON CONFLICT(user_id) DO UPDATE SET
               name = excluded.name,
               id_type = excluded.id_type,
@@ -737,6 +2335,11 @@ class Database {
               account_number = excluded.account_number,
               signature_image = excluded.signature_image,
               declaration = excluded.declaration,
+              iva_responsible = excluded.iva_responsible,
+              iva_rate = excluded.iva_rate,
+              retefuente_rate = excluded.retefuente_rate,
+              reteica_rate = excluded.reteica_rate,
+              social_security_note = excluded.social_security_note,
               updated_at = CURRENT_TIMESTAMP`,
       args: [
         userId,
@@ -750,7 +2353,12 @@ class Database {
         info.account_type ?? null,
         info.account_number ?? null,
         info.signature_image ?? null,
-        info.declaration ?? null
+        info.declaration ?? null,
+        info.iva_responsible ? 1 : 0,
+        info.iva_rate ?? null,
+        info.retefuente_rate ?? null,
+        info.reteica_rate ?? null,
+        info.social_security_note ?? null
       ]
     });
     return Number(result.lastInsertRowid);
@@ -778,6 +2386,10 @@ class Database {
       contact_name: row.contact_name ? String(row.contact_name) : undefined,
       contact_phone: row.contact_phone ? String(row.contact_phone) : undefined,
       contact_email: row.contact_email ? String(row.contact_email) : undefined,
+      applies_retefuente: Boolean(row.applies_retefuente),
+      retefuente_rate: row.retefuente_rate != null ? Number(row.retefuente_rate) : null,
+      applies_reteica: Boolean(row.applies_reteica),
+      reteica_rate: row.reteica_rate != null ? Number(row.reteica_rate) : null,
       created_at: row.created_at ? String(row.created_at) : undefined,
       updated_at: row.updated_at ? String(row.updated_at) : undefined
     };
@@ -786,8 +2398,9 @@ class Database {
   async upsertCompanyBillingInfo(companyId: number, info: Omit<CompanyBillingInfo, 'id' | 'company_id' | 'created_at' | 'updated_at'>): Promise<number> {
     const client = this.getClient();
     const result = await client.execute({
-      sql: `INSERT INTO company_billing_info (company_id, legal_name, nit, address, city, contact_name, contact_phone, contact_email, updated_at)
-            VALUES (?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+      sql: `INSERT INTO company_billing_info (company_id, legal_name, nit, address, city, contact_name, contact_phone, contact_email,
+              applies_retefuente, retefuente_rate, applies_reteica, reteica_rate, updated_at)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
             ON CONFLICT(company_id) DO UPDATE SET
               legal_name = excluded.legal_name,
               nit = excluded.nit,
@@ -796,6 +2409,10 @@ class Database {
               contact_name = excluded.contact_name,
               contact_phone = excluded.contact_phone,
               contact_email = excluded.contact_email,
+              applies_retefuente = excluded.applies_retefuente,
+              retefuente_rate = excluded.retefuente_rate,
+              applies_reteica = excluded.applies_reteica,
+              reteica_rate = excluded.reteica_rate,
               updated_at = CURRENT_TIMESTAMP`,
       args: [
         companyId,
@@ -805,7 +2422,11 @@ class Database {
         info.city ?? null,
         info.contact_name ?? null,
         info.contact_phone ?? null,
-        info.contact_email ?? null
+        info.contact_email ?? null,
+        info.applies_retefuente ? 1 : 0,
+        info.retefuente_rate ?? null,
+        info.applies_reteica ? 1 : 0,
+        info.reteica_rate ?? null
       ]
     });
     return Number(result.lastInsertRowid);
@@ -833,8 +2454,10 @@ class Database {
               issuer_name, issuer_id_type, issuer_id_number, issuer_address, issuer_city, issuer_phone,
               issuer_bank_name, issuer_account_type, issuer_account_number, issuer_signature_image, issuer_declaration,
               client_name, client_nit, client_address, client_city,
-              total_hours, total_amount
-            ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+              currency, exchange_rate, total_hours, total_amount,
+              iva_rate, iva_amount, gross_amount, retefuente_rate, retefuente_amount,
+              reteica_rate, reteica_amount, total_deductions, net_amount, social_security_note
+            ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
       args: [
         invoice.user_id,
         invoice.company_id,
@@ -859,8 +2482,20 @@ class Database {
         invoice.client_nit ?? null,
         invoice.client_address ?? null,
         invoice.client_city ?? null,
+        invoice.currency ?? 'COP',
+        invoice.exchange_rate ?? 1,
         invoice.total_hours,
-        invoice.total_amount
+        invoice.total_amount,
+        invoice.iva_rate ?? 0,
+        invoice.iva_amount ?? 0,
+        invoice.gross_amount ?? invoice.total_amount,
+        invoice.retefuente_rate ?? 0,
+        invoice.retefuente_amount ?? 0,
+        invoice.reteica_rate ?? 0,
+        invoice.reteica_amount ?? 0,
+        invoice.total_deductions ?? 0,
+        invoice.net_amount ?? invoice.total_amount,
+        invoice.social_security_note ?? null
       ]
     });
     return Number(result.lastInsertRowid);
@@ -869,16 +2504,113 @@ class Database {
   async addInvoiceItem(item: Omit<InvoiceItem, 'id'>): Promise<number> {
     const client = this.getClient();
     const result = await client.execute({
-      sql: 'INSERT INTO invoice_items (invoice_id, concept, hours, rate, total, project_id) VALUES (?, ?, ?, ?, ?, ?)',
-      args: [item.invoice_id, item.concept, item.hours, item.rate, item.total, item.project_id ?? null]
+      sql: 'INSERT INTO invoice_items (invoice_id, item_type, concept, hours, rate, total, project_id) VALUES (?, ?, ?, ?, ?, ?, ?)',
+      args: [item.invoice_id, item.item_type, item.concept, item.hours, item.rate, item.total, item.project_id ?? null]
     });
     return Number(result.lastInsertRowid);
   }
 
+  async getInvoiceItemById(id: number): Promise<InvoiceItem | null> {
+    const client = this.getClient();
+    const result = await client.execute({
+      sql: 'SELECT * FROM invoice_items WHERE id = ?',
+      args: [id]
+    });
+
+    if (result.rows.length === 0) return null;
+    return this.mapRowToInvoiceItem(result.rows[0] as Record<string, unknown>);
+  }
+
+  async updateInvoiceItem(id: number, item: Omit<InvoiceItem, 'id' | 'invoice_id'>): Promise<void> {
+    const client = this.getClient();
+    await client.execute({
+      sql: 'UPDATE invoice_items SET item_type = ?, concept = ?, hours = ?, rate = ?, total = ?, project_id = ? WHERE id = ?',
+      args: [item.item_type, item.concept, item.hours, item.rate, item.total, item.project_id ?? null, id]
+    });
+  }
+
+  async deleteInvoiceItem(id: number): Promise<void> {
+    const client = this.getClient();
+    await client.batch([
+      { sql: 'UPDATE hour_entries SET invoice_item_id = NULL WHERE invoice_item_id = ?', args: [id] },
+      { sql: 'DELETE FROM invoice_items WHERE id = ?', args: [id] }
+    ], 'write');
+  }
+
+  // Marcar las entradas facturadas en una línea de la cuenta
+  async linkEntriesToInvoiceItem(itemId: number, entryIds: number[]): Promise<void> {
+    if (entryIds.length === 0) return;
+    const client = this.getClient();
+    await client.execute({
+      sql: `UPDATE hour_entries SET invoice_item_id = ? WHERE id IN (${entryIds.map(() => '?').join(', ')})`,
+      args: [itemId, ...entryIds]
+    });
+  }
+
+  // Liberar las entradas de una cuenta (al anularla o eliminarla) para poder facturarlas de nuevo
+  async releaseInvoiceEntries(invoiceId: number): Promise<void> {
+    const client = this.getClient();
+    await client.execute({
+      sql: 'UPDATE hour_entries SET invoice_item_id = NULL WHERE invoice_item_id IN (SELECT id FROM invoice_items WHERE invoice_id = ?)',
+      args: [invoiceId]
+    });
+  }
+
+  // Recalcular total_hours/total_amount de la cuenta a partir de sus líneas
+  async recalculateInvoiceTotals(id: number): Promise<void> {
+    const client = this.getClient();
+    const itemsResult = await client.execute({
+      sql: 'SELECT * FROM invoice_items WHERE invoice_id = ?',
+      args: [id]
+    });
+    const items = itemsResult.rows.map((row: Record<string, unknown>) => this.mapRowToInvoiceItem(row));
+    const totals = calculateInvoiceTotals(items);
+
+    // Los impuestos se recalculan con las tarifas guardadas en la cuenta
+    const ratesResult = await client.execute({
+      sql: 'SELECT iva_rate, retefuente_rate, reteica_rate FROM invoices WHERE id = ?',
+      args: [id]
+    });
+    const ratesRow = ratesResult.rows[0] as Record<string, unknown> | undefined;
+    const taxes = calculateInvoiceTaxes(totals.total_amount, {
+      iva_rate: Number(ratesRow?.iva_rate ?? 0),
+      retefuente_rate: Number(ratesRow?.retefuente_rate ?? 0),
+      reteica_rate: Number(ratesRow?.reteica_rate ?? 0)
+    });
+
+    await client.execute({
+      sql: `UPDATE invoices SET total_hours = ?, total_amount = ?, iva_amount = ?, gross_amount = ?,
+              retefuente_amount = ?, reteica_amount = ?, total_deductions = ?, net_amount = ?,
+              updated_at = CURRENT_TIMESTAMP
+            WHERE id = ?`,
+      args: [
+        totals.total_hours,
+        totals.total_amount,
+        taxes.iva_amount,
+        taxes.gross_amount,
+        taxes.retefuente_amount,
+        taxes.reteica_amount,
+        taxes.total_deductions,
+        taxes.net_amount,
+        id
+      ]
+    });
+  }
+
+  // Reemplazar las tarifas de impuestos de la cuenta y recalcular los montos
+  async updateInvoiceTaxRates(id: number, rates: InvoiceTaxRates, socialSecurityNote: string | null): Promise<void> {
+    const client = this.getClient();
+    await client.execute({
+      sql: 'UPDATE invoices SET iva_rate = ?, retefuente_rate = ?, reteica_rate = ?, social_security_note = ? WHERE id = ?',
+      args: [rates.iva_rate, rates.retefuente_rate, rates.reteica_rate, socialSecurityNote, id]
+    });
+    await this.recalculateInvoiceTotals(id);
+  }
+
   async getInvoiceById(id: number): Promise<Invoice | null> {
     const client = this.getClient();
     const result = await client.execute({
-      sql: 'SELECT * FROM invoices WHERE id = ?',
+      sql: `SELECT invoices.*, ${INVOICE_AMOUNT_PAID_SQL} FROM invoices WHERE id = ?`,
       args: [id]
     });
 
@@ -889,26 +2621,21 @@ class Database {
 
     // Get items
     const itemsResult = await client.execute({
-      sql: 'SELECT * FROM invoice_items WHERE invoice_id = ?',
+      sql: 'SELECT * FROM invoice_items WHERE invoice_id = ? ORDER BY id ASC',
       args: [id]
     });
 
-    invoice.items = itemsResult.rows.map((itemRow: Record<string, unknown>) => ({
-      id: Number(itemRow.id),
-      invoice_id: Number(itemRow.invoice_id),
-      concept: String(itemRow.concept),
-      hours: Number(itemRow.hours),
-      rate: Number(itemRow.rate),
-      total: Number(itemRow.total),
-      project_id: itemRow.project_id != null ? Number(itemRow.project_id) : null
-    }));
+    invoice.items = itemsResult.rows.map((itemRow: Record<string, unknown>) => this.mapRowToInvoiceItem(itemRow));
+    invoice.payments = await this.getInvoicePayments(id);
 
     return invoice;
   }
 
   async getUserInvoices(userId: number, companyId?: number): Promise<Invoice[]> {
     const client = this.getClient();
-    let sql = 'SELECT * FROM invoices WHERE user_id = ?';
+    // Las cuentas de una empresa en la papelera vuelven al restaurarla
+    let sql = `SELECT invoices.*, ${INVOICE_AMOUNT_PAID_SQL} FROM invoices
+      WHERE user_id = ? AND company_id IN (SELECT id FROM companies WHERE deleted_at IS NULL)`;
     const args: (number | string)[] = [userId];
 
     if (companyId) {
@@ -940,14 +2667,102 @@ class Database {
 
   async deleteInvoice(id: number): Promise<void> {
     const client = this.getClient();
-    // Items se eliminan automáticamente por CASCADE
+    // Items y pagos se eliminan automáticamente por CASCADE; las entradas se liberan antes
+    await this.releaseInvoiceEntries(id);
     await client.execute({
       sql: 'DELETE FROM invoices WHERE id = ?',
       args: [id]
     });
   }
 
+  // ========== Invoice Payment Methods ==========
+
+  async addInvoicePayment(payment: Omit<InvoicePayment, 'id' | 'created_at'>): Promise<number> {
+    const client = this.getClient();
+    const result = await client.execute({
+      sql: 'INSERT INTO invoice_payments (invoice_id, date, amount, method, reference, notes) VALUES (?, ?, ?, ?, ?, ?)',
+      args: [
+        payment.invoice_id,
+        payment.date,
+        payment.amount,
+        payment.method,
+        payment.reference ?? null,
+        payment.notes ?? null
+      ]
+    });
+    return Number(result.lastInsertRowid);
+  }
+
+  async getInvoicePayments(invoiceId: number): Promise<InvoicePayment[]> {
+    const client = this.getClient();
+    const result = await client.execute({
+      sql: 'SELECT * FROM invoice_payments WHERE invoice_id = ? ORDER BY date ASC, id ASC',
+      args: [invoiceId]
+    });
+
+    return result.rows.map((row: Record<string, unknown>) => this.mapRowToInvoicePayment(row));
+  }
+
+  async getInvoicePaymentById(id: number): Promise<InvoicePayment | null> {
+    const client = this.getClient();
+    const result = await client.execute({
+      sql: 'SELECT * FROM invoice_payments WHERE id = ?',
+      args: [id]
+    });
+
+    if (result.rows.length === 0) return null;
+    return this.mapRowToInvoicePayment(result.rows[0] as Record<string, unknown>);
+  }
+
+  async deleteInvoicePayment(id: number): Promise<void> {
+    const client = this.getClient();
+    await client.execute({
+      sql: 'DELETE FROM invoice_payments WHERE id = ?',
+      args: [id]
+    });
+  }
+
+  // Ajustar el estado (sent / partially_paid / paid) según el saldo actual
+  async syncInvoicePaymentStatus(id: number): Promise<void> {
+    const invoice = await this.getInvoiceById(id);
+    if (!invoice) return;
+
+    const nextStatus = getStatusForPayments(invoice.status, invoice.net_amount ?? invoice.total_amount, invoice.amount_paid ?? 0);
+    if (nextStatus !== invoice.status) {
+      await this.updateInvoiceStatus(id, nextStatus);
+    }
+  }
+
+  private mapRowToInvoicePayment(row: Record<string, unknown>): InvoicePayment {
+    return {
+      id: Number(row.id),
+      invoice_id: Number(row.invoice_id),
+      date: String(row.date),
+      amount: Number(row.amount),
+      method: String(row.method) as InvoicePaymentMethod,
+      reference: row.reference ? String(row.reference) : undefined,
+      notes: row.notes ? String(row.notes) : undefined,
+      created_at: row.created_at ? String(row.created_at) : undefined
+    };
+  }
+
+  private mapRowToInvoiceItem(row: Record<string, unknown>): InvoiceItem {
+    return {
+      id: Number(row.id),
+      invoice_id: Number(row.invoice_id),
+      item_type: (row.item_type ? String(row.item_type) : 'hours') as InvoiceItemType,
+      concept: String(row.concept),
+      hours: Number(row.hours),
+      rate: Number(row.rate),
+      total: Number(row.total),
+      project_id: row.project_id != null ? Number(row.project_id) : null
+    };
+  }
+
   private mapRowToInvoice(row: Record<string, unknown>): Invoice {
+    // Cuentas anteriores a los impuestos no tienen net_amount: el neto es el subtotal
+    const netAmount = row.net_amount != null ? Number(row.net_amount) : Number(row.total_amount);
+    const amountPaid = Number(row.amount_paid ?? 0);
     return {
       id: Number(row.id),
       user_id: Number(row.user_id),
@@ -974,7 +2789,21 @@ class Database {
       client_address: row.client_address ? String(row.client_address) : undefined,
       client_city: row.client_city ? String(row.client_city) : undefined,
       total_hours: Number(row.total_hours),
+      currency: (row.currency ? String(row.currency) : 'COP') as CurrencyCode,
+      exchange_rate: Number(row.exchange_rate ?? 1),
       total_amount: Number(row.total_amount),
+      iva_rate: Number(row.iva_rate ?? 0),
+      iva_amount: Number(row.iva_amount ?? 0),
+      gross_amount: row.gross_amount != null ? Number(row.gross_amount) : Number(row.total_amount),
+      retefuente_rate: Number(row.retefuente_rate ?? 0),
+      retefuente_amount: Number(row.retefuente_amount ?? 0),
+      reteica_rate: Number(row.reteica_rate ?? 0),
+      reteica_amount: Number(row.reteica_amount ?? 0),
+      total_deductions: Number(row.total_deductions ?? 0),
+      net_amount: netAmount,
+      social_security_note: row.social_security_note ? String(row.social_security_note) : undefined,
+      amount_paid: roundMoney(amountPaid),
+      balance: roundMoney(netAmount - amountPaid),
       created_at: row.created_at ? String(row.created_at) : undefined,
       updated_at: row.updated_at ? String(row.updated_at) : undefined
     };
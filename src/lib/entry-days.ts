@@ -0,0 +1,169 @@
+import { BulkAddRequest, DailyEntrySummary, EntryChange, HourEntry, SplitEntryPart, WEEKDAY_ALIASES } from './types';
+
+const roundHours = (value: number) => Math.round(value * 100) / 100;
+
+export const sumEntryHours = (entries: Pick<HourEntry, 'hours'>[]) =>
+  roundHours(entries.reduce((sum, entry) => sum + entry.hours, 0));
+
+// Totales por día (y por proyecto si byProject) a partir de entradas independientes
+export function aggregateEntriesByDay(entries: HourEntry[], byProject: boolean = true): DailyEntrySummary[] {
+  const days = new Map<string, DailyEntrySummary>();
+
+  for (const entry of entries) {
+    const projectId = byProject ? entry.project_id ?? null : null;
+    const key = `${entry.company_id}|${entry.date}|${projectId ?? ''}`;
+    const day = days.get(key) ?? {
+      date: entry.date,
+      company_id: entry.company_id,
+      project_id: projectId,
+      hours: 0,
+      entry_count: 0,
+      entry_ids: [],
+      descriptions: []
+    };
+
+    day.hours = roundHours(day.hours + entry.hours);
+    day.entry_count += 1;
+    if (entry.id != null) day.entry_ids.push(entry.id);
+    if (entry.description?.trim()) day.descriptions.push(entry.description.trim());
+    days.set(key, day);
+  }
+
+  return [...days.values()].sort((a, b) => a.date.localeCompare(b.date) || (a.project_id ?? 0) - (b.project_id ?? 0));
+}
+
+// Entradas de un rango agrupadas por fecha (del proyecto indicado, sin proyecto con null, o de todos con undefined),
+// en el orden de la consulta: así una carga masiva lee todo el rango una sola vez
+export function groupEntriesByDate(entries: HourEntry[], projectId?: number | null): Map<string, HourEntry[]> {
+  const byDate = new Map<string, HourEntry[]>();
+  for (const entry of entries) {
+    if (projectId !== undefined && (entry.project_id ?? null) !== projectId) continue;
+    byDate.set(entry.date, [...(byDate.get(entry.date) ?? []), entry]);
+  }
+  return byDate;
+}
+
+// Días de la semana por nombre o abreviatura (WEEKDAY_ALIASES) a ISO (0 = lunes), sin repetidos
+export function parseWeekdays(weekdayStrings: string[]): number[] {
+  const weekdays: number[] = [];
+
+  for (const weekdayStr of weekdayStrings) {
+    const normalized = weekdayStr.toLowerCase().trim();
+    const weekday = WEEKDAY_ALIASES[normalized];
+
+    if (weekday !== undefined) {
+      weekdays.push(weekday);
+    } else {
+      throw new Error(`Día de la semana inválido: ${weekdayStr}`);
+    }
+  }
+
+  return [...new Set(weekdays)];
+}
+
+// Una entrada facturada queda de solo lectura mientras su cuenta no esté en borrador
+export function isEntryLocked(entry: Pick<HourEntry, 'invoice_item_id' | 'invoice_status'>): boolean {
+  return entry.invoice_item_id != null && entry.invoice_status != null && entry.invoice_status !== 'draft';
+}
+
+// Ya incluida en una cuenta de cobro vigente (borrador o emitida); las anuladas liberan sus entradas
+export function isEntryInvoiced(entry: Pick<HourEntry, 'invoice_item_id' | 'invoice_status'>): boolean {
+  return entry.invoice_item_id != null && entry.invoice_status !== 'cancelled';
+}
+
+export function lockedEntryMessage(entry: Pick<HourEntry, 'invoice_number'>): string {
+  return `La entrada está facturada en la cuenta ${entry.invoice_number ?? ''}`.trim();
+}
+
+// Descripciones distintas de varias entradas en una sola, en orden
+export function mergeEntryDescriptions(entries: Pick<HourEntry, 'description'>[]): string {
+  const descriptions = entries
+    .map(entry => entry.description?.trim() ?? '')
+    .filter(description => description !== '');
+  return [...new Set(descriptions)].join('; ');
+}
+
+export type DayWritePlan =
+  | { action: 'skip'; old_total: number }
+  | { action: 'error'; old_total: number; message: string }
+  | { action: 'replace' | 'append'; old_total: number; new_total: number };
+
+// Qué hacer con un día según el modo de carga: set deja el total en `hours` (consolidado en una entrada),
+// accumulate agrega una entrada nueva y error rechaza días que ya tienen horas.
+// set no reemplaza días con entradas facturadas; accumulate sí puede agregarles horas.
+export function planDayWrite(
+  dayEntries: HourEntry[],
+  hours: number,
+  mode: BulkAddRequest['mode'],
+  skipExisting: boolean = false
+): DayWritePlan {
+  const oldTotal = sumEntryHours(dayEntries);
+
+  if (dayEntries.length === 0) {
+    return { action: 'append', old_total: 0, new_total: roundHours(hours) };
+  }
+
+  if (skipExisting) {
+    return { action: 'skip', old_total: oldTotal };
+  }
+
+  if (mode === 'error') {
+    return { action: 'error', old_total: oldTotal, message: 'Ya existe una entrada' };
+  }
+
+  const locked = dayEntries.find(isEntryLocked);
+  if (mode !== 'accumulate' && locked) {
+    return { action: 'error', old_total: oldTotal, message: lockedEntryMessage(locked) };
+  }
+
+  const newTotal = mode === 'accumulate' ? roundHours(oldTotal + hours) : roundHours(hours);
+  if (newTotal < 0 || newTotal > 24) {
+    return { action: 'error', old_total: oldTotal, message: 'Las horas resultantes deben estar entre 0 y 24' };
+  }
+
+  return { action: mode === 'accumulate' ? 'append' : 'replace', old_total: oldTotal, new_total: newTotal };
+}
+
+// Escritura planificada de un día; las de una carga se aplican juntas en una transacción (applyDayWrites)
+export interface DayWrite {
+  date: string;
+  company_id: number;
+  project_id: number | null;
+  action: 'replace' | 'append';
+  hours: number; // replace: total del día; append: horas de la entrada nueva
+  description: string;
+  day_entries: HourEntry[]; // Entradas del día que reemplaza (replace)
+}
+
+// Cambio que produce el plan de un día, tal como se muestra en la vista previa (dry_run)
+export function dayWriteChange(date: string, plan: DayWritePlan): EntryChange {
+  if (plan.action === 'skip') {
+    return { date, old_value: plan.old_total, new_value: plan.old_total, kind: 'skip' };
+  }
+  if (plan.action === 'error') {
+    return { date, old_value: plan.old_total, new_value: plan.old_total, kind: 'conflict', reason: plan.message };
+  }
+  return {
+    date,
+    old_value: plan.old_total,
+    new_value: plan.new_total,
+    kind: plan.action === 'replace' ? 'overwrite' : plan.old_total > 0 ? 'accumulate' : 'create'
+  };
+}
+
+// Las partes deben sumar exactamente las horas de la entrada original
+export function validateSplitParts(originalHours: number, parts: SplitEntryPart[]): string | null {
+  if (!Array.isArray(parts) || parts.length < 2) {
+    return 'Debes indicar al menos dos partes';
+  }
+
+  if (parts.some(part => typeof part.hours !== 'number' || !Number.isFinite(part.hours) || part.hours <= 0)) {
+    return 'Cada parte debe tener un número de horas mayor que 0';
+  }
+
+  if (Math.abs(sumEntryHours(parts) - roundHours(originalHours)) > 0.001) {
+    return `Las partes deben sumar ${roundHours(originalHours)} horas`;
+  }
+
+  return null;
+}
@@ -0,0 +1,95 @@
+import { formatColombiaNumber } from './formatters';
+import { isBillableEntry, RateResolver } from './rates';
+import { Company, EntryExportFormat, EntryExportLocale, EntryExportRow, HourEntry, Project, WEEKDAY_NAMES_ES } from './types';
+import { buildXlsx } from './xlsx';
+import { isoWeekday } from './dates';
+
+export const ENTRY_EXPORT_FORMATS: EntryExportFormat[] = ['csv', 'xlsx', 'json'];
+export const ENTRY_EXPORT_LOCALES: EntryExportLocale[] = ['es-CO', 'en-US'];
+
+export const ENTRY_EXPORT_CONTENT_TYPES: Record<EntryExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  json: 'application/json; charset=utf-8'
+};
+
+const EXPORT_HEADERS = ['Fecha', 'Día', 'Empresa', 'Proyecto', 'Descripción', 'Horas', 'Facturable', 'Tarifa', 'Monto', 'Moneda'];
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+// Una fila por entrada, con el nombre del proyecto y el monto según la tarifa vigente ese día (0 si no es facturable)
+export function buildEntryExportRows(
+  entries: HourEntry[],
+  companies: Company[],
+  projects: Project[],
+  resolvers: Map<number, RateResolver>
+): EntryExportRow[] {
+  const companyById = new Map(companies.map(company => [company.id, company]));
+  const projectNameById = new Map(projects.map(project => [project.id, project.name]));
+
+  return entries.map(entry => {
+    const company = companyById.get(entry.company_id);
+    const hourlyRate = resolvers.get(entry.company_id)?.(entry) ?? company?.hourly_rate ?? 0;
+    return {
+      date: entry.date,
+      weekday: WEEKDAY_NAMES_ES[isoWeekday(entry.date)],
+      company_name: company?.name ?? '',
+      project_name: entry.project_id != null ? projectNameById.get(entry.project_id) ?? null : null,
+      description: entry.description ?? '',
+      hours: entry.hours,
+      billable: isBillableEntry(entry),
+      hourly_rate: hourlyRate,
+      amount: isBillableEntry(entry) ? roundMoney(entry.hours * hourlyRate) : 0,
+      currency: company?.currency ?? 'COP'
+    };
+  });
+}
+
+// es-CO usa ';' como separador y decimales como formatColombiaNumber (1.234,50), que es lo que
+// Excel en español espera; en-US usa ',' y números sin separador de miles.
+export function entriesToCsv(rows: EntryExportRow[], locale: EntryExportLocale = 'es-CO'): string {
+  const delimiter = locale === 'es-CO' ? ';' : ',';
+  const formatNumber = (value: number) => locale === 'es-CO' ? formatColombiaNumber(value, 2) : value.toFixed(2);
+  const escape = (value: string) =>
+    value.includes(delimiter) || /["\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+  const lines = [
+    EXPORT_HEADERS,
+    ...rows.map(row => [
+      row.date,
+      row.weekday,
+      row.company_name,
+      row.project_name ?? '',
+      row.description,
+      formatNumber(row.hours),
+      row.billable ? 'Sí' : 'No',
+      formatNumber(row.hourly_rate),
+      formatNumber(row.amount),
+      row.currency
+    ])
+  ].map(cells => cells.map(escape).join(delimiter));
+
+  // BOM para que Excel abra el archivo como UTF-8
+  return '\uFEFF' + lines.join('\r\n') + '\r\n';
+}
+
+// En XLSX los números se guardan como números; Excel los muestra según la configuración regional
+export function entriesToXlsx(rows: EntryExportRow[]): Uint8Array {
+  return buildXlsx('Horas', EXPORT_HEADERS, rows.map(row => [
+    row.date,
+    row.weekday,
+    row.company_name,
+    row.project_name,
+    row.description,
+    row.hours,
+    row.billable ? 'Sí' : 'No',
+    row.hourly_rate,
+    row.amount,
+    row.currency
+  ]));
+}
+
+export function getEntryExportFileName(format: EntryExportFormat, startDate?: string, endDate?: string): string {
+  const range = startDate || endDate ? `_${startDate ?? 'inicio'}_${endDate ?? 'hoy'}` : '';
+  return `horas${range}.${format}`;
+}
@@ -0,0 +1,57 @@
+import { EntryChangeRecord, EntryChangeSource, HourEntry } from './types';
+import { isEntryLocked } from './entry-days';
+
+export const ENTRY_CHANGE_SOURCE_LABELS: Record<EntryChangeSource, string> = {
+  entry: 'Edición',
+  bulk: 'Carga masiva',
+  fill_average: 'Completar con promedios',
+  import: 'Importación CSV',
+  merge: 'Unir entradas',
+  split: 'Dividir entrada',
+  timer: 'Temporizador',
+  tags: 'Etiquetas',
+  template: 'Plantillas recurrentes'
+};
+
+const SNAPSHOT_FIELDS = [
+  'date', 'hours', 'description', 'company_id', 'project_id', 'start_time', 'end_time', 'break_minutes', 'billable'
+] as const;
+
+// Compara los campos guardados de la entrada; las etiquetas se restauran pero no cuentan como cambio posterior
+export function entryMatchesSnapshot(current: HourEntry | null, snapshot: HourEntry | null): boolean {
+  if (current === null || snapshot === null) return current === snapshot;
+  return SNAPSHOT_FIELDS.every(field => (current[field] ?? null) === (snapshot[field] ?? null));
+}
+
+export type BatchUndoPlan =
+  | { ok: true; restores: Array<{ entry_id: number; target: HourEntry | null }> }
+  | { ok: false; message: string };
+
+// Deshacer un lote deja cada entrada como estaba antes de su primer cambio en el lote.
+// Solo se permite si ninguna entrada cambió después (debe coincidir con su último estado) ni está facturada en una cuenta emitida.
+export function planBatchUndo(changes: EntryChangeRecord[], currentEntries: HourEntry[]): BatchUndoPlan {
+  const ordered = [...changes].sort((a, b) => (a.id ?? 0) - (b.id ?? 0));
+  const firstBefore = new Map<number, HourEntry | null>();
+  const lastAfter = new Map<number, HourEntry | null>();
+
+  for (const change of ordered) {
+    if (!firstBefore.has(change.entry_id)) firstBefore.set(change.entry_id, change.before);
+    lastAfter.set(change.entry_id, change.after);
+  }
+
+  const currentById = new Map(currentEntries.map(entry => [entry.id!, entry]));
+  const restores: Array<{ entry_id: number; target: HourEntry | null }> = [];
+
+  for (const [entryId, target] of firstBefore) {
+    const current = currentById.get(entryId) ?? null;
+    if (!entryMatchesSnapshot(current, lastAfter.get(entryId) ?? null)) {
+      return { ok: false, message: `La entrada del ${current?.date ?? target?.date ?? lastAfter.get(entryId)?.date} cambió después de la operación` };
+    }
+    if (current && isEntryLocked(current)) {
+      return { ok: false, message: `La entrada del ${current.date} está facturada en la cuenta ${current.invoice_number}` };
+    }
+    restores.push({ entry_id: entryId, target });
+  }
+
+  return { ok: true, restores };
+}
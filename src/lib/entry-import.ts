@@ -0,0 +1,251 @@
+import { EntryImportColumnMap, EntryImportDateOrder, EntryImportFormat } from './types';
+import { toDateString } from './dates';
+
+export const ENTRY_IMPORT_FORMATS: EntryImportFormat[] = ['toggl', 'clockify', 'generic'];
+
+// Una fila ya agregada: todas las horas de un proyecto en un día
+export interface ImportedDay {
+  date: string;
+  project_name: string | null;
+  hours: number;
+  description: string;
+}
+
+export interface ParsedEntryImport {
+  format: EntryImportFormat;
+  rows_read: number;
+  days: ImportedDay[];
+  errors: string[];
+}
+
+interface ImportLayout {
+  // Nombres de columna aceptados por campo, en orden de preferencia (en minúsculas)
+  columns: Required<Record<keyof EntryImportColumnMap, string[]>>;
+  dateOrder: EntryImportDateOrder;
+}
+
+const IMPORT_LAYOUTS: Record<EntryImportFormat, ImportLayout> = {
+  toggl: {
+    columns: {
+      date: ['start date'],
+      hours: ['duration'],
+      project: ['project'],
+      description: ['description']
+    },
+    dateOrder: 'mdy'
+  },
+  clockify: {
+    columns: {
+      date: ['start date'],
+      hours: ['duration (decimal)', 'duration (h)'],
+      project: ['project'],
+      description: ['description']
+    },
+    dateOrder: 'mdy'
+  },
+  generic: {
+    columns: {
+      date: ['date', 'fecha', 'día', 'dia'],
+      hours: ['hours', 'horas', 'duration', 'duración', 'duracion'],
+      project: ['project', 'proyecto'],
+      description: ['description', 'descripción', 'descripcion', 'concepto']
+    },
+    dateOrder: 'dmy'
+  }
+};
+
+const roundHours = (value: number) => Math.round(value * 100) / 100;
+
+const normalizeHeader = (value: string) => value.trim().toLowerCase();
+
+// Separador más frecuente en la primera línea (Excel en español exporta con ';')
+function detectDelimiter(headerLine: string): string {
+  const candidates = [',', ';', '\t'];
+  return candidates.reduce((best, candidate) =>
+    headerLine.split(candidate).length > headerLine.split(best).length ? candidate : best
+  );
+}
+
+// Parser CSV con soporte para comillas, comillas escapadas ("") y saltos de línea dentro de campos
+export function parseCsv(text: string): string[][] {
+  const content = text.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(content.split(/\r?\n/, 1)[0] ?? '');
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(cells => cells.some(cell => cell.trim() !== ''));
+}
+
+// Toggl y Clockify se reconocen por sus columnas propias; lo demás se trata como genérico
+export function detectImportFormat(headers: string[]): EntryImportFormat {
+  const normalized = headers.map(normalizeHeader);
+  if (normalized.includes('duration (decimal)') || normalized.includes('duration (h)')) {
+    return 'clockify';
+  }
+  if (normalized.includes('start date') && normalized.includes('duration')) {
+    return 'toggl';
+  }
+  return 'generic';
+}
+
+// Acepta YYYY-MM-DD, o D/M/YYYY y M/D/YYYY (también con '-' o '.') según el orden indicado
+export function parseImportDate(value: string, order: EntryImportDateOrder): string | null {
+  const trimmed = value.trim();
+  let year: number;
+  let month: number;
+  let day: number;
+
+  const iso = trimmed.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  const slashed = trimmed.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})/);
+  if (iso) {
+    [year, month, day] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+  } else if (slashed) {
+    const first = Number(slashed[1]);
+    const second = Number(slashed[2]);
+    year = Number(slashed[3]);
+    [day, month] = order === 'dmy' ? [first, second] : [second, first];
+  } else {
+    return null;
+  }
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return toDateString(date);
+}
+
+// Acepta duraciones H:MM(:SS) y decimales con punto o coma ("1.5", "1,5")
+export function parseImportDuration(value: string): number | null {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+
+  const clock = trimmed.match(/^(\d+):(\d{1,2})(?::(\d{1,2}))?$/);
+  if (clock) {
+    const [, hours, minutes, seconds = '0'] = clock;
+    return Number(hours) + Number(minutes) / 60 + Number(seconds) / 3600;
+  }
+
+  const decimal = Number(trimmed.replace(',', '.'));
+  return Number.isFinite(decimal) ? decimal : null;
+}
+
+function findColumn(headers: string[], explicit: string | undefined, candidates: string[]): number {
+  const normalized = headers.map(normalizeHeader);
+  if (explicit) {
+    return normalized.indexOf(normalizeHeader(explicit));
+  }
+  for (const candidate of candidates) {
+    const index = normalized.indexOf(candidate);
+    if (index !== -1) return index;
+  }
+  return -1;
+}
+
+// Leer el CSV y sumar las horas por día y proyecto. Los errores de fila no detienen la importación.
+export function parseEntryImport(
+  csv: string,
+  options: { format?: EntryImportFormat | 'auto'; columns?: EntryImportColumnMap; dateOrder?: EntryImportDateOrder } = {}
+): ParsedEntryImport {
+  const [headers = [], ...rows] = parseCsv(csv);
+  const format = !options.format || options.format === 'auto' ? detectImportFormat(headers) : options.format;
+  const layout = IMPORT_LAYOUTS[format];
+  const dateOrder = options.dateOrder ?? layout.dateOrder;
+  const columns = options.columns ?? {};
+
+  const dateIndex = findColumn(headers, columns.date, layout.columns.date);
+  const hoursIndex = findColumn(headers, columns.hours, layout.columns.hours);
+  const projectIndex = findColumn(headers, columns.project, layout.columns.project);
+  const descriptionIndex = findColumn(headers, columns.description, layout.columns.description);
+
+  const errors: string[] = [];
+  if (dateIndex === -1) errors.push('No se encontró la columna de fecha');
+  if (hoursIndex === -1) errors.push('No se encontró la columna de horas');
+  if (errors.length > 0) {
+    return { format, rows_read: rows.length, days: [], errors };
+  }
+
+  const grouped = new Map<string, ImportedDay & { descriptions: Set<string> }>();
+
+  rows.forEach((cells, index) => {
+    const line = index + 2; // +1 por el encabezado, +1 porque las filas se cuentan desde 1
+    const date = parseImportDate(cells[dateIndex] ?? '', dateOrder);
+    if (!date) {
+      errors.push(`Fila ${line}: fecha inválida "${cells[dateIndex] ?? ''}"`);
+      return;
+    }
+
+    const hours = parseImportDuration(cells[hoursIndex] ?? '');
+    if (hours === null || hours < 0) {
+      errors.push(`Fila ${line}: duración inválida "${cells[hoursIndex] ?? ''}"`);
+      return;
+    }
+
+    const projectName = projectIndex === -1 ? '' : (cells[projectIndex] ?? '').trim();
+    const description = descriptionIndex === -1 ? '' : (cells[descriptionIndex] ?? '').trim();
+    const key = `${date}|${projectName.toLowerCase()}`;
+
+    const day = grouped.get(key) ?? {
+      date,
+      project_name: projectName || null,
+      hours: 0,
+      description: '',
+      descriptions: new Set<string>()
+    };
+    day.hours += hours;
+    if (description) day.descriptions.add(description);
+    grouped.set(key, day);
+  });
+
+  const days: ImportedDay[] = [];
+  for (const { descriptions, ...day } of grouped.values()) {
+    const hours = roundHours(day.hours);
+    if (hours > 24) {
+      errors.push(`${day.date}${day.project_name ? ` (${day.project_name})` : ''}: suma ${hours} horas, el máximo por día es 24`);
+      continue;
+    }
+    days.push({ ...day, hours, description: [...descriptions].join('; ') });
+  }
+
+  days.sort((a, b) => a.date.localeCompare(b.date) || (a.project_name ?? '').localeCompare(b.project_name ?? ''));
+
+  return { format, rows_read: rows.length, days, errors };
+}
@@ -0,0 +1,68 @@
+import { HourEntry, TagReportSummary } from './types';
+import { calculateEarnings, RateResolver } from './rates';
+
+export const MAX_TAG_LENGTH = 40;
+
+// Etiquetas en minúsculas y sin espacios repetidos; la coma separa etiquetas en listas
+export function normalizeTagName(value: string): string {
+  return value.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+// Lista de etiquetas desde un arreglo o un texto separado por comas, sin repetidas
+export function parseTagList(value: unknown): { tags: string[]; error?: string } {
+  if (value === undefined || value === null || value === '') {
+    return { tags: [] };
+  }
+
+  const rawTags = typeof value === 'string' ? [value] : value;
+  if (!Array.isArray(rawTags) || rawTags.some(tag => typeof tag !== 'string')) {
+    return { tags: [], error: 'Las etiquetas deben ser una lista de textos' };
+  }
+
+  const tags = [...new Set(rawTags.flatMap(tag => tag.split(',')).map(normalizeTagName).filter(tag => tag !== ''))];
+  const tooLong = tags.find(tag => tag.length > MAX_TAG_LENGTH);
+  if (tooLong) {
+    return { tags: [], error: `La etiqueta "${tooLong}" supera ${MAX_TAG_LENGTH} caracteres` };
+  }
+
+  return { tags };
+}
+
+// Entradas con al menos una de las etiquetas; 'none' selecciona las que no tienen ninguna
+export function filterEntriesByTags(entries: HourEntry[], tags: string[]): HourEntry[] {
+  if (tags.length === 0) return entries;
+
+  const wanted = new Set(tags);
+  return entries.filter(entry => {
+    const entryTags = entry.tags ?? [];
+    if (entryTags.length === 0) return wanted.has('none');
+    return entryTags.some(tag => wanted.has(tag));
+  });
+}
+
+// Horas y montos por etiqueta. Una entrada con varias etiquetas cuenta en cada una,
+// así que los porcentajes pueden sumar más de 100
+export function summarizeEntriesByTag(entries: HourEntry[], rate: number | RateResolver): TagReportSummary[] {
+  const totalHours = entries.reduce((sum, entry) => sum + entry.hours, 0);
+  const groups = new Map<string | null, HourEntry[]>();
+
+  for (const entry of entries) {
+    const entryTags = entry.tags && entry.tags.length > 0 ? entry.tags : [null];
+    for (const tag of entryTags) {
+      groups.set(tag, [...(groups.get(tag) ?? []), entry]);
+    }
+  }
+
+  return [...groups.entries()]
+    .map(([tag, tagEntries]) => {
+      const hours = Math.round(tagEntries.reduce((sum, entry) => sum + entry.hours, 0) * 100) / 100;
+      return {
+        tag,
+        hours,
+        amount: calculateEarnings(tagEntries, rate),
+        share: totalHours > 0 ? Math.round((hours / totalHours) * 1000) / 10 : 0,
+        entry_count: tagEntries.length
+      };
+    })
+    .sort((a, b) => (a.tag === null ? 1 : 0) - (b.tag === null ? 1 : 0) || b.hours - a.hours);
+}
@@ -0,0 +1,123 @@
+import { EntryTemplate, EntryTemplateRequest } from './types';
+import { parseWeekdays } from './entry-days';
+import { daysBetween, isDateString, isoWeekday, listDates, startOfWeek, todayInTimeZone } from './dates';
+
+export const MAX_TEMPLATE_INTERVAL_WEEKS = 52;
+
+export type TemplateFields = Omit<EntryTemplate, 'id' | 'user_id' | 'created_at'>;
+
+// Valida y normaliza los campos de una plantilla; con `current` solo se reemplazan los enviados (PUT).
+// Sin start_date la plantilla empieza hoy (`today`, en la zona horaria del usuario)
+export function parseTemplateFields(
+  body: Partial<EntryTemplateRequest>,
+  current?: TemplateFields,
+  today: string = todayInTimeZone()
+): { fields?: TemplateFields; error?: string } {
+  const companyId = body.company_id ?? current?.company_id;
+  if (!companyId) {
+    return { error: 'Falta el campo requerido: company_id' };
+  }
+
+  let weekdays = current?.weekdays ?? [];
+  if (body.weekdays !== undefined) {
+    if (!Array.isArray(body.weekdays) || body.weekdays.some(day => typeof day !== 'string')) {
+      return { error: 'Los días deben ser una lista de nombres (lunes, tue...)' };
+    }
+    try {
+      weekdays = parseWeekdays(body.weekdays).sort((a, b) => a - b);
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : 'Días de la semana inválidos' };
+    }
+  }
+  if (weekdays.length === 0) {
+    return { error: 'Indica al menos un día de la semana' };
+  }
+
+  const hours = body.hours ?? current?.hours;
+  if (typeof hours !== 'number' || hours <= 0 || hours > 24) {
+    return { error: 'Las horas deben ser un número mayor que 0 y hasta 24' };
+  }
+
+  const intervalWeeks = body.interval_weeks ?? current?.interval_weeks ?? 1;
+  if (!Number.isInteger(intervalWeeks) || intervalWeeks < 1 || intervalWeeks > MAX_TEMPLATE_INTERVAL_WEEKS) {
+    return { error: `El intervalo debe ser un número entero de semanas entre 1 y ${MAX_TEMPLATE_INTERVAL_WEEKS}` };
+  }
+
+  const startDate = body.start_date ?? current?.start_date ?? today;
+  const endDate = body.end_date !== undefined ? body.end_date || null : current?.end_date ?? null;
+  if (!isDateString(startDate) || (endDate !== null && !isDateString(endDate))) {
+    return { error: 'Formato de fecha inválido, usa YYYY-MM-DD' };
+  }
+  if (endDate !== null && endDate < startDate) {
+    return { error: 'La fecha final debe ser mayor o igual que la inicial' };
+  }
+
+  return {
+    fields: {
+      company_id: companyId,
+      project_id: body.project_id !== undefined ? body.project_id ?? null : current?.project_id ?? null,
+      weekdays,
+      interval_weeks: intervalWeeks,
+      hours: Math.round(hours * 100) / 100,
+      description: (body.description ?? current?.description ?? '').trim(),
+      start_date: startDate,
+      end_date: endDate,
+      active: body.active ?? current?.active ?? true
+    }
+  };
+}
+
+// Fechas del rango en que aplica la plantilla: sus días de la semana, cada interval_weeks semanas
+// contadas desde la semana de start_date, y dentro de su vigencia
+export function getTemplateDates(template: EntryTemplate, startDate: string, endDate: string): string[] {
+  const from = startDate > template.start_date ? startDate : template.start_date;
+  const to = template.end_date && template.end_date < endDate ? template.end_date : endDate;
+  // El intervalo se cuenta en semanas completas, de lunes a domingo
+  const anchor = startOfWeek(template.start_date);
+
+  return listDates(from, to).filter(date => {
+    const weeksSinceStart = daysBetween(anchor, startOfWeek(date)) / 7;
+    return template.weekdays.includes(isoWeekday(date)) && weeksSinceStart % template.interval_weeks === 0;
+  });
+}
+
+export interface TemplateOccurrence {
+  date: string;
+  company_id: number;
+  project_id: number | null;
+  hours: number;
+  description: string;
+  template_ids: number[];
+}
+
+// Horas de las plantillas por día, empresa y proyecto. Si varias coinciden en el mismo día y proyecto
+// se suman, para que el modo set deje el total de todas y no solo el de la última
+export function buildTemplateOccurrences(templates: EntryTemplate[], startDate: string, endDate: string): TemplateOccurrence[] {
+  const occurrences = new Map<string, TemplateOccurrence>();
+
+  for (const template of templates) {
+    for (const date of getTemplateDates(template, startDate, endDate)) {
+      const projectId = template.project_id ?? null;
+      const key = `${date}|${template.company_id}|${projectId ?? ''}`;
+      const occurrence = occurrences.get(key) ?? {
+        date,
+        company_id: template.company_id,
+        project_id: projectId,
+        hours: 0,
+        description: '',
+        template_ids: []
+      };
+
+      occurrence.hours = Math.round((occurrence.hours + template.hours) * 100) / 100;
+      if (template.description && !occurrence.description.split('; ').includes(template.description)) {
+        occurrence.description = occurrence.description ? `${occurrence.description}; ${template.description}` : template.description;
+      }
+      occurrence.template_ids.push(template.id!);
+      occurrences.set(key, occurrence);
+    }
+  }
+
+  return [...occurrences.values()].sort((a, b) =>
+    a.date.localeCompare(b.date) || a.company_id - b.company_id || (a.project_id ?? 0) - (b.project_id ?? 0)
+  );
+}
@@ -0,0 +1,83 @@
+import { HourEntry } from './types';
+
+// Horario opcional de una entrada: hora de entrada, salida (HH:MM) y minutos de pausa
+export interface EntryTimes {
+  start_time: string | null;
+  end_time: string | null;
+  break_minutes: number;
+}
+
+export const EMPTY_ENTRY_TIMES: EntryTimes = { start_time: null, end_time: null, break_minutes: 0 };
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export const timeToMinutes = (value: string) => {
+  const [hours, minutes] = value.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+// Horas trabajadas entre entrada y salida descontando la pausa, redondeadas a centésimas
+export function hoursFromTimes(startTime: string, endTime: string, breakMinutes: number = 0): number {
+  const minutes = timeToMinutes(endTime) - timeToMinutes(startTime) - breakMinutes;
+  return Math.round((minutes / 60) * 100) / 100;
+}
+
+// Valida el horario recibido en una petición. times = null si no se envió ninguna hora.
+export function parseEntryTimes(input: {
+  start_time?: string | null;
+  end_time?: string | null;
+  break_minutes?: number | null;
+}): { times: EntryTimes | null; error?: string } {
+  const startTime = input.start_time || null;
+  const endTime = input.end_time || null;
+  const breakMinutes = input.break_minutes ?? 0;
+
+  if (!startTime && !endTime) {
+    return breakMinutes
+      ? { times: null, error: 'La pausa requiere hora de entrada y de salida' }
+      : { times: null };
+  }
+
+  if (!startTime || !endTime) {
+    return { times: null, error: 'Debes indicar la hora de entrada y la de salida' };
+  }
+
+  if (!TIME_PATTERN.test(startTime) || !TIME_PATTERN.test(endTime)) {
+    return { times: null, error: 'Formato de hora inválido, usa HH:MM' };
+  }
+
+  const duration = timeToMinutes(endTime) - timeToMinutes(startTime);
+  if (duration <= 0) {
+    return { times: null, error: 'La hora de salida debe ser posterior a la de entrada' };
+  }
+
+  if (!Number.isInteger(breakMinutes) || breakMinutes < 0 || breakMinutes >= duration) {
+    return { times: null, error: 'La pausa debe ser un número entero de minutos menor que la jornada' };
+  }
+
+  return { times: { start_time: startTime, end_time: endTime, break_minutes: breakMinutes } };
+}
+
+export const hasEntryTimes = (entry: Pick<HourEntry, 'start_time' | 'end_time'>) =>
+  Boolean(entry.start_time && entry.end_time);
+
+// Primera entrada con horario que se cruza con el intervalo dado (los extremos pueden tocarse)
+export function findOverlappingEntry(entries: HourEntry[], times: EntryTimes, excludeId?: number): HourEntry | undefined {
+  if (!times.start_time || !times.end_time) return undefined;
+  const start = timeToMinutes(times.start_time);
+  const end = timeToMinutes(times.end_time);
+
+  return entries.find(entry =>
+    entry.id !== excludeId &&
+    hasEntryTimes(entry) &&
+    timeToMinutes(entry.start_time!) < end &&
+    start < timeToMinutes(entry.end_time!)
+  );
+}
+
+// "08:00–12:30" o "08:00–17:00 (60 min de pausa)"; null si la entrada no tiene horario
+export function formatEntryTimeRange(entry: Pick<HourEntry, 'start_time' | 'end_time' | 'break_minutes'>): string | null {
+  if (!hasEntryTimes(entry)) return null;
+  const range = `${entry.start_time}–${entry.end_time}`;
+  return entry.break_minutes ? `${range} (${entry.break_minutes} min de pausa)` : range;
+}
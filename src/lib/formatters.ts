@@ -45,4 +45,15 @@ export function formatHours(hours: number): string {
     minimumFractionDigits: 1,
     maximumFractionDigits: 1,
   }).format(hours);
-}
\ No newline at end of file
+}
+/**
+ * Formatea un monto en la moneda indicada. COP usa formatPrice; otras monedas
+ * llevan el código y dos decimales.
+ * Ejemplo: (1234.5, 'USD') -> "USD 1.234,50"
+ */
+export function formatMoney(amount: number, currency: string = 'COP'): string {
+  if (currency === 'COP') {
+    return formatPrice(amount);
+  }
+  return `${currency} ${formatColombiaNumber(amount, 2)}`;
+}
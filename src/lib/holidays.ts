@@ -0,0 +1,113 @@
+import { Holiday, UserDayOff } from './types';
+import { addDays, isoWeekday, toDateString } from './dates';
+
+// Ley Emiliani (Ley 51 de 1983): el festivo se traslada al lunes siguiente si no cae en lunes
+const nextMonday = (date: string) => addDays(date, (7 - isoWeekday(date)) % 7);
+
+// Fecha (YYYY-MM-DD) de un mes y día del año
+const dateOf = (year: number, month: number, day: number) => toDateString(new Date(Date.UTC(year, month - 1, day)));
+
+// Festivos de fecha fija que no se trasladan
+const FIXED_HOLIDAYS: Array<[number, number, string]> = [
+  [1, 1, 'Año Nuevo'],
+  [5, 1, 'Día del Trabajo'],
+  [7, 20, 'Día de la Independencia'],
+  [8, 7, 'Batalla de Boyacá'],
+  [12, 8, 'Inmaculada Concepción'],
+  [12, 25, 'Navidad']
+];
+
+// Festivos de fecha fija que se trasladan al lunes
+const EMILIANI_HOLIDAYS: Array<[number, number, string]> = [
+  [1, 6, 'Reyes Magos'],
+  [3, 19, 'San José'],
+  [6, 29, 'San Pedro y San Pablo'],
+  [8, 15, 'Asunción de la Virgen'],
+  [10, 12, 'Día de la Raza'],
+  [11, 1, 'Todos los Santos'],
+  [11, 11, 'Independencia de Cartagena']
+];
+
+// Domingo de Pascua (algoritmo de Meeus/Jones/Butcher, calendario gregoriano)
+export function getEasterSunday(year: number): string {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return dateOf(year, month, day);
+}
+
+// Festivos nacionales de Colombia de un año, ordenados por fecha
+export function getColombianHolidays(year: number): Holiday[] {
+  const easter = getEasterSunday(year);
+  const holidays: Holiday[] = [
+    ...FIXED_HOLIDAYS.map(([month, day, name]) => ({
+      date: dateOf(year, month, day),
+      name,
+      source: 'national' as const
+    })),
+    ...EMILIANI_HOLIDAYS.map(([month, day, name]) => ({
+      date: nextMonday(dateOf(year, month, day)),
+      name,
+      source: 'national' as const
+    })),
+    { date: addDays(easter, -3), name: 'Jueves Santo', source: 'national' },
+    { date: addDays(easter, -2), name: 'Viernes Santo', source: 'national' },
+    // Ascensión, Corpus Christi y Sagrado Corazón: 39, 60 y 68 días después de Pascua, trasladados al lunes
+    { date: nextMonday(addDays(easter, 39)), name: 'Ascensión del Señor', source: 'national' },
+    { date: nextMonday(addDays(easter, 60)), name: 'Corpus Christi', source: 'national' },
+    { date: nextMonday(addDays(easter, 68)), name: 'Sagrado Corazón', source: 'national' }
+  ];
+
+  return holidays.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+// Festivos nacionales y días libres del usuario en un rango (inclusive). Un día libre que coincide
+// con un festivo no se repite
+export function getHolidaysInRange(startDate: string, endDate: string, daysOff: UserDayOff[] = []): Holiday[] {
+  const startYear = parseInt(startDate.slice(0, 4));
+  const endYear = parseInt(endDate.slice(0, 4));
+  const byDate = new Map<string, Holiday>();
+
+  for (let year = startYear; year <= endYear; year++) {
+    for (const holiday of getColombianHolidays(year)) {
+      if (holiday.date < startDate || holiday.date > endDate) continue;
+      // Dos festivos pueden caer el mismo lunes (p. ej. 30 de junio de 2025)
+      const sameDay = byDate.get(holiday.date);
+      byDate.set(holiday.date, sameDay ? { ...sameDay, name: `${sameDay.name} / ${holiday.name}` } : holiday);
+    }
+  }
+
+  for (const dayOff of daysOff) {
+    if (dayOff.date >= startDate && dayOff.date <= endDate && !byDate.has(dayOff.date)) {
+      byDate.set(dayOff.date, { date: dayOff.date, name: dayOff.name, source: 'user', id: dayOff.id });
+    }
+  }
+
+  return [...byDate.values()].sort((a, b) => a.date.localeCompare(b.date));
+}
+
+// Consulta rápida de festivos (YYYY-MM-DD): calcula cada año una sola vez
+export function createHolidayChecker(daysOff: Pick<UserDayOff, 'date'>[] = []): (date: string) => boolean {
+  const dates = new Set(daysOff.map(dayOff => dayOff.date));
+  const loadedYears = new Set<number>();
+
+  return (date: string) => {
+    const year = parseInt(date.slice(0, 4));
+    if (!loadedYears.has(year)) {
+      loadedYears.add(year);
+      getColombianHolidays(year).forEach(holiday => dates.add(holiday.date));
+    }
+    return dates.has(date);
+  };
+}
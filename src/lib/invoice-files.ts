@@ -0,0 +1,13 @@
+import { Invoice } from './types';
+
+// Nombre de archivo estable: Cuenta_Cobro_<número>_<cliente>.pdf
+export function getInvoiceFileName(invoice: Pick<Invoice, 'number' | 'client_name'>, extension = 'pdf'): string {
+  const clientName = invoice.client_name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-zA-Z0-9\s]/g, '')
+    .trim()
+    .replace(/\s+/g, '_');
+  const baseName = `Cuenta_Cobro_${invoice.number}_${clientName}`;
+  return extension ? `${baseName}.${extension}` : baseName;
+}
@@ -0,0 +1,174 @@
+import { getWeekBounds } from './analytics';
+import { isBillableEntry, RateResolver, toRateResolver } from './rates';
+import { HourEntry, InvoiceGrouping, InvoiceItem, InvoiceItemRequest, InvoiceItemType, Project } from './types';
+
+export type InvoiceItemDraft = Omit<InvoiceItem, 'id' | 'invoice_id'>;
+
+// Línea de horas generada desde entradas, con las entradas que factura
+export type InvoiceHoursItemDraft = InvoiceItemDraft & { entry_ids: number[] };
+
+export const INVOICE_GROUPINGS: InvoiceGrouping[] = ['single', 'project', 'week', 'description'];
+export const INVOICE_ITEM_TYPES: InvoiceItemType[] = ['hours', 'fixed_fee', 'expense', 'discount'];
+
+const roundAmount = (value: number) => Math.round(value * 100) / 100;
+
+const formatShortDate = (value: string) => {
+  const [, month, day] = value.split('-');
+  return `${day}/${month}`;
+};
+
+// Línea de horas con el total calculado a partir de la tarifa
+export function buildHoursItem(concept: string, hours: number, rate: number, projectId: number | null = null): InvoiceItemDraft {
+  const roundedHours = roundAmount(hours);
+  return {
+    item_type: 'hours',
+    concept,
+    hours: roundedHours,
+    rate,
+    total: roundAmount(roundedHours * rate),
+    project_id: projectId
+  };
+}
+
+// Línea sin horas (tarifa fija, gasto o descuento). Los descuentos se guardan en negativo.
+export function buildAmountItem(itemType: Exclude<InvoiceItemType, 'hours'>, concept: string, amount: number, projectId: number | null = null): InvoiceItemDraft {
+  const absolute = roundAmount(Math.abs(amount));
+  return {
+    item_type: itemType,
+    concept,
+    hours: 0,
+    rate: 0,
+    total: itemType === 'discount' ? -absolute : absolute,
+    project_id: projectId
+  };
+}
+
+// Dividir las horas del periodo en líneas según la agrupación pedida.
+// Las horas con tarifas distintas (cambio de tarifa o tarifa de proyecto) van en líneas separadas.
+export function buildInvoiceItemsFromEntries(
+  entries: HourEntry[],
+  grouping: InvoiceGrouping,
+  rate: number | RateResolver,
+  concept: string,
+  projects: Project[] = []
+): InvoiceHoursItemDraft[] {
+  const resolveRate = toRateResolver(rate);
+  const billable = entries.filter(entry => entry.hours > 0 && isBillableEntry(entry));
+  const entryIds = (lineEntries: HourEntry[]) => lineEntries.flatMap(entry => entry.id != null ? [entry.id] : []);
+
+  if (grouping === 'single') {
+    const projectIds = new Set(billable.map(entry => entry.project_id ?? null));
+    const projectId = projectIds.size === 1 ? Array.from(projectIds)[0] : null;
+    const entriesByRate = new Map<number, HourEntry[]>();
+    for (const entry of billable) {
+      const entryRate = resolveRate(entry);
+      entriesByRate.set(entryRate, [...(entriesByRate.get(entryRate) ?? []), entry]);
+    }
+    if (entriesByRate.size === 0) {
+      return [{ ...buildHoursItem(concept, 0, entries.length > 0 ? resolveRate(entries[0]) : 0, projectId), entry_ids: [] }];
+    }
+    return Array.from(entriesByRate.entries())
+      .sort(([a], [b]) => a - b)
+      .map(([lineRate, lineEntries]) => ({
+        ...buildHoursItem(concept, lineEntries.reduce((sum, entry) => sum + entry.hours, 0), lineRate, projectId),
+        entry_ids: entryIds(lineEntries)
+      }));
+  }
+
+  const groups = new Map<string, { label: string; hours: number; rate: number; projectId: number | null; sortKey: string; entries: HourEntry[] }>();
+
+  for (const entry of billable) {
+    let key: string;
+    let label: string;
+    let projectId: number | null = null;
+    let sortKey: string;
+    const entryRate = resolveRate(entry);
+
+    if (grouping === 'project') {
+      projectId = entry.project_id ?? null;
+      const project = projects.find(p => p.id === projectId);
+      key = String(projectId ?? 'none');
+      label = project ? `${concept} - ${project.name}` : concept;
+      sortKey = project ? project.name : '';
+    } else if (grouping === 'week') {
+      const { start, end } = getWeekBounds(entry.date);
+      key = start;
+      label = `${concept} - Semana del ${formatShortDate(start)} al ${formatShortDate(end)}`;
+      sortKey = key;
+    } else {
+      const description = entry.description?.trim();
+      key = description || '';
+      label = description || concept;
+      sortKey = key;
+    }
+
+    key = `${key}|${entryRate}`;
+    const group = groups.get(key);
+    if (group) {
+      group.hours += entry.hours;
+      group.entries.push(entry);
+    } else {
+      groups.set(key, { label, hours: entry.hours, rate: entryRate, projectId, sortKey, entries: [entry] });
+    }
+  }
+
+  return Array.from(groups.values())
+    .sort((a, b) => a.sortKey.localeCompare(b.sortKey) || a.rate - b.rate)
+    .map(group => ({
+      ...buildHoursItem(group.label, group.hours, group.rate, group.projectId),
+      entry_ids: entryIds(group.entries)
+    }));
+}
+
+// Totales de la cuenta: horas solo de líneas de horas, monto de todas las líneas
+export function calculateInvoiceTotals(items: Array<Pick<InvoiceItem, 'item_type' | 'hours' | 'total'>>): { total_hours: number; total_amount: number } {
+  const totalHours = items
+    .filter(item => item.item_type === 'hours')
+    .reduce((sum, item) => sum + item.hours, 0);
+  const totalAmount = items.reduce((sum, item) => sum + item.total, 0);
+
+  return {
+    total_hours: roundAmount(totalHours),
+    total_amount: roundAmount(totalAmount)
+  };
+}
+
+// Validar y normalizar una línea enviada por el cliente. La tarifa por defecto es la de la empresa.
+export function parseInvoiceItemRequest(
+  body: InvoiceItemRequest,
+  defaultRate: number,
+  fallback?: InvoiceItemDraft
+): { item: InvoiceItemDraft } | { error: string } {
+  const itemType = body.item_type ?? fallback?.item_type ?? 'hours';
+  if (!INVOICE_ITEM_TYPES.includes(itemType)) {
+    return { error: `Tipo de línea inválido. Valores permitidos: ${INVOICE_ITEM_TYPES.join(', ')}` };
+  }
+
+  const concept = (body.concept ?? fallback?.concept ?? '').toString().trim();
+  if (!concept) {
+    return { error: 'El concepto es obligatorio' };
+  }
+
+  const projectId = body.project_id !== undefined ? body.project_id : fallback?.project_id ?? null;
+
+  if (itemType === 'hours') {
+    const hours = body.hours ?? (fallback?.item_type === 'hours' ? fallback.hours : undefined);
+    const rate = body.rate ?? (fallback?.item_type === 'hours' ? fallback.rate : defaultRate);
+
+    if (typeof hours !== 'number' || !Number.isFinite(hours) || hours <= 0) {
+      return { error: 'Las horas deben ser un número mayor que 0' };
+    }
+    if (typeof rate !== 'number' || !Number.isFinite(rate) || rate < 0) {
+      return { error: 'La tarifa debe ser positiva' };
+    }
+
+    return { item: buildHoursItem(concept, hours, rate, projectId) };
+  }
+
+  const amount = body.amount ?? (fallback && fallback.item_type !== 'hours' ? Math.abs(fallback.total) : undefined);
+  if (typeof amount !== 'number' || !Number.isFinite(amount) || amount <= 0) {
+    return { error: 'El monto debe ser un número mayor que 0' };
+  }
+
+  return { item: buildAmountItem(itemType, concept, amount, projectId) };
+}
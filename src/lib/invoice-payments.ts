@@ -0,0 +1,23 @@
+import { Invoice, InvoicePaymentMethod, InvoiceStatus } from './types';
+
+export const INVOICE_PAYMENT_METHODS: InvoicePaymentMethod[] = ['transfer', 'cash', 'check', 'other'];
+
+// Estados en los que la cuenta ya fue enviada y puede recibir pagos
+export const PAYABLE_INVOICE_STATUSES: InvoiceStatus[] = ['sent', 'partially_paid'];
+
+export const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+// Saldo pendiente de la cuenta sobre el neto a pagar (después de retenciones)
+export function getInvoiceBalance(invoice: Pick<Invoice, 'total_amount' | 'net_amount' | 'amount_paid'>): number {
+  return roundMoney((invoice.net_amount ?? invoice.total_amount) - (invoice.amount_paid ?? 0));
+}
+
+// Estado que corresponde a lo pagado. Borradores y canceladas no cambian por pagos.
+export function getStatusForPayments(status: InvoiceStatus, totalAmount: number, amountPaid: number): InvoiceStatus {
+  if (status === 'draft' || status === 'cancelled') return status;
+
+  const balance = roundMoney(totalAmount - amountPaid);
+  if (balance <= 0) return 'paid';
+  if (amountPaid > 0) return 'partially_paid';
+  return 'sent';
+}
@@ -0,0 +1,242 @@
+import { jsPDF } from 'jspdf';
+import { Invoice, InvoiceItemType } from './types';
+import { formatMoney, formatPrice } from './formatters';
+import { getInvoiceTaxLines } from './invoice-taxes';
+import { formatDate } from './dates';
+
+const MARGIN = 20;
+const PAGE_BOTTOM = 277;
+
+const itemTypeLabels: Record<InvoiceItemType, string> = {
+  hours: 'Horas',
+  fixed_fee: 'Tarifa fija',
+  expense: 'Gasto',
+  discount: 'Descuento'
+};
+
+const formatShortDate = (value: string) => formatDate(value, { day: '2-digit', month: '2-digit', year: 'numeric' });
+
+// Renderizar la cuenta de cobro completa a PDF (A4, mismo contenido que InvoiceView)
+export function renderInvoicePdf(invoice: Invoice): ArrayBuffer {
+  const doc = new jsPDF();
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const contentWidth = pageWidth - MARGIN * 2;
+  const currency = invoice.currency ?? 'COP';
+  const money = (amount: number) => formatMoney(amount, currency);
+  const rightX = pageWidth - MARGIN;
+  let y = MARGIN;
+
+  const ensureSpace = (height: number) => {
+    if (y + height > PAGE_BOTTOM) {
+      doc.addPage();
+      y = MARGIN;
+    }
+  };
+
+  // Encabezado
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(20);
+  doc.text('CUENTA DE COBRO', MARGIN, y);
+  y += 8;
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(12);
+  doc.text(`No. ${invoice.number}`, MARGIN, y);
+  y += 12;
+
+  // DEBE A (emisor) a la izquierda, PARA (cliente) a la derecha
+  const issuerLines = [
+    `${invoice.issuer_id_type} ${invoice.issuer_id_number}`,
+    invoice.issuer_address,
+    invoice.issuer_city,
+    invoice.issuer_phone
+  ].filter((line): line is string => !!line);
+  const clientLines = [
+    invoice.client_nit,
+    invoice.client_address,
+    invoice.client_city,
+    `Fecha de Emisión: ${formatShortDate(invoice.issue_date)}`,
+    `Periodo: ${formatShortDate(invoice.period_start)} - ${formatShortDate(invoice.period_end)}`,
+    invoice.project_name ? `Proyecto: ${invoice.project_name}` : undefined
+  ].filter((line): line is string => !!line);
+
+  doc.setFontSize(9);
+  doc.setFont('helvetica', 'bold');
+  doc.text('DEBE A', MARGIN, y);
+  doc.text('PARA', rightX, y, { align: 'right' });
+  y += 6;
+
+  doc.setFontSize(12);
+  doc.text(invoice.issuer_name, MARGIN, y);
+  doc.text(invoice.client_name, rightX, y, { align: 'right' });
+  y += 6;
+
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(10);
+  const partyRows = Math.max(issuerLines.length, clientLines.length);
+  for (let i = 0; i < partyRows; i++) {
+    if (issuerLines[i]) doc.text(issuerLines[i], MARGIN, y);
+    if (clientLines[i]) doc.text(clientLines[i], rightX, y, { align: 'right' });
+    y += 5;
+  }
+  y += 8;
+
+  // Tabla de servicios
+  const columns = {
+    concept: MARGIN + 2,
+    hours: MARGIN + contentWidth * 0.6,
+    rate: MARGIN + contentWidth * 0.8,
+    total: rightX - 2
+  };
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(12);
+  doc.text('Detalles del Servicio', MARGIN, y);
+  y += 6;
+
+  const drawTableHeader = () => {
+    doc.setFillColor(243, 244, 246);
+    doc.rect(MARGIN, y - 5, contentWidth, 8, 'F');
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(9);
+    doc.text('CONCEPTO', columns.concept, y);
+    doc.text('HORAS', columns.hours, y, { align: 'center' });
+    doc.text('TARIFA POR HORA', columns.rate, y, { align: 'right' });
+    doc.text('TOTAL', columns.total, y, { align: 'right' });
+    y += 8;
+  };
+
+  drawTableHeader();
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(10);
+
+  for (const item of invoice.items ?? []) {
+    const isHours = item.item_type === 'hours';
+    const concept = isHours ? item.concept : `${item.concept} (${itemTypeLabels[item.item_type]})`;
+    const conceptLines: string[] = doc.splitTextToSize(concept, contentWidth * 0.5);
+    const rowHeight = conceptLines.length * 5 + 3;
+
+    if (y + rowHeight > PAGE_BOTTOM) {
+      doc.addPage();
+      y = MARGIN + 5;
+      drawTableHeader();
+      doc.setFont('helvetica', 'normal');
+      doc.setFontSize(10);
+    }
+
+    doc.text(conceptLines, columns.concept, y);
+    doc.text(isHours ? String(item.hours) : '-', columns.hours, y, { align: 'center' });
+    doc.text(isHours ? money(item.rate) : '-', columns.rate, y, { align: 'right' });
+    doc.text(money(item.total), columns.total, y, { align: 'right' });
+    y += rowHeight;
+    doc.setDrawColor(229, 231, 235);
+    doc.line(MARGIN, y - 4, rightX, y - 4);
+  }
+  y += 4;
+
+  // Subtotal, IVA y retenciones
+  const taxLines = getInvoiceTaxLines(invoice);
+  if (taxLines.length > 0) {
+    const labelX = MARGIN + contentWidth * 0.45;
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(10);
+    for (const line of [{ label: 'Subtotal', amount: invoice.total_amount }, ...taxLines]) {
+      ensureSpace(6);
+      doc.text(line.label, labelX, y);
+      doc.text(money(line.amount), rightX - 2, y, { align: 'right' });
+      y += 6;
+    }
+    y += 4;
+  }
+
+  // Total
+  ensureSpace(14);
+  doc.setFillColor(31, 41, 55);
+  doc.rect(MARGIN, y - 6, contentWidth, 12, 'F');
+  doc.setTextColor(255, 255, 255);
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(14);
+  doc.text(taxLines.length > 0 ? 'Neto a Pagar' : 'Total a Pagar', MARGIN + 4, y + 2);
+  doc.text(money(invoice.net_amount ?? invoice.total_amount), rightX - 4, y + 2, { align: 'right' });
+  doc.setTextColor(0, 0, 0);
+  y += 14;
+
+  // Equivalente en pesos para cuentas en moneda extranjera
+  if (currency !== 'COP') {
+    ensureSpace(8);
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(10);
+    doc.text(`Equivalente en COP (tasa ${formatPrice(invoice.exchange_rate ?? 1, true)})`, MARGIN + 4, y);
+    doc.text(formatPrice((invoice.net_amount ?? invoice.total_amount) * (invoice.exchange_rate ?? 1)), rightX - 4, y, { align: 'right' });
+    y += 8;
+  }
+
+  // Información de pago
+  if (invoice.issuer_bank_name || invoice.issuer_account_number) {
+    ensureSpace(14);
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(10);
+    doc.text('Información de Pago:', MARGIN, y);
+    y += 5;
+    doc.setFont('helvetica', 'normal');
+    const bankData = [
+      invoice.issuer_bank_name && `Banco: ${invoice.issuer_bank_name}`,
+      invoice.issuer_account_type && `Tipo: ${invoice.issuer_account_type}`,
+      invoice.issuer_account_number && `Cuenta: ${invoice.issuer_account_number}`
+    ].filter(Boolean).join('    ');
+    doc.text(bankData, MARGIN, y);
+    y += 10;
+  }
+
+  // Nota de seguridad social
+  if (invoice.social_security_note) {
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(8);
+    const noteLines: string[] = doc.splitTextToSize(invoice.social_security_note, contentWidth);
+    ensureSpace(noteLines.length * 4);
+    doc.text(noteLines, MARGIN, y);
+    y += noteLines.length * 4 + 4;
+  }
+
+  // Declaración
+  if (invoice.issuer_declaration) {
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(8);
+    const declarationLines: string[] = doc.splitTextToSize(invoice.issuer_declaration, contentWidth);
+    ensureSpace(declarationLines.length * 4);
+    doc.text(declarationLines, MARGIN, y);
+    y += declarationLines.length * 4 + 6;
+  }
+
+  // Firma
+  const signatureWidth = 48;
+  const signatureHeight = 16;
+  ensureSpace(signatureHeight + 16);
+  const centerX = pageWidth / 2;
+
+  if (invoice.issuer_signature_image) {
+    try {
+      const properties = doc.getImageProperties(invoice.issuer_signature_image);
+      const scale = Math.min(signatureWidth / properties.width, signatureHeight / properties.height);
+      const width = properties.width * scale;
+      const height = properties.height * scale;
+      doc.addImage(invoice.issuer_signature_image, centerX - width / 2, y + (signatureHeight - height), width, height);
+    } catch (error) {
+      // Una firma corrupta no debe impedir generar el documento
+      console.error('Error adding signature to invoice PDF:', error);
+    }
+  }
+  y += signatureHeight + 2;
+
+  doc.setDrawColor(156, 163, 175);
+  doc.line(centerX - 32, y, centerX + 32, y);
+  y += 5;
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(10);
+  doc.text(invoice.issuer_name, centerX, y, { align: 'center' });
+  y += 4;
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(8);
+  doc.text('Firma Autorizada', centerX, y, { align: 'center' });
+
+  return doc.output('arraybuffer');
+}
@@ -0,0 +1,84 @@
+import { CompanyBillingInfo, Invoice, UserBillingInfo } from './types';
+import { roundMoney } from './invoice-payments';
+
+export interface InvoiceTaxLine {
+  label: string;
+  amount: number; // Negativo para retenciones
+}
+
+export const DEFAULT_IVA_RATE = 19;
+
+export interface InvoiceTaxRates {
+  iva_rate: number; // %
+  retefuente_rate: number; // %
+  reteica_rate: number; // por mil
+}
+
+export type InvoiceTaxAmounts = Pick<
+  Invoice,
+  'iva_amount' | 'gross_amount' | 'retefuente_amount' | 'reteica_amount' | 'total_deductions' | 'net_amount'
+>;
+
+// Tarifas aplicables a una cuenta: el perfil del usuario define IVA y tarifas base,
+// la empresa decide si retiene y puede sobrescribir las tarifas
+export function resolveInvoiceTaxRates(
+  userInfo: UserBillingInfo | null,
+  companyInfo: CompanyBillingInfo | null
+): InvoiceTaxRates {
+  const ivaRate = userInfo?.iva_responsible ? userInfo.iva_rate ?? DEFAULT_IVA_RATE : 0;
+  const retefuenteRate = companyInfo?.applies_retefuente
+    ? companyInfo.retefuente_rate ?? userInfo?.retefuente_rate ?? 0
+    : 0;
+  const reteicaRate = companyInfo?.applies_reteica
+    ? companyInfo.reteica_rate ?? userInfo?.reteica_rate ?? 0
+    : 0;
+
+  return {
+    iva_rate: ivaRate,
+    retefuente_rate: retefuenteRate,
+    reteica_rate: reteicaRate
+  };
+}
+
+// Las retenciones se calculan sobre el subtotal (antes de IVA)
+export function calculateInvoiceTaxes(subtotal: number, rates: InvoiceTaxRates): Required<InvoiceTaxAmounts> {
+  const ivaAmount = roundMoney(subtotal * rates.iva_rate / 100);
+  const grossAmount = roundMoney(subtotal + ivaAmount);
+  const retefuenteAmount = roundMoney(subtotal * rates.retefuente_rate / 100);
+  const reteicaAmount = roundMoney(subtotal * rates.reteica_rate / 1000);
+  const totalDeductions = roundMoney(retefuenteAmount + reteicaAmount);
+
+  return {
+    iva_amount: ivaAmount,
+    gross_amount: grossAmount,
+    retefuente_amount: retefuenteAmount,
+    reteica_amount: reteicaAmount,
+    total_deductions: totalDeductions,
+    net_amount: roundMoney(grossAmount - totalDeductions)
+  };
+}
+
+export function validateTaxRate(value: unknown, max: number): boolean {
+  return value === undefined || value === null || (typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= max);
+}
+
+const formatRate = (rate: number) => new Intl.NumberFormat('es-CO', { maximumFractionDigits: 3 }).format(rate);
+
+// Líneas entre el subtotal y el neto a pagar, en el orden en que se imprimen.
+// Devuelve una lista vacía si la cuenta no tiene IVA ni retenciones.
+export function getInvoiceTaxLines(invoice: Invoice): InvoiceTaxLine[] {
+  const lines: InvoiceTaxLine[] = [];
+
+  if (invoice.iva_amount) {
+    lines.push({ label: `IVA (${formatRate(invoice.iva_rate ?? 0)}%)`, amount: invoice.iva_amount });
+    lines.push({ label: 'Total bruto', amount: invoice.gross_amount ?? invoice.total_amount });
+  }
+  if (invoice.retefuente_amount) {
+    lines.push({ label: `Retención en la fuente (${formatRate(invoice.retefuente_rate ?? 0)}%)`, amount: -invoice.retefuente_amount });
+  }
+  if (invoice.reteica_amount) {
+    lines.push({ label: `ReteICA (${formatRate(invoice.reteica_rate ?? 0)}‰)`, amount: -invoice.reteica_amount });
+  }
+
+  return lines;
+}
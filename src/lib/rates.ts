@@ -0,0 +1,59 @@
+import { CompanyRate, HourEntry } from './types';
+
+// Tarifa aplicable a una entrada según su fecha y proyecto
+export type RateResolver = (entry: Pick<HourEntry, 'date' | 'project_id'>) => number;
+
+// Fecha base para la tarifa inicial de cada empresa (aplica a todas las horas anteriores)
+export const BASE_RATE_EFFECTIVE_FROM = '1970-01-01';
+
+// Última tarifa con effective_from <= fecha dentro de una lista ordenada ascendente
+function findEffectiveRate(rates: CompanyRate[], date: string): number | null {
+  let match: number | null = null;
+  for (const rate of rates) {
+    if (rate.effective_from > date) break;
+    match = rate.hourly_rate;
+  }
+  return match;
+}
+
+// La tarifa especial del proyecto tiene prioridad sobre la general de la empresa.
+// Sin historial aplicable se usa la tarifa actual de la empresa.
+export function createRateResolver(rates: CompanyRate[], fallbackRate: number): RateResolver {
+  const sorted = [...rates].sort((a, b) => a.effective_from.localeCompare(b.effective_from));
+  const companyRates = sorted.filter(rate => rate.project_id === null);
+  const projectRates = new Map<number, CompanyRate[]>();
+
+  for (const rate of sorted) {
+    if (rate.project_id === null) continue;
+    const list = projectRates.get(rate.project_id) ?? [];
+    list.push(rate);
+    projectRates.set(rate.project_id, list);
+  }
+
+  return (entry) => {
+    if (entry.project_id != null) {
+      const overrides = projectRates.get(entry.project_id);
+      const projectRate = overrides ? findEffectiveRate(overrides, entry.date) : null;
+      if (projectRate !== null) return projectRate;
+    }
+    return findEffectiveRate(companyRates, entry.date) ?? fallbackRate;
+  };
+}
+
+// Acepta una tarifa fija (compatibilidad) o un resolvedor por entrada
+export function toRateResolver(rate: number | RateResolver): RateResolver {
+  return typeof rate === 'number' ? () => rate : rate;
+}
+
+// Las entradas sin `billable` (datos anteriores) se cobran
+export const isBillableEntry = (entry: Pick<HourEntry, 'billable'>) => entry.billable !== false;
+
+export function calculateBillableHours(entries: HourEntry[]): number {
+  return entries.reduce((sum, entry) => sum + (isBillableEntry(entry) ? entry.hours : 0), 0);
+}
+
+// Solo las horas facturables generan ingresos
+export function calculateEarnings(entries: HourEntry[], rate: number | RateResolver): number {
+  const resolveRate = toRateResolver(rate);
+  return entries.reduce((sum, entry) => sum + (isBillableEntry(entry) ? entry.hours * resolveRate(entry) : 0), 0);
+}
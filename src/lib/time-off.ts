@@ -0,0 +1,107 @@
+import { TimeOff, TimeOffRequest, TimeOffType, TimeOffYearSummary } from './types';
+import { isDateString, isWeekend, listDates } from './dates';
+
+export const TIME_OFF_TYPES: TimeOffType[] = ['vacation', 'sick', 'personal', 'parental', 'other'];
+
+export const TIME_OFF_TYPE_LABELS: Record<TimeOffType, string> = {
+  vacation: 'Vacaciones',
+  sick: 'Incapacidad',
+  personal: 'Permiso personal',
+  parental: 'Licencia de maternidad/paternidad',
+  other: 'Otro'
+};
+
+export function validateTimeOffRequest(body: Partial<TimeOffRequest>): string | null {
+  if (!body.type || !TIME_OFF_TYPES.includes(body.type)) {
+    return `Tipo inválido. Valores permitidos: ${TIME_OFF_TYPES.join(', ')}`;
+  }
+  if (!isDateString(body.start_date) || !isDateString(body.end_date)) {
+    return 'Formato de fecha inválido, usa YYYY-MM-DD';
+  }
+  if (body.start_date > body.end_date) {
+    return 'La fecha inicial debe ser menor o igual que la final';
+  }
+  if (body.paid_hours_per_day != null) {
+    if (body.company_id == null) {
+      return 'Las horas pagadas requieren una empresa';
+    }
+    if (typeof body.paid_hours_per_day !== 'number' || body.paid_hours_per_day < 0 || body.paid_hours_per_day > 24) {
+      return 'Las horas pagadas por día deben estar entre 0 y 24';
+    }
+  }
+  return null;
+}
+
+// Dos periodos chocan si se cruzan en fechas y aplican a la misma empresa (o alguno a todas)
+export function timeOffOverlaps(a: Pick<TimeOff, 'company_id' | 'start_date' | 'end_date'>, b: Pick<TimeOff, 'company_id' | 'start_date' | 'end_date'>): boolean {
+  const sameScope = a.company_id == null || b.company_id == null || a.company_id === b.company_id;
+  return sameScope && a.start_date <= b.end_date && b.start_date <= a.end_date;
+}
+
+// Tiempo libre que aplica a una empresa (los periodos sin empresa aplican a todas)
+export function filterTimeOffForCompany(timeOff: TimeOff[], companyId?: number | null): TimeOff[] {
+  if (companyId == null) return timeOff;
+  return timeOff.filter(period => period.company_id == null || period.company_id === companyId);
+}
+
+// Cualquier fecha dentro de un periodo de tiempo libre, incluidos fines de semana y festivos
+export function createTimeOffChecker(timeOff: Pick<TimeOff, 'start_date' | 'end_date'>[]): (date: string) => boolean {
+  return (date: string) => timeOff.some(period => date >= period.start_date && date <= period.end_date);
+}
+
+// Días hábiles de tiempo libre (lunes a viernes que no son festivos): los que cuentan como días tomados
+export function createTimeOffDayChecker(
+  timeOff: Pick<TimeOff, 'start_date' | 'end_date'>[],
+  isHoliday: (date: string) => boolean = () => false
+): (date: string) => boolean {
+  const inTimeOff = createTimeOffChecker(timeOff);
+  return (date: string) => inTimeOff(date) && !isWeekend(date) && !isHoliday(date);
+}
+
+// Días hábiles del periodo, opcionalmente recortado a un rango
+export function getTimeOffBusinessDays(
+  period: Pick<TimeOff, 'start_date' | 'end_date'>,
+  isHoliday: (date: string) => boolean = () => false,
+  from: string = period.start_date,
+  to: string = period.end_date
+): string[] {
+  const start = from > period.start_date ? from : period.start_date;
+  const end = to < period.end_date ? to : period.end_date;
+  if (start > end) return [];
+  return listDates(start, end).filter(date => !isWeekend(date) && !isHoliday(date));
+}
+
+// Resumen anual: días hábiles tomados por tipo y horas pagadas. Los periodos que cruzan el año
+// solo cuentan los días de ese año, y un día registrado en varias empresas cuenta una vez
+export function summarizeTimeOffYear(
+  timeOff: TimeOff[],
+  year: number,
+  isHoliday: (date: string) => boolean = () => false
+): TimeOffYearSummary {
+  const from = `${year}-01-01`;
+  const to = `${year}-12-31`;
+  const datesByType = new Map<TimeOffType, Set<string>>(TIME_OFF_TYPES.map(type => [type, new Set<string>()]));
+  const allDates = new Set<string>();
+  let paidHours = 0;
+
+  const periods = timeOff
+    .filter(period => period.start_date <= to && period.end_date >= from)
+    .map(period => {
+      const dates = getTimeOffBusinessDays(period, isHoliday, from, to);
+      dates.forEach(date => {
+        datesByType.get(period.type)!.add(date);
+        allDates.add(date);
+      });
+      paidHours += dates.length * (period.paid_hours_per_day ?? 0);
+      return { ...period, days: dates.length };
+    })
+    .sort((a, b) => a.start_date.localeCompare(b.start_date));
+
+  return {
+    year,
+    total_days: allDates.size,
+    days_by_type: Object.fromEntries(TIME_OFF_TYPES.map(type => [type, datesByType.get(type)!.size])) as Record<TimeOffType, number>,
+    paid_hours: Math.round(paidHours * 100) / 100,
+    periods
+  };
+}
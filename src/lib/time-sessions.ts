@@ -0,0 +1,27 @@
+import { TimeSession } from './types';
+
+// Segundos netos trabajados en una sesión (descontando pausas)
+export function getTimeSessionElapsedSeconds(session: TimeSession, now: Date = new Date()): number {
+  const startedAt = new Date(session.started_at).getTime();
+  const endTime = session.ended_at
+    ? new Date(session.ended_at).getTime()
+    : session.paused_at
+      ? new Date(session.paused_at).getTime()
+      : now.getTime();
+
+  const elapsed = Math.floor((endTime - startedAt) / 1000) - session.paused_seconds;
+  return Math.max(0, elapsed);
+}
+
+// Convertir segundos a horas redondeadas a centésimas
+export function secondsToHours(seconds: number): number {
+  return Math.round((seconds / 3600) * 100) / 100;
+}
+
+// Formatear segundos como HH:MM:SS
+export function formatElapsed(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = seconds % 60;
+  return [hours, minutes, secs].map(value => value.toString().padStart(2, '0')).join(':');
+}
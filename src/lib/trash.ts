@@ -0,0 +1,59 @@
+import { Company, HourEntry, Project, TrashItem } from './types';
+import { formatHours } from './formatters';
+import { toDateString } from './dates';
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+// Días que un elemento pasa en la papelera antes de purgarse (TRASH_RETENTION_DAYS, default 30)
+export function getTrashRetentionDays(): number {
+  const value = parseInt(process.env.TRASH_RETENTION_DAYS ?? '');
+  return Number.isFinite(value) && value >= 1 ? value : DEFAULT_TRASH_RETENTION_DAYS;
+}
+
+// deleted_at se guarda en UTC con el formato de SQLite (YYYY-MM-DD HH:MM:SS)
+export function getPurgeDate(deletedAt: string, retentionDays: number): string {
+  const date = new Date(deletedAt.replace(' ', 'T') + 'Z');
+  date.setUTCDate(date.getUTCDate() + retentionDays);
+  return toDateString(date);
+}
+
+// Lista de la papelera con nombres legibles; los nombres se buscan también entre los eliminados
+export function buildTrashItems(
+  trash: { companies: Company[]; projects: Project[]; entries: HourEntry[] },
+  companies: Company[],
+  projects: Project[],
+  retentionDays: number
+): TrashItem[] {
+  const companyName = (id: number) =>
+    [...companies, ...trash.companies].find(company => company.id === id)?.name ?? 'Empresa';
+  const projectName = (id: number | null | undefined) =>
+    id == null ? null : [...projects, ...trash.projects].find(project => project.id === id)?.name ?? null;
+
+  const items: Omit<TrashItem, 'purge_at'>[] = [
+    ...trash.companies.map(company => ({
+      type: 'company' as const,
+      id: company.id!,
+      label: company.name,
+      detail: 'Empresa con sus proyectos, horas y cuentas de cobro',
+      deleted_at: company.deleted_at!
+    })),
+    ...trash.projects.map(project => ({
+      type: 'project' as const,
+      id: project.id!,
+      label: project.name,
+      detail: companyName(project.company_id),
+      deleted_at: project.deleted_at!
+    })),
+    ...trash.entries.map(entry => ({
+      type: 'entry' as const,
+      id: entry.id!,
+      label: `${entry.date} · ${formatHours(entry.hours)} h${entry.description ? ` · ${entry.description}` : ''}`,
+      detail: [companyName(entry.company_id), projectName(entry.project_id)].filter(Boolean).join(' / '),
+      deleted_at: entry.deleted_at!
+    }))
+  ];
+
+  return items
+    .map(item => ({ ...item, purge_at: getPurgeDate(item.deleted_at, retentionDays) }))
+    .sort((a, b) => b.deleted_at.localeCompare(a.deleted_at));
+}
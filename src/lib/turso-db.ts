@@ -1,5 +1,6 @@
 import { createClient } from '@libsql/client';
 import { HourEntry, Settings, EntryChange, WeekdayAverage } from './types';
+import { isoWeekday, listDates } from './dates';
 
 type TursoClient = ReturnType<typeof createClient>;
 
@@ -207,12 +208,12 @@ class TursoDatabase {
     const client = this.getClient();
     const result = await client.execute(`
       SELECT 
-        CAST(strftime('%w', date) AS INTEGER) as weekday,
+        (CAST(strftime('%w', date) AS INTEGER) + 6) % 7 as weekday,
         AVG(hours) as average,
         SUM(hours) as total_hours,
         COUNT(*) as entry_count
       FROM entries 
-      GROUP BY CAST(strftime('%w', date) AS INTEGER)
+      GROUP BY weekday
       ORDER BY weekday
     `);
 
@@ -227,10 +228,10 @@ class TursoDatabase {
     const client = this.getClient();
     const averagesResult = await client.execute(`
       SELECT 
-        CAST(strftime('%w', date) AS INTEGER) as weekday,
+        (CAST(strftime('%w', date) AS INTEGER) + 6) % 7 as weekday,
         AVG(hours) as average
       FROM entries 
-      GROUP BY CAST(strftime('%w', date) AS INTEGER)
+      GROUP BY weekday
       HAVING COUNT(*) > 0
     `);
 
@@ -240,14 +241,9 @@ class TursoDatabase {
     }
 
     const changes: EntryChange[] = [];
-    // eslint-disable-next-line prefer-const
-    let currentDate = new Date(startDate);
-    const endDateObj = new Date(endDate);
 
-    while (currentDate <= endDateObj) {
-      const dateStr = currentDate.toISOString().split('T')[0];
-      const weekday = currentDate.getDay();
-      const averageHours = averages.get(weekday);
+    for (const dateStr of listDates(startDate, endDate)) {
+      const averageHours = averages.get(isoWeekday(dateStr));
 
       if (averageHours !== undefined) {
         const existingResult = await client.execute({
@@ -279,8 +275,6 @@ class TursoDatabase {
           });
         }
       }
-
-      currentDate.setDate(currentDate.getDate() + 1);
     }
 
     return changes;
@@ -5,16 +5,43 @@ export interface User {
   email: string;
   password_hash: string;
   name: string;
+  timezone?: string; // Zona horaria IANA; por defecto America/Bogota
   created_at?: string;
 }
 
+// Monedas en que se puede facturar; COP es la moneda base de los reportes
+export type CurrencyCode = 'COP' | 'USD' | 'EUR';
+
 export interface Company {
   id?: number;
   name: string;
-  hourly_rate: number;
+  hourly_rate: number; // En la moneda de la empresa
   billing_cycle_day: number; // Day of month when billing cycle starts (1-31)
+  currency: CurrencyCode;
   user_id: number;
   created_at?: string;
+  deleted_at?: string | null; // En la papelera desde esta fecha
+}
+
+// Tarifa por hora vigente desde una fecha. project_id = null es la tarifa general de la empresa;
+// con project_id es una tarifa especial para ese proyecto.
+export interface CompanyRate {
+  id?: number;
+  company_id: number;
+  project_id: number | null;
+  hourly_rate: number;
+  effective_from: string; // YYYY-MM-DD; vale hasta la siguiente tarifa del mismo alcance
+  created_at?: string;
+}
+
+// Tasa de cambio registrada manualmente: pesos colombianos por unidad de la moneda
+export interface ExchangeRate {
+  id?: number;
+  user_id: number;
+  currency: CurrencyCode;
+  rate: number;
+  effective_date: string; // YYYY-MM-DD; vale hasta la siguiente tasa registrada
+  created_at?: string;
 }
 
 export interface Project {
@@ -22,7 +49,9 @@ export interface Project {
   name: string;
   company_id: number;
   user_id: number;
+  billable_default?: boolean; // Valor de `billable` para las entradas nuevas del proyecto (default true)
   created_at?: string;
+  deleted_at?: string | null;
 }
 
 export interface HourEntry {
@@ -32,42 +61,352 @@ export interface HourEntry {
   description?: string;
   company_id: number;
   project_id?: number | null;
+  // Horario opcional (HH:MM); si existe, hours se calcula de él descontando la pausa
+  start_time?: string | null;
+  end_time?: string | null;
+  break_minutes?: number;
+  billable?: boolean; // false = horas internas que no se cobran (default true)
+  tags?: string[]; // Nombres de las etiquetas del usuario asignadas a la entrada
+  // Línea de cuenta de cobro que facturó la entrada (null si no se ha facturado)
+  invoice_item_id?: number | null;
+  invoice_id?: number | null;
+  invoice_number?: string | null;
+  invoice_status?: InvoiceStatus | null;
+  created_at?: string;
+  deleted_at?: string | null;
+}
+
+// Etiquetas definidas por el usuario (meeting, bugfix, support...) para clasificar entradas
+export interface Tag {
+  id?: number;
+  user_id: number;
+  name: string;
+  entry_count?: number;
+  created_at?: string;
+}
+
+export interface CreateTagRequest {
+  name: string;
+}
+
+// Asignación masiva: agrega y/o quita etiquetas de varias entradas
+export interface BulkEntryTagsRequest {
+  entry_ids: number[];
+  add?: string[];
+  remove?: string[];
+}
+
+export interface TagReportSummary {
+  tag: string | null; // null = entradas sin etiqueta
+  hours: number;
+  amount: number;
+  share: number; // Porcentaje de las horas del periodo
+  entry_count: number;
+}
+
+// Sesiones de cronómetro: al detenerse se consolidan en la HourEntry del día
+export type TimeSessionStatus = 'running' | 'paused' | 'stopped';
+
+export interface TimeSession {
+  id?: number;
+  user_id: number;
+  company_id: number;
+  project_id?: number | null;
+  description?: string;
+  date: string; // Día (YYYY-MM-DD) al que se imputan las horas
+  status: TimeSessionStatus;
+  started_at: string; // ISO timestamp
+  paused_at?: string | null; // ISO timestamp de la pausa en curso
+  paused_seconds: number; // Segundos acumulados en pausas ya terminadas
+  ended_at?: string | null;
+  hours?: number | null; // Horas netas al detenerse
+  entry_id?: number | null; // HourEntry donde se consolidó
   created_at?: string;
 }
 
+export interface StartTimerRequest {
+  company_id: number;
+  project_id?: number | null;
+  description?: string;
+  date?: string; // Fecha local del cliente (default: hoy en el servidor)
+}
+
+// Plantilla de horas recurrentes: se repite en sus días cada `interval_weeks` semanas desde start_date
+export interface EntryTemplate {
+  id?: number;
+  user_id: number;
+  company_id: number;
+  project_id?: number | null;
+  weekdays: number[]; // ISO como WEEKDAY_ALIASES: 0 = lunes, 6 = domingo
+  interval_weeks: number;
+  hours: number;
+  description: string;
+  start_date: string; // Semana de referencia para el intervalo
+  end_date?: string | null;
+  active: boolean;
+  created_at?: string;
+}
+
+export interface EntryTemplateRequest {
+  company_id: number;
+  project_id?: number | null;
+  weekdays: string[]; // Nombres o abreviaturas (ver WEEKDAY_ALIASES)
+  interval_weeks?: number;
+  hours: number;
+  description?: string;
+  start_date?: string;
+  end_date?: string | null;
+  active?: boolean;
+}
+
+// Genera las horas de las plantillas activas en un rango con los modos de BulkAddRequest
+export interface MaterializeTemplatesRequest {
+  start_date: string;
+  end_date: string;
+  template_ids?: number[]; // Por defecto todas las activas
+  mode?: BulkAddRequest['mode'];
+  skip_existing?: boolean;
+  include_holidays?: boolean; // Por defecto se omiten festivos y días libres
+  preview?: boolean; // Por defecto true: solo devuelve los cambios
+}
+
 export interface Settings {
   hourly_rate: number | null;
 }
 
+// Efecto de una carga sobre un día: crear, sobrescribir o acumular horas, omitirlo o chocar con lo existente
+export type EntryChangeKind = 'create' | 'overwrite' | 'accumulate' | 'skip' | 'conflict';
+
 export interface EntryChange {
   date: string;
   old_value: number | null;
   new_value: number | null;
+  project_id?: number | null;
+  project_name?: string | null;
+  kind?: EntryChangeKind;
+  reason?: string; // Motivo del conflicto
+}
+
+// Papelera: empresas, proyectos y entradas eliminados se pueden restaurar hasta que se purgan
+export type TrashItemType = 'company' | 'project' | 'entry';
+
+export interface TrashItem {
+  type: TrashItemType;
+  id: number;
+  label: string; // Nombre de la empresa o proyecto, o fecha y horas de la entrada
+  detail: string; // Empresa/proyecto al que pertenece
+  deleted_at: string;
+  purge_at: string; // Fecha (YYYY-MM-DD) en que se elimina definitivamente
+}
+
+export interface RestoreTrashItemRequest {
+  type: TrashItemType;
+  id: number;
+}
+
+// Historial de cambios: cada operación (edición, carga masiva, promedios, importación...) es un lote deshacible
+export type EntryChangeSource = 'entry' | 'bulk' | 'fill_average' | 'import' | 'merge' | 'split' | 'timer' | 'tags' | 'template';
+export type EntryChangeAction = 'create' | 'update' | 'delete';
+
+export interface EntryChangeBatch {
+  id?: number;
+  user_id: number;
+  source: EntryChangeSource;
+  summary: string;
+  change_count?: number;
+  undone_at?: string | null;
+  created_at?: string;
+}
+
+// Estado de la entrada antes y después del cambio (null si no existía / fue eliminada)
+export interface EntryChangeRecord {
+  id?: number;
+  batch_id: number;
+  entry_id: number;
+  action: EntryChangeAction;
+  before: HourEntry | null;
+  after: HourEntry | null;
+  created_at?: string;
 }
 
 export interface WeekdayAverage {
   id?: number;
-  weekday: number; // 0 = Sunday, 6 = Saturday
+  weekday: number; // ISO: 0 = lunes, 6 = domingo (ver dates.ts)
   average_hours: number;
   company_id: number;
 }
 
+export interface ProjectWeekdayAverage extends WeekdayAverage {
+  project_id: number;
+}
+
+export interface UpdateWeekdayAveragesRequest {
+  company_id: number;
+  averages: Array<{ weekday: number; average_hours: number }>;
+}
+
+export interface LearnWeekdayAveragesRequest {
+  company_id: number;
+  weeks?: number; // Semanas hacia atrás a considerar (default 8)
+  per_project?: boolean; // Calcular también promedios por proyecto
+  dry_run?: boolean; // Solo calcular, sin guardar
+}
+
 export interface BulkAddRequest {
   start_date: string;
   end_date: string;
   hours: number;
   weekdays?: string[];
+  // set: el total del día queda en `hours` (una sola entrada); accumulate: agrega otra entrada;
+  // error: falla si el día ya tiene entradas
   mode: 'set' | 'accumulate' | 'error';
   skip_existing?: boolean;
+  include_holidays?: boolean; // Por defecto se omiten festivos y días libres del usuario
+  dry_run?: boolean; // Solo calcula los cambios, sin escribir
   company_id: number;
   project_id?: number;
 }
 
+// Festivo nacional (Colombia) o día libre definido por el usuario
+export interface Holiday {
+  date: string;
+  name: string;
+  source: 'national' | 'user';
+  id?: number; // Solo en días libres del usuario
+}
+
+export interface UserDayOff {
+  id?: number;
+  user_id: number;
+  date: string;
+  name: string;
+  created_at?: string;
+}
+
+export interface CreateDayOffRequest {
+  date: string;
+  name?: string;
+}
+
+// Tiempo libre: vacaciones, incapacidades y licencias. Sin empresa aplica a todas
+export type TimeOffType = 'vacation' | 'sick' | 'personal' | 'parental' | 'other';
+
+export interface TimeOff {
+  id?: number;
+  user_id: number;
+  company_id?: number | null;
+  type: TimeOffType;
+  start_date: string;
+  end_date: string; // Inclusive
+  paid_hours_per_day?: number | null; // Horas pagadas por la empresa por cada día hábil (solo con empresa)
+  notes?: string;
+  created_at?: string;
+}
+
+export interface TimeOffRequest {
+  company_id?: number | null;
+  type: TimeOffType;
+  start_date: string;
+  end_date: string;
+  paid_hours_per_day?: number | null;
+  notes?: string;
+}
+
+// Días hábiles tomados en un año (lunes a viernes sin festivos) por tipo
+export interface TimeOffYearSummary {
+  year: number;
+  total_days: number;
+  days_by_type: Record<TimeOffType, number>;
+  paid_hours: number;
+  periods: Array<TimeOff & { days: number }>;
+}
+
+// Vista por día: las entradas son independientes y el total del día se calcula sobre ellas
+export interface DailyEntrySummary {
+  date: string;
+  company_id: number;
+  project_id: number | null;
+  hours: number;
+  entry_count: number;
+  entry_ids: number[];
+  descriptions: string[];
+}
+
+export interface MergeDayRequest {
+  company_id: number;
+  date: string;
+  project_id: number | null;
+}
+
+export interface SplitEntryPart {
+  hours: number;
+  description?: string;
+  project_id?: number | null;
+}
+
+export interface SplitEntryRequest {
+  id: number;
+  parts: SplitEntryPart[];
+}
+
+// Importación de horas desde CSV (Toggl, Clockify o una hoja genérica)
+export type EntryImportFormat = 'toggl' | 'clockify' | 'generic';
+export type EntryImportDateOrder = 'dmy' | 'mdy';
+
+// Nombre de la columna del CSV para cada campo
+export interface EntryImportColumnMap {
+  date?: string;
+  hours?: string;
+  project?: string;
+  description?: string;
+}
+
+export interface EntryImportRequest {
+  csv: string;
+  company_id: number;
+  format?: EntryImportFormat | 'auto';
+  columns?: EntryImportColumnMap;
+  date_order?: EntryImportDateOrder; // Para fechas con barras (15/03/2026 vs 03/15/2026)
+  mode?: BulkAddRequest['mode'];
+  skip_existing?: boolean;
+  project_id?: number | null; // Proyecto para las filas sin proyecto
+  preview?: boolean; // Por defecto true: solo calcula los cambios
+}
+
+export interface EntryImportResult {
+  format: EntryImportFormat;
+  preview: boolean;
+  rows_read: number;
+  days: number;
+  new_projects: string[];
+  errors: string[];
+}
+
+// Exportación de horas (CSV, XLSX o JSON) con nombres resueltos y montos por entrada
+export type EntryExportFormat = 'csv' | 'xlsx' | 'json';
+export type EntryExportLocale = 'es-CO' | 'en-US';
+
+export interface EntryExportRow {
+  date: string;
+  weekday: string;
+  company_name: string;
+  project_name: string | null;
+  description: string;
+  hours: number;
+  billable: boolean;
+  hourly_rate: number;
+  amount: number;
+  currency: CurrencyCode;
+}
+
 export interface FillAverageRequest {
   start_date: string;
   end_date: string;
   overwrite?: boolean;
   company_id: number;
+  project_id?: number | null; // Usa los promedios del proyecto si existen; null = solo entradas sin proyecto, sin el campo se consideran todos
+  include_holidays?: boolean; // Por defecto no se llenan festivos ni días libres
+  dry_run?: boolean; // Solo calcula los cambios, sin escribir
 }
 
 export interface ApiResponse<T = unknown> {
@@ -75,6 +414,7 @@ export interface ApiResponse<T = unknown> {
   message: string;
   data?: T;
   changes?: EntryChange[];
+  change_batch_id?: number | null; // Lote del historial para deshacer la operación
 }
 
 export const WEEKDAY_NAMES_ES = [
@@ -107,6 +447,11 @@ export interface RegisterRequest {
   email: string;
   password: string;
   name: string;
+  timezone?: string; // Zona del navegador; si no es válida se usa la predeterminada
+}
+
+export interface UpdateTimeZoneRequest {
+  timezone: string;
 }
 
 export interface AuthResponse {
@@ -128,6 +473,45 @@ export interface CreateCompanyRequest {
   description?: string;
   hourly_rate?: number;
   billing_cycle_day?: number;
+  currency?: CurrencyCode;
+}
+
+export interface UpdateCompanyRequest {
+  name?: string;
+  hourly_rate?: number;
+  rate_effective_from?: string; // Desde cuándo aplica la nueva tarifa (default: hoy)
+  billing_cycle_day?: number;
+  currency?: CurrencyCode;
+}
+
+export interface CreateCompanyRateRequest {
+  hourly_rate: number;
+  effective_from?: string; // Default: hoy
+  project_id?: number | null;
+}
+
+export interface CreateExchangeRateRequest {
+  currency: CurrencyCode;
+  rate: number;
+  effective_date?: string; // Default: hoy
+}
+
+export interface UpdateProjectRequest {
+  name: string;
+  billable_default?: boolean;
+}
+
+// Registros que se eliminan (o desasignan) al borrar una empresa o proyecto
+export interface CompanyDeletionImpact {
+  entries: number;
+  projects: number;
+  invoices: number;
+  weekday_averages: number;
+}
+
+export interface ProjectDeletionImpact {
+  entries: number; // Quedan sin proyecto asignado
+  invoice_items: number; // Quedan sin proyecto asignado
 }
 
 // Billing cycle and earnings statistics
@@ -135,7 +519,8 @@ export interface BillingCycleStats {
   cycle_start: string; // ISO date
   cycle_end: string; // ISO date
   total_hours: number;
-  total_earnings: number;
+  billable_hours: number;
+  total_earnings: number; // Solo horas facturables
   days_worked: number;
   average_hours_per_day: number;
 }
@@ -164,6 +549,12 @@ export interface UserBillingInfo {
   account_number?: string;
   signature_image?: string; // Base64 o URL de imagen de firma
   declaration?: string; // Declaración legal estándar
+  // Impuestos y retenciones
+  iva_responsible?: boolean; // Responsable de IVA (cobra IVA sobre el subtotal)
+  iva_rate?: number; // Porcentaje de IVA (default 19)
+  retefuente_rate?: number; // Porcentaje de retención en la fuente que practican los clientes
+  reteica_rate?: number; // Tarifa de ReteICA por mil
+  social_security_note?: string; // Nota sobre aportes a seguridad social (salud, pensión, ARL)
   created_at?: string;
   updated_at?: string;
 }
@@ -179,23 +570,70 @@ export interface CompanyBillingInfo {
   contact_name?: string;
   contact_phone?: string;
   contact_email?: string;
+  // Retenciones que practica la empresa como agente retenedor
+  applies_retefuente?: boolean;
+  retefuente_rate?: number | null; // Sobrescribe el porcentaje del perfil del usuario
+  applies_reteica?: boolean;
+  reteica_rate?: number | null; // Por mil; sobrescribe la tarifa del perfil del usuario
   created_at?: string;
   updated_at?: string;
 }
 
+// Tipo de línea: horas trabajadas o ajustes manuales sin horas
+export type InvoiceItemType = 'hours' | 'fixed_fee' | 'expense' | 'discount';
+
 // Invoice item - Línea individual de la cuenta de cobro
 export interface InvoiceItem {
   id?: number;
   invoice_id: number;
+  item_type: InvoiceItemType;
   concept: string;
-  hours: number;
+  hours: number; // 0 en líneas que no son de horas
   rate: number;
-  total: number; // hours * rate
+  total: number; // hours * rate, o el monto fijo (negativo en descuentos)
+  project_id?: number | null;
+}
+
+// Agrupación de las horas al crear la cuenta de cobro
+export type InvoiceGrouping = 'single' | 'project' | 'week' | 'description';
+
+// Request para agregar/editar una línea en una cuenta en borrador
+export interface InvoiceItemRequest {
+  item_type?: InvoiceItemType; // default: 'hours'
+  concept?: string;
+  hours?: number; // Requerido en líneas de horas
+  rate?: number; // Default: tarifa de la empresa
+  amount?: number; // Requerido en líneas sin horas (valor positivo)
   project_id?: number | null;
 }
 
 // Invoice status
-export type InvoiceStatus = 'draft' | 'sent' | 'paid' | 'cancelled';
+export type InvoiceStatus = 'draft' | 'sent' | 'partially_paid' | 'paid' | 'cancelled';
+
+// Medio de pago. Las retenciones (retención en la fuente, ReteICA) no se registran como pagos: ya se
+// descuentan en net_amount, que es el valor sobre el que se calcula el saldo
+export type InvoicePaymentMethod = 'transfer' | 'cash' | 'check' | 'other';
+
+// Invoice payment - Abono registrado a una cuenta de cobro
+export interface InvoicePayment {
+  id?: number;
+  invoice_id: number;
+  date: string; // Fecha del pago (YYYY-MM-DD)
+  amount: number;
+  method: InvoicePaymentMethod;
+  reference?: string; // Número de transacción, comprobante, etc.
+  notes?: string;
+  created_at?: string;
+}
+
+// Request para registrar un pago
+export interface CreateInvoicePaymentRequest {
+  date: string;
+  amount: number;
+  method?: InvoicePaymentMethod; // default: 'transfer'
+  reference?: string;
+  notes?: string;
+}
 
 // Invoice - Cuenta de cobro
 export interface Invoice {
@@ -225,11 +663,29 @@ export interface Invoice {
   client_nit?: string;
   client_address?: string;
   client_city?: string;
+  // Moneda de la empresa y tasa a COP del día de emisión
+  currency?: CurrencyCode;
+  exchange_rate?: number;
   // Totales
   total_hours: number;
-  total_amount: number;
-  // Items (para respuestas con JOIN)
+  total_amount: number; // Subtotal: suma de las líneas
+  // Impuestos y retenciones (tarifas copiadas al crear la cuenta)
+  iva_rate?: number;
+  iva_amount?: number;
+  gross_amount?: number; // Subtotal + IVA
+  retefuente_rate?: number;
+  retefuente_amount?: number;
+  reteica_rate?: number; // Por mil
+  reteica_amount?: number;
+  total_deductions?: number;
+  net_amount?: number; // Bruto - retenciones: lo que efectivamente paga el cliente
+  social_security_note?: string;
+  // Pagos (calculados a partir de invoice_payments)
+  amount_paid?: number;
+  balance?: number; // net_amount - amount_paid
+  // Items y pagos (para respuestas con JOIN)
   items?: InvoiceItem[];
+  payments?: InvoicePayment[];
   created_at?: string;
   updated_at?: string;
 }
@@ -242,6 +698,9 @@ export interface CreateInvoiceFromHoursRequest {
   project_id?: number | null; // Filtrar por proyecto opcional
   issue_date?: string; // Fecha de emisión (default: hoy)
   concept?: string; // Descripción del servicio (default: "Servicios de Desarrollo")
+  grouping?: InvoiceGrouping; // Cómo dividir las horas en líneas (default: 'single')
+  exchange_rate?: number; // COP por unidad; default: tasa registrada para la fecha de emisión
+  skip_invoiced?: boolean; // Omitir las horas ya facturadas en otra cuenta en lugar de rechazar (default: false)
 }
 
 // Request para crear/actualizar billing info del usuario
@@ -257,6 +716,11 @@ export interface UpdateUserBillingInfoRequest {
   account_number?: string;
   signature_image?: string;
   declaration?: string;
+  iva_responsible?: boolean;
+  iva_rate?: number;
+  retefuente_rate?: number;
+  reteica_rate?: number;
+  social_security_note?: string;
 }
 
 // Request para crear/actualizar billing info de empresa
@@ -269,4 +733,8 @@ export interface UpdateCompanyBillingInfoRequest {
   contact_name?: string;
   contact_phone?: string;
   contact_email?: string;
+  applies_retefuente?: boolean;
+  retefuente_rate?: number | null;
+  applies_reteica?: boolean;
+  reteica_rate?: number | null;
 }
\ No newline at end of file